@@ -6,8 +6,11 @@ const cors = require('cors');
 const helmet = require('helmet');
 const { AccessToken } = require('livekit-server-sdk');
 const jwt = require('jsonwebtoken');
-const roomsRouter = require('./routes/rooms');
+const { createRoomsRouter } = require('./routes/rooms');
 const { initializeSocketHandlers } = require('./signaling/socket');
+const { createRoomStore } = require('./services/roomStore');
+const { getRequestCredentials, isRoomOwner } = require('./services/hostAuth');
+const { consumeJoinToken } = require('./services/joinTokens');
 
 // Carregar variáveis de ambiente
 require('dotenv').config();
@@ -82,7 +85,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "X-Host-Secret"],
   optionsSuccessStatus: 200 //para rodar em browsers antigos 
 };
 
@@ -144,8 +147,12 @@ if (process.env.REDIS_URL) {
   }
 }
 
+// Repositório de salas (memória, Redis ou Postgres conforme ROOM_STORE)
+const roomStore = createRoomStore();
+roomStore.startCleanup();
+
 // Inicializar handlers do Socket.IO
-initializeSocketHandlers(io);
+initializeSocketHandlers(io, { roomStore });
 
 // Função fallback para gerar token manualmente
 function generateLiveKitTokenManually(apiKey, apiSecret, user, room) {
@@ -198,22 +205,64 @@ app.get('/', (req, res) => {
 });
 
 // Rotas da API
-app.use('/api/rooms', roomsRouter);
+app.use('/api/rooms', createRoomsRouter(roomStore));
 
 // Rota LiveKit - Gerar token JWT para acesso à sala
-app.get('/get-token', (req, res) => {
+app.get('/get-token', async (req, res) => {
   try {
-    const { room, user } = req.query;
+    const { room, user, token: joinToken } = req.query;
 
     // Validar parâmetros obrigatórios
     if (!room || !user) {
       return res.status(400).json({
         error: 'Missing required parameters',
         message: 'Both "room" and "user" query parameters are required',
-        example: '/get-token?room=live-session-123&user=participant-456'
+        example: '/get-token?room=live-session-123&user=participant-456&token=<join token>'
       });
     }
 
+    // Host precisa ser o dono da sala; participantes precisam de um token de entrada válido
+    if (user.includes('host')) {
+      if (!isRoomOwner(await roomStore.get(room), getRequestCredentials(req))) {
+        console.warn(`🚫 LiveKit token denied: "${user}" is not the owner of room "${room}"`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          code: 'HOST_AUTH_FAILED',
+          message: 'Only the room owner can join as host'
+        });
+      }
+    } else {
+      const access = await consumeJoinToken(roomStore, room, joinToken, user);
+      if (!access.ok) {
+        console.warn(`🚫 LiveKit token denied for "${user}" in room "${room}" (${access.code})`);
+        return res.status(access.code === 'ROOM_NOT_FOUND' ? 404 : 403).json({
+          error: 'Forbidden',
+          code: access.code,
+          message: access.message
+        });
+      }
+
+      const { roomData } = access;
+      if ((roomData.bannedParticipants || []).includes(user)) {
+        console.warn(`🛡️ LiveKit token denied for "${user}" in room "${room}" (banned)`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          code: 'BANNED',
+          message: 'You were banned from this room by the host'
+        });
+      }
+
+      // Com sala de espera ativa, só participantes admitidos pelo host recebem token de mídia
+      if (roomData.lobbyEnabled && !(roomData.admittedParticipants || []).includes(user)) {
+        console.warn(`⏳ LiveKit token denied for "${user}" in room "${room}" (waiting for host approval)`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          code: 'LOBBY_PENDING',
+          message: 'Waiting for the host to admit you'
+        });
+      }
+    }
+
     // Validar credenciais LiveKit
     if (!LIVEKIT_URL || !LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
       return res.status(500).json({
@@ -479,7 +528,8 @@ app.get('/status', (req, res) => {
       frontendUrl: process.env.FRONTEND_URL,
       allowedOrigins: allowedOrigins.filter(origin => typeof origin === 'string'),
       corsEnabled: true,
-      redisEnabled: !!process.env.REDIS_URL
+      redisEnabled: !!process.env.REDIS_URL,
+      roomStore: roomStore.type
     }
   });
 });
@@ -540,13 +590,15 @@ server.listen(PORT, '0.0.0.0', () => {
   console.log(`📡 Socket.IO server ready`);
   console.log(`🌐 Allowed origins: ${JSON.stringify(allowedOrigins)}`);
   console.log(`💾 Redis: ${process.env.REDIS_URL ? 'Enabled' : 'Disabled'}`);
+  console.log(`🏠 Room store: ${roomStore.type}`);
   console.log(`🎬 LiveKit Token Server: ${LIVEKIT_URL ? '✅ Ready at /get-token' : '⚠️ Not configured'}`);
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('🛑 SIGTERM received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
+    await roomStore.close().catch(err => console.error('❌ Room store close failed:', err));
     console.log('✅ Server closed');
     process.exit(0);
   });
@@ -554,10 +606,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('🛑 SIGINT received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
+    await roomStore.close().catch(err => console.error('❌ Room store close failed:', err));
     console.log('✅ Server closed');
     process.exit(0);
   });
 });
 
-module.exports = { app, server, io };
+module.exports = { app, server, io, roomStore };
@@ -2,139 +2,253 @@
 const express = require('express');
 const { v4: uuidv4 } = require('uuid');
 const { generateQRCode } = require('../services/qr');
+const { createRoomOwner, getRequestCredentials, isRoomOwner } = require('../services/hostAuth');
+const {
+  issueJoinToken,
+  validateJoinToken,
+  revokeJoinToken,
+  toPublicTokenRecord
+} = require('../services/joinTokens');
 
-const router = express.Router();
+// Montar joinURL com detecção automática do domínio
+const getFrontendOrigin = (req) => process.env.FRONTEND_URL || 
+                                   req.headers.origin || 
+                                   req.headers.referer?.replace(/\/$/, '') || 
+                                   process.env.APP_DOMAIN || 
+                                   'https://hutz-live-85.onrender.com';
 
-// Armazenamento em memória das salas (em produção, usar Redis ou banco de dados)
-const rooms = new Map();
+const buildJoinURL = (origin, roomId, token) =>
+  `${origin}/participant/${roomId}?token=${encodeURIComponent(token)}`;
 
-// POST /api/rooms - Criar nova sala
-router.post('/', async (req, res) => {
-  try {
-    // Gerar roomId único
-    const roomId = uuidv4();
-    
-    // Montar joinURL com detecção automática do domínio
-    const origin = process.env.FRONTEND_URL || 
-                  req.headers.origin || 
-                  req.headers.referer?.replace(/\/$/, '') || 
-                  process.env.APP_DOMAIN || 
-                  'https://hutz-live-85.onrender.com';
-    
-    const joinURL = `${origin}/participant/${roomId}`;
-    console.log(`🔗 ROOM: Generated joinURL: ${joinURL} (from origin: ${origin})`);
-    
-    // Gerar QR Code como Data URL
-    const qrDataUrl = await generateQRCode(joinURL);
-    
-    // Salvar informações da sala
-    const roomData = {
-      roomId,
-      joinURL,
-      qrDataUrl,
-      createdAt: new Date().toISOString(),
-      participants: [],
-      isActive: true
-    };
-    
-    rooms.set(roomId, roomData);
-    
-    console.log(`✅ Sala criada: ${roomId}`);
-    
-    // Retornar dados da sala
-    res.status(201).json({
-      roomId,
-      joinURL,
-      qrDataUrl
-    });
-    
-  } catch (error) {
-    console.error('Erro ao criar a sala:', error);
-    res.status(500).json({
-      error: 'Falha ao criar a sala ',
-      message: error.message
-    });
-  }
-});
+/**
+ * Cria o router de /api/rooms sobre um repositório de salas
+ * @param {Object} roomStore - Repositório criado por createRoomStore()
+ * @returns {express.Router}
+ */
+const createRoomsRouter = (roomStore) => {
+  const router = express.Router();
 
-// GET /api/rooms/:roomId - Obter informações da sala
-router.get('/:roomId', (req, res) => {
-  try {
-    const { roomId } = req.params;
+  // Carrega a sala e garante que a requisição vem do dono (responde 404/403 caso contrário)
+  const loadOwnedRoom = async (req, res) => {
+    const roomData = await roomStore.get(req.params.roomId);
     
-    if (!rooms.has(roomId)) {
-      return res.status(404).json({
+    if (!roomData) {
+      res.status(404).json({
         error: 'Room not found'
       });
+      return null;
     }
     
-    const roomData = rooms.get(roomId);
-    
-    // Retornar apenas informações públicas
-    res.json({
-      roomId: roomData.roomId,
-      joinURL: roomData.joinURL,
-      isActive: roomData.isActive,
-      participantCount: roomData.participants.length,
-      createdAt: roomData.createdAt
-    });
-    
-  } catch (error) {
-    console.error('Erro ao chamar a sala:', error);
-    res.status(500).json({
-      error: 'Failha ao obter informações da sala',
-      message: error.message
-    });
-  }
-});
+    if (!isRoomOwner(roomData, getRequestCredentials(req))) {
+      console.warn(`🚫 Requisição sem permissão de dono: ${req.method} ${req.originalUrl}`);
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the room owner can manage this room'
+      });
+      return null;
+    }
+    
+    return roomData;
+  };
 
-// DELETE /api/rooms/:roomId - Fechar sala
-router.delete('/:roomId', (req, res) => {
-  try {
-    const { roomId } = req.params;
+  // POST /api/rooms - Criar nova sala
+  router.post('/', async (req, res) => {
+    try {
+      // Gerar roomId único
+      const roomId = uuidv4();
+      const origin = getFrontendOrigin(req);
+    
+      // Identidade do dono: usuário Supabase (se autenticado) + segredo de host
+      const { owner, hostSecret } = createRoomOwner(getRequestCredentials(req));
+    
+      // Salvar informações da sala
+      const roomData = {
+        roomId,
+        joinURL: `${origin}/participant/${roomId}`,
+        owner,
+        joinTokens: {},
+        createdAt: new Date().toISOString(),
+        participants: [],
+        isActive: true
+      };
+    
+      await roomStore.create(roomData);
+    
+      // Token de entrada padrão embutido no QR code
+      const { token, record } = await issueJoinToken(roomStore, roomData);
+      const joinURL = buildJoinURL(origin, roomId, token);
+      console.log(`🔗 ROOM: Generated joinURL for ${roomId} (from origin: ${origin}, expires: ${record.expiresAt})`);
+    
+      // Gerar QR Code como Data URL
+      const qrDataUrl = await generateQRCode(joinURL);
+    
+      console.log(`✅ Sala criada: ${roomId} (owner: ${owner.userId || 'host-secret'})`);
+    
+      // Retornar dados da sala (hostSecret só é devolvido aqui)
+      res.status(201).json({
+        roomId,
+        joinURL,
+        qrDataUrl,
+        hostSecret,
+        ownerId: owner.userId,
+        joinToken: token,
+        joinTokenInfo: toPublicTokenRecord(record)
+      });
     
-    if (!rooms.has(roomId)) {
-      return res.status(404).json({
-        error: 'Room not found'
+    } catch (error) {
+      console.error('Erro ao criar a sala:', error);
+      res.status(500).json({
+        error: 'Falha ao criar a sala ',
+        message: error.message
       });
     }
+  });
+
+  // GET /api/rooms/:roomId - Obter informações da sala
+  router.get('/:roomId', async (req, res) => {
+    try {
+      const { roomId } = req.params;
+    
+      const roomData = await roomStore.get(roomId);
+    
+      if (!roomData) {
+        return res.status(404).json({
+          error: 'Room not found'
+        });
+      }
+    
+      // Retornar apenas informações públicas
+      res.json({
+        roomId: roomData.roomId,
+        joinURL: roomData.joinURL,
+        isActive: roomData.isActive,
+        participantCount: roomData.participants.length,
+        createdAt: roomData.createdAt
+      });
     
-    // Marcar sala como inativa
-    const roomData = rooms.get(roomId);
-    roomData.isActive = false;
-    rooms.set(roomId, roomData);
-    
-    console.log(`🔒 Sala feichada: ${roomId}`);
-    
-    res.json({
-      message: 'Sala fechada com sucessso',
-      roomId
-    });
-    
-  } catch (error) {
-    console.error('Erro ao fechar a sala:', error);
-    res.status(500).json({
-      error: 'Falha ao fechar a sala',
-      message: error.message
-    });
-  }
-});
+    } catch (error) {
+      console.error('Erro ao chamar a sala:', error);
+      res.status(500).json({
+        error: 'Failha ao obter informações da sala',
+        message: error.message
+      });
+    }
+  });
 
-// Função para limpar salas antigas (executar periodicamente)
-const cleanupOldRooms = () => {
-  const now = new Date();
-  const maxAge = 24 * 60 * 60 * 1000; // 24 horas
-  
-  for (const [roomId, roomData] of rooms.entries()) {
-    const roomAge = now - new Date(roomData.createdAt);
-    if (roomAge > maxAge) {
-      rooms.delete(roomId);
-      console.log(`🗑️ Cleaned up old room: ${roomId}`);
+  // DELETE /api/rooms/:roomId - Fechar sala
+  router.delete('/:roomId', async (req, res) => {
+    try {
+      const { roomId } = req.params;
+    
+      // Apenas o dono pode fechar a sala
+      const roomData = await loadOwnedRoom(req, res);
+      if (!roomData) return;
+    
+      // Marcar sala como inativa
+      await roomStore.update(roomId, { isActive: false });
+    
+      console.log(`🔒 Sala feichada: ${roomId}`);
+    
+      res.json({
+        message: 'Sala fechada com sucessso',
+        roomId
+      });
+    
+    } catch (error) {
+      console.error('Erro ao fechar a sala:', error);
+      res.status(500).json({
+        error: 'Falha ao fechar a sala',
+        message: error.message
+      });
     }
-  }
-};
+  });
+
+  // POST /api/rooms/:roomId/join-tokens - Emitir novo link de entrada (dono)
+  router.post('/:roomId/join-tokens', async (req, res) => {
+    try {
+      const roomData = await loadOwnedRoom(req, res);
+      if (!roomData) return;
+    
+      const { expiresInMinutes, maxUses } = req.body || {};
+      const { token, record } = await issueJoinToken(roomStore, roomData, {
+        expiresInSeconds: expiresInMinutes ? Math.round(Number(expiresInMinutes) * 60) : undefined,
+        maxUses: maxUses ? parseInt(maxUses, 10) : undefined
+      });
+    
+      console.log(`🎟️ Novo token de entrada para ${roomData.roomId}: ${record.tokenId}`);
+    
+      res.status(201).json({
+        joinToken: token,
+        joinURL: buildJoinURL(getFrontendOrigin(req), roomData.roomId, token),
+        joinTokenInfo: toPublicTokenRecord(record)
+      });
+    
+    } catch (error) {
+      console.error('Erro ao emitir token de entrada:', error);
+      res.status(500).json({
+        error: 'Falha ao emitir token de entrada',
+        message: error.message
+      });
+    }
+  });
+
+  // DELETE /api/rooms/:roomId/join-tokens/:tokenId - Revogar link de entrada (dono)
+  router.delete('/:roomId/join-tokens/:tokenId', async (req, res) => {
+    try {
+      const roomData = await loadOwnedRoom(req, res);
+      if (!roomData) return;
+    
+      const revoked = await revokeJoinToken(roomStore, roomData, req.params.tokenId);
+      if (!revoked) {
+        return res.status(404).json({
+          error: 'Join token not found'
+        });
+      }
+    
+      console.log(`🚫 Token de entrada revogado: ${roomData.roomId}/${revoked.tokenId}`);
+    
+      res.json({
+        message: 'Token revogado com sucesso',
+        joinTokenInfo: toPublicTokenRecord(revoked)
+      });
+    
+    } catch (error) {
+      console.error('Erro ao revogar token de entrada:', error);
+      res.status(500).json({
+        error: 'Falha ao revogar token de entrada',
+        message: error.message
+      });
+    }
+  });
 
-// Executar limpeza a cada hora
-setInterval(cleanupOldRooms, 60 * 60 * 1000);
+  // GET /api/rooms/:roomId/join-tokens/verify?token= - Validar link (público, não consome uso)
+  router.get('/:roomId/join-tokens/verify', async (req, res) => {
+    try {
+      const result = await validateJoinToken(roomStore, req.params.roomId, req.query.token);
+    
+      if (!result.ok) {
+        return res.status(result.code === 'ROOM_NOT_FOUND' ? 404 : 403).json({
+          valid: false,
+          code: result.code,
+          message: result.message
+        });
+      }
+    
+      res.json({
+        valid: true,
+        expiresAt: result.record.expiresAt
+      });
+    
+    } catch (error) {
+      console.error('Erro ao validar token de entrada:', error);
+      res.status(500).json({
+        error: 'Falha ao validar token de entrada',
+        message: error.message
+      });
+    }
+  });
+
+  return router;
+};
 
-module.exports = router;
+module.exports = { createRoomsRouter };
@@ -0,0 +1,108 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+/**
+ * Gera um segredo de host (retornado uma única vez na criação da sala)
+ * @returns {string} - Segredo aleatório em base64url
+ */
+const generateHostSecret = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Hash do segredo de host para armazenamento no repositório de salas
+ * @param {string} secret - Segredo em texto puro
+ * @returns {string} - SHA-256 em hex
+ */
+const hashHostSecret = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Valida um JWT de sessão do Supabase (HS256 com o JWT secret do projeto)
+ * @param {string} token - access_token da sessão
+ * @returns {Object|null} - Payload decodificado ou null se inválido
+ */
+const verifySupabaseToken = (token) => {
+  // Lido em tempo de execução: dotenv é carregado depois dos requires em index.js
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!token) return null;
+
+  if (!secret) {
+    console.warn('⚠️ HOST AUTH: SUPABASE_JWT_SECRET not set, ignoring Supabase token');
+    return null;
+  }
+
+  try {
+    return jwt.verify(token, secret, { algorithms: ['HS256'] });
+  } catch (error) {
+    console.warn(`⚠️ HOST AUTH: Invalid Supabase token (${error.message})`);
+    return null;
+  }
+};
+
+/**
+ * Extrai as credenciais de host de uma requisição HTTP
+ * Authorization: Bearer <supabase access_token> e/ou X-Host-Secret: <segredo>
+ * @param {Object} req - Requisição Express
+ * @returns {{accessToken: string|null, hostSecret: string|null}}
+ */
+const getRequestCredentials = (req) => {
+  const authorization = req.get('Authorization') || '';
+  const accessToken = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : null;
+  const hostSecret = req.get('X-Host-Secret') || null;
+
+  return { accessToken, hostSecret };
+};
+
+/**
+ * Cria a identidade de dono de uma nova sala
+ * @param {Object} credentials - Credenciais da requisição de criação
+ * @returns {{owner: Object, hostSecret: string}} - Dono para persistir e segredo para devolver ao host
+ */
+const createRoomOwner = ({ accessToken }) => {
+  const hostSecret = generateHostSecret();
+  const supabaseUser = verifySupabaseToken(accessToken);
+
+  return {
+    owner: {
+      userId: supabaseUser?.sub || null,
+      secretHash: hashHostSecret(hostSecret)
+    },
+    hostSecret
+  };
+};
+
+/**
+ * Verifica se as credenciais pertencem ao dono da sala
+ * Aceita o JWT do Supabase do mesmo usuário ou o segredo emitido na criação.
+ * @param {Object} roomData - Sala do repositório
+ * @param {Object} credentials - {accessToken, hostSecret}
+ * @returns {boolean}
+ */
+const isRoomOwner = (roomData, credentials = {}) => {
+  const owner = roomData?.owner;
+  if (!owner) return false;
+
+  const { accessToken, hostSecret } = credentials;
+
+  if (hostSecret && owner.secretHash) {
+    const expected = Buffer.from(owner.secretHash, 'hex');
+    const received = Buffer.from(hashHostSecret(hostSecret), 'hex');
+    if (expected.length === received.length && crypto.timingSafeEqual(expected, received)) {
+      return true;
+    }
+  }
+
+  if (accessToken && owner.userId) {
+    const supabaseUser = verifySupabaseToken(accessToken);
+    if (supabaseUser?.sub === owner.userId) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+module.exports = {
+  createRoomOwner,
+  getRequestCredentials,
+  isRoomOwner,
+  verifySupabaseToken
+};
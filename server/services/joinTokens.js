@@ -0,0 +1,223 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { v4: uuidv4 } = require('uuid');
+
+const DEFAULT_TOKEN_TTL = 12 * 60 * 60; // 12 horas (segundos)
+
+let ephemeralSecret = null;
+
+/**
+ * Segredo de assinatura dos tokens de entrada
+ * Sem JOIN_TOKEN_SECRET um segredo aleatório é usado, e os QR codes deixam de
+ * valer quando o processo reinicia ou em outra instância.
+ * @returns {string}
+ */
+const getJoinTokenSecret = () => {
+  if (process.env.JOIN_TOKEN_SECRET) {
+    return process.env.JOIN_TOKEN_SECRET;
+  }
+
+  if (!ephemeralSecret) {
+    ephemeralSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('⚠️ JOIN TOKENS: JOIN_TOKEN_SECRET not set, using an ephemeral secret (links break on restart)');
+  }
+  return ephemeralSecret;
+};
+
+/**
+ * Mensagens legíveis para cada código de rejeição
+ */
+const JOIN_TOKEN_ERRORS = {
+  TOKEN_MISSING: 'Join link is missing its access token',
+  TOKEN_INVALID: 'Join link is invalid',
+  TOKEN_EXPIRED: 'Join link has expired',
+  TOKEN_REVOKED: 'Join link has been revoked by the host',
+  TOKEN_EXHAUSTED: 'Join link has reached its maximum number of uses',
+  ROOM_NOT_FOUND: 'Room not found or closed'
+};
+
+const reject = (code) => ({ ok: false, code, message: JOIN_TOKEN_ERRORS[code] });
+
+/**
+ * Emite um novo token de entrada e registra seus limites na sala
+ * @param {Object} roomStore - Repositório de salas
+ * @param {Object} roomData - Sala de destino
+ * @param {Object} options - {expiresInSeconds, maxUses}
+ * @returns {Promise<{token: string, record: Object}>}
+ */
+const issueJoinToken = async (roomStore, roomData, options = {}) => {
+  const expiresInSeconds = options.expiresInSeconds ||
+    parseInt(process.env.JOIN_TOKEN_TTL_SECONDS, 10) || DEFAULT_TOKEN_TTL;
+  const maxUses = options.maxUses || parseInt(process.env.JOIN_TOKEN_MAX_USES, 10) || null;
+  const tokenId = uuidv4();
+
+  const token = jwt.sign({ rid: roomData.roomId, typ: 'join' }, getJoinTokenSecret(), {
+    algorithm: 'HS256',
+    expiresIn: expiresInSeconds,
+    jwtid: tokenId
+  });
+
+  // usedBy só existe com limite de usos, então nunca passa de maxUses entradas
+  const record = {
+    tokenId,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    maxUses,
+    uses: 0,
+    usedBy: maxUses ? [] : null,
+    revoked: false
+  };
+
+  await roomStore.mutate(roomData.roomId, (current) => ({
+    ...current,
+    joinTokens: { ...(current.joinTokens || {}), [tokenId]: record }
+  }));
+
+  return { token, record };
+};
+
+/**
+ * Confere um registro de token para o participante
+ * @returns {string|null} - Código de rejeição ou null se o token vale
+ */
+const checkTokenRecord = (record, participantId) => {
+  if (!record) return 'TOKEN_INVALID';
+  if (record.revoked) return 'TOKEN_REVOKED';
+
+  const alreadyUsed = Boolean(participantId && record.usedBy?.includes(participantId));
+  if (!alreadyUsed && record.maxUses && record.uses >= record.maxUses) {
+    return 'TOKEN_EXHAUSTED';
+  }
+  return null;
+};
+
+/**
+ * Confere assinatura, tipo e sala do token
+ * @returns {{payload?: Object, code?: string}}
+ */
+const verifyJoinToken = (roomId, token) => {
+  if (!token) return { code: 'TOKEN_MISSING' };
+
+  let payload;
+  try {
+    payload = jwt.verify(token, getJoinTokenSecret(), { algorithms: ['HS256'] });
+  } catch (error) {
+    return { code: error.name === 'TokenExpiredError' ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID' };
+  }
+
+  if (payload.typ !== 'join' || payload.rid !== roomId) {
+    return { code: 'TOKEN_INVALID' };
+  }
+  return { payload };
+};
+
+/**
+ * Valida um token de entrada sem consumi-lo
+ * Um participante que já usou o token continua aceito (reconexões).
+ * @param {Object} roomStore - Repositório de salas
+ * @param {string} roomId - Sala pedida
+ * @param {string} token - Token da URL
+ * @param {string} participantId - Participante (opcional)
+ * @returns {Promise<Object>} - {ok, code?, message?, roomData?, record?}
+ */
+const validateJoinToken = async (roomStore, roomId, token, participantId) => {
+  const { payload, code } = verifyJoinToken(roomId, token);
+  if (code) return reject(code);
+
+  const roomData = roomStore ? await roomStore.get(roomId) : null;
+  if (!roomData || !roomData.isActive) {
+    return reject('ROOM_NOT_FOUND');
+  }
+
+  const record = roomData.joinTokens?.[payload.jti];
+  const rejection = checkTokenRecord(record, participantId);
+  if (rejection) return reject(rejection);
+
+  return { ok: true, roomData, record };
+};
+
+/**
+ * Valida e contabiliza o uso do token por um participante
+ * Tokens sem limite só são lidos: nada é gravado na sala, então uma multidão entrando
+ * ao mesmo tempo não disputa o registro. Com limite, a checagem e a contagem acontecem
+ * na mesma mutação atômica da sala, então entradas simultâneas não passam do limite e
+ * não desfazem uma revogação.
+ * @returns {Promise<Object>} - Mesmo formato de validateJoinToken
+ */
+const consumeJoinToken = async (roomStore, roomId, token, participantId) => {
+  const validation = await validateJoinToken(roomStore, roomId, token, participantId);
+  if (!validation.ok || !validation.record.maxUses) return validation;
+
+  const { payload } = verifyJoinToken(roomId, token);
+  let result = reject('ROOM_NOT_FOUND');
+  await roomStore.mutate(roomId, (roomData) => {
+    if (!roomData.isActive) {
+      result = reject('ROOM_NOT_FOUND');
+      return null;
+    }
+
+    const record = roomData.joinTokens?.[payload.jti];
+    const rejection = checkTokenRecord(record, participantId);
+    if (rejection) {
+      result = reject(rejection);
+      return null;
+    }
+
+    // Reconexão de quem já está na lista não conta de novo
+    if (record.usedBy?.includes(participantId)) {
+      result = { ok: true, roomData, record };
+      return null;
+    }
+
+    const updatedRecord = {
+      ...record,
+      uses: record.uses + 1,
+      usedBy: [...record.usedBy, participantId]
+    };
+    const updated = { ...roomData, joinTokens: { ...roomData.joinTokens, [record.tokenId]: updatedRecord } };
+    result = { ok: true, roomData: updated, record: updatedRecord };
+    return updated;
+  });
+
+  return result;
+};
+
+/**
+ * Revoga um token de entrada
+ * @returns {Promise<Object|null>} - Registro revogado ou null se não existir
+ */
+const revokeJoinToken = async (roomStore, roomData, tokenId) => {
+  let revoked = null;
+  await roomStore.mutate(roomData.roomId, (current) => {
+    const record = current.joinTokens?.[tokenId];
+    if (!record) {
+      revoked = null;
+      return null;
+    }
+
+    revoked = { ...record, revoked: true, revokedAt: new Date().toISOString() };
+    return { ...current, joinTokens: { ...current.joinTokens, [tokenId]: revoked } };
+  });
+
+  return revoked;
+};
+
+/**
+ * Versão pública de um registro de token (sem a lista de participantes)
+ */
+const toPublicTokenRecord = ({ tokenId, createdAt, expiresAt, maxUses, uses, revoked }) => ({
+  tokenId,
+  createdAt,
+  expiresAt,
+  maxUses,
+  uses,
+  revoked
+});
+
+module.exports = {
+  issueJoinToken,
+  validateJoinToken,
+  consumeJoinToken,
+  revokeJoinToken,
+  toPublicTokenRecord
+};
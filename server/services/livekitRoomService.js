@@ -0,0 +1,73 @@
+const { RoomServiceClient, TrackSource } = require('livekit-server-sdk');
+
+let client = null;
+
+/**
+ * Cliente da API de salas do LiveKit
+ * Lido em tempo de execução: dotenv é carregado depois dos requires em index.js
+ * @returns {RoomServiceClient|null} - null se as credenciais não estiverem configuradas
+ */
+const getRoomServiceClient = () => {
+  const { LIVEKIT_URL, LIVEKIT_API_KEY, LIVEKIT_API_SECRET } = process.env;
+  if (!LIVEKIT_URL || !LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
+    return null;
+  }
+
+  if (!client) {
+    // A API REST usa http(s) no mesmo host do WebSocket
+    const host = LIVEKIT_URL.trim().replace(/^ws/, 'http');
+    client = new RoomServiceClient(host, LIVEKIT_API_KEY.trim(), LIVEKIT_API_SECRET.trim());
+  }
+  return client;
+};
+
+/**
+ * Remove um participante da sala de mídia (kick/ban)
+ * @param {string} room - Nome da sala LiveKit (roomId)
+ * @param {string} identity - Identidade do participante
+ * @returns {Promise<boolean>} - true se removido
+ */
+const removeLiveKitParticipant = async (room, identity) => {
+  const roomService = getRoomServiceClient();
+  if (!roomService) return false;
+
+  try {
+    await roomService.removeParticipant(room, identity);
+    console.log(`🎬 LIVEKIT: Removed ${identity} from ${room}`);
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ LIVEKIT: Could not remove ${identity} from ${room} (${error.message})`);
+    return false;
+  }
+};
+
+/**
+ * Silencia a câmera publicada por um participante
+ * @param {string} room - Nome da sala LiveKit (roomId)
+ * @param {string} identity - Identidade do participante
+ * @returns {Promise<boolean>} - true se alguma track de câmera foi silenciada
+ */
+const muteLiveKitCamera = async (room, identity) => {
+  const roomService = getRoomServiceClient();
+  if (!roomService) return false;
+
+  try {
+    const participant = await roomService.getParticipant(room, identity);
+    const cameraTracks = participant.tracks.filter(track => track.source === TrackSource.CAMERA && !track.muted);
+
+    for (const track of cameraTracks) {
+      await roomService.mutePublishedTrack(room, identity, track.sid, true);
+    }
+
+    console.log(`🎬 LIVEKIT: Muted ${cameraTracks.length} camera track(s) of ${identity} in ${room}`);
+    return cameraTracks.length > 0;
+  } catch (error) {
+    console.warn(`⚠️ LIVEKIT: Could not mute camera of ${identity} in ${room} (${error.message})`);
+    return false;
+  }
+};
+
+module.exports = {
+  removeLiveKitParticipant,
+  muteLiveKitCamera
+};
@@ -0,0 +1,102 @@
+// Pontuação do quiz ao vivo: pontos da pergunta + bônus de velocidade + bônus de sequência de acertos
+const SPEED_BONUS_RATIO = 0.5; // resposta instantânea vale até +50% dos pontos
+const STREAK_BONUS_STEP = 0.1; // +10% por acerto consecutivo a partir do segundo
+const MAX_STREAK_BONUS_RATIO = 0.5;
+
+/**
+ * Pontua uma resposta
+ * @param {{points: number, timeLimit: number, correctOptionId: string}} question
+ * @param {{optionId: string, elapsedMs: number}|undefined} answer - undefined se o participante não respondeu
+ * @param {number} streakBefore - Acertos consecutivos antes desta pergunta
+ * @returns {{correct: boolean, base: number, speedBonus: number, streakBonus: number, total: number, streak: number}}
+ */
+const scoreAnswer = (question, answer, streakBefore) => {
+  const correct = Boolean(answer) && answer.optionId === question.correctOptionId;
+  if (!correct) {
+    return { correct: false, base: 0, speedBonus: 0, streakBonus: 0, total: 0, streak: 0 };
+  }
+
+  const timeLimitMs = question.timeLimit * 1000;
+  const remainingRatio = Math.max(0, Math.min(1, 1 - answer.elapsedMs / timeLimitMs));
+  const streak = streakBefore + 1;
+
+  const base = question.points;
+  const speedBonus = Math.round(question.points * SPEED_BONUS_RATIO * remainingRatio);
+  const streakBonus = Math.round(question.points * Math.min(MAX_STREAK_BONUS_RATIO, STREAK_BONUS_STEP * (streak - 1)));
+
+  return { correct, base, speedBonus, streakBonus, total: base + speedBonus + streakBonus, streak };
+};
+
+// Desempate determinístico: pontos, acertos, menor tempo somado nos acertos, entrada mais antiga, id
+const compareStandings = (a, b) =>
+  b.score - a.score ||
+  b.correctCount - a.correctCount ||
+  a.correctTimeMs - b.correctTimeMs ||
+  a.joinedAt - b.joinedAt ||
+  a.participantId.localeCompare(b.participantId);
+
+/**
+ * Pontua todas as perguntas encerradas e monta a classificação
+ * @param {object[]} questions - Perguntas encerradas, na ordem em que foram feitas
+ * @param {Map<string, Map<string, object>>} answers - questionId → participantId → resposta
+ * @param {Map<string, {name: string, joinedAt: number}>} players - Participantes que entraram no quiz
+ * @returns {object[]} - Entradas ordenadas com rank (empates exatos não existem após o desempate)
+ */
+const buildStandings = (questions, answers, players) => {
+  const standings = new Map();
+
+  players.forEach((player, participantId) => {
+    standings.set(participantId, {
+      participantId,
+      name: player.name,
+      joinedAt: player.joinedAt,
+      score: 0,
+      correctCount: 0,
+      correctTimeMs: 0,
+      streak: 0,
+      bestStreak: 0,
+      lastDelta: 0,
+      answers: []
+    });
+  });
+
+  questions.forEach(question => {
+    const questionAnswers = answers.get(question.id) || new Map();
+
+    standings.forEach(standing => {
+      const answer = questionAnswers.get(standing.participantId);
+      const result = scoreAnswer(question, answer, standing.streak);
+
+      standing.score += result.total;
+      standing.streak = result.streak;
+      standing.bestStreak = Math.max(standing.bestStreak, result.streak);
+      standing.lastDelta = result.total;
+      if (result.correct) {
+        standing.correctCount += 1;
+        standing.correctTimeMs += answer.elapsedMs;
+      }
+
+      standing.answers.push({
+        questionId: question.id,
+        optionId: answer ? answer.optionId : null,
+        elapsedMs: answer ? answer.elapsedMs : null,
+        answeredAt: answer ? answer.answeredAt : null,
+        submittedAt: answer ? answer.submittedAt : null,
+        ...result
+      });
+    });
+  });
+
+  return Array.from(standings.values())
+    .sort(compareStandings)
+    .map((standing, index) => ({ rank: index + 1, ...standing }));
+};
+
+// Versão pública da classificação (sem o histórico de respostas)
+const toLeaderboardEntry = ({ answers, joinedAt, ...entry }) => entry;
+
+module.exports = {
+  scoreAnswer,
+  buildStandings,
+  toLeaderboardEntry
+};
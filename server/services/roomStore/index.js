@@ -0,0 +1,109 @@
+const { createMemoryRoomStore } = require('./memory');
+const { createRedisRoomStore } = require('./redis');
+const { createPostgresRoomStore } = require('./postgres');
+
+const ROOM_MAX_AGE = 24 * 60 * 60 * 1000; // 24 horas
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hora
+
+/**
+ * Escolhe a implementação do repositório de salas
+ * ROOM_STORE explícito tem prioridade; senão usa Redis/Postgres se configurados.
+ * @returns {string} - 'memory' | 'redis' | 'postgres'
+ */
+const resolveStoreType = () => {
+  const explicit = (process.env.ROOM_STORE || '').trim().toLowerCase();
+  if (explicit) return explicit;
+  if (process.env.REDIS_URL) return 'redis';
+  if (process.env.DATABASE_URL) return 'postgres';
+  return 'memory';
+};
+
+/**
+ * Cria o repositório de salas usado por /api/rooms e pela sinalização
+ * Todas as implementações expõem a mesma interface assíncrona:
+ * create, get, update, mutate, delete, cleanupOldRooms, close
+ * além de startCleanup/stopCleanup para a limpeza periódica.
+ *
+ * update(roomId, changes) troca campos de primeiro nível. Para alterar campos
+ * aninhados (joinTokens, listas de participantes) use mutate(roomId, mutator):
+ * o mutator recebe uma cópia atual da sala e devolve a sala nova (ou null para
+ * não gravar), de forma atômica por sala. Ele pode rodar mais de uma vez no
+ * Redis quando há conflito, então não deve ter efeitos colaterais.
+ * @param {Object} options - Opções de configuração
+ * @returns {Object} - Repositório de salas
+ */
+const createRoomStore = (options = {}) => {
+  const type = options.type || resolveStoreType();
+  const maxAge = options.maxAge || ROOM_MAX_AGE;
+
+  let store;
+  switch (type) {
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('ROOM_STORE=redis requires REDIS_URL');
+      }
+      store = createRedisRoomStore({
+        url: process.env.REDIS_URL,
+        ttlSeconds: Math.ceil(maxAge / 1000)
+      });
+      break;
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('ROOM_STORE=postgres requires DATABASE_URL');
+      }
+      store = createPostgresRoomStore({
+        connectionString: process.env.DATABASE_URL,
+        table: process.env.ROOM_STORE_TABLE
+      });
+      break;
+    case 'memory':
+      store = createMemoryRoomStore();
+      break;
+    default:
+      throw new Error(`Unknown ROOM_STORE "${type}" (expected memory, redis or postgres)`);
+  }
+
+  console.log(`💾 ROOM STORE: using ${store.type} repository`);
+
+  let cleanupTimer = null;
+
+  const cleanupOldRooms = async () => {
+    try {
+      const removed = await store.cleanupOldRooms(maxAge);
+      removed.forEach(roomId => console.log(`🗑️ Cleaned up old room: ${roomId}`));
+      return removed;
+    } catch (error) {
+      console.error(`❌ ROOM STORE (${store.type}): cleanup failed`, error);
+      return [];
+    }
+  };
+
+  return {
+    ...store,
+    cleanupOldRooms,
+
+    startCleanup(interval = CLEANUP_INTERVAL) {
+      if (cleanupTimer) return;
+      cleanupTimer = setInterval(cleanupOldRooms, interval);
+      // Não impedir o processo de encerrar por causa da limpeza
+      cleanupTimer.unref?.();
+    },
+
+    stopCleanup() {
+      if (cleanupTimer) {
+        clearInterval(cleanupTimer);
+        cleanupTimer = null;
+      }
+    },
+
+    async close() {
+      this.stopCleanup();
+      await store.close();
+    }
+  };
+};
+
+module.exports = {
+  createRoomStore,
+  ROOM_MAX_AGE
+};
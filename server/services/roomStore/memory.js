@@ -0,0 +1,75 @@
+/**
+ * Repositório de salas em memória (padrão para desenvolvimento)
+ * Perde todas as salas ao reiniciar e não é compartilhado entre instâncias.
+ * @returns {Object} - Repositório de salas
+ */
+const createMemoryRoomStore = () => {
+  const rooms = new Map();
+  // Fila por sala: mutações da mesma sala rodam uma de cada vez
+  const locks = new Map();
+
+  const withRoomLock = (roomId, task) => {
+    const previous = locks.get(roomId) || Promise.resolve();
+    const current = previous.then(task, task);
+    const tail = current.catch(() => {});
+    locks.set(roomId, tail);
+    tail.then(() => {
+      if (locks.get(roomId) === tail) locks.delete(roomId);
+    });
+    return current;
+  };
+
+  const mutate = (roomId, mutator) => withRoomLock(roomId, async () => {
+    const roomData = rooms.get(roomId);
+    if (!roomData) return null;
+
+    const updated = await mutator(JSON.parse(JSON.stringify(roomData)));
+    if (!updated) return roomData;
+
+    rooms.set(roomId, updated);
+    return updated;
+  });
+
+  return {
+    type: 'memory',
+
+    async create(roomData) {
+      rooms.set(roomData.roomId, roomData);
+      return roomData;
+    },
+
+    async get(roomId) {
+      return rooms.get(roomId) || null;
+    },
+
+    async update(roomId, changes) {
+      return mutate(roomId, roomData => ({ ...roomData, ...changes }));
+    },
+
+    mutate,
+
+    async delete(roomId) {
+      return rooms.delete(roomId);
+    },
+
+    async cleanupOldRooms(maxAge) {
+      const now = Date.now();
+      const removed = [];
+
+      for (const [roomId, roomData] of rooms.entries()) {
+        if (now - new Date(roomData.createdAt).getTime() > maxAge) {
+          rooms.delete(roomId);
+          removed.push(roomId);
+        }
+      }
+
+      return removed;
+    },
+
+    async close() {
+      rooms.clear();
+    }
+  };
+};
+
+module.exports = { createMemoryRoomStore };
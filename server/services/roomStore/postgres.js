@@ -0,0 +1,108 @@
+/**
+ * Repositório de salas no Postgres (persistente entre deploys)
+ * A tabela é criada automaticamente na primeira operação.
+ * @param {Object} options - Opções de configuração
+ * @param {string} options.connectionString - URL de conexão (DATABASE_URL)
+ * @param {string} options.table - Nome da tabela
+ * @returns {Object} - Repositório de salas
+ */
+const createPostgresRoomStore = ({ connectionString, table = 'live_rooms' }) => {
+  let Pool;
+  try {
+    ({ Pool } = require('pg'));
+  } catch (error) {
+    throw new Error('ROOM_STORE=postgres requires the "pg" package (npm install pg)');
+  }
+
+  const pool = new Pool({
+    connectionString,
+    ssl: process.env.DATABASE_SSL === 'true' ? { rejectUnauthorized: false } : undefined
+  });
+
+  const ready = pool.query(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      room_id TEXT PRIMARY KEY,
+      data JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL
+    )
+  `).then(() => {
+    console.log(`✅ ROOM STORE (postgres): table ${table} ready`);
+  });
+  ready.catch(err => {
+    console.error('❌ ROOM STORE (postgres): initialization failed', err);
+  });
+
+  return {
+    type: 'postgres',
+
+    async create(roomData) {
+      await ready;
+      await pool.query(
+        `INSERT INTO ${table} (room_id, data, created_at) VALUES ($1, $2, $3)`,
+        [roomData.roomId, roomData, roomData.createdAt]
+      );
+      return roomData;
+    },
+
+    async get(roomId) {
+      await ready;
+      const { rows } = await pool.query(`SELECT data FROM ${table} WHERE room_id = $1`, [roomId]);
+      return rows[0]?.data || null;
+    },
+
+    async update(roomId, changes) {
+      await ready;
+      const { rows } = await pool.query(
+        `UPDATE ${table} SET data = data || $2::jsonb WHERE room_id = $1 RETURNING data`,
+        [roomId, JSON.stringify(changes)]
+      );
+      return rows[0]?.data || null;
+    },
+
+    // SELECT ... FOR UPDATE segura a linha até o COMMIT: outras mutações da sala esperam
+    async mutate(roomId, mutator) {
+      await ready;
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const { rows } = await client.query(`SELECT data FROM ${table} WHERE room_id = $1 FOR UPDATE`, [roomId]);
+        const roomData = rows[0]?.data || null;
+        const updated = roomData ? await mutator(roomData) : null;
+
+        if (updated) {
+          await client.query(`UPDATE ${table} SET data = $2::jsonb WHERE room_id = $1`, [roomId, JSON.stringify(updated)]);
+        }
+        await client.query('COMMIT');
+        return updated || roomData;
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+
+    async delete(roomId) {
+      await ready;
+      const { rowCount } = await pool.query(`DELETE FROM ${table} WHERE room_id = $1`, [roomId]);
+      return rowCount > 0;
+    },
+
+    async cleanupOldRooms(maxAge) {
+      await ready;
+      const cutoff = new Date(Date.now() - maxAge).toISOString();
+      const { rows } = await pool.query(
+        `DELETE FROM ${table} WHERE created_at < $1 RETURNING room_id`,
+        [cutoff]
+      );
+      return rows.map(row => row.room_id);
+    },
+
+    async close() {
+      await ready.catch(() => {});
+      await pool.end();
+    }
+  };
+};
+
+module.exports = { createPostgresRoomStore };
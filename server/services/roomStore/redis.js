@@ -0,0 +1,129 @@
+const KEY_PREFIX = 'hutz:room:';
+const INDEX_KEY = 'hutz:rooms:by-created';
+const MUTATE_MAX_ATTEMPTS = 10;
+
+/**
+ * Repositório de salas no Redis (compartilhado entre instâncias)
+ * Cada sala é um JSON em `hutz:room:<roomId>` e o índice ordenado por
+ * criação permite a limpeza periódica sem varrer todas as chaves.
+ * @param {Object} options - Opções de configuração
+ * @param {string} options.url - URL de conexão (REDIS_URL)
+ * @param {number} options.ttlSeconds - Expiração das chaves (segurança extra à limpeza)
+ * @returns {Object} - Repositório de salas
+ */
+const createRedisRoomStore = ({ url, ttlSeconds }) => {
+  const { createClient, WatchError } = require('redis');
+
+  const client = createClient({ url });
+  client.on('error', (err) => {
+    console.error('❌ ROOM STORE (redis): client error', err);
+  });
+
+  const ready = client.connect().then(() => {
+    console.log('✅ ROOM STORE (redis): connected');
+  });
+  ready.catch(err => {
+    console.error('❌ ROOM STORE (redis): connection failed', err);
+  });
+
+  const keyFor = (roomId) => `${KEY_PREFIX}${roomId}`;
+
+  const read = async (roomId) => {
+    const raw = await client.get(keyFor(roomId));
+    return raw ? JSON.parse(raw) : null;
+  };
+
+  const write = async (roomData, options = { EX: ttlSeconds }) => {
+    await client.set(keyFor(roomData.roomId), JSON.stringify(roomData), options);
+  };
+
+  // WATCH/MULTI: se outra instância alterar a sala no meio, a transação falha e repete
+  const mutate = async (roomId, mutator) => {
+    await ready;
+    const key = keyFor(roomId);
+
+    for (let attempt = 1; attempt <= MUTATE_MAX_ATTEMPTS; attempt++) {
+      const outcome = await client.executeIsolated(async (isolated) => {
+        await isolated.watch(key);
+        const raw = await isolated.get(key);
+        if (!raw) {
+          await isolated.unwatch();
+          return { roomData: null };
+        }
+
+        const current = JSON.parse(raw);
+        const updated = await mutator(JSON.parse(raw));
+        if (!updated) {
+          await isolated.unwatch();
+          return { roomData: current };
+        }
+
+        try {
+          await isolated.multi().set(key, JSON.stringify(updated), { KEEPTTL: true }).exec();
+          return { roomData: updated };
+        } catch (error) {
+          if (error instanceof WatchError) return { conflict: true };
+          throw error;
+        }
+      });
+
+      if (!outcome.conflict) return outcome.roomData;
+    }
+
+    throw new Error(`Room ${roomId} is changing too fast to update (gave up after ${MUTATE_MAX_ATTEMPTS} attempts)`);
+  };
+
+  return {
+    type: 'redis',
+
+    async create(roomData) {
+      await ready;
+      await write(roomData);
+      await client.zAdd(INDEX_KEY, {
+        score: new Date(roomData.createdAt).getTime(),
+        value: roomData.roomId
+      });
+      return roomData;
+    },
+
+    async get(roomId) {
+      await ready;
+      return read(roomId);
+    },
+
+    async update(roomId, changes) {
+      return mutate(roomId, roomData => ({ ...roomData, ...changes }));
+    },
+
+    mutate,
+
+    async delete(roomId) {
+      await ready;
+      const removed = await client.del(keyFor(roomId));
+      await client.zRem(INDEX_KEY, roomId);
+      return removed > 0;
+    },
+
+    async cleanupOldRooms(maxAge) {
+      await ready;
+      const cutoff = Date.now() - maxAge;
+      const roomIds = await client.zRangeByScore(INDEX_KEY, 0, cutoff);
+
+      if (roomIds.length > 0) {
+        await client.del(roomIds.map(keyFor));
+        await client.zRem(INDEX_KEY, roomIds);
+      }
+
+      return roomIds;
+    },
+
+    async close() {
+      await ready.catch(() => {});
+      if (client.isOpen) {
+        await client.quit();
+      }
+    }
+  };
+};
+
+module.exports = { createRedisRoomStore };
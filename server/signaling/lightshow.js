@@ -0,0 +1,343 @@
+// Light show por rede: o host toca o show e o servidor envia os cues da timeline aos celulares
+const lightShowSessions = new Map(); // roomId → { show, cues, status, position, startedAt, cursor, timer }
+
+const MAX_CUES = 2000;
+const MAX_ZONES = 26;
+const MAX_PATTERN_POINTS = 500;
+const SCHEDULER_INTERVAL = 200; // ms
+const CUE_LOOKAHEAD = 1500; // ms: cues saem antes da hora para absorver a latência da rede
+const IDLE_SESSION_TTL = 60 * 60 * 1000; // 1 hora parado
+
+const ITEM_TYPES = ['image', 'flashlight', 'callToAction'];
+const CALL_TO_ACTION_TYPES = ['image', 'imageWithButton', 'coupon'];
+
+const isHttpUrl = (value) => typeof value === 'string' && /^https?:\/\//i.test(value);
+const optionalString = (value, maxLength = 500) =>
+  typeof value === 'string' ? value.slice(0, maxLength) : undefined;
+const finiteNumber = (value, fallback = 0) => (Number.isFinite(Number(value)) ? Number(value) : fallback);
+
+// Mantém só os campos que o celular usa; listas longas são cortadas
+const sanitizePattern = (pattern) => {
+  if (!pattern || typeof pattern !== 'object') return undefined;
+
+  const keyframes = (list, map) => (Array.isArray(list) ? list.slice(0, MAX_PATTERN_POINTS).filter(Boolean).map(map) : undefined);
+
+  return {
+    intensity: finiteNumber(pattern.intensity, 100),
+    blinkRate: finiteNumber(pattern.blinkRate),
+    color: optionalString(pattern.color, 32) || '#FFFFFF',
+    effect: optionalString(pattern.effect, 32),
+    keyframes: keyframes(pattern.keyframes, ({ time, intensity }) => ({ time: finiteNumber(time), intensity: finiteNumber(intensity) })),
+    dutyCycle: pattern.dutyCycle === undefined ? undefined : finiteNumber(pattern.dutyCycle),
+    pulses: Array.isArray(pattern.pulses) ? pattern.pulses.slice(0, MAX_PATTERN_POINTS).map(pulse => finiteNumber(pulse)) : undefined,
+    pulseDecay: pattern.pulseDecay === undefined ? undefined : finiteNumber(pattern.pulseDecay),
+    colors: keyframes(pattern.colors, ({ time, color }) => ({ time: finiteNumber(time), color: optionalString(color, 32) || '#FFFFFF' })),
+    colorBlend: pattern.colorBlend === 'fade' ? 'fade' : undefined
+  };
+};
+
+/**
+ * Normaliza um item da timeline (src/types/lightshow.ts). Imagens precisam de URL pública
+ * (os celulares não recebem data URIs do editor)
+ * @returns {object|null}
+ */
+const sanitizeCue = (item) => {
+  if (!item || typeof item.id !== 'string' || !ITEM_TYPES.includes(item.type)) return null;
+
+  const startTime = finiteNumber(item.startTime, -1);
+  const duration = finiteNumber(item.duration);
+  if (startTime < 0 || duration <= 0) return null;
+
+  const cue = {
+    id: item.id.slice(0, 64),
+    type: item.type,
+    startTime,
+    duration,
+    zones: Array.isArray(item.zones) ? item.zones.filter(zone => typeof zone === 'string').slice(0, MAX_ZONES) : undefined
+  };
+
+  if (item.type === 'flashlight') {
+    cue.pattern = sanitizePattern(item.pattern);
+  } else if (item.type === 'image') {
+    cue.imageUrl = isHttpUrl(item.imageUrl) ? item.imageUrl : undefined;
+    cue.backgroundColor = optionalString(item.backgroundColor, 32);
+  } else if (item.content && CALL_TO_ACTION_TYPES.includes(item.content.type)) {
+    cue.content = {
+      type: item.content.type,
+      imageUrl: isHttpUrl(item.content.imageUrl) ? item.content.imageUrl : undefined,
+      buttonText: optionalString(item.content.buttonText, 100),
+      externalUrl: isHttpUrl(item.content.externalUrl) ? item.content.externalUrl : undefined,
+      couponCode: optionalString(item.content.couponCode, 100)
+    };
+  }
+
+  return cue;
+};
+
+/**
+ * Normaliza o show enviado pelo host
+ * @param {object} show - { showId, showName, duration, zones, items }
+ * @returns {{showId: string, showName: string, duration: number, zones: object[], cues: object[]}|null}
+ */
+const sanitizeShow = (show) => {
+  if (!show || !Array.isArray(show.items)) return null;
+
+  const cues = show.items
+    .slice(0, MAX_CUES)
+    .map(sanitizeCue)
+    .filter(Boolean)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  if (cues.length === 0) return null;
+
+  const zones = (Array.isArray(show.zones) ? show.zones : [])
+    .slice(0, MAX_ZONES)
+    .filter(zone => zone && typeof zone.id === 'string')
+    .map(zone => ({
+      id: zone.id.slice(0, 8),
+      name: optionalString(zone.name, 60) || zone.id,
+      color: optionalString(zone.color, 32) || '#FFFFFF'
+    }));
+
+  const lastCueEnd = Math.max(...cues.map(cue => cue.startTime + cue.duration));
+
+  return {
+    showId: optionalString(show.showId, 64) || '',
+    showName: optionalString(show.showName, 100) || 'Light Show',
+    duration: Math.max(finiteNumber(show.duration), lastCueEnd),
+    zones,
+    cues
+  };
+};
+
+// Posição atual do show em segundos
+const getPosition = (session, now = Date.now()) =>
+  session.status === 'playing' ? (now - session.startedAt) / 1000 : session.position;
+
+// Horário do servidor (ms) em que o cue começa
+const cueStartsAt = (session, cue) => session.startedAt + cue.startTime * 1000;
+
+const toShowInfo = (session) => ({
+  roomId: session.roomId,
+  showId: session.show.showId,
+  showName: session.show.showName,
+  duration: session.show.duration,
+  zones: session.show.zones,
+  cueCount: session.show.cues.length
+});
+
+/**
+ * Cria os handlers do light show por rede ligados ao servidor Socket.IO
+ * @param {import('socket.io').Server} io
+ * @param {object} deps - Helpers do signaling (socket.js)
+ * @param {(socket: object, roomId: string) => boolean} deps.isRoomHostSocket
+ * @param {(roomId: string) => string|undefined} deps.getHostSocketId
+ * @param {(roomId: string) => {socketId: string, userId: string}[]} deps.getParticipants
+ */
+const createLightShowHandlers = (io, { isRoomHostSocket, getHostSocketId, getParticipants }) => {
+  const toState = (session) => ({
+    roomId: session.roomId,
+    status: session.status,
+    position: getPosition(session),
+    startedAt: session.status === 'playing' ? session.startedAt : null,
+    audienceCount: getParticipants(session.roomId).length,
+    serverTime: Date.now()
+  });
+
+  const broadcastState = (session) => {
+    io.to(session.roomId).emit('lightshow-state', toState(session));
+  };
+
+  const emitCues = (target, session, cues) => {
+    if (cues.length === 0) return;
+
+    target.emit('lightshow-cues', {
+      roomId: session.roomId,
+      cues: cues.map(cue => ({ at: cueStartsAt(session, cue), item: cue })),
+      serverTime: Date.now()
+    });
+  };
+
+  const clearTimer = (session) => {
+    if (session.timer) {
+      clearInterval(session.timer);
+      session.timer = null;
+    }
+  };
+
+  const scheduleCleanup = (session) => {
+    clearTimeout(session.cleanupTimer);
+    session.cleanupTimer = setTimeout(() => {
+      if (lightShowSessions.get(session.roomId) === session && session.status !== 'playing') {
+        lightShowSessions.delete(session.roomId);
+      }
+    }, IDLE_SESSION_TTL);
+    session.cleanupTimer.unref?.();
+  };
+
+  const finishShow = (session) => {
+    clearTimer(session);
+    session.status = 'stopped';
+    session.position = 0;
+    session.startedAt = null;
+    console.log(`🏁 LIGHTSHOW: "${session.show.showName}" finished in room ${session.roomId}`);
+    broadcastState(session);
+    scheduleCleanup(session);
+  };
+
+  // Envia os cues que começam dentro da janela de antecedência
+  const tick = (session) => {
+    const now = Date.now();
+    const { cues } = session.show;
+    const due = [];
+
+    while (session.cursor < cues.length && cueStartsAt(session, cues[session.cursor]) <= now + CUE_LOOKAHEAD) {
+      due.push(cues[session.cursor]);
+      session.cursor += 1;
+    }
+
+    emitCues(io.to(session.roomId), session, due);
+
+    if (session.cursor >= cues.length && getPosition(session, now) >= session.show.duration) {
+      finishShow(session);
+    }
+  };
+
+  // Cues em andamento na posição atual (o celular entra no meio do efeito)
+  const getActiveCues = (session, position) =>
+    session.show.cues.filter(cue => cue.startTime < position && cue.startTime + cue.duration > position);
+
+  const play = (session, position, at) => {
+    clearTimer(session);
+    clearTimeout(session.cleanupTimer);
+
+    const start = Math.min(Math.max(0, position), session.show.duration);
+    session.status = 'playing';
+    session.startedAt = at - start * 1000;
+    session.position = start;
+
+    const firstPending = session.show.cues.findIndex(cue => cue.startTime >= start);
+    session.cursor = firstPending === -1 ? session.show.cues.length : firstPending;
+
+    console.log(`▶️ LIGHTSHOW: Playing room ${session.roomId} from ${start.toFixed(2)}s`);
+    broadcastState(session);
+    emitCues(io.to(session.roomId), session, getActiveCues(session, start));
+    tick(session);
+    if (session.status === 'playing') {
+      session.timer = setInterval(() => tick(session), SCHEDULER_INTERVAL);
+    }
+  };
+
+  const pause = (session, position) => {
+    clearTimer(session);
+    session.position = Number.isFinite(position) ? Math.max(0, position) : getPosition(session);
+    session.status = 'paused';
+    session.startedAt = null;
+
+    console.log(`⏸️ LIGHTSHOW: Paused room ${session.roomId} at ${session.position.toFixed(2)}s`);
+    broadcastState(session);
+    scheduleCleanup(session);
+  };
+
+  // Executa a ação somente para o host da sala com um show carregado
+  const withHostSession = (socket, roomId, handler) => {
+    if (!isRoomHostSocket(socket, roomId)) {
+      socket.emit('error', { message: 'Only the room host can control the light show', code: 'NOT_HOST' });
+      return;
+    }
+
+    const session = lightShowSessions.get(roomId);
+    if (!session) {
+      socket.emit('error', { message: 'No light show loaded in this room', code: 'LIGHTSHOW_NOT_FOUND' });
+      return;
+    }
+
+    handler(session);
+  };
+
+  const register = (socket) => {
+    socket.on('lightshow-load', ({ roomId, show } = {}) => {
+      if (!isRoomHostSocket(socket, roomId)) {
+        socket.emit('error', { message: 'Only the room host can control the light show', code: 'NOT_HOST' });
+        return;
+      }
+
+      const sanitized = sanitizeShow(show);
+      if (!sanitized) {
+        socket.emit('error', { message: 'Light show has no playable cues', code: 'LIGHTSHOW_INVALID' });
+        return;
+      }
+
+      const previous = lightShowSessions.get(roomId);
+      if (previous) {
+        clearTimer(previous);
+        clearTimeout(previous.cleanupTimer);
+      }
+
+      const session = {
+        roomId,
+        show: sanitized,
+        status: 'stopped',
+        position: 0,
+        startedAt: null,
+        cursor: 0,
+        timer: null,
+        cleanupTimer: null
+      };
+      lightShowSessions.set(roomId, session);
+
+      console.log(`💡 LIGHTSHOW: "${sanitized.showName}" loaded in room ${roomId} (${sanitized.cues.length} cues)`);
+      io.to(roomId).emit('lightshow-show', toShowInfo(session));
+      broadcastState(session);
+      scheduleCleanup(session);
+    });
+
+    // `at`: horário do servidor em que o host ouve `position` (estimado pelo relógio sincronizado do host)
+    socket.on('lightshow-play', ({ roomId, position, at } = {}) => {
+      withHostSession(socket, roomId, (session) => {
+        const now = Date.now();
+        const startAt = Number.isFinite(at) && Math.abs(at - now) < CUE_LOOKAHEAD * 4 ? at : now;
+        play(session, finiteNumber(position), startAt);
+      });
+    });
+
+    socket.on('lightshow-pause', ({ roomId, position } = {}) => {
+      withHostSession(socket, roomId, (session) => pause(session, position));
+    });
+
+    socket.on('lightshow-stop', ({ roomId } = {}) => {
+      withHostSession(socket, roomId, finishShow);
+    });
+  };
+
+  // Quem entra (ou reconecta) no meio do show recebe o show, o estado e os cues em andamento
+  const syncSocket = (socket, roomId) => {
+    const session = lightShowSessions.get(roomId);
+    if (!session) return;
+
+    socket.emit('lightshow-show', toShowInfo(session));
+    socket.emit('lightshow-state', toState(session));
+
+    if (session.status === 'playing') {
+      const now = Date.now();
+      emitCues(socket, session, session.show.cues
+        .slice(0, session.cursor)
+        .filter(cue => cueStartsAt(session, cue) + cue.duration * 1000 > now));
+    }
+  };
+
+  // Atualiza o total de celulares conectados exibido ao host
+  const onParticipantsChanged = (roomId) => {
+    const session = lightShowSessions.get(roomId);
+    const hostSocketId = getHostSocketId(roomId);
+    if (session && hostSocketId) {
+      io.to(hostSocketId).emit('lightshow-state', toState(session));
+    }
+  };
+
+  return { register, syncSocket, onParticipantsChanged };
+};
+
+module.exports = {
+  createLightShowHandlers
+};
@@ -0,0 +1,406 @@
+const { buildStandings, toLeaderboardEntry } = require('../services/quizScoring');
+
+// Sessões de quiz ao vivo: o host conduz as perguntas e os participantes respondem pelo celular
+const quizSessions = new Map(); // roomId → { title, settings, questions, phase, currentIndex, startedAt, endsAt, answers, timer }
+
+const MAX_QUESTIONS = 100;
+const MAX_OPTIONS = 6;
+const FINISHED_SESSION_TTL = 60 * 60 * 1000; // 1 hora
+const LEADERBOARD_SIZE = 10;
+
+const clampNumber = (value, min, max, fallback) => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+};
+
+/**
+ * Normaliza o quiz enviado pelo host (somente perguntas ativas e com resposta correta válida)
+ * @param {object} quiz - Quiz do editor (src/types/quiz.ts)
+ * @returns {{title: string, settings: object, questions: object[]}|null}
+ */
+const sanitizeQuiz = (quiz) => {
+  if (!quiz || !Array.isArray(quiz.questions)) return null;
+
+  const questions = quiz.questions
+    .filter(question => question && question.isActive !== false)
+    .slice(0, MAX_QUESTIONS)
+    .map(question => {
+      const options = (Array.isArray(question.options) ? question.options : [])
+        .slice(0, MAX_OPTIONS)
+        .filter(option => option && typeof option.id === 'string')
+        .map(option => ({ id: option.id, text: String(option.text || '') }));
+
+      return {
+        id: String(question.id),
+        prompt: String(question.prompt || ''),
+        options,
+        correctOptionId: question.correctOptionId,
+        timeLimit: clampNumber(question.timeLimit, 5, 300, 30),
+        points: clampNumber(question.points, 0, 10000, 100),
+        imageUrl: typeof question.imageUrl === 'string' ? question.imageUrl : undefined
+      };
+    })
+    .filter(question => question.options.length >= 2 && question.options.some(option => option.id === question.correctOptionId));
+
+  if (questions.length === 0) return null;
+
+  return {
+    title: String(quiz.title || 'Quiz'),
+    settings: quiz.settings && typeof quiz.settings === 'object' ? quiz.settings : {},
+    questions
+  };
+};
+
+const getCurrentQuestion = (session) => session.questions[session.currentIndex] || null;
+
+// Perguntas já encerradas (a atual só conta depois do resultado ou do fim do quiz)
+const getClosedQuestions = (session) => {
+  const includeCurrent = session.phase === 'results' || session.phase === 'finished';
+  return session.questions.slice(0, session.currentIndex + (includeCurrent ? 1 : 0));
+};
+
+const getStandings = (session) => buildStandings(getClosedQuestions(session), session.answers, session.players);
+
+const addPlayer = (session, { userId, name, joinedAt }) => {
+  if (!session.players.has(userId)) {
+    session.players.set(userId, { name: name || userId, joinedAt: joinedAt || Date.now() });
+  } else if (name) {
+    session.players.get(userId).name = name;
+  }
+};
+
+// Contagem de respostas por alternativa da pergunta atual
+const getQuestionResults = (session, question) => {
+  const answers = session.answers.get(question.id) || new Map();
+  const counts = Object.fromEntries(question.options.map(option => [option.id, 0]));
+
+  answers.forEach(({ optionId }) => {
+    counts[optionId] = (counts[optionId] || 0) + 1;
+  });
+
+  return {
+    questionId: question.id,
+    counts,
+    totalAnswers: answers.size,
+    correctOptionId: question.correctOptionId
+  };
+};
+
+/**
+ * Estado público do quiz (sem a resposta correta enquanto a pergunta está aberta)
+ * @param {object} session - Sessão do quiz
+ * @param {string} [participantId] - Inclui a resposta já enviada por este participante
+ */
+const toQuizState = (session, participantId) => {
+  const question = getCurrentQuestion(session);
+  const showQuestion = question && (session.phase === 'question' || session.phase === 'results');
+  const answer = question && participantId ? session.answers.get(question.id)?.get(participantId) : null;
+
+  return {
+    roomId: session.roomId,
+    title: session.title,
+    settings: session.settings,
+    phase: session.phase,
+    questionIndex: session.currentIndex,
+    totalQuestions: session.questions.length,
+    question: showQuestion
+      ? {
+        id: question.id,
+        prompt: question.prompt,
+        options: question.options,
+        timeLimit: question.timeLimit,
+        points: question.points,
+        imageUrl: question.imageUrl
+      }
+      : null,
+    startedAt: session.startedAt,
+    endsAt: session.endsAt,
+    answerCount: question ? (session.answers.get(question.id)?.size || 0) : 0,
+    results: showQuestion && session.phase === 'results' ? getQuestionResults(session, question) : null,
+    myAnswer: answer ? answer.optionId : null,
+    serverTime: Date.now()
+  };
+};
+
+/**
+ * Cria os handlers de quiz ligados ao servidor Socket.IO
+ * @param {import('socket.io').Server} io
+ * @param {object} deps - Helpers do signaling (socket.js)
+ * @param {(socket: object, roomId: string) => boolean} deps.isRoomHostSocket
+ * @param {(socketId: string) => object|undefined} deps.getSocketUser
+ * @param {(roomId: string) => string|undefined} deps.getHostSocketId
+ * @param {(roomId: string) => {socketId: string, userId: string, name: string, joinedAt: number}[]} deps.getParticipants
+ */
+const createQuizHandlers = (io, { isRoomHostSocket, getSocketUser, getHostSocketId, getParticipants }) => {
+  const broadcastState = (session) => {
+    io.to(session.roomId).emit('quiz-state', toQuizState(session));
+  };
+
+  const emitAnswersToHost = (session) => {
+    const hostSocketId = getHostSocketId(session.roomId);
+    if (!hostSocketId) return;
+
+    const question = getCurrentQuestion(session);
+    io.to(hostSocketId).emit('quiz-answers-updated', {
+      roomId: session.roomId,
+      participantCount: getParticipants(session.roomId).length,
+      ...(question
+        ? getQuestionResults(session, question)
+        : { questionId: null, counts: {}, totalAnswers: 0, correctOptionId: null }),
+      timestamp: Date.now()
+    });
+  };
+
+  // Classificação: top da sala para todos, posição individual para cada participante
+  const emitLeaderboard = (session) => {
+    const standings = getStandings(session);
+    const final = session.phase === 'finished';
+
+    io.to(session.roomId).emit('quiz-leaderboard', {
+      roomId: session.roomId,
+      final,
+      questionIndex: session.currentIndex,
+      totalQuestions: session.questions.length,
+      totalPlayers: standings.length,
+      entries: standings.slice(0, LEADERBOARD_SIZE).map(toLeaderboardEntry),
+      timestamp: Date.now()
+    });
+
+    const byParticipant = new Map(standings.map(standing => [standing.participantId, standing]));
+    getParticipants(session.roomId).forEach(({ socketId, userId }) => {
+      const standing = byParticipant.get(userId);
+      if (!standing) return;
+
+      io.to(socketId).emit('quiz-score', {
+        roomId: session.roomId,
+        final,
+        totalPlayers: standings.length,
+        ...toLeaderboardEntry(standing)
+      });
+    });
+  };
+
+  const clearTimer = (session) => {
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = null;
+    }
+  };
+
+  // Fecha a pergunta atual e divulga o resultado
+  const closeQuestion = (session) => {
+    if (session.phase !== 'question') return;
+
+    clearTimer(session);
+    session.phase = 'results';
+    session.endsAt = Date.now();
+    console.log(`🧠 QUIZ: Question ${session.currentIndex + 1} closed in room ${session.roomId}`);
+    broadcastState(session);
+    emitLeaderboard(session);
+  };
+
+  const openNextQuestion = (session) => {
+    clearTimer(session);
+
+    if (session.currentIndex + 1 >= session.questions.length) {
+      finishQuiz(session);
+      return;
+    }
+
+    session.currentIndex += 1;
+    const question = getCurrentQuestion(session);
+    session.phase = 'question';
+    session.startedAt = Date.now();
+    session.endsAt = session.startedAt + question.timeLimit * 1000;
+    session.answers.set(question.id, new Map());
+    session.timer = setTimeout(() => closeQuestion(session), question.timeLimit * 1000);
+
+    console.log(`🧠 QUIZ: Question ${session.currentIndex + 1}/${session.questions.length} opened in room ${session.roomId}`);
+    broadcastState(session);
+    emitAnswersToHost(session);
+  };
+
+  const finishQuiz = (session) => {
+    if (session.phase === 'finished') return;
+
+    clearTimer(session);
+    session.phase = 'finished';
+    session.endsAt = null;
+    console.log(`🏁 QUIZ: Finished in room ${session.roomId}`);
+    broadcastState(session);
+    emitLeaderboard(session);
+
+    session.cleanupTimer = setTimeout(() => {
+      if (quizSessions.get(session.roomId) === session) {
+        quizSessions.delete(session.roomId);
+      }
+    }, FINISHED_SESSION_TTL);
+    session.cleanupTimer.unref?.();
+  };
+
+  // Executa a ação somente para o host da sala com uma sessão existente
+  const withHostSession = (socket, roomId, handler) => {
+    if (!isRoomHostSocket(socket, roomId)) {
+      socket.emit('error', { message: 'Only the room host can control the quiz', code: 'NOT_HOST' });
+      return;
+    }
+
+    const session = quizSessions.get(roomId);
+    if (!session) {
+      socket.emit('error', { message: 'No quiz running in this room', code: 'QUIZ_NOT_FOUND' });
+      return;
+    }
+
+    handler(session);
+  };
+
+  const register = (socket) => {
+    socket.on('quiz-start', ({ roomId, quiz } = {}) => {
+      if (!isRoomHostSocket(socket, roomId)) {
+        socket.emit('error', { message: 'Only the room host can control the quiz', code: 'NOT_HOST' });
+        return;
+      }
+
+      const sanitized = sanitizeQuiz(quiz);
+      if (!sanitized) {
+        socket.emit('error', { message: 'Quiz has no playable questions', code: 'QUIZ_INVALID' });
+        return;
+      }
+
+      const previous = quizSessions.get(roomId);
+      if (previous) {
+        clearTimer(previous);
+        clearTimeout(previous.cleanupTimer);
+      }
+
+      const session = {
+        roomId,
+        ...sanitized,
+        phase: 'waiting',
+        currentIndex: -1,
+        startedAt: null,
+        endsAt: null,
+        answers: new Map(),
+        players: new Map(),
+        timer: null,
+        cleanupTimer: null
+      };
+      getParticipants(roomId).forEach(participant => addPlayer(session, participant));
+      quizSessions.set(roomId, session);
+
+      console.log(`🧠 QUIZ: "${session.title}" started in room ${roomId} (${session.questions.length} questions)`);
+      broadcastState(session);
+    });
+
+    socket.on('quiz-next', ({ roomId } = {}) => {
+      withHostSession(socket, roomId, openNextQuestion);
+    });
+
+    socket.on('quiz-reveal', ({ roomId } = {}) => {
+      withHostSession(socket, roomId, closeQuestion);
+    });
+
+    socket.on('quiz-end', ({ roomId } = {}) => {
+      withHostSession(socket, roomId, finishQuiz);
+    });
+
+    // Exportação final: todas as respostas pontuadas por participante
+    socket.on('quiz-export', ({ roomId } = {}) => {
+      withHostSession(socket, roomId, (session) => {
+        socket.emit('quiz-export-data', {
+          roomId,
+          title: session.title,
+          phase: session.phase,
+          exportedAt: new Date().toISOString(),
+          questions: getClosedQuestions(session).map(({ id, prompt, options, correctOptionId, points, timeLimit }) => ({
+            id,
+            prompt,
+            options,
+            correctOptionId,
+            points,
+            timeLimit
+          })),
+          participants: getStandings(session).map(({ joinedAt, ...standing }) => ({
+            ...standing,
+            joinedAt: new Date(joinedAt).toISOString()
+          }))
+        });
+      });
+    });
+
+    socket.on('quiz-answer', ({ roomId, questionId, optionId, submittedAt } = {}) => {
+      const reject = (code) => socket.emit('quiz-answer-ack', { roomId, questionId, optionId, accepted: false, code });
+
+      const userInfo = getSocketUser(socket.id);
+      if (!userInfo || userInfo.role !== 'participant' || userInfo.roomId !== roomId) {
+        reject('NOT_IN_ROOM');
+        return;
+      }
+
+      const session = quizSessions.get(roomId);
+      const question = session && getCurrentQuestion(session);
+      if (!session || session.phase !== 'question' || !question || question.id !== questionId) {
+        reject('QUESTION_CLOSED');
+        return;
+      }
+
+      if (Date.now() > session.endsAt) {
+        reject('TIME_UP');
+        return;
+      }
+
+      if (!question.options.some(option => option.id === optionId)) {
+        reject('INVALID_OPTION');
+        return;
+      }
+
+      const answers = session.answers.get(question.id);
+      if (answers.has(userInfo.userId)) {
+        reject('ALREADY_ANSWERED');
+        return;
+      }
+
+      // Tempo medido pelo servidor; o horário do cliente fica só para auditoria na exportação
+      const answeredAt = Date.now();
+      answers.set(userInfo.userId, {
+        optionId,
+        answeredAt,
+        elapsedMs: answeredAt - session.startedAt,
+        submittedAt: Number.isFinite(submittedAt) ? submittedAt : null
+      });
+      addPlayer(session, userInfo);
+
+      socket.emit('quiz-answer-ack', { roomId, questionId, optionId, accepted: true });
+      emitAnswersToHost(session);
+    });
+  };
+
+  // Quem entra (ou reconecta) no meio do quiz recebe o estado atual
+  const syncSocket = (socket, roomId, { userId, role, name, joinedAt }) => {
+    const session = quizSessions.get(roomId);
+    if (!session) return;
+
+    if (role === 'participant') {
+      addPlayer(session, { userId, name, joinedAt });
+    }
+    socket.emit('quiz-state', toQuizState(session, role === 'participant' ? userId : undefined));
+    if (role === 'host') {
+      emitAnswersToHost(session);
+    }
+  };
+
+  // Atualiza o total de participantes exibido ao host
+  const onParticipantsChanged = (roomId) => {
+    const session = quizSessions.get(roomId);
+    if (session) {
+      emitAnswersToHost(session);
+    }
+  };
+
+  return { register, syncSocket, onParticipantsChanged };
+};
+
+module.exports = {
+  createQuizHandlers
+};
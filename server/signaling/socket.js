@@ -1,3 +1,9 @@
+const { isRoomOwner } = require('../services/hostAuth');
+const { consumeJoinToken } = require('../services/joinTokens');
+const { removeLiveKitParticipant, muteLiveKitCamera } = require('../services/livekitRoomService');
+const { createQuizHandlers } = require('./quiz');
+const { createLightShowHandlers } = require('./lightshow');
+
 // New WebRTC routing maps for direct connections
 const hostByRoom = new Map(); // roomId → hostSocketId
 const participantSocket = new Map(); // participantId → socketId
@@ -7,6 +13,17 @@ const socketToUser = new Map(); // socketId → {roomId, userId, role, joinedAt}
 const connections = new Map(); // socketId -> { roomId, userId, socketRef }
 const rooms = new Map(); // roomId -> Set of socketIds
 
+// Sala de espera (lobby): participantes aguardando aprovação do host
+const waitingRooms = new Map(); // roomId → Map<participantId, {socketId, participantId, name, browserType, isMobile, requestedAt}>
+
+// Comandos de moderação aceitos do host
+const MODERATION_ACTIONS = ['kick', 'ban', 'video-off', 'switch-camera'];
+
+// Nome exibido na tarja do telão: uma linha, sem espaços repetidos
+const MAX_DISPLAY_NAME_LENGTH = 40;
+const sanitizeDisplayName = (name) =>
+  typeof name === 'string' ? name.replace(/\s+/g, ' ').trim().slice(0, MAX_DISPLAY_NAME_LENGTH) : '';
+
 // FASE 2: Connection timeout e health monitoring
 const CONNECTION_HEALTH_INTERVAL = 30000; // 30s
 const STALE_CONNECTION_TIMEOUT = 120000; // 2 minutes
@@ -100,7 +117,137 @@ const cleanupStaleConnections = () => {
   }
 };
 
-const initializeSocketHandlers = (io) => {
+const initializeSocketHandlers = (io, { roomStore } = {}) => {
+  // Papel de host só é concedido a quem prova ser dono da sala
+  const authorizeHost = async (roomId, hostAuth) => {
+    if (!roomStore) {
+      return { ok: false, code: 'ROOM_STORE_UNAVAILABLE', reason: 'Room store not configured' };
+    }
+
+    const roomData = await roomStore.get(roomId);
+    if (!roomData || !roomData.isActive) {
+      return { ok: false, code: 'ROOM_NOT_FOUND', reason: 'Room not found or closed' };
+    }
+
+    if (!isRoomOwner(roomData, hostAuth)) {
+      return { ok: false, code: 'HOST_AUTH_FAILED', reason: 'Only the room owner can join as host' };
+    }
+
+    return { ok: true };
+  };
+
+  // Participantes só entram com um token de entrada válido (QR code / link)
+  const authorizeParticipant = async (roomId, userId, joinToken) => {
+    if (!roomStore) {
+      return { ok: false, code: 'ROOM_STORE_UNAVAILABLE', reason: 'Room store not configured' };
+    }
+
+    const result = await consumeJoinToken(roomStore, roomId, joinToken, userId);
+    if (!result.ok) {
+      return { ok: false, code: result.code, reason: result.message };
+    }
+
+    if ((result.roomData.bannedParticipants || []).includes(userId)) {
+      return { ok: false, code: 'BANNED', reason: 'You were banned from this room by the host' };
+    }
+
+    return { ok: true, roomData: result.roomData };
+  };
+
+  // Eventos de sala de espera só são aceitos do host que entrou na sala
+  const isRoomHostSocket = (socket, roomId) => {
+    const userInfo = socketToUser.get(socket.id);
+    return Boolean(userInfo && userInfo.role === 'host' && userInfo.roomId === roomId);
+  };
+
+  const getWaitingList = (roomId) => Array.from(waitingRooms.get(roomId)?.values() || []);
+
+  // Envia ao host o estado atual da sala de espera
+  const emitLobbyUpdate = async (roomId) => {
+    const hostSocketId = hostByRoom.get(roomId);
+    if (!hostSocketId) return;
+
+    const roomData = roomStore ? await roomStore.get(roomId) : null;
+    io.to(hostSocketId).emit('lobby-updated', {
+      roomId,
+      enabled: Boolean(roomData?.lobbyEnabled),
+      waiting: getWaitingList(roomId),
+      timestamp: Date.now()
+    });
+  };
+
+  const removeFromLobby = (roomId, participantId) => {
+    const waiting = waitingRooms.get(roomId);
+    const entry = waiting?.get(participantId);
+    if (!entry) return null;
+
+    waiting.delete(participantId);
+    if (waiting.size === 0) {
+      waitingRooms.delete(roomId);
+    }
+    return entry;
+  };
+
+  // Admite o participante: fica registrado na sala e o cliente repete o join-room
+  const admitFromLobby = async (roomId, participantId) => {
+    const entry = removeFromLobby(roomId, participantId);
+    if (!entry) return false;
+
+    await roomStore.mutate(roomId, (roomData) => {
+      const admitted = roomData.admittedParticipants || [];
+      if (admitted.includes(participantId)) return null;
+      return { ...roomData, admittedParticipants: [...admitted, participantId] };
+    });
+
+    io.to(entry.socketId).emit('lobby-admitted', { roomId, participantId, timestamp: Date.now() });
+    console.log(`🚪 LOBBY: ${participantId} admitted to room ${roomId}`);
+    return true;
+  };
+
+  const denyFromLobby = (roomId, participantId) => {
+    const entry = removeFromLobby(roomId, participantId);
+    if (!entry) return false;
+
+    const reason = 'The host did not admit you to this room';
+    io.to(entry.socketId).emit('join-room-response', { success: false, error: reason, code: 'LOBBY_DENIED' });
+    console.log(`🚫 LOBBY: ${participantId} denied in room ${roomId}`);
+    return true;
+  };
+
+  // Host recebe o nome que o participante digitou; nome vazio só é enviado quando ele apaga o nome
+  const emitParticipantName = (roomId, socketId, includeEmpty = false) => {
+    const hostSocketId = hostByRoom.get(roomId);
+    const user = socketToUser.get(socketId);
+    if (!hostSocketId || !user || user.role !== 'participant') return;
+
+    const name = user.name === user.userId ? '' : user.name;
+    if (!name && !includeEmpty) return;
+
+    io.to(hostSocketId).emit('participant-name-updated', {
+      roomId,
+      participantId: user.userId,
+      name,
+      timestamp: Date.now()
+    });
+  };
+
+  const quiz = createQuizHandlers(io, {
+    isRoomHostSocket,
+    getSocketUser: (socketId) => socketToUser.get(socketId),
+    getHostSocketId: (roomId) => hostByRoom.get(roomId),
+    getParticipants: (roomId) => Array.from(rooms.get(roomId) || [])
+      .map(socketId => ({ socketId, ...socketToUser.get(socketId) }))
+      .filter(user => user.role === 'participant')
+  });
+
+  const lightShow = createLightShowHandlers(io, {
+    isRoomHostSocket,
+    getHostSocketId: (roomId) => hostByRoom.get(roomId),
+    getParticipants: (roomId) => Array.from(rooms.get(roomId) || [])
+      .map(socketId => ({ socketId, ...socketToUser.get(socketId) }))
+      .filter(user => user.role === 'participant')
+  });
+
   // FASE 4: Setup health monitoring
   setInterval(() => {
     logConnectionMetrics();
@@ -116,9 +263,9 @@ const initializeSocketHandlers = (io) => {
     });
 
     // Suporte a múltiplos formatos de join-room
-    const handleJoinRoom = (data) => {
+    const handleJoinRoom = async (data) => {
       try {
-        const { roomId, userId, networkQuality } = data;
+        const { roomId, userId, networkQuality, hostAuth, joinToken } = data;
 
         if (!roomId || !userId) {
           console.error(`❌ JOIN: Missing required fields - roomId: ${roomId}, userId: ${userId}`);
@@ -127,6 +274,49 @@ const initializeSocketHandlers = (io) => {
           return;
         }
 
+        // Detect role: qualquer pedido de host (role explícito ou userId "host") exige credenciais do dono
+        const isHost = data.role === 'host' || userId.includes('host');
+        const authorization = isHost
+          ? await authorizeHost(roomId, hostAuth)
+          : await authorizeParticipant(roomId, userId, joinToken);
+        if (!authorization.ok) {
+          console.warn(`🚫 ${isHost ? 'HOST' : 'PARTICIPANT'} REJECTED: User ${userId} room ${roomId} (${authorization.code})`);
+          socket.emit('error', { message: authorization.reason, code: authorization.code });
+          socket.emit('join-room-response', { success: false, error: authorization.reason, code: authorization.code });
+          return;
+        }
+        const role = isHost ? 'host' : 'participant';
+
+        // Sala de espera: participante ainda não admitido aguarda aprovação do host
+        const { roomData } = authorization;
+        if (!isHost && roomData?.lobbyEnabled && !(roomData.admittedParticipants || []).includes(userId)) {
+          // Nome trocado na sala de espera vale também para o join-room repetido após a admissão
+          socket.data.displayName = sanitizeDisplayName(data.name);
+          if (!waitingRooms.has(roomId)) {
+            waitingRooms.set(roomId, new Map());
+          }
+          waitingRooms.get(roomId).set(userId, {
+            socketId: socket.id,
+            participantId: userId,
+            name: socket.data.displayName,
+            browserType: data.browserType || 'unknown',
+            isMobile: Boolean(data.isMobile),
+            requestedAt: Date.now()
+          });
+          socket.data.lobby = { roomId, participantId: userId };
+
+          console.log(`⏳ LOBBY: ${userId} waiting for host approval in room ${roomId}`);
+          socket.emit('lobby-waiting', {
+            roomId,
+            participantId: userId,
+            position: waitingRooms.get(roomId).size,
+            timestamp: Date.now()
+          });
+          await emitLobbyUpdate(roomId);
+          return;
+        }
+        socket.data.lobby = null;
+
          // adicioando log para controle de servido ICE
     const iceServers = getICEServers();
 
@@ -158,10 +348,6 @@ const initializeSocketHandlers = (io) => {
           }
         }
 
-        // Detect role: host vs participant based on userId
-        const isHost = userId.includes('host') || userId.startsWith('host-');
-        const role = isHost ? 'host' : 'participant';
-
         console.log(`🚨 CRÍTICO SERVER: User ${userId} detectado como ${role.toUpperCase()}`);
 
         // Update new routing maps for direct WebRTC routing
@@ -187,6 +373,7 @@ const initializeSocketHandlers = (io) => {
           roomId,
           userId,
           role,
+          name: sanitizeDisplayName(socket.data.displayName ?? data.name) || userId,
           joinedAt: Date.now()
         });
 
@@ -215,6 +402,7 @@ const initializeSocketHandlers = (io) => {
         // Notificar outros participantes
         socket.to(roomId).emit('user-connected', {
           userId,
+          name: socketToUser.get(socket.id).name,
           socketId: socket.id,
           timestamp: Date.now(),
           networkQuality: networkQuality || 'unknown'
@@ -230,6 +418,7 @@ const initializeSocketHandlers = (io) => {
             if (conn && socketId !== socket.id) {
               participantsInRoom.push({
                 userId: conn.userId,
+                name: socketToUser.get(socketId)?.name || conn.userId,
                 socketId: socketId,
                 networkQuality: conn.networkQuality
               });
@@ -256,6 +445,26 @@ const initializeSocketHandlers = (io) => {
         console.log(`✅ JOIN SUCCESS: User ${userId} joined room ${roomId} (${participantsInRoom.length + 1} total participants)`);
         logConnectionMetrics();
 
+        // Host (re)conectado recebe quem está aguardando na sala de espera e os nomes de quem já está na sala
+        if (isHost) {
+          await emitLobbyUpdate(roomId);
+          roomSockets?.forEach(socketId => emitParticipantName(roomId, socketId));
+        } else {
+          emitParticipantName(roomId, socket.id);
+        }
+
+        // Quiz em andamento: sincroniza quem entrou e atualiza o total de participantes do host
+        quiz.syncSocket(socket, roomId, socketToUser.get(socket.id));
+        if (!isHost) {
+          quiz.onParticipantsChanged(roomId);
+        }
+
+        // Light show por rede em andamento: o celular recebe o show e os cues atuais
+        lightShow.syncSocket(socket, roomId);
+        if (!isHost) {
+          lightShow.onParticipantsChanged(roomId);
+        }
+
       } catch (error) {
         console.error('❌ JOIN ERROR:', error);
         const errorMessage = `Failed to join room: ${error.message}`;
@@ -268,6 +477,184 @@ const initializeSocketHandlers = (io) => {
     socket.on('join-room', handleJoinRoom);
     socket.on('join_room', handleJoinRoom);
 
+    // Quiz ao vivo (server/signaling/quiz.js)
+    quiz.register(socket);
+
+    // Light show por rede (server/signaling/lightshow.js)
+    lightShow.register(socket);
+
+    // Sala de espera: ativar/desativar (desativar admite todos que aguardam)
+    socket.on('lobby-set-enabled', async ({ roomId, enabled } = {}) => {
+      try {
+        if (!isRoomHostSocket(socket, roomId)) {
+          socket.emit('error', { message: 'Only the host can manage the waiting room', code: 'NOT_HOST' });
+          return;
+        }
+
+        await roomStore.update(roomId, { lobbyEnabled: Boolean(enabled) });
+        console.log(`🚪 LOBBY: Room ${roomId} waiting room ${enabled ? 'enabled' : 'disabled'}`);
+
+        if (!enabled) {
+          for (const entry of getWaitingList(roomId)) {
+            await admitFromLobby(roomId, entry.participantId);
+          }
+        }
+
+        await emitLobbyUpdate(roomId);
+      } catch (error) {
+        console.error('❌ LOBBY: Error in lobby-set-enabled:', error);
+        socket.emit('error', { message: 'Failed to update waiting room' });
+      }
+    });
+
+    socket.on('lobby-admit', async ({ roomId, participantId } = {}) => {
+      try {
+        if (!isRoomHostSocket(socket, roomId)) {
+          socket.emit('error', { message: 'Only the host can manage the waiting room', code: 'NOT_HOST' });
+          return;
+        }
+
+        await admitFromLobby(roomId, participantId);
+        await emitLobbyUpdate(roomId);
+      } catch (error) {
+        console.error('❌ LOBBY: Error in lobby-admit:', error);
+        socket.emit('error', { message: 'Failed to admit participant' });
+      }
+    });
+
+    socket.on('lobby-admit-all', async ({ roomId } = {}) => {
+      try {
+        if (!isRoomHostSocket(socket, roomId)) {
+          socket.emit('error', { message: 'Only the host can manage the waiting room', code: 'NOT_HOST' });
+          return;
+        }
+
+        for (const entry of getWaitingList(roomId)) {
+          await admitFromLobby(roomId, entry.participantId);
+        }
+        await emitLobbyUpdate(roomId);
+      } catch (error) {
+        console.error('❌ LOBBY: Error in lobby-admit-all:', error);
+        socket.emit('error', { message: 'Failed to admit participants' });
+      }
+    });
+
+    socket.on('lobby-deny', async ({ roomId, participantId } = {}) => {
+      try {
+        if (!isRoomHostSocket(socket, roomId)) {
+          socket.emit('error', { message: 'Only the host can manage the waiting room', code: 'NOT_HOST' });
+          return;
+        }
+
+        denyFromLobby(roomId, participantId);
+        await emitLobbyUpdate(roomId);
+      } catch (error) {
+        console.error('❌ LOBBY: Error in lobby-deny:', error);
+        socket.emit('error', { message: 'Failed to deny participant' });
+      }
+    });
+
+    // Moderação: kick, ban (até o fim da sala), desligar câmera e trocar câmera frontal/traseira
+    socket.on('moderate-participant', async ({ roomId, participantId, action, facingMode } = {}) => {
+      try {
+        if (!isRoomHostSocket(socket, roomId)) {
+          socket.emit('error', { message: 'Only the host can moderate participants', code: 'NOT_HOST' });
+          return;
+        }
+
+        if (!participantId || !MODERATION_ACTIONS.includes(action)) {
+          socket.emit('error', { message: `Invalid moderation command: ${action}`, code: 'INVALID_MODERATION' });
+          return;
+        }
+
+        console.log(`🛡️ MODERATION: ${action} → ${participantId} in room ${roomId}`);
+
+        const isRemoval = action === 'kick' || action === 'ban';
+        if (isRemoval) {
+          // Removido perde a admissão da sala de espera; banido não volta a entrar
+          await roomStore.mutate(roomId, (roomData) => {
+            const updated = {
+              ...roomData,
+              admittedParticipants: (roomData.admittedParticipants || []).filter(id => id !== participantId)
+            };
+            if (action === 'ban') {
+              const banned = roomData.bannedParticipants || [];
+              updated.bannedParticipants = banned.includes(participantId) ? banned : [...banned, participantId];
+            }
+            return updated;
+          });
+
+          const waitingEntry = removeFromLobby(roomId, participantId);
+          if (waitingEntry) {
+            io.to(waitingEntry.socketId).emit('moderation-command', { roomId, action, timestamp: Date.now() });
+            await emitLobbyUpdate(roomId);
+          }
+        }
+
+        const targetSocketId = participantSocket.get(participantId);
+        const targetSocket = targetSocketId ? io.sockets.sockets.get(targetSocketId) : null;
+        const delivered = Boolean(targetSocket && socketToUser.get(targetSocketId)?.roomId === roomId);
+
+        if (delivered) {
+          targetSocket.emit('moderation-command', {
+            roomId,
+            action,
+            facingMode: action === 'switch-camera' ? (facingMode === 'user' ? 'user' : 'environment') : undefined,
+            timestamp: Date.now()
+          });
+
+          if (isRemoval) {
+            targetSocket.disconnect(true);
+          }
+        }
+
+        // Mídia: o servidor também aplica no LiveKit, sem depender do cliente obedecer
+        let enforced = false;
+        if (isRemoval) {
+          enforced = await removeLiveKitParticipant(roomId, participantId);
+        } else if (action === 'video-off') {
+          enforced = await muteLiveKitCamera(roomId, participantId);
+        }
+
+        socket.emit('moderation-result', {
+          roomId,
+          participantId,
+          action,
+          delivered,
+          enforced,
+          timestamp: Date.now()
+        });
+      } catch (error) {
+        console.error('❌ MODERATION: Error in moderate-participant:', error);
+        socket.emit('error', { message: 'Failed to moderate participant' });
+      }
+    });
+
+    // Participante muda o próprio nome (tarja no telão); o host pode sobrescrever localmente
+    socket.on('participant-name', async ({ roomId, name } = {}) => {
+      // Ainda na sala de espera: o host vê o nome novo na lista de aprovação
+      const lobby = socket.data.lobby;
+      const waitingEntry = lobby?.roomId === roomId ? waitingRooms.get(roomId)?.get(lobby.participantId) : null;
+      if (waitingEntry?.socketId === socket.id) {
+        waitingEntry.name = sanitizeDisplayName(name);
+        socket.data.displayName = waitingEntry.name;
+        console.log(`🏷️ NAME: ${lobby.participantId} is now "${waitingEntry.name}" in the waiting room of ${roomId}`);
+        await emitLobbyUpdate(roomId);
+        return;
+      }
+
+      const user = socketToUser.get(socket.id);
+      if (!user || user.role !== 'participant' || user.roomId !== roomId) {
+        socket.emit('error', { message: 'Only participants in the room can set a name', code: 'NOT_PARTICIPANT' });
+        return;
+      }
+
+      socket.data.displayName = sanitizeDisplayName(name);
+      user.name = socket.data.displayName || user.userId;
+      console.log(`🏷️ NAME: ${user.userId} is now "${user.name}" in room ${roomId}`);
+      emitParticipantName(roomId, socket.id, true);
+    });
+
     // CRITICAL: Handler para participant-ready - rotear ao host
     socket.on('participant-ready', (data) => {
       try {
@@ -301,11 +688,18 @@ const initializeSocketHandlers = (io) => {
     });
 
     // FASE 4: Enhanced heartbeat with connection health tracking
-    socket.on('ping', (callback) => {
+    // Também usado na sincronia de relógio do light show: `{ clientTime }` volta na resposta
+    socket.on('ping', (payload, callback) => {
+      const ack = typeof payload === 'function' ? payload : callback;
+      const clientTime = Number.isFinite(payload?.clientTime) ? payload.clientTime : undefined;
+
       const connection = connections.get(socket.id);
       if (connection) {
         connection.lastSeen = Date.now();
-        console.log(`💓 HEARTBEAT: Updated last seen for ${connection.userId}`);
+        // Pings de sincronia chegam em rajadas: só o heartbeat vai para o log
+        if (clientTime === undefined) {
+          console.log(`💓 HEARTBEAT: Updated last seen for ${connection.userId}`);
+        }
       }
 
       // Respond with server health info
@@ -313,11 +707,12 @@ const initializeSocketHandlers = (io) => {
         timestamp: Date.now(),
         serverHealth: 'ok',
         connectionsCount: connections.size,
-        roomsCount: rooms.size
+        roomsCount: rooms.size,
+        clientTime
       };
 
-      if (callback && typeof callback === 'function') {
-        callback(response);
+      if (ack && typeof ack === 'function') {
+        ack(response);
       } else {
         socket.emit('pong', response);
       }
@@ -539,6 +934,13 @@ const initializeSocketHandlers = (io) => {
 
     socket.on('disconnect', (reason) => {
       try {
+        // Participante que desistiu enquanto aguardava na sala de espera
+        const lobby = socket.data.lobby;
+        if (lobby && waitingRooms.get(lobby.roomId)?.get(lobby.participantId)?.socketId === socket.id) {
+          removeFromLobby(lobby.roomId, lobby.participantId);
+          emitLobbyUpdate(lobby.roomId).catch(error => console.error('❌ LOBBY: Failed to notify host:', error));
+        }
+
         const connection = connections.get(socket.id);
         const userInfo = socketToUser.get(socket.id);
 
@@ -592,6 +994,11 @@ const initializeSocketHandlers = (io) => {
 
           connections.delete(socket.id);
 
+          if (role === 'participant') {
+            quiz.onParticipantsChanged(roomId);
+            lightShow.onParticipantsChanged(roomId);
+          }
+
           console.log(`SERVER-DISCONNECT userId=${userId} roomId=${roomId} role=${role} reason=${reason}`);
           logConnectionMetrics();
         }
@@ -677,9 +1084,9 @@ const initializeSocketHandlers = (io) => {
         
         // Fallback: buscar host na conexões
         if (!hostSocketId) {
-          console.log(`⚠️ SERVER: Host não encontrado no map, buscando em connections...`);
-          connections.forEach((conn, sockId) => {
-            if (conn.roomId === roomId && conn.userId.includes('host')) {
+          console.log(`⚠️ SERVER: Host não encontrado no map, buscando em socketToUser...`);
+          socketToUser.forEach((info, sockId) => {
+            if (info.roomId === roomId && info.role === 'host') {
               hostSocketId = sockId;
               hostByRoom.set(roomId, sockId); // Atualizar cache
               console.log(`✅ SERVER: Host encontrado via fallback: ${sockId}`);
@@ -11,6 +11,8 @@ import LightShowPage from './pages/LightShowPage';
 import QuizPage from './pages/QuizPage';
 import NotFound from './pages/NotFound';
 import ParticipantPage from './pages/ParticipantPage';
+import QuizPlayPage from './pages/QuizPlayPage';
+import LightShowPlayPage from './pages/LightShowPlayPage';
 
 function App() {
   return (
@@ -22,6 +24,8 @@ function App() {
         <Route path="/lightshow" element={<LightShowPage />} />
         <Route path="/quiz" element={<QuizPage />} />
         <Route path="/participant/:sessionId" element={<ParticipantPage />} />
+        <Route path="/quiz/play/:sessionId" element={<QuizPlayPage />} />
+        <Route path="/lightshow/play/:sessionId" element={<LightShowPlayPage />} />
         <Route path="/404" element={<NotFound />} />
         <Route path="*" element={<Navigate to="/404" replace />} />
       </Routes>
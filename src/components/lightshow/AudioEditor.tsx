@@ -4,21 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { AudioEditInfo } from "@/types/lightshow";
 import { Scissors, Upload } from "lucide-react";
 
 interface AudioEditorProps {
   audioFile: File | null;
   duration: number;
-  audioEditInfo: {
-    startTrim: number;
-    endTrim: number;
-  };
+  audioEditInfo: AudioEditInfo;
   onAudioUpload: (file: File) => void;
-  setAudioEditInfo: (info: {
-    startTrim: number;
-    endTrim: number;
-  }) => void;
-  trimAudio: () => void;
+  setAudioEditInfo: (info: AudioEditInfo) => void;
+  trimAudio: (range?: Pick<AudioEditInfo, 'startTrim' | 'endTrim'>) => void;
 }
 
 const AudioEditor = ({
@@ -65,7 +60,7 @@ const AudioEditor = ({
             <div>
               <Label className="text-md font-semibold">Cortar Áudio</Label>
               <div className="text-sm text-white/70 mt-1 mb-3">
-                Defina os pontos de início e fim para cortar o áudio
+                Defina os pontos de início e fim para cortar o áudio. Os itens da timeline são ajustados ao novo trecho.
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -105,10 +100,45 @@ const AudioEditor = ({
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <div>
+                  <Label htmlFor="fade-in">Fade in (segundos)</Label>
+                  <Input
+                    id="fade-in"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={audioEditInfo.fadeIn}
+                    onChange={(e) => setAudioEditInfo({
+                      ...audioEditInfo,
+                      fadeIn: Math.max(0, parseFloat(e.target.value) || 0)
+                    })}
+                    className="bg-black/20 border-white/10"
+                    disabled={!audioFile}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fade-out">Fade out (segundos)</Label>
+                  <Input
+                    id="fade-out"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={audioEditInfo.fadeOut}
+                    onChange={(e) => setAudioEditInfo({
+                      ...audioEditInfo,
+                      fadeOut: Math.max(0, parseFloat(e.target.value) || 0)
+                    })}
+                    className="bg-black/20 border-white/10"
+                    disabled={!audioFile}
+                  />
+                </div>
+              </div>
+
               <div className="mt-4">
                 <Button
-                  onClick={trimAudio}
-                  disabled={!audioFile || audioEditInfo.endTrim <= audioEditInfo.startTrim}
+                  onClick={() => trimAudio()}
+                  disabled={!audioFile || (audioEditInfo.endTrim || duration) <= audioEditInfo.startTrim}
                   className="w-full"
                 >
                   <Scissors className="h-4 w-4 mr-2" />
@@ -1,8 +1,9 @@
 
 import { Button } from "@/components/ui/button";
-import { Play, Pause, Wand2, RotateCcw, Flashlight } from "lucide-react";
+import { Play, Pause, Wand2, RotateCcw, Flashlight, Undo2, Redo2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useRef } from "react";
+import { useTimelineHistory } from "@/hooks/useTimelineHistory";
 
 interface ControlPanelProps {
   isPlaying: boolean;
@@ -14,6 +15,7 @@ interface ControlPanelProps {
   addImageToTimeline: (imageUrl: string, duration?: number, startTime?: number) => void;
   generateAutoSyncPatterns: () => void;
   handleReset: () => void;
+  history: ReturnType<typeof useTimelineHistory>;
 }
 
 const ControlPanel = ({
@@ -25,7 +27,8 @@ const ControlPanel = ({
   addFlashlightPattern,
   addImageToTimeline,
   generateAutoSyncPatterns,
-  handleReset
+  handleReset,
+  history
 }: ControlPanelProps) => {
   const { toast } = useToast();
 
@@ -50,6 +53,30 @@ const ControlPanel = ({
       </span>
       
       <div className="ml-auto flex flex-wrap space-x-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-9 w-9"
+          onClick={history.undo}
+          disabled={!history.canUndo}
+          title="Desfazer (Ctrl+Z)"
+          aria-label="Desfazer"
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-9 w-9"
+          onClick={history.redo}
+          disabled={!history.canRedo}
+          title="Refazer (Ctrl+Shift+Z)"
+          aria-label="Refazer"
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        
         <Button
           size="sm"
           variant="outline"
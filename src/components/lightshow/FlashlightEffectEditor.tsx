@@ -0,0 +1,226 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { FlashlightEffect, FlashlightPattern, TimelineItem } from '@/types/lightshow';
+import {
+  DEFAULT_DUTY_CYCLE,
+  DEFAULT_PULSE_DECAY,
+  EFFECT_LABELS,
+  RAMP_PRESETS,
+  applyEffect,
+  beatsWithin
+} from "@/utils/flashlightEffects";
+
+interface FlashlightEffectEditorProps {
+  item: TimelineItem;
+  pattern: FlashlightPattern;
+  beats: number[];
+  onChange: (pattern: FlashlightPattern) => void;
+}
+
+const toPercent = (fraction: number) => Math.round(fraction * 100);
+const fromPercent = (value: string) => Math.min(1, Math.max(0, (parseFloat(value) || 0) / 100));
+
+const FlashlightEffectEditor = ({ item, pattern, beats, onChange }: FlashlightEffectEditorProps) => {
+  const effect = pattern.effect ?? 'constant';
+  const update = (changes: Partial<FlashlightPattern>) => onChange({ ...pattern, ...changes });
+
+  const keyframes = pattern.keyframes ?? [];
+  const colors = pattern.colors ?? [];
+  const itemBeats = beatsWithin(beats, item.startTime, item.duration);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Efeito</Label>
+        <Select
+          value={effect}
+          onValueChange={(value) => onChange(applyEffect(pattern, value as FlashlightEffect, item, beats))}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EFFECT_LABELS) as FlashlightEffect[]).map(key => (
+              <SelectItem key={key} value={key}>{EFFECT_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(effect === 'constant' || effect === 'strobe') && (
+        <div className="space-y-2">
+          <Label>Taxa de Piscadas ({pattern.blinkRate} Hz)</Label>
+          <Slider
+            value={[pattern.blinkRate]}
+            min={effect === 'strobe' ? 1 : 0}
+            max={effect === 'strobe' ? 20 : 10}
+            step={0.5}
+            onValueChange={(value) => update({ blinkRate: value[0] })}
+          />
+        </div>
+      )}
+
+      {effect === 'strobe' && (
+        <div className="space-y-2">
+          <Label>Tempo aceso ({toPercent(pattern.dutyCycle ?? DEFAULT_DUTY_CYCLE)}% do ciclo)</Label>
+          <Slider
+            value={[toPercent(pattern.dutyCycle ?? DEFAULT_DUTY_CYCLE)]}
+            min={5}
+            max={95}
+            step={5}
+            onValueChange={(value) => update({ dutyCycle: value[0] / 100 })}
+          />
+        </div>
+      )}
+
+      {effect === 'ramp' && (
+        <div className="space-y-2">
+          <Label>Rampa de intensidade</Label>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => update({ keyframes: RAMP_PRESETS.fadeIn })}>Fade in</Button>
+            <Button size="sm" variant="outline" onClick={() => update({ keyframes: RAMP_PRESETS.fadeOut })}>Fade out</Button>
+            <Button size="sm" variant="outline" onClick={() => update({ keyframes: RAMP_PRESETS.fadeInOut })}>Fade in/out</Button>
+          </div>
+
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-white/60">
+            <span>Posição (%)</span>
+            <span>Intensidade (%)</span>
+            <span />
+          </div>
+          {keyframes.map((keyframe, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={toPercent(keyframe.time)}
+                onChange={(e) => update({
+                  keyframes: keyframes.map((k, i) => i === index ? { ...k, time: fromPercent(e.target.value) } : k)
+                })}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(keyframe.intensity)}
+                onChange={(e) => update({
+                  keyframes: keyframes.map((k, i) => i === index ? { ...k, intensity: toPercent(fromPercent(e.target.value)) } : k)
+                })}
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-10 w-10"
+                disabled={keyframes.length <= 2}
+                onClick={() => update({ keyframes: keyframes.filter((_, i) => i !== index) })}
+                aria-label="Remover ponto"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => update({ keyframes: [...keyframes, { time: 1, intensity: pattern.intensity }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar ponto
+          </Button>
+        </div>
+      )}
+
+      {effect === 'pulse' && (
+        <div className="space-y-2">
+          <Label>Duração de cada pulso ({(pattern.pulseDecay ?? DEFAULT_PULSE_DECAY).toFixed(2)}s)</Label>
+          <Slider
+            value={[pattern.pulseDecay ?? DEFAULT_PULSE_DECAY]}
+            min={0.05}
+            max={1}
+            step={0.05}
+            onValueChange={(value) => update({ pulseDecay: value[0] })}
+          />
+          <div className="flex items-center justify-between text-sm text-white/70">
+            <span>{pattern.pulses?.length ?? 0} pulso(s)</span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={itemBeats.length === 0}
+              onClick={() => update({ pulses: itemBeats })}
+              title={itemBeats.length === 0 ? "Nenhuma batida detectada neste trecho" : undefined}
+            >
+              Usar batidas detectadas ({itemBeats.length})
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {effect === 'colorSequence' && (
+        <div className="space-y-2">
+          <Label>Cores da tela</Label>
+          <Select
+            value={pattern.colorBlend ?? 'step'}
+            onValueChange={(value) => update({ colorBlend: value as 'step' | 'fade' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="step">Troca direta</SelectItem>
+              <SelectItem value="fade">Transição suave</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {colors.map((keyframe, index) => (
+            <div key={index} className="grid grid-cols-[auto_1fr_auto] items-center gap-2">
+              <input
+                type="color"
+                value={keyframe.color}
+                className="h-10 w-12 rounded bg-transparent"
+                onChange={(e) => update({
+                  colors: colors.map((c, i) => i === index ? { ...c, color: e.target.value.toUpperCase() } : c)
+                })}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={toPercent(keyframe.time)}
+                onChange={(e) => update({
+                  colors: colors.map((c, i) => i === index ? { ...c, time: fromPercent(e.target.value) } : c)
+                })}
+                aria-label="Posição (%)"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-10 w-10"
+                disabled={colors.length <= 1}
+                onClick={() => update({ colors: colors.filter((_, i) => i !== index) })}
+                aria-label="Remover cor"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => update({
+              colors: [...colors, { time: colors.length ? (colors[colors.length - 1].time + 1) / 2 : 0, color: '#FFFFFF' }]
+            })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar cor
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashlightEffectEditor;
@@ -2,10 +2,18 @@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Download, Save } from "lucide-react";
-import { useState, useEffect } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Download, Save, ShieldCheck, Wifi } from "lucide-react";
+import { useState, useEffect, useRef, ChangeEvent } from "react";
 import { TimelineItem } from "@/types/lightshow";
 import { useToast } from "@/components/ui/use-toast";
+import { useUltrasonicVerification } from "@/hooks/useUltrasonicVerification";
+import { useLightShowProject } from "@/hooks/useLightShowProject";
+import { useLightShowBroadcast } from "@/hooks/useLightShowBroadcast";
+import { MODEM_PROFILES, MODEM_PROFILE_IDS, ModemProfileId, TransmissionPlan, profileBitRate } from "@/utils/ultrasonicModem";
+import UltrasonicVerifyDialog from "./UltrasonicVerifyDialog";
+import ProjectDialog from "./ProjectDialog";
+import NetworkCueDialog from "./NetworkCueDialog";
 
 interface HeaderProps {
   showName: string;
@@ -13,6 +21,12 @@ interface HeaderProps {
   handleGenerateFile: () => void;
   audioFile: File | null;
   timelineItems: TimelineItem[];
+  project: ReturnType<typeof useLightShowProject>;
+  modemProfile: ModemProfileId;
+  onModemProfileChange: (profile: ModemProfileId) => void;
+  transmissionPlan: TransmissionPlan | null;
+  suggestedModemProfile: ModemProfileId | null;
+  broadcast: ReturnType<typeof useLightShowBroadcast>;
 }
 
 const Header = ({
@@ -21,11 +35,22 @@ const Header = ({
   handleGenerateFile,
   audioFile,
   timelineItems,
+  project,
+  modemProfile,
+  onModemProfileChange,
+  transmissionPlan,
+  suggestedModemProfile,
+  broadcast,
 }: HeaderProps) => {
   const { toast } = useToast();
   const [isGenerating, setIsGenerating] = useState(false);
   const [hasImages, setHasImages] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
+  const [verifyOpen, setVerifyOpen] = useState(false);
+  const [projectOpen, setProjectOpen] = useState(false);
+  const [networkOpen, setNetworkOpen] = useState(false);
+  const verifyInputRef = useRef<HTMLInputElement>(null);
+  const verification = useUltrasonicVerification(timelineItems);
   
   useEffect(() => {
     // Check if there are image items in the timeline
@@ -121,7 +146,18 @@ const Header = ({
     }, 1000);
   };
   
-  const isDisabled = !audioFile || !timelineItems.length;
+  const doesNotFit = transmissionPlan !== null && !transmissionPlan.fits;
+  const isDisabled = !audioFile || !timelineItems.length || doesNotFit;
+
+  const handleVerifyFileSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after a new export
+    e.target.value = '';
+    if (!file) return;
+
+    setVerifyOpen(true);
+    verification.verifyFile(file);
+  };
 
   return (
     <div className="mb-4 flex flex-wrap gap-4 items-center">
@@ -136,6 +172,19 @@ const Header = ({
       </div>
       
       <div className="flex-1 md:flex-initial flex gap-2">
+        <Select value={modemProfile} onValueChange={(value) => onModemProfileChange(value as ModemProfileId)}>
+          <SelectTrigger className="w-[130px] shrink-0" title={MODEM_PROFILES[modemProfile].description}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODEM_PROFILE_IDS.map(id => (
+              <SelectItem key={id} value={id}>
+                {MODEM_PROFILES[id].label} ({profileBitRate(MODEM_PROFILES[id])} bps)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
         <div className="relative w-full">
           <Button 
             onClick={handleGenerateClick} 
@@ -161,11 +210,54 @@ const Header = ({
           )}
         </div>
         
-        <Button variant="outline" className="border-white/20 hover:bg-secondary">
+        <Button
+          variant="outline"
+          className="border-white/20 hover:bg-secondary"
+          onClick={() => verifyInputRef.current?.click()}
+          disabled={verification.isDecoding}
+        >
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Verificar Arquivo
+        </Button>
+        <input
+          ref={verifyInputRef}
+          type="file"
+          accept=".wav,audio/wav,audio/*"
+          className="hidden"
+          onChange={handleVerifyFileSelected}
+        />
+        
+        <Button
+          variant="outline"
+          className={`border-white/20 hover:bg-secondary ${broadcast.sessionId ? 'text-green-400' : ''}`}
+          onClick={() => setNetworkOpen(true)}
+          disabled={!timelineItems.length && !broadcast.sessionId}
+        >
+          <Wifi className="h-4 w-4 mr-2" />
+          Transmitir pela Rede
+        </Button>
+        
+        <Button variant="outline" className="border-white/20 hover:bg-secondary" onClick={() => setProjectOpen(true)}>
           <Save className="h-4 w-4 mr-2" />
           Salvar Projeto
         </Button>
       </div>
+      
+      {transmissionPlan && (
+        <p className={`basis-full text-xs flex items-center gap-2 ${doesNotFit ? 'text-red-400' : 'text-white/50'}`}>
+          {doesNotFit && <AlertTriangle className="h-4 w-4 shrink-0" />}
+          {doesNotFit
+            ? `Os dados ultrassônicos (${transmissionPlan.payloadBytes} bytes) precisam de ${Math.ceil(transmissionPlan.seconds)}s no perfil ${MODEM_PROFILES[modemProfile].label}, mas o áudio tem ${Math.floor(transmissionPlan.availableSeconds)}s. ` +
+              (suggestedModemProfile
+                ? `Use o perfil ${MODEM_PROFILES[suggestedModemProfile].label}.`
+                : 'Reduza a timeline ou use uma música mais longa.')
+            : `Dados ultrassônicos: ${transmissionPlan.payloadBytes} bytes, transmitidos nos primeiros ${Math.ceil(transmissionPlan.seconds)}s de ${Math.floor(transmissionPlan.availableSeconds)}s.`}
+        </p>
+      )}
+      
+      <UltrasonicVerifyDialog open={verifyOpen} onOpenChange={setVerifyOpen} verification={verification} />
+      <ProjectDialog open={projectOpen} onOpenChange={setProjectOpen} project={project} />
+      <NetworkCueDialog open={networkOpen} onOpenChange={setNetworkOpen} broadcast={broadcast} />
     </div>
   );
 };
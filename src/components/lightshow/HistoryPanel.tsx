@@ -0,0 +1,71 @@
+import { Button } from "@/components/ui/button";
+import { Redo2, Undo2 } from "lucide-react";
+import { useTimelineHistory } from "@/hooks/useTimelineHistory";
+
+interface HistoryPanelProps {
+  history: ReturnType<typeof useTimelineHistory>;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel = ({ history }: HistoryPanelProps) => {
+  const { past, future, canUndo, canRedo, undo, redo, jumpTo } = history;
+  const isEmpty = past.length === 0 && future.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={undo} disabled={!canUndo} className="flex-1">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Desfazer
+        </Button>
+        <Button size="sm" variant="outline" onClick={redo} disabled={!canRedo} className="flex-1">
+          <Redo2 className="h-4 w-4 mr-2" />
+          Refazer
+        </Button>
+      </div>
+
+      {isEmpty ? (
+        <p className="text-sm text-muted-foreground">
+          Nenhuma alteração ainda. Cada edição da timeline aparece aqui e pode ser desfeita com Ctrl+Z.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          <li>
+            <button
+              className={`w-full text-left text-sm rounded-md px-3 py-2 hover:bg-white/10 ${past.length === 0 ? 'bg-white/15' : 'bg-white/5'}`}
+              onClick={() => jumpTo(null)}
+            >
+              Estado inicial
+            </button>
+          </li>
+          {past.map((entry, index) => (
+            <li key={entry.id}>
+              <button
+                className={`w-full flex items-center gap-2 text-left text-sm rounded-md px-3 py-2 hover:bg-white/10 ${index === past.length - 1 ? 'bg-white/15' : 'bg-white/5'}`}
+                onClick={() => jumpTo(entry.id)}
+              >
+                <span className="flex-1 truncate">{entry.label}</span>
+                <span className="text-xs text-muted-foreground">{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+          {future.map(entry => (
+            <li key={entry.id}>
+              <button
+                className="w-full flex items-center gap-2 text-left text-sm rounded-md px-3 py-2 text-white/40 hover:bg-white/10"
+                onClick={() => jumpTo(entry.id)}
+              >
+                <span className="flex-1 truncate">{entry.label}</span>
+                <span className="text-xs">{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
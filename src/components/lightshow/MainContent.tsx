@@ -1,16 +1,19 @@
 
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { TimelineItem, CallToActionType } from "@/types/lightshow";
+import { TimelineItem, CallToActionType, AudioEditInfo, AudienceZone } from "@/types/lightshow";
 
 import Timeline from "@/components/lightshow/Timeline";
-import PhonePreview from "@/components/lightshow/PhonePreview";
+import ZonePreview from "@/components/lightshow/ZonePreview";
+import ZonesPanel from "@/components/lightshow/ZonesPanel";
 import AudioUploader from "@/components/lightshow/AudioUploader";
 import ImageSelector from "@/components/lightshow/ImageSelector";
 import ControlPanel from "@/components/lightshow/ControlPanel";
 import PropertiesPanel from "@/components/lightshow/PropertiesPanel";
 import CallToActionPanel from "@/components/lightshow/CallToActionPanel";
 import AudioEditor from "@/components/lightshow/AudioEditor";
+import HistoryPanel from "@/components/lightshow/HistoryPanel";
+import { useTimelineHistory } from "@/hooks/useTimelineHistory";
 
 interface MainContentProps {
   audioFile: File | null;
@@ -28,10 +31,7 @@ interface MainContentProps {
     externalUrl?: string;
     couponCode?: string;
   };
-  audioEditInfo: {
-    startTrim: number;
-    endTrim: number;
-  };
+  audioEditInfo: AudioEditInfo;
   imageSelector: React.RefObject<HTMLDivElement>;
   onAudioUpload: (file: File) => void;
   onPlayPause: () => void;
@@ -44,7 +44,23 @@ interface MainContentProps {
   setDuration: (duration: number) => void;
   updateTimelineItem: (id: string, updates: Partial<TimelineItem>) => void;
   removeTimelineItem: (id: string) => void;
+  updateTimelineItems: (updates: Record<string, Partial<TimelineItem>>) => void;
+  removeTimelineItems: (ids: string[]) => void;
   setSelectedItemIndex: (index: number | null) => void;
+  selectedItemIds: string[];
+  setSelectedItemIds: (ids: string[]) => void;
+  beats: number[];
+  selectAllItems: () => void;
+  copySelection: () => void;
+  cutSelection: () => void;
+  pasteClipboard: () => void;
+  duplicateSelection: () => void;
+  nudgeSelection: (delta: number) => void;
+  zones: AudienceZone[];
+  addZone: () => void;
+  updateZone: (id: string, updates: Partial<AudienceZone>) => void;
+  removeZone: (id: string) => void;
+  setSelectionZones: (zoneIds: string[]) => void;
   setSelectedImages: (images: string[]) => void;
   setCallToActionContent: (content: Partial<{
     type: CallToActionType;
@@ -54,11 +70,9 @@ interface MainContentProps {
     couponCode?: string;
   }>) => void;
   addCallToActionToTimeline: () => void;
-  setAudioEditInfo: (info: {
-    startTrim: number;
-    endTrim: number;
-  }) => void;
-  trimAudio: () => void;
+  setAudioEditInfo: (info: AudioEditInfo) => void;
+  trimAudio: (range?: Pick<AudioEditInfo, 'startTrim' | 'endTrim'>) => void;
+  history: ReturnType<typeof useTimelineHistory>;
 }
 
 const MainContent = ({
@@ -84,12 +98,29 @@ const MainContent = ({
   setDuration,
   updateTimelineItem,
   removeTimelineItem,
+  updateTimelineItems,
+  removeTimelineItems,
   setSelectedItemIndex,
+  selectedItemIds,
+  setSelectedItemIds,
+  beats,
+  selectAllItems,
+  copySelection,
+  cutSelection,
+  pasteClipboard,
+  duplicateSelection,
+  nudgeSelection,
+  zones,
+  addZone,
+  updateZone,
+  removeZone,
+  setSelectionZones,
   setSelectedImages,
   setCallToActionContent,
   addCallToActionToTimeline,
   setAudioEditInfo,
-  trimAudio
+  trimAudio,
+  history
 }: MainContentProps) => {
   const selectedItem = selectedItemIndex !== null ? timelineItems[selectedItemIndex] : null;
 
@@ -110,6 +141,7 @@ const MainContent = ({
             addImageToTimeline={addImageToTimeline}
             generateAutoSyncPatterns={generateAutoSyncPatterns}
             handleReset={handleReset}
+            history={history}
           />
           
           {!audioFile ? (
@@ -124,13 +156,24 @@ const MainContent = ({
               duration={duration}
               setDuration={setDuration}
               onUpdateItem={updateTimelineItem}
-              onRemoveItem={removeTimelineItem}
+              onUpdateItems={updateTimelineItems}
+              onBeginGroup={history.beginGroup}
+              onEndGroup={history.endGroup}
+              onRemoveItems={removeTimelineItems}
               onItemSelect={setSelectedItemIndex}
-              selectedItemIndex={selectedItemIndex}
+              selectedItemIds={selectedItemIds}
+              onSelectItems={setSelectedItemIds}
+              beats={beats}
+              zones={zones}
+              onSelectAll={selectAllItems}
+              onCopy={copySelection}
+              onCut={cutSelection}
+              onPaste={() => pasteClipboard()}
+              onDuplicate={duplicateSelection}
+              onNudge={nudgeSelection}
               onAudioUpload={onAudioUpload}
               audioFile={audioFile}
               audioEditInfo={audioEditInfo}
-              setAudioEditInfo={setAudioEditInfo}
               trimAudio={trimAudio}
             />
           )}
@@ -141,11 +184,14 @@ const MainContent = ({
       
       <ResizablePanel defaultSize={35} minSize={30}>
         <Tabs defaultValue="properties" className="h-full flex flex-col">
-          <TabsList className="mx-4 mt-4 grid grid-cols-4">
+          <TabsList className="mx-4 mt-4 grid grid-cols-7">
             <TabsTrigger value="properties">Lights</TabsTrigger>
             <TabsTrigger value="images">Imagens</TabsTrigger>
             <TabsTrigger value="cta">Chamada</TabsTrigger>
+            <TabsTrigger value="zones">Zonas</TabsTrigger>
             <TabsTrigger value="preview">Preview</TabsTrigger>
+            <TabsTrigger value="audio">Áudio</TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
           </TabsList>
           
           <TabsContent value="properties" className="flex-1 p-4 overflow-auto h-[calc(100vh-200px)]">
@@ -154,6 +200,10 @@ const MainContent = ({
               updateTimelineItem={updateTimelineItem}
               removeTimelineItem={removeTimelineItem}
               duration={duration}
+              beats={beats}
+              zones={zones}
+              selectionCount={selectedItemIds.length}
+              onZonesChange={setSelectionZones}
             />
           </TabsContent>
           
@@ -175,13 +225,39 @@ const MainContent = ({
             />
           </TabsContent>
           
+          <TabsContent value="zones" className="flex-1 p-4 overflow-auto h-[calc(100vh-200px)]">
+            <ZonesPanel
+              zones={zones}
+              timelineItems={timelineItems}
+              onAddZone={addZone}
+              onUpdateZone={updateZone}
+              onRemoveZone={removeZone}
+            />
+          </TabsContent>
+          
           <TabsContent value="preview" className="flex-1 p-4 overflow-auto flex items-center justify-center h-[calc(100vh-200px)]">
-            <PhonePreview 
+            <ZonePreview 
               isPlaying={isPlaying}
               currentTime={currentTime}
               timelineItems={timelineItems}
+              zones={zones}
             />
           </TabsContent>
+          
+          <TabsContent value="audio" className="flex-1 p-4 overflow-auto h-[calc(100vh-200px)]">
+            <AudioEditor
+              audioFile={audioFile}
+              duration={duration}
+              audioEditInfo={audioEditInfo}
+              onAudioUpload={onAudioUpload}
+              setAudioEditInfo={setAudioEditInfo}
+              trimAudio={trimAudio}
+            />
+          </TabsContent>
+          
+          <TabsContent value="history" className="flex-1 p-4 overflow-auto h-[calc(100vh-200px)]">
+            <HistoryPanel history={history} />
+          </TabsContent>
         </Tabs>
       </ResizablePanel>
     </ResizablePanelGroup>
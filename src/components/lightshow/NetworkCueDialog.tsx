@@ -0,0 +1,86 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Square, Wifi } from "lucide-react";
+import { useLightShowBroadcast } from "@/hooks/useLightShowBroadcast";
+import { LightShowTransportStatus } from "@/types/lightshow";
+
+interface NetworkCueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  broadcast: ReturnType<typeof useLightShowBroadcast>;
+}
+
+const STATUS_LABELS: Record<LightShowTransportStatus, string> = {
+  stopped: 'Parado',
+  playing: 'Tocando',
+  paused: 'Pausado'
+};
+
+const NetworkCueDialog = ({ open, onOpenChange, broadcast }: NetworkCueDialogProps) => {
+  const { sessionId, joinURL, qrCodeDataUrl, networkState, clockEstimate, isStarting, startBroadcast, updateShow, stopBroadcast } = broadcast;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Transmitir pela rede</DialogTitle>
+          <DialogDescription>
+            Alternativa ao ultrassom para locais com som alto ou acústica ruim: os celulares que lerem o
+            QR Code recebem os efeitos pela internet enquanto o show toca neste editor.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!sessionId ? (
+          <Button onClick={startBroadcast} disabled={isStarting} className="hutz-button-accent">
+            {isStarting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wifi className="h-4 w-4 mr-2" />}
+            {isStarting ? 'Preparando...' : 'Iniciar transmissão'}
+          </Button>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {qrCodeDataUrl && (
+              <div className="flex flex-col items-center gap-2">
+                <img src={qrCodeDataUrl} alt="QR Code do show" className="w-48 h-48 rounded bg-white p-2" />
+                {joinURL && <p className="text-xs text-muted-foreground break-all text-center">{joinURL}</p>}
+              </div>
+            )}
+
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Celulares conectados</dt>
+              <dd>{networkState?.audienceCount ?? 0}</dd>
+
+              <dt className="text-muted-foreground">Estado</dt>
+              <dd>
+                {networkState ? STATUS_LABELS[networkState.status] : '—'}
+                {networkState && networkState.status !== 'stopped' && ` em ${networkState.position.toFixed(1)}s`}
+              </dd>
+
+              <dt className="text-muted-foreground">Relógio do servidor</dt>
+              <dd>
+                {clockEstimate
+                  ? `${clockEstimate.offset > 0 ? '+' : ''}${clockEstimate.offset}ms (ida e volta ${clockEstimate.roundTrip}ms)`
+                  : 'Sincronizando...'}
+              </dd>
+            </dl>
+
+            <p className="text-xs text-muted-foreground">
+              Play, pausa e saltos na timeline são enviados automaticamente. Depois de editar a timeline, atualize o show.
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={updateShow}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Atualizar show
+              </Button>
+              <Button variant="outline" className="text-red-400" onClick={stopBroadcast}>
+                <Square className="h-4 w-4 mr-2" />
+                Parar
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NetworkCueDialog;
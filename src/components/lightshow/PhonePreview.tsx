@@ -1,17 +1,22 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { TimelineItem } from '@/types/lightshow';
+import { evaluateFlashlight } from '@/utils/flashlightEffects';
 import { X, Camera, Video } from 'lucide-react';
 
 interface PhonePreviewProps {
   isPlaying: boolean;
   currentTime: number;
   timelineItems: TimelineItem[];
+  label?: string;     // Caption under the phone (e.g. the audience zone)
+  compact?: boolean;  // Smaller phone for side-by-side zone previews
 }
 
-const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewProps) => {
+const PhonePreview = ({ isPlaying, currentTime, timelineItems, label, compact = false }: PhonePreviewProps) => {
   const [activeFlashlight, setActiveFlashlight] = useState(false);
   const [flashlightIntensity, setFlashlightIntensity] = useState(0);
+  // Screen colour of colour-sequence effects (null = the effect drives the LED)
+  const [screenColor, setScreenColor] = useState<string | null>(null);
   const [displayImage, setDisplayImage] = useState<string | null>(null);
   const [backgroundColor, setBackgroundColor] = useState('#000000');
   const [userClosedImage, setUserClosedImage] = useState(false);
@@ -107,6 +112,7 @@ const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewPro
     setCallToActionType(null);
     setActiveFlashlight(false);
     setFlashlightIntensity(0);
+    setScreenColor(null);
     
     const activeItems = timelineItems.filter(item => 
       time >= item.startTime && time < (item.startTime + item.duration)
@@ -114,7 +120,6 @@ const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewPro
     
     let activeImage: string | null = null;
     let activeBackgroundColor: string = '#000000';
-    let activeFlashlightItem: TimelineItem | null = null;
     
     activeItems.forEach(item => {
       if (item.type === 'image') {
@@ -123,43 +128,46 @@ const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewPro
         } else if (item.backgroundColor) {
           activeBackgroundColor = item.backgroundColor;
         }
-      } else if (item.type === 'flashlight' && item.pattern) {
-        activeFlashlightItem = item;
       }
     });
     
+    const activeFlashlightItem = activeItems.filter(item => item.type === 'flashlight' && item.pattern).pop();
+    
     if (!userClosedImage) {
       setDisplayImage(activeImage);
     }
     setBackgroundColor(activeBackgroundColor);
     
-    if (isPlaying && activeFlashlightItem && activeFlashlightItem.pattern) {
-      const { intensity, blinkRate } = activeFlashlightItem.pattern;
+    if (activeFlashlightItem?.pattern) {
+      const { pattern, startTime, duration } = activeFlashlightItem;
+      
+      const showFlashlight = (localTime: number) => {
+        const state = evaluateFlashlight(pattern, localTime, duration);
+        setFlashlightIntensity(state.intensity);
+        setScreenColor(state.screen ? state.color : null);
+      };
       
       setActiveFlashlight(true);
+      showFlashlight(time - startTime);
       
-      if (blinkRate > 0) {
-        let isOn = true;
-        let lastToggleTime = performance.now();
-        // Ensure the toggle interval is small enough for fast blinking
-        const toggleIntervalMs = 1000 / blinkRate;
-        
-        setFlashlightIntensity(intensity);
+      if (isPlaying) {
+        // Extrapolates from the last audio time so strobes and pulses stay frame-accurate between time updates
+        const anchor = performance.now();
         
         const animateFlash = (timestamp: number) => {
-          if (timestamp - lastToggleTime >= toggleIntervalMs) {
-            isOn = !isOn;
-            setFlashlightIntensity(isOn ? intensity : 0);
-            lastToggleTime = timestamp;
+          const localTime = time - startTime + (timestamp - anchor) / 1000;
+          if (localTime >= duration) {
+            setActiveFlashlight(false);
+            setFlashlightIntensity(0);
+            setScreenColor(null);
+            return;
           }
           
+          showFlashlight(localTime);
           frameIdRef.current = window.requestAnimationFrame(animateFlash);
         };
         
         frameIdRef.current = window.requestAnimationFrame(animateFlash);
-      } else {
-        setActiveFlashlight(true);
-        setFlashlightIntensity(intensity);
       }
     }
   };
@@ -264,14 +272,24 @@ const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewPro
 
   return (
     <div className="flex flex-col items-center">
-      <div className="relative w-64 h-[500px] bg-black rounded-3xl border-8 border-gray-800 overflow-hidden shadow-xl" ref={phoneContainerRef}>
+      <div
+        className={`relative bg-black rounded-3xl border-8 border-gray-800 overflow-hidden shadow-xl ${compact ? 'w-40 h-[320px]' : 'w-64 h-[500px]'}`}
+        ref={phoneContainerRef}
+      >
         <div className="absolute top-0 left-1/2 transform -translate-x-1/2 w-24 h-5 bg-black rounded-b-xl z-30"></div>
         
         <div 
           className="relative w-full h-full overflow-hidden"
           style={{ backgroundColor }}
         >
-          {activeFlashlight && !isCallToAction && (
+          {activeFlashlight && !isCallToAction && screenColor && (
+            <div
+              className="absolute inset-0 z-0 pointer-events-none"
+              style={{ backgroundColor: screenColor, opacity: flashlightIntensity / 100 }}
+            ></div>
+          )}
+          
+          {activeFlashlight && !isCallToAction && !screenColor && (
             <div className="absolute top-0 left-0 w-full h-full flex items-center justify-center z-20 pointer-events-none">
               <div 
                 className="w-16 h-16 rounded-full"
@@ -360,7 +378,7 @@ const PhonePreview = ({ isPlaying, currentTime, timelineItems }: PhonePreviewPro
       </div>
       
       <div className="mt-4 text-white/70 text-sm text-center">
-        <p>Prévia do Aplicativo</p>
+        <p>{label ?? "Prévia do Aplicativo"}</p>
         <p className="text-xs mt-1">
           {isPlaying ? `Reproduzindo em ${currentTime.toFixed(2)}s` : "Visualizando preview"}
         </p>
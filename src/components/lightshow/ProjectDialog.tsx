@@ -0,0 +1,198 @@
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Cloud, Download, FilePlus, FolderOpen, HardDrive, History, Loader2, Save, Trash2, Upload } from "lucide-react";
+import { useLightShowProject } from "@/hooks/useLightShowProject";
+import { PROJECT_FILE_EXTENSION } from "@/services/LightShowProjectService";
+
+interface ProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: ReturnType<typeof useLightShowProject>;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const LocationIcon = ({ location }: { location: 'local' | 'cloud' }) =>
+  location === 'cloud'
+    ? <Cloud className="h-4 w-4 text-sky-400 shrink-0" aria-label="Nuvem" />
+    : <HardDrive className="h-4 w-4 text-white/60 shrink-0" aria-label="Navegador" />;
+
+const ProjectDialog = ({ open, onOpenChange, project }: ProjectDialogProps) => {
+  const {
+    projectId,
+    autosavedAt,
+    isBusy,
+    isSignedIn,
+    projects,
+    versions,
+    refresh,
+    saveProject,
+    saveVersion,
+    restoreVersion,
+    openProject,
+    deleteProject,
+    newProject,
+    downloadProjectFile,
+    openProjectFile
+  } = project;
+  const [versionLabel, setVersionLabel] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleFileSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) openProjectFile(file);
+  };
+
+  const handleSaveVersion = async () => {
+    await saveVersion(versionLabel, isSignedIn ? 'cloud' : 'local');
+    setVersionLabel("");
+  };
+
+  const handleNewProject = () => {
+    if (window.confirm("Começar um projeto novo? O projeto atual continua salvo neste navegador.")) {
+      newProject();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Projeto
+            {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+          </DialogTitle>
+          <DialogDescription>
+            {autosavedAt
+              ? `Salvo automaticamente neste navegador em ${formatDate(autosavedAt)}.`
+              : 'O projeto é salvo automaticamente neste navegador assim que houver áudio ou itens na timeline.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => saveProject('local')} disabled={isBusy}>
+            <Save className="h-4 w-4 mr-2" />
+            Salvar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => saveProject('cloud')}
+            disabled={isBusy || !isSignedIn}
+            title={isSignedIn ? undefined : 'Faça login para salvar na nuvem'}
+          >
+            <Cloud className="h-4 w-4 mr-2" />
+            Salvar na nuvem
+          </Button>
+          <Button variant="outline" onClick={downloadProjectFile} disabled={isBusy}>
+            <Download className="h-4 w-4 mr-2" />
+            Baixar arquivo
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+            <Upload className="h-4 w-4 mr-2" />
+            Abrir arquivo
+          </Button>
+          <Button variant="ghost" onClick={handleNewProject} disabled={isBusy}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            Novo projeto
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        <Separator className="bg-white/10" />
+
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Versões
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              value={versionLabel}
+              onChange={(e) => setVersionLabel(e.target.value)}
+              placeholder="Ex.: Ensaio de segunda"
+              className="bg-black/20 border-white/10"
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveVersion()}
+            />
+            <Button variant="outline" onClick={handleSaveVersion} disabled={isBusy}>
+              Salvar versão
+            </Button>
+          </div>
+
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma versão salva deste projeto.</p>
+          ) : (
+            <ul className="space-y-1">
+              {versions.map(version => (
+                <li key={version.id} className="flex items-center gap-2 text-sm rounded-md bg-white/5 px-3 py-2">
+                  <LocationIcon location={version.location} />
+                  <span className="flex-1 truncate">{version.label}</span>
+                  <span className="text-muted-foreground text-xs">{formatDate(version.createdAt)}</span>
+                  <Button size="sm" variant="ghost" onClick={() => restoreVersion(version)} disabled={isBusy}>
+                    Restaurar
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Separator className="bg-white/10" />
+
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <FolderOpen className="h-4 w-4" />
+            Projetos salvos
+          </Label>
+
+          {projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum projeto salvo.</p>
+          ) : (
+            <ul className="space-y-1">
+              {projects.map(summary => (
+                <li
+                  key={`${summary.location}-${summary.id}`}
+                  className={`flex items-center gap-2 text-sm rounded-md px-3 py-2 ${summary.id === projectId ? 'bg-white/15' : 'bg-white/5'}`}
+                >
+                  <LocationIcon location={summary.location} />
+                  <span className="flex-1 truncate">{summary.showName}</span>
+                  <span className="text-muted-foreground text-xs">{formatDate(summary.updatedAt)}</span>
+                  <Button size="sm" variant="ghost" onClick={() => openProject(summary)} disabled={isBusy}>
+                    Abrir
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-400"
+                    onClick={() => window.confirm(`Excluir "${summary.showName}"?`) && deleteProject(summary)}
+                    disabled={isBusy}
+                    aria-label="Excluir projeto"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectDialog;
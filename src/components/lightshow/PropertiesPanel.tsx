@@ -5,20 +5,29 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Trash2 } from "lucide-react";
-import { TimelineItem, FlashlightPattern } from '@/types/lightshow';
+import { TimelineItem, FlashlightPattern, AudienceZone } from '@/types/lightshow';
+import FlashlightEffectEditor from "@/components/lightshow/FlashlightEffectEditor";
 
 interface PropertiesPanelProps {
   selectedItem: TimelineItem | null;
   updateTimelineItem: (id: string, updates: Partial<TimelineItem>) => void;
   removeTimelineItem: (id: string) => void;
   duration: number;
+  beats: number[];
+  zones: AudienceZone[];
+  selectionCount: number;
+  onZonesChange: (zoneIds: string[]) => void;
 }
 
 const PropertiesPanel = ({
   selectedItem,
   updateTimelineItem,
   removeTimelineItem,
-  duration
+  duration,
+  beats,
+  zones,
+  selectionCount,
+  onZonesChange
 }: PropertiesPanelProps) => {
   
   if (!selectedItem) {
@@ -89,28 +98,47 @@ const PropertiesPanel = ({
             />
           </div>
           
-          <div className="space-y-2">
-            <Label>Taxa de Piscadas ({selectedItem.pattern.blinkRate} Hz)</Label>
-            <Slider
-              value={[selectedItem.pattern.blinkRate]}
-              min={0.5}
-              max={10}
-              step={0.5}
-              onValueChange={(value) => updateTimelineItem(
-                selectedItem.id,
-                { 
-                  pattern: { 
-                    ...selectedItem.pattern as FlashlightPattern, 
-                    blinkRate: value[0],
-                    color: '#FFFFFF' // Keep white color
-                  } 
-                }
-              )}
-            />
-          </div>
+          <FlashlightEffectEditor
+            item={selectedItem}
+            pattern={selectedItem.pattern}
+            beats={beats}
+            onChange={(pattern) => updateTimelineItem(selectedItem.id, { pattern })}
+          />
         </>
       )}
       
+      {zones.length > 0 && (
+        <div className="space-y-2">
+          <Label>
+            Zonas da plateia
+            {selectionCount > 1 && <span className="text-white/50"> (aplica aos {selectionCount} itens selecionados)</span>}
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {zones.map(zone => {
+              const targeted = selectedItem.zones?.includes(zone.id) ?? false;
+              return (
+                <Button
+                  key={zone.id}
+                  size="sm"
+                  variant={targeted ? "default" : "outline"}
+                  style={targeted ? { backgroundColor: zone.color, borderColor: zone.color } : { borderColor: zone.color }}
+                  onClick={() => onZonesChange(
+                    targeted
+                      ? (selectedItem.zones ?? []).filter(id => id !== zone.id)
+                      : [...(selectedItem.zones ?? []), zone.id]
+                  )}
+                >
+                  {zone.name}
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-white/50">
+            {selectedItem.zones?.length ? "Só os celulares destas zonas tocam este item." : "Sem zona: todos os celulares tocam este item."}
+          </p>
+        </div>
+      )}
+      
       <Button 
         variant="destructive" 
         onClick={() => removeTimelineItem(selectedItem.id)}
@@ -2,11 +2,36 @@ import { useEffect, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
 import RegionsPlugin from 'wavesurfer.js/plugins/regions';
 import TimelinePlugin from 'wavesurfer.js/plugins/timeline';
-import { TimelineItem } from '@/types/lightshow';
+import { AudioEditInfo, AudienceZone, TimelineItem } from '@/types/lightshow';
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
-import { ZoomIn, ZoomOut, Scissors, Upload } from "lucide-react";
+import { ZoomIn, ZoomOut, Scissors, Upload, Magnet } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import {
+  clampItemSpan,
+  getSnapOffset,
+  getSnapTargets,
+  hasImageOverlap,
+  shiftItems
+} from "@/utils/timelineEditing";
+
+const SNAP_THRESHOLD_PX = 8;
+const DRAG_THRESHOLD_PX = 3;
+const NUDGE_STEP = 0.05;
+const NUDGE_STEP_LARGE = 0.5;
+
+interface SelectionBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.getAttribute('role') === 'slider');
 
 interface TimelineProps {
   audioUrl: string | null;
@@ -17,20 +42,25 @@ interface TimelineProps {
   setDuration: (duration: number) => void;
   timelineItems: TimelineItem[];
   onUpdateItem: (id: string, updates: Partial<TimelineItem>) => void;
-  onRemoveItem: (id: string) => void;
+  onUpdateItems: (updates: Record<string, Partial<TimelineItem>>) => void;
+  onBeginGroup: (label: string) => void;
+  onEndGroup: () => void;
+  onRemoveItems: (ids: string[]) => void;
   onItemSelect: (index: number | null) => void;
-  selectedItemIndex: number | null;
+  selectedItemIds: string[];
+  onSelectItems: (ids: string[]) => void;
+  beats: number[];
+  zones: AudienceZone[];
+  onSelectAll: () => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onDuplicate: () => void;
+  onNudge: (delta: number) => void;
   onAudioUpload: (file: File) => void;
   audioFile: File | null;
-  audioEditInfo: {
-    startTrim: number;
-    endTrim: number;
-  };
-  setAudioEditInfo: (info: {
-    startTrim: number;
-    endTrim: number;
-  }) => void;
-  trimAudio: () => void;
+  audioEditInfo: AudioEditInfo;
+  trimAudio: (range?: Pick<AudioEditInfo, 'startTrim' | 'endTrim'>) => void;
 }
 
 const Timeline = ({
@@ -42,15 +72,27 @@ const Timeline = ({
   setDuration,
   timelineItems,
   onUpdateItem,
-  onRemoveItem,
+  onUpdateItems,
+  onBeginGroup,
+  onEndGroup,
+  onRemoveItems,
   onItemSelect,
-  selectedItemIndex,
+  selectedItemIds,
+  onSelectItems,
+  beats,
+  zones,
+  onSelectAll,
+  onCopy,
+  onCut,
+  onPaste,
+  onDuplicate,
+  onNudge,
   onAudioUpload,
   audioFile,
   audioEditInfo,
-  setAudioEditInfo,
   trimAudio
 }: TimelineProps) => {
+  const timelineRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const regionsRef = useRef<RegionsPlugin | null>(null);
@@ -59,11 +101,14 @@ const Timeline = ({
   const [splitPoint, setSplitPoint] = useState<number | null>(null);
   const [showAudioControls, setShowAudioControls] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [draggedItem, setDraggedItem] = useState<string | null>(null);
-  const [dragOverPosition, setDragOverPosition] = useState<number | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  // Set once the mouse moves during a drag so the trailing click doesn't reselect
+  const suppressClickRef = useRef(false);
   
   const imageTrackRef = useRef<HTMLDivElement>(null);
   const flashlightTrackRef = useRef<HTMLDivElement>(null);
+  const tracksRef = useRef<HTMLDivElement>(null);
   
   const handleZoomChange = (value: number[]) => {
     setZoomLevel(value[0]);
@@ -75,13 +120,11 @@ const Timeline = ({
 
   const handleSplitAudio = () => {
     if (splitPoint !== null) {
-      setAudioEditInfo({
+      trimAudio({
         startTrim: 0,
         endTrim: splitPoint
       });
       
-      trimAudio();
-      
       setSplitPoint(null);
     }
   };
@@ -99,50 +142,60 @@ const Timeline = ({
     }
   };
   
-  const handleRemoveItem = (id: string) => {
-    const itemToRemove = timelineItems.find(item => item.id === id);
-    if (!itemToRemove) return;
-
-    if (itemToRemove.type === 'image') {
-      const imageItems = timelineItems.filter(item => item.type === 'image');
-      const removedIndex = imageItems.findIndex(item => item.id === id);
-      
-      if (removedIndex !== -1) {
-        const followingImages = imageItems.slice(removedIndex + 1);
-        
-        if (followingImages.length > 0) {
-          const gap = itemToRemove.duration;
-          
-          followingImages.forEach(img => {
-            onUpdateItem(img.id, {
-              startTime: img.startTime - gap
-            });
-          });
-        }
+  const handleItemClick = (id: string, additive: boolean) => {
+    if (!additive) {
+      onSelectItems([id]);
+    } else if (selectedItemIds.includes(id)) {
+      onSelectItems(selectedItemIds.filter(selectedId => selectedId !== id));
+    } else {
+      onSelectItems([...selectedItemIds, id]);
+    }
+  };
+  
+  // Shortcuts only apply while focus is in the timeline, not in dialogs or side panels
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (isEditableTarget(e.target)) return;
+    
+    const hasSelection = selectedItemIds.length > 0;
+    const key = e.key.toLowerCase();
+    
+    if (e.ctrlKey || e.metaKey) {
+      const actions: Record<string, (() => void) | undefined> = {
+        a: onSelectAll,
+        c: hasSelection ? onCopy : undefined,
+        x: hasSelection ? onCut : undefined,
+        v: onPaste,
+        d: hasSelection ? onDuplicate : undefined
+      };
+      const action = actions[key];
+      if (action) {
+        e.preventDefault();
+        action();
       }
+      return;
     }
     
-    onRemoveItem(id);
-    onItemSelect(null);
+    if ((e.key === 'Delete' || e.key === 'Backspace') && hasSelection) {
+      e.preventDefault();
+      // removeTimelineItems also closes the gaps left by removed images
+      onRemoveItems(selectedItemIds);
+    } else if (e.key === 'Delete' && splitPoint !== null) {
+      handleSplitAudio();
+    } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && hasSelection) {
+      e.preventDefault();
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      onNudge(e.key === 'ArrowLeft' ? -step : step);
+    } else if (e.key === 'Escape' && hasSelection) {
+      onSelectItems([]);
+    }
   };
   
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Delete' && selectedItemIndex !== null) {
-        const selectedItem = timelineItems[selectedItemIndex];
-        if (selectedItem) {
-          handleRemoveItem(selectedItem.id);
-        }
-      } else if (e.key === 'Delete' && splitPoint !== null) {
-        handleSplitAudio();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [selectedItemIndex, timelineItems, onRemoveItem, splitPoint]);
+  // Clicking anywhere in the timeline (tracks, items, waveform) gives it the keyboard
+  const focusTimeline = () => {
+    if (!timelineRef.current?.contains(document.activeElement)) {
+      timelineRef.current?.focus({ preventScroll: true });
+    }
+  };
   
   useEffect(() => {
     if (!containerRef.current || !audioUrl) return;
@@ -242,22 +295,7 @@ const Timeline = ({
     }
   }, [isPlaying, isAudioLoaded]);
   
-  const checkImageOverlap = (itemId: string, startTime: number, duration: number) => {
-    const images = timelineItems.filter(item => item.type === 'image' && item.id !== itemId);
-    
-    for (const image of images) {
-      const imageEnd = image.startTime + image.duration;
-      const newItemEnd = startTime + duration;
-      
-      if ((startTime >= image.startTime && startTime < imageEnd) || 
-          (newItemEnd > image.startTime && newItemEnd <= imageEnd) ||
-          (startTime <= image.startTime && newItemEnd >= imageEnd)) {
-        return true;
-      }
-    }
-    
-    return false;
-  };
+  const checkImageOverlap = (moved: TimelineItem[]) => hasImageOverlap(timelineItems, moved);
   
   useEffect(() => {
     if (!wavesurferRef.current) return;
@@ -319,11 +357,132 @@ const Timeline = ({
       }
     }
     
-    const createDragPreview = (originalElement: HTMLElement, offsetX: number) => {
-      const ghost = originalElement.cloneNode(true) as HTMLElement;
-      ghost.classList.add('opacity-50', 'absolute', 'pointer-events-none', 'z-30');
-      ghost.style.left = `${offsetX}px`;
-      return ghost;
+    const secondsPerPixel = trackDuration / (trackWidth || 1);
+    const selectedIds = new Set(selectedItemIds);
+    
+    // Correction that puts one of the edges on a beat or another item's edge (Alt disables it)
+    const snapOffset = (edges: number[], excludeIds: string[], event: MouseEvent) => {
+      if (!snapEnabled || event.altKey) return 0;
+      return getSnapOffset(edges, getSnapTargets(timelineItems, beats, excludeIds), SNAP_THRESHOLD_PX * secondsPerPixel);
+    };
+    
+    // Coloured strip with the audience zones an item targets
+    const appendZoneStrip = (regionElement: HTMLElement, item: TimelineItem) => {
+      const itemZones = zones.filter(zone => item.zones?.includes(zone.id));
+      if (itemZones.length === 0) return;
+      
+      const strip = document.createElement('div');
+      strip.className = 'absolute top-0 left-0 right-0 h-1 flex pointer-events-none';
+      strip.title = itemZones.map(zone => zone.name).join(', ');
+      itemZones.forEach(zone => {
+        const segment = document.createElement('div');
+        segment.className = 'flex-1 h-full';
+        segment.style.backgroundColor = zone.color;
+        strip.appendChild(segment);
+      });
+      regionElement.appendChild(strip);
+    };
+    
+    const bindItemInteractions = (
+      item: TimelineItem,
+      regionElement: HTMLElement,
+      label: HTMLElement,
+      leftResizeHandle: HTMLElement,
+      rightResizeHandle: HTMLElement,
+      dragHandle: HTMLElement
+    ) => {
+      const showSpan = (startTime: number, itemDuration: number) => {
+        regionElement.style.left = `${calculatePosition(startTime)}%`;
+        regionElement.style.width = `${calculateWidth(itemDuration)}%`;
+        label.textContent = `${startTime.toFixed(1)}s - ${(startTime + itemDuration).toFixed(1)}s`;
+      };
+      
+      // The whole gesture is one undo step, however long the mouse pauses mid-drag
+      const trackMouse = (
+        e: MouseEvent,
+        cursor: string,
+        label: string,
+        onMove: (dx: number, moveEvent: MouseEvent) => void,
+        onEnd?: () => void
+      ) => {
+        e.stopPropagation();
+        suppressClickRef.current = false;
+        const startX = e.clientX;
+        document.body.style.cursor = cursor;
+        onBeginGroup(label);
+        
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+          moveEvent.preventDefault();
+          const dx = moveEvent.clientX - startX;
+          if (Math.abs(dx) > DRAG_THRESHOLD_PX) suppressClickRef.current = true;
+          onMove(dx, moveEvent);
+        };
+        
+        const handleMouseUp = () => {
+          document.body.style.cursor = '';
+          onEnd?.();
+          onEndGroup();
+          document.removeEventListener('mousemove', handleMouseMove);
+          document.removeEventListener('mouseup', handleMouseUp);
+        };
+        
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+      };
+      
+      regionElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        // The click that ends a drag doesn't change the selection
+        if (suppressClickRef.current) return;
+        handleItemClick(item.id, e.shiftKey || e.ctrlKey || e.metaKey);
+      });
+      
+      leftResizeHandle.addEventListener('mousedown', (e) => {
+        const itemEnd = item.startTime + item.duration;
+        
+        trackMouse(e, 'ew-resize', "Redimensionar item", (dx, moveEvent) => {
+          const startTime = item.startTime + dx * secondsPerPixel;
+          const span = clampItemSpan(startTime + snapOffset([startTime], [item.id], moveEvent), itemEnd, trackDuration);
+          if (checkImageOverlap([{ ...item, ...span }])) return;
+          
+          showSpan(span.startTime, span.duration);
+          onUpdateItem(item.id, span);
+        });
+      });
+      
+      rightResizeHandle.addEventListener('mousedown', (e) => {
+        const itemEnd = item.startTime + item.duration;
+        
+        trackMouse(e, 'ew-resize', "Redimensionar item", (dx, moveEvent) => {
+          const endTime = itemEnd + dx * secondsPerPixel;
+          const span = clampItemSpan(item.startTime, endTime + snapOffset([endTime], [item.id], moveEvent), trackDuration);
+          if (checkImageOverlap([{ ...item, ...span }])) return;
+          
+          showSpan(span.startTime, span.duration);
+          onUpdateItem(item.id, { duration: span.duration });
+        });
+      });
+      
+      dragHandle.addEventListener('mousedown', (e) => {
+        // Dragging a selected item moves the whole selection
+        const group = selectedIds.has(item.id) ? timelineItems.filter(i => selectedIds.has(i.id)) : [item];
+        const groupIds = group.map(i => i.id);
+        dragHandle.style.cursor = 'grabbing';
+        
+        trackMouse(e, 'grabbing', group.length > 1 ? "Mover itens" : "Mover item", (dx, moveEvent) => {
+          let delta = dx * secondsPerPixel;
+          delta += snapOffset([item.startTime + delta, item.startTime + item.duration + delta], groupIds, moveEvent);
+          
+          const { items: moved } = shiftItems(group, delta, trackDuration);
+          if (checkImageOverlap(moved)) return;
+          
+          const draggedItem = moved.find(i => i.id === item.id);
+          if (draggedItem) showSpan(draggedItem.startTime, draggedItem.duration);
+          onUpdateItems(Object.fromEntries(moved.map(i => [i.id, { startTime: i.startTime }])));
+        }, () => {
+          dragHandle.style.cursor = 'grab';
+        });
+      });
     };
     
     timelineItems.forEach(item => {
@@ -336,10 +495,8 @@ const Timeline = ({
         regionElement.style.left = `${leftPosition}%`;
         regionElement.style.width = `${widthPercentage}%`;
         regionElement.style.backgroundColor = 'rgba(14, 165, 233, 0.3)';
-        regionElement.style.border = selectedItemIndex !== null && 
-          timelineItems[selectedItemIndex]?.id === item.id ? '2px solid white' : '';
-        regionElement.style.zIndex = selectedItemIndex !== null && 
-          timelineItems[selectedItemIndex]?.id === item.id ? '2' : '1';
+        regionElement.style.border = selectedIds.has(item.id) ? '2px solid white' : '';
+        regionElement.style.zIndex = selectedIds.has(item.id) ? '2' : '1';
         
         regionElement.setAttribute('data-item-id', item.id);
         regionElement.setAttribute('data-item-type', 'image');
@@ -372,220 +529,12 @@ const Timeline = ({
         rightHandleVisual.innerHTML = '<div class="w-1 h-full bg-white/50"></div>';
         rightResizeHandle.appendChild(rightHandleVisual);
         
-        let isDragging = false;
-        let isResizingLeft = false;
-        let isResizingRight = false;
-        let startX = 0;
-        let startLeft = 0;
-        let startWidth = 0;
-        let ghostElement: HTMLElement | null = null;
-        
-        regionElement.addEventListener('click', (e) => {
-          e.stopPropagation();
-          const index = timelineItems.findIndex(i => i.id === item.id);
-          onItemSelect(index);
-        });
-        
-        regionElement.addEventListener('mousedown', (e) => {
-          if ((e.target as HTMLElement).closest('.cursor-ew-resize')) return;
-          
-          e.stopPropagation();
-          startX = e.clientX;
-          startLeft = parseFloat(regionElement.style.left);
-          
-          if (imageTrackRef.current) {
-            ghostElement = createDragPreview(regionElement, e.clientX - imageTrackRef.current.getBoundingClientRect().left);
-            ghostElement.style.position = 'absolute';
-            ghostElement.style.opacity = '0.7';
-            ghostElement.style.pointerEvents = 'none';
-            document.body.appendChild(ghostElement);
-          }
-          
-          setDraggedItem(item.id);
-          regionElement.style.cursor = 'grabbing';
-          document.body.style.cursor = 'grabbing';
-                
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            moveEvent.preventDefault();
-            
-            if (ghostElement) {
-              const trackRect = imageTrackRef.current?.getBoundingClientRect();
-              if (trackRect) {
-                const offsetX = moveEvent.clientX - trackRect.left;
-                ghostElement.style.left = `${offsetX}px`;
-                
-                const newTimePosition = (offsetX / trackRect.width) * trackDuration;
-                
-                const imageItems = timelineItems.filter(i => i.type === 'image' && i.id !== item.id);
-                
-                setDragOverPosition(newTimePosition);
-              }
-            }
-          };
-          
-          const handleMouseUp = (upEvent: MouseEvent) => {
-            if (ghostElement) {
-              document.body.removeChild(ghostElement);
-              ghostElement = null;
-            }
-            
-            const trackRect = imageTrackRef.current?.getBoundingClientRect();
-            if (trackRect) {
-              const offsetX = upEvent.clientX - trackRect.left;
-              const targetTimePosition = (offsetX / trackRect.width) * trackDuration;
-              
-              moveImageToPosition(item.id, targetTimePosition);
-            }
-            
-            regionElement.style.cursor = 'grab';
-            document.body.style.cursor = '';
-            setDraggedItem(null);
-            setDragOverPosition(null);
-            
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
-        
-        leftResizeHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          isResizingLeft = true;
-          startX = e.clientX;
-          startLeft = parseFloat(regionElement.style.left);
-          startWidth = regionElement.offsetWidth;
-          
-          document.body.style.cursor = 'ew-resize';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isResizingLeft) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const newLeft = Math.max(0, startLeft + (dx / trackWidth * 100));
-            const newWidth = Math.max(5, startWidth - dx);
-            
-            const percentWidth = (newWidth / trackWidth) * 100;
-            const maxLeft = 100 - percentWidth;
-            
-            if (newLeft <= maxLeft) {
-              const newStartTime = (newLeft / 100) * trackDuration;
-              const newDuration = (percentWidth / 100) * trackDuration;
-              
-              regionElement.style.left = `${newLeft}%`;
-              regionElement.style.width = `${percentWidth}%`;
-              
-              label.textContent = `${newStartTime.toFixed(1)}s - ${(newStartTime + newDuration).toFixed(1)}s`;
-              
-              onUpdateItem(item.id, { 
-                startTime: newStartTime,
-                duration: newDuration 
-              });
-            }
-          };
-          
-          const handleMouseUp = () => {
-            isResizingLeft = false;
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
-        
-        rightResizeHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          isResizingRight = true;
-          startX = e.clientX;
-          startWidth = regionElement.offsetWidth;
-          
-          document.body.style.cursor = 'ew-resize';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isResizingRight) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const newWidth = Math.max(5, startWidth + dx);
-            const percentWidth = (newWidth / trackWidth) * 100;
-            
-            const currentLeft = parseFloat(regionElement.style.left);
-            const maxWidth = (100 - currentLeft);
-            
-            if (percentWidth <= maxWidth) {
-              const newDuration = (percentWidth / 100) * trackDuration;
-              
-              regionElement.style.width = `${percentWidth}%`;
-              
-              label.textContent = `${item.startTime.toFixed(1)}s - ${(item.startTime + newDuration).toFixed(1)}s`;
-              
-              onUpdateItem(item.id, { duration: newDuration });
-            }
-          };
-          
-          const handleMouseUp = () => {
-            isResizingRight = false;
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
-        
         const dragHandle = document.createElement('div');
         dragHandle.className = 'absolute inset-0 cursor-grab';
         dragHandle.innerHTML = '<div class="absolute top-2 right-1/2 transform translate-x-1/2 opacity-50"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 3v2m0 0v2m0-2h6m0 0V3m0 2v2"></path><path d="M9 17v2m0 0v2m0-2h6m0 0v-2m0 2v2"></path><path d="M5 7v10M19 7v10"></path></svg></div>';
         
-        dragHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          if (isResizingLeft || isResizingRight) return;
-          
-          isDragging = true;
-          startX = e.clientX;
-          startLeft = parseFloat(regionElement.style.left);
-          
-          dragHandle.style.cursor = 'grabbing';
-          document.body.style.cursor = 'grabbing';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isDragging) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const percentDx = (dx / trackWidth) * 100;
-            const newLeft = Math.max(0, Math.min(100 - parseFloat(regionElement.style.width), startLeft + percentDx));
-            
-            const newStartTime = (newLeft / 100) * trackDuration;
-            
-            if (!checkImageOverlap(item.id, newStartTime, item.duration)) {
-              regionElement.style.left = `${newLeft}%`;
-              
-              label.textContent = `${newStartTime.toFixed(1)}s - ${(newStartTime + item.duration).toFixed(1)}s`;
-              
-              onUpdateItem(item.id, { startTime: newStartTime });
-            }
-          };
-          
-          const handleMouseUp = () => {
-            isDragging = false;
-            dragHandle.style.cursor = 'grab';
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
+        appendZoneStrip(regionElement, item);
+        bindItemInteractions(item, regionElement, label, leftResizeHandle, rightResizeHandle, dragHandle);
         
         regionElement.appendChild(dragHandle);
         regionElement.appendChild(leftResizeHandle);
@@ -596,14 +545,13 @@ const Timeline = ({
       else if (item.type === 'flashlight' && flashlightTrackRef.current) {
         const regionElement = document.createElement('div');
         regionElement.className = 'absolute h-full rounded-md flex items-center justify-center';
+        regionElement.setAttribute('data-item-id', item.id);
         regionElement.style.left = `${leftPosition}%`;
         regionElement.style.width = `${widthPercentage}%`;
         regionElement.style.backgroundColor = '#FFFFFF';
         regionElement.style.opacity = '0.5';
-        regionElement.style.border = selectedItemIndex !== null && 
-          timelineItems[selectedItemIndex]?.id === item.id ? '2px solid white' : '';
-        regionElement.style.zIndex = selectedItemIndex !== null && 
-          timelineItems[selectedItemIndex]?.id === item.id ? '2' : '1';
+        regionElement.style.border = selectedIds.has(item.id) ? '2px solid white' : '';
+        regionElement.style.zIndex = selectedIds.has(item.id) ? '2' : '1';
         
         const label = document.createElement('div');
         label.className = 'absolute bottom-1 left-2 text-xs text-white bg-black/50 px-1 rounded';
@@ -637,148 +585,8 @@ const Timeline = ({
         dragHandle.className = 'absolute inset-0 cursor-grab';
         dragHandle.innerHTML = '<div class="absolute top-2 right-1/2 transform translate-x-1/2 opacity-50"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 3v2m0 0v2m0-2h6m0 0V3m0 2v2"></path><path d="M9 17v2m0 0v2m0-2h6m0 0v-2m0 2v2"></path><path d="M5 7v10M19 7v10"></path></svg></div>';
         
-        let isDragging = false;
-        let isResizingLeft = false;
-        let isResizingRight = false;
-        let startX = 0;
-        let startLeft = 0;
-        let startWidth = 0;
-        
-        regionElement.addEventListener('click', (e) => {
-          e.stopPropagation();
-          const index = timelineItems.findIndex(i => i.id === item.id);
-          onItemSelect(index);
-        });
-        
-        leftResizeHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          isResizingLeft = true;
-          startX = e.clientX;
-          startLeft = parseFloat(regionElement.style.left);
-          startWidth = regionElement.offsetWidth;
-          
-          document.body.style.cursor = 'ew-resize';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isResizingLeft) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const newLeft = Math.max(0, startLeft + (dx / trackWidth * 100));
-            const newWidth = Math.max(5, startWidth - dx);
-            
-            const percentWidth = (newWidth / trackWidth) * 100;
-            const maxLeft = 100 - percentWidth;
-            
-            if (newLeft <= maxLeft) {
-              const newStartTime = (newLeft / 100) * trackDuration;
-              const newDuration = (percentWidth / 100) * trackDuration;
-              
-              regionElement.style.left = `${newLeft}%`;
-              regionElement.style.width = `${percentWidth}%`;
-              
-              label.textContent = `${newStartTime.toFixed(1)}s - ${(newStartTime + newDuration).toFixed(1)}s`;
-              
-              onUpdateItem(item.id, { 
-                startTime: newStartTime,
-                duration: newDuration 
-              });
-            }
-          };
-          
-          const handleMouseUp = () => {
-            isResizingLeft = false;
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
-        
-        rightResizeHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          isResizingRight = true;
-          startX = e.clientX;
-          startWidth = regionElement.offsetWidth;
-          
-          document.body.style.cursor = 'ew-resize';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isResizingRight) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const newWidth = Math.max(5, startWidth + dx);
-            const percentWidth = (newWidth / trackWidth) * 100;
-            
-            const currentLeft = parseFloat(regionElement.style.left);
-            const maxWidth = (100 - currentLeft);
-            
-            if (percentWidth <= maxWidth) {
-              const newDuration = (percentWidth / 100) * trackDuration;
-              
-              regionElement.style.width = `${percentWidth}%`;
-              
-              label.textContent = `${item.startTime.toFixed(1)}s - ${(item.startTime + newDuration).toFixed(1)}s`;
-              
-              onUpdateItem(item.id, { duration: newDuration });
-            }
-          };
-          
-          const handleMouseUp = () => {
-            isResizingRight = false;
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
-        
-        dragHandle.addEventListener('mousedown', (e) => {
-          e.stopPropagation();
-          if (isResizingLeft || isResizingRight) return;
-          
-          isDragging = true;
-          startX = e.clientX;
-          startLeft = parseFloat(regionElement.style.left);
-          
-          dragHandle.style.cursor = 'grabbing';
-          document.body.style.cursor = 'grabbing';
-          
-          const handleMouseMove = (moveEvent: MouseEvent) => {
-            if (!isDragging) return;
-            
-            moveEvent.preventDefault();
-            
-            const dx = moveEvent.clientX - startX;
-            const percentDx = (dx / trackWidth) * 100;
-            const newLeft = Math.max(0, Math.min(100 - parseFloat(regionElement.style.width), startLeft + percentDx));
-            
-            const newStartTime = (newLeft / 100) * trackDuration;
-            
-            regionElement.style.left = `${newLeft}%`;
-            label.textContent = `${newStartTime.toFixed(1)}s - ${(newStartTime + item.duration).toFixed(1)}s`;
-            
-            onUpdateItem(item.id, { startTime: newStartTime });
-          };
-          
-          const handleMouseUp = () => {
-            isDragging = false;
-            dragHandle.style.cursor = 'grab';
-            document.body.style.cursor = '';
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-          };
-          
-          document.addEventListener('mousemove', handleMouseMove);
-          document.addEventListener('mouseup', handleMouseUp);
-        });
+        appendZoneStrip(regionElement, item);
+        bindItemInteractions(item, regionElement, label, leftResizeHandle, rightResizeHandle, dragHandle);
         
         regionElement.appendChild(dragHandle);
         regionElement.appendChild(leftResizeHandle);
@@ -806,62 +614,67 @@ const Timeline = ({
         }
       }
     };
-  }, [timelineItems, selectedItemIndex, currentTime, isPlaying, draggedItem, dragOverPosition]);
+  }, [timelineItems, selectedItemIds, currentTime, isPlaying, snapEnabled, beats, zones, onBeginGroup, onEndGroup]);
 
-  const moveImageToPosition = (itemId: string, targetTime: number) => {
-    const item = timelineItems.find(i => i.id === itemId);
-    if (!item || item.type !== 'image') return;
-    
-    const imageItems = timelineItems.filter(i => i.type === 'image');
-    
-    let validPosition = targetTime;
-    const itemDuration = item.duration;
-    
-    validPosition = Math.max(0, validPosition);
-    if (validPosition + itemDuration > duration) {
-      validPosition = duration - itemDuration;
-    }
-    
-    let insertBefore: TimelineItem | null = null;
-    
-    for (const img of imageItems) {
-      if (img.id !== itemId && img.startTime > validPosition) {
-        insertBefore = img;
-        break;
-      }
-    }
-    
-    if (insertBefore) {
-      validPosition = Math.min(validPosition, insertBefore.startTime - itemDuration);
-    }
-    
-    const originalPosition = item.startTime;
-    
-    if (Math.abs(originalPosition - validPosition) < 0.01) return;
-    
-    onUpdateItem(itemId, { startTime: validPosition });
-    
-    const updatedItems = [...timelineItems];
-    const updatedItem = updatedItems.find(i => i.id === itemId);
-    if (!updatedItem) return;
-    
-    const allImages = updatedItems.filter(i => i.type === 'image');
-    const sortedByPosition = [...allImages].sort((a, b) => a.startTime - b.startTime);
-    
-    for (let i = 0; i < sortedByPosition.length - 1; i++) {
-      const current = sortedByPosition[i];
-      const next = sortedByPosition[i + 1];
+  // Rubber-band selection over the item tracks; Shift/Ctrl adds to the selection
+  const handleTracksMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const tracks = tracksRef.current;
+    if (!tracks || e.button !== 0 || (e.target as HTMLElement).closest('[data-item-id]')) return;
+    
+    e.preventDefault();
+    const origin = tracks.getBoundingClientRect();
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    const baseSelection = additive ? selectedItemIds : [];
+    let moved = false;
+    
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!moved && Math.hypot(moveEvent.clientX - startX, moveEvent.clientY - startY) < DRAG_THRESHOLD_PX) return;
+      moved = true;
       
-      const currentEnd = current.startTime + current.duration;
+      const left = Math.min(startX, moveEvent.clientX);
+      const right = Math.max(startX, moveEvent.clientX);
+      const top = Math.min(startY, moveEvent.clientY);
+      const bottom = Math.max(startY, moveEvent.clientY);
       
-      if (currentEnd > next.startTime) {
-        onUpdateItem(next.id, { startTime: currentEnd });
-      }
-    }
+      setSelectionBox({
+        left: left - origin.left,
+        top: top - origin.top,
+        width: right - left,
+        height: bottom - top
+      });
+      
+      const hits = Array.from(tracks.querySelectorAll<HTMLElement>('[data-item-id]'))
+        .filter(element => {
+          const rect = element.getBoundingClientRect();
+          return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+        })
+        .map(element => element.getAttribute('data-item-id') as string);
+      
+      onSelectItems([...new Set([...baseSelection, ...hits])]);
+    };
+    
+    const handleMouseUp = () => {
+      // A plain click on an empty part of the tracks clears the selection
+      if (!moved && !additive) onItemSelect(null);
+      setSelectionBox(null);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+    
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
   };
 
   return (
-    <div className="flex flex-col h-full bg-black/50 rounded-lg p-4 space-y-3">
+    <div
+      ref={timelineRef}
+      tabIndex={0}
+      className="flex flex-col h-full bg-black/50 rounded-lg p-4 space-y-3 outline-none focus-visible:ring-1 focus-visible:ring-white/30"
+      onKeyDown={handleKeyDown}
+      onMouseDownCapture={focusTimeline}
+    >
       <div className="text-xs text-white/70 font-medium flex justify-between mb-2">
         <span>Trilha de Áudio</span>
         <div className="flex items-center space-x-2">
@@ -949,6 +762,16 @@ const Timeline = ({
         >
           <ZoomIn className="h-4 w-4" />
         </Button>
+        
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          onClick={() => setSnapEnabled(!snapEnabled)}
+          className="p-1 h-8 w-8"
+          title={snapEnabled ? "Encaixe nas batidas e itens ativado (segure Alt para ignorar)" : "Encaixe desativado"}
+        >
+          <Magnet className={`h-4 w-4 ${snapEnabled ? 'text-purple-400' : 'text-white/40'}`} />
+        </Button>
       </div>
       
       <div className="relative h-32 bg-black/30 rounded-md">
@@ -958,28 +781,46 @@ const Timeline = ({
       
       <div id="timeline" className="h-10" />
       
-      <div className="text-xs text-white/70 font-medium mb-1">Trilha de Imagens</div>
-      <div className="relative h-16 bg-black/30 rounded-md">
-        <div 
-          ref={imageTrackRef} 
-          className="relative h-full cursor-pointer"
-          onClick={() => onItemSelect(null)}
-        ></div>
-      </div>
-      
-      <div className="text-xs text-white/70 font-medium mb-1">Trilha de Efeitos de Lanterna</div>
-      <div className="relative h-16 bg-black/30 rounded-md">
-        <div 
-          ref={flashlightTrackRef} 
-          className="relative h-full cursor-pointer"
-          onClick={() => onItemSelect(null)}
-        ></div>
+      <div ref={tracksRef} className="relative space-y-3 select-none" onMouseDown={handleTracksMouseDown}>
+        <div className="text-xs text-white/70 font-medium mb-1">Trilha de Imagens</div>
+        <div className="relative h-16 bg-black/30 rounded-md">
+          <div 
+            ref={imageTrackRef} 
+            className="relative h-full cursor-pointer"
+          ></div>
+        </div>
+        
+        <div className="text-xs text-white/70 font-medium mb-1">Trilha de Efeitos de Lanterna</div>
+        <div className="relative h-16 bg-black/30 rounded-md">
+          {snapEnabled && duration > 0 && (
+            <div className="absolute inset-0 pointer-events-none">
+              {beats.map(beat => (
+                <div
+                  key={beat}
+                  className="absolute top-0 h-full w-px bg-purple-400/30"
+                  style={{ left: `${(beat / duration) * 100}%` }}
+                />
+              ))}
+            </div>
+          )}
+          <div 
+            ref={flashlightTrackRef} 
+            className="relative h-full cursor-pointer"
+          ></div>
+        </div>
+        
+        {selectionBox && (
+          <div
+            className="absolute z-30 border border-purple-400 bg-purple-400/10 pointer-events-none"
+            style={selectionBox}
+          />
+        )}
       </div>
       
       <div className="mt-2 text-xs text-white/50 text-center">
         {showAudioControls ? 
           "Clique na forma de onda para definir um ponto de corte • Tecla Delete para remover parte do áudio" :
-          "Clique em uma região para editar • Arraste o item para movê-lo • Arraste as bordas para ajustar a duração • Tecla Delete para remover item selecionado"}
+          "Clique para selecionar (Shift adiciona) • Arraste no fundo das trilhas para selecionar vários • Arraste para mover e as bordas para ajustar a duração • Ctrl+C/X/V copia, recorta e cola no cursor • Ctrl+D duplica • Setas deslocam (Shift: 0,5s) • Delete remove"}
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Loader2, Mic, MicOff, XCircle } from "lucide-react";
+import { useUltrasonicVerification } from "@/hooks/useUltrasonicVerification";
+import { UltrasonicDecodeStatus } from "@/utils/ultrasonicDecoder";
+import { MODEM_PROFILES } from "@/utils/ultrasonicModem";
+
+interface UltrasonicVerifyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  verification: ReturnType<typeof useUltrasonicVerification>;
+}
+
+const STATUS_LABELS: Record<UltrasonicDecodeStatus, string> = {
+  'ok': 'Dados recuperados e checksum válido',
+  'checksum-mismatch': 'Checksum não confere: dados corrompidos',
+  'no-checksum': 'Dados recuperados sem checksum (formato simplificado)',
+  'corrupted': 'Sinal encontrado, mas os dados estão corrompidos',
+  'truncated': 'O áudio termina antes do fim dos dados',
+  'no-signal': 'Nenhum sinal ultrassônico encontrado'
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const UltrasonicVerifyDialog = ({ open, onOpenChange, verification }: UltrasonicVerifyDialogProps) => {
+  const {
+    source,
+    fileName,
+    isDecoding,
+    progress,
+    isListening,
+    listenedSeconds,
+    result,
+    roundTrip,
+    startListening,
+    stopListening
+  } = verification;
+
+  const passed = result?.status === 'ok' && roundTrip?.matches;
+  const maxDrift = result?.syncMarkers.length
+    ? Math.max(...result.syncMarkers.map(marker => Math.abs(marker.drift - result.syncMarkers[0].drift)))
+    : null;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && isListening) stopListening();
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Verificar arquivo ultrassônico</DialogTitle>
+          <DialogDescription>
+            {source === 'microphone'
+              ? 'Reproduza o arquivo perto do microfone para conferir o sinal no ambiente.'
+              : fileName ? `Arquivo: ${fileName}` : 'Decodifica o arquivo exportado e compara com a timeline atual.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDecoding && (
+          <div className="space-y-2">
+            <p className="text-sm flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Decodificando... {Math.round(progress * 100)}%
+            </p>
+            <Progress value={progress * 100} className="h-2" />
+          </div>
+        )}
+
+        {isListening && (
+          <p className="text-sm flex items-center gap-2">
+            <Mic className="h-4 w-4 text-red-500 animate-pulse" />
+            Escutando há {formatSeconds(listenedSeconds)}
+          </p>
+        )}
+
+        {result && !isDecoding && (
+          <div className="space-y-3 text-sm">
+            <div className={`flex items-center gap-2 font-semibold ${passed ? 'text-green-500' : 'text-red-500'}`}>
+              {passed ? <CheckCircle2 className="h-5 w-5" /> : <XCircle className="h-5 w-5" />}
+              {passed ? 'O arquivo reproduz a timeline atual' : STATUS_LABELS[result.status]}
+            </div>
+
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Qualidade do sinal</dt>
+              <dd>{Math.round(result.signalQuality * 100)}%</dd>
+
+              {result.preambleAt !== null && (
+                <>
+                  <dt className="text-muted-foreground">Preâmbulo em</dt>
+                  <dd>{formatSeconds(result.preambleAt)}</dd>
+                </>
+              )}
+
+              {result.bitConfidence > 0 && (
+                <>
+                  <dt className="text-muted-foreground">Confiança dos bits</dt>
+                  <dd>{Math.round(result.bitConfidence * 100)}%</dd>
+                </>
+              )}
+
+              {result.profile && (
+                <>
+                  <dt className="text-muted-foreground">Perfil do modem</dt>
+                  <dd>{MODEM_PROFILES[result.profile].label}</dd>
+                </>
+              )}
+
+              {result.fec && (
+                <>
+                  <dt className="text-muted-foreground">Correção de erros</dt>
+                  <dd>
+                    {result.fec.correctedBytes} byte(s) corrigido(s)
+                    {result.fec.failedBlocks > 0 && `, ${result.fec.failedBlocks} de ${result.fec.blocks} bloco(s) perdido(s)`}
+                  </dd>
+                </>
+              )}
+
+              {result.generatedAt && (
+                <>
+                  <dt className="text-muted-foreground">Gerado em</dt>
+                  <dd>{new Date(result.generatedAt).toLocaleString()}</dd>
+                </>
+              )}
+
+              {result.payload?.metadata?.showId && (
+                <>
+                  <dt className="text-muted-foreground">Show</dt>
+                  <dd className="font-mono">{result.payload.metadata.showId.slice(0, 8)}</dd>
+                </>
+              )}
+
+              {result.payload?.metadata?.zones?.length ? (
+                <>
+                  <dt className="text-muted-foreground">Zonas</dt>
+                  <dd>{result.payload.metadata.zones.map(zone => zone.k).join(', ')}</dd>
+                </>
+              ) : null}
+
+              {result.checksum && (
+                <>
+                  <dt className="text-muted-foreground">Checksum</dt>
+                  <dd>{result.checksum.expected} / {result.checksum.actual}</dd>
+                </>
+              )}
+
+              {result.transmissionEnd !== null && (
+                <>
+                  <dt className="text-muted-foreground">Fim dos dados</dt>
+                  <dd>{formatSeconds(result.transmissionEnd)} de {formatSeconds(result.analyzedDuration)}</dd>
+                </>
+              )}
+
+              {roundTrip && (
+                <>
+                  <dt className="text-muted-foreground">Itens da timeline</dt>
+                  <dd>{roundTrip.decodedItems} de {roundTrip.expectedItems}</dd>
+                </>
+              )}
+
+              <dt className="text-muted-foreground">Marcadores de sincronia</dt>
+              <dd>
+                {result.syncMarkers.length}
+                {maxDrift !== null && ` (variação ${(maxDrift * 1000).toFixed(0)}ms)`}
+              </dd>
+            </dl>
+
+            {roundTrip && roundTrip.mismatchedItemIds.length > 0 && (
+              <p className="text-red-500">
+                Itens diferentes da timeline atual: {roundTrip.mismatchedItemIds.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          {isListening ? (
+            <Button variant="outline" onClick={stopListening}>
+              <MicOff className="h-4 w-4 mr-2" />
+              Parar e verificar
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={startListening} disabled={isDecoding}>
+              <Mic className="h-4 w-4 mr-2" />
+              Escutar pelo microfone
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UltrasonicVerifyDialog;
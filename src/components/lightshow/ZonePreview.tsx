@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AudienceZone, TimelineItem } from '@/types/lightshow';
+import { filterItemsForZones } from "@/utils/audienceZones";
+import PhonePreview from "@/components/lightshow/PhonePreview";
+
+interface ZonePreviewProps {
+  isPlaying: boolean;
+  currentTime: number;
+  timelineItems: TimelineItem[];
+  zones: AudienceZone[];
+}
+
+// Phones without a zone only play the untargeted items
+const NO_ZONE = '';
+
+/**
+ * One phone per chosen audience zone, side by side, so waves and mosaics can be checked
+ */
+const ZonePreview = ({ isPlaying, currentTime, timelineItems, zones }: ZonePreviewProps) => {
+  const [visibleZones, setVisibleZones] = useState<string[]>([]);
+
+  if (zones.length === 0) {
+    return <PhonePreview isPlaying={isPlaying} currentTime={currentTime} timelineItems={timelineItems} />;
+  }
+
+  const toggleZone = (id: string) => {
+    setVisibleZones(visibleZones.includes(id) ? visibleZones.filter(zone => zone !== id) : [...visibleZones, id]);
+  };
+
+  const shownZones = zones.filter(zone => visibleZones.includes(zone.id));
+  const showNoZone = visibleZones.includes(NO_ZONE);
+  const phoneCount = shownZones.length + (showNoZone ? 1 : 0);
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {zones.map(zone => (
+          <Button
+            key={zone.id}
+            size="sm"
+            variant={visibleZones.includes(zone.id) ? "default" : "outline"}
+            style={{ borderColor: zone.color, ...(visibleZones.includes(zone.id) ? { backgroundColor: zone.color } : {}) }}
+            onClick={() => toggleZone(zone.id)}
+          >
+            {zone.name}
+          </Button>
+        ))}
+        <Button size="sm" variant={showNoZone ? "default" : "outline"} onClick={() => toggleZone(NO_ZONE)}>
+          Sem zona
+        </Button>
+      </div>
+
+      {phoneCount === 0 ? (
+        <div className="flex justify-center">
+          <PhonePreview isPlaying={isPlaying} currentTime={currentTime} timelineItems={timelineItems} label="Todos os itens" />
+        </div>
+      ) : (
+        <div className="flex flex-wrap justify-center gap-4">
+          {shownZones.map(zone => (
+            <PhonePreview
+              key={zone.id}
+              isPlaying={isPlaying}
+              currentTime={currentTime}
+              timelineItems={filterItemsForZones(timelineItems, [zone.id])}
+              label={zone.name}
+              compact={phoneCount > 1}
+            />
+          ))}
+          {showNoZone && (
+            <PhonePreview
+              isPlaying={isPlaying}
+              currentTime={currentTime}
+              timelineItems={filterItemsForZones(timelineItems, [])}
+              label="Sem zona"
+              compact={phoneCount > 1}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZonePreview;
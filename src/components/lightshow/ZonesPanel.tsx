@@ -0,0 +1,156 @@
+import QRCode from 'qrcode';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, QrCode, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AudienceZone, TimelineItem } from '@/types/lightshow';
+import { buildSeatQRCode } from "@/utils/audienceZones";
+
+interface ZonesPanelProps {
+  zones: AudienceZone[];
+  timelineItems: TimelineItem[];
+  onAddZone: () => void;
+  onUpdateZone: (id: string, updates: Partial<AudienceZone>) => void;
+  onRemoveZone: (id: string) => void;
+}
+
+const parseRow = (value: string) => (value.trim() === '' ? undefined : Math.max(0, parseInt(value, 10) || 0));
+
+const ZonesPanel = ({ zones, timelineItems, onAddZone, onUpdateZone, onRemoveZone }: ZonesPanelProps) => {
+  const { toast } = useToast();
+
+  const updateRows = (zone: AudienceZone, field: 'from' | 'to', value: string) => {
+    const row = parseRow(value);
+    if (row === undefined) {
+      onUpdateZone(zone.id, { rows: undefined });
+      return;
+    }
+
+    // The other end starts at the same row so the range is valid right away
+    onUpdateZone(zone.id, {
+      rows: {
+        from: field === 'from' ? row : zone.rows?.from ?? row,
+        to: field === 'to' ? row : zone.rows?.to ?? row
+      }
+    });
+  };
+
+  const downloadQRCode = async (zone: AudienceZone) => {
+    try {
+      const dataUrl = await QRCode.toDataURL(buildSeatQRCode({ zone: zone.id }), { width: 512, margin: 2 });
+      const link = document.createElement('a');
+      link.href = dataUrl;
+      link.download = `zona_${zone.id}.png`;
+      link.click();
+    } catch (error) {
+      console.error("Error generating zone QR code:", error);
+      toast({
+        title: "Erro ao gerar QR Code",
+        description: "Não foi possível gerar o QR Code da zona.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-white/10 bg-black/30">
+        <CardHeader>
+          <CardTitle>Zonas da Plateia</CardTitle>
+          <CardDescription>
+            Itens sem zona tocam em todos os celulares. O celular entra numa zona pelo QR Code do assento,
+            pela escolha do usuário ou pelo setor/fileira informados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {zones.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma zona criada.</p>
+          )}
+
+          {zones.map(zone => {
+            const itemCount = timelineItems.filter(item => item.zones?.includes(zone.id)).length;
+
+            return (
+              <div key={zone.id} className="space-y-3 rounded-md bg-white/5 p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={zone.color}
+                    className="h-9 w-10 rounded bg-transparent"
+                    onChange={(e) => onUpdateZone(zone.id, { color: e.target.value })}
+                    aria-label="Cor da zona"
+                  />
+                  <span className="font-mono text-sm w-8 text-center">{zone.id}</span>
+                  <Input
+                    value={zone.name}
+                    onChange={(e) => onUpdateZone(zone.id, { name: e.target.value })}
+                    className="flex-1"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => downloadQRCode(zone)}
+                    title="Baixar QR Code dos assentos desta zona"
+                  >
+                    <QrCode className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-red-400"
+                    onClick={() => onRemoveZone(zone.id)}
+                    aria-label="Remover zona"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Setores</Label>
+                    <Input
+                      value={(zone.sectors ?? []).join(', ')}
+                      placeholder="A, B"
+                      onChange={(e) => onUpdateZone(zone.id, {
+                        sectors: e.target.value.split(',').map(sector => sector.trim()).filter(Boolean)
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Fileira inicial</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={zone.rows?.from ?? ''}
+                      onChange={(e) => updateRows(zone, 'from', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Fileira final</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={zone.rows?.to ?? ''}
+                      onChange={(e) => updateRows(zone, 'to', e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground">{itemCount} item(ns) direcionado(s) a esta zona</p>
+              </div>
+            );
+          })}
+
+          <Button variant="outline" onClick={onAddZone} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar zona
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ZonesPanel;
@@ -1,13 +1,21 @@
 
 import React from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, MonitorPlay, Palette, QrCode } from "lucide-react";
+import { Users, MonitorPlay, Palette, QrCode, Clapperboard, Newspaper } from "lucide-react";
 import { Participant } from './ParticipantGrid';
 import ParticipantGrid from './ParticipantGrid';
 import LivePreview from './LivePreview';
 import AppearanceSettings from './AppearanceSettings';
 import TextSettings from './TextSettings';
 import QrCodeSettings from './QrCodeSettings';
+import SceneSettings from './SceneSettings';
+import OverlaySettings from './OverlaySettings';
+import { useLobby } from '@/hooks/live/useLobby';
+import { useModeration } from '@/hooks/live/useModeration';
+import type { ModerationAction } from '@/services/UnifiedWebSocketService';
+import { useTransmissionScenes } from '@/hooks/live/useTransmissionScenes';
+import { useLowerThirds } from '@/hooks/live/useLowerThirds';
+import { useTransmissionOverlays } from '@/hooks/live/useTransmissionOverlays';
 
 interface LiveControlTabsProps {
   participantList: Participant[];
@@ -44,6 +52,10 @@ interface LiveControlTabsProps {
   setFinalActionCoupon: React.Dispatch<React.SetStateAction<string>>;
   onGenerateQRCode: () => void;
   onQRCodeToTransmission: () => void;
+  onRevokeJoinLink: () => void;
+  scenes: ReturnType<typeof useTransmissionScenes>;
+  lowerThirds: ReturnType<typeof useLowerThirds>;
+  overlays: ReturnType<typeof useTransmissionOverlays>;
 }
 
 const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
@@ -80,11 +92,31 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
   finalActionCoupon,
   setFinalActionCoupon,
   onGenerateQRCode,
-  onQRCodeToTransmission
+  onQRCodeToTransmission,
+  onRevokeJoinLink,
+  scenes,
+  lowerThirds,
+  overlays
 }) => {
+  const lobby = useLobby(sessionId);
+  const { moderateParticipant } = useModeration(sessionId);
+
+  // Remover = kick no servidor + remoção da lista local
+  const handleRemoveParticipant = (id: string) => {
+    moderateParticipant(id, 'kick');
+    onRemoveParticipant(id);
+  };
+
+  const handleModerateParticipant = (id: string, action: ModerationAction, facingMode?: 'user' | 'environment') => {
+    moderateParticipant(id, action, facingMode);
+    if (action === 'ban') {
+      onRemoveParticipant(id);
+    }
+  };
+
   return (
     <Tabs defaultValue="participants" className="w-full">
-      <TabsList className="grid grid-cols-4 mb-6">
+      <TabsList className="grid grid-cols-6 mb-6">
         <TabsTrigger value="participants">
           <Users className="h-4 w-4 mr-2" />
           Participantes
@@ -93,10 +125,18 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
           <MonitorPlay className="h-4 w-4 mr-2" />
           Layout
         </TabsTrigger>
+        <TabsTrigger value="scenes">
+          <Clapperboard className="h-4 w-4 mr-2" />
+          Cenas
+        </TabsTrigger>
         <TabsTrigger value="appearance">
           <Palette className="h-4 w-4 mr-2" />
           Aparência
         </TabsTrigger>
+        <TabsTrigger value="graphics">
+          <Newspaper className="h-4 w-4 mr-2" />
+          Gráficos
+        </TabsTrigger>
         <TabsTrigger value="qrcode">
           <QrCode className="h-4 w-4 mr-2" />
           QR Code
@@ -107,9 +147,18 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
         <ParticipantGrid 
           participants={participantList}
           onSelectParticipant={onSelectParticipant}
-          onRemoveParticipant={onRemoveParticipant}
+          onRemoveParticipant={handleRemoveParticipant}
+          onModerateParticipant={handleModerateParticipant}
           participantStreams={participantStreams}
           sessionId={sessionId}
+          lobbyEnabled={lobby.lobbyEnabled}
+          waitingParticipants={lobby.waitingParticipants}
+          onToggleLobby={lobby.setLobbyEnabled}
+          onAdmitParticipant={lobby.admitParticipant}
+          onDenyParticipant={lobby.denyParticipant}
+          onAdmitAllParticipants={lobby.admitAllParticipants}
+          onRenameParticipant={lowerThirds.renameParticipant}
+          onToggleLowerThird={lowerThirds.toggleLowerThird}
         />
       </TabsContent>
       
@@ -125,9 +174,14 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
           setSelectedTextColor={setSelectedTextColor}
           qrDescriptionFontSize={qrDescriptionFontSize}
           setQrDescriptionFontSize={setQrDescriptionFontSize}
+          lowerThirds={lowerThirds}
         />
       </TabsContent>
       
+      <TabsContent value="scenes">
+        <SceneSettings scenes={scenes} participantList={participantList} />
+      </TabsContent>
+      
       <TabsContent value="appearance">
         <AppearanceSettings 
           selectedBackgroundColor={selectedBackgroundColor}
@@ -139,6 +193,10 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
         />
       </TabsContent>
       
+      <TabsContent value="graphics">
+        <OverlaySettings overlays={overlays} />
+      </TabsContent>
+      
       <TabsContent value="qrcode">
         <QrCodeSettings 
           qrCodeGenerated={qrCodeGenerated}
@@ -154,6 +212,7 @@ const LiveControlTabs: React.FC<LiveControlTabsProps> = ({
           setFinalActionCoupon={setFinalActionCoupon}
           onGenerateQRCode={onGenerateQRCode}
           onQRCodeToTransmission={onQRCodeToTransmission}
+          onRevokeJoinLink={onRevokeJoinLink}
         />
       </TabsContent>
     </Tabs>
@@ -5,6 +5,11 @@ import FinalActionDialog from '@/components/live/FinalActionDialog';
 import { clearConnectionCache, forceRefreshConnections, getEnvironmentInfo, validateURLConsistency } from '@/utils/connectionUtils';
 import { clearDeviceCache } from '@/utils/media/deviceDetection';
 import { Room, RemoteParticipant } from 'livekit-client';
+import { useTransmissionScenes } from '@/hooks/live/useTransmissionScenes';
+import { useLowerThirds } from '@/hooks/live/useLowerThirds';
+import { useTransmissionOverlays } from '@/hooks/live/useTransmissionOverlays';
+import { useProgramRecording } from '@/hooks/live/useProgramRecording';
+import { useIsoRecording } from '@/hooks/live/useIsoRecording';
 
 interface LivePageContainerProps {
   state: any;
@@ -17,8 +22,14 @@ interface LivePageContainerProps {
   onRemoveImage: () => void;
   onGenerateQRCode: () => void;
   onQRCodeToTransmission: () => void;
+  onRevokeJoinLink: () => void;
   closeFinalAction: () => void;
   onStreamReceived: (participantId: string, stream: MediaStream) => void;
+  scenes: ReturnType<typeof useTransmissionScenes>;
+  lowerThirds: ReturnType<typeof useLowerThirds>;
+  overlays: ReturnType<typeof useTransmissionOverlays>;
+  recording: ReturnType<typeof useProgramRecording>;
+  isoRecording: ReturnType<typeof useIsoRecording>;
   livekitRoom?: Room | null;
   livekitParticipants?: RemoteParticipant[];
 }
@@ -34,8 +45,14 @@ const LivePageContainer: React.FC<LivePageContainerProps> = ({
   onRemoveImage,
   onGenerateQRCode,
   onQRCodeToTransmission,
+  onRevokeJoinLink,
   closeFinalAction,
   onStreamReceived,
+  scenes,
+  lowerThirds,
+  overlays,
+  recording,
+  isoRecording,
   livekitRoom,
   livekitParticipants = []
 }) => {
@@ -100,7 +117,13 @@ const LivePageContainer: React.FC<LivePageContainerProps> = ({
         onRemoveImage={onRemoveImage}
         onGenerateQRCode={onGenerateQRCode}
         onQRCodeToTransmission={onQRCodeToTransmission}
+        onRevokeJoinLink={onRevokeJoinLink}
         onStreamReceived={onStreamReceived}
+        scenes={scenes}
+        lowerThirds={lowerThirds}
+        overlays={overlays}
+        recording={recording}
+        isoRecording={isoRecording}
         livekitRoom={livekitRoom}
         livekitParticipants={livekitParticipants}
       />
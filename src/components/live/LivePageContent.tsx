@@ -9,6 +9,11 @@ import ConnectionDiagnostics from '@/components/live/ConnectionDiagnostics';
 import StreamDebugPanel from '@/components/live/StreamDebugPanel';
 import { Participant } from '@/components/live/ParticipantGrid';
 import { Room, RemoteParticipant } from 'livekit-client';
+import { useTransmissionScenes } from '@/hooks/live/useTransmissionScenes';
+import { useLowerThirds } from '@/hooks/live/useLowerThirds';
+import { useTransmissionOverlays } from '@/hooks/live/useTransmissionOverlays';
+import { useProgramRecording } from '@/hooks/live/useProgramRecording';
+import { useIsoRecording } from '@/hooks/live/useIsoRecording';
 
 interface LivePageContentProps {
   state: any;
@@ -21,7 +26,13 @@ interface LivePageContentProps {
   onRemoveImage: () => void;
   onGenerateQRCode: () => void;
   onQRCodeToTransmission: () => void;
+  onRevokeJoinLink: () => void;
   onStreamReceived: (participantId: string, stream: MediaStream) => void;
+  scenes: ReturnType<typeof useTransmissionScenes>;
+  lowerThirds: ReturnType<typeof useLowerThirds>;
+  overlays: ReturnType<typeof useTransmissionOverlays>;
+  recording: ReturnType<typeof useProgramRecording>;
+  isoRecording: ReturnType<typeof useIsoRecording>;
   livekitRoom?: Room | null;
   livekitParticipants?: RemoteParticipant[];
 }
@@ -37,7 +48,13 @@ const LivePageContent: React.FC<LivePageContentProps> = ({
   onRemoveImage,
   onGenerateQRCode,
   onQRCodeToTransmission,
+  onRevokeJoinLink,
   onStreamReceived,
+  scenes,
+  lowerThirds,
+  overlays,
+  recording,
+  isoRecording,
   livekitRoom,
   livekitParticipants = []
 }) => {
@@ -60,8 +77,12 @@ const LivePageContent: React.FC<LivePageContentProps> = ({
               <TransmissionControls
                 transmissionOpen={transmissionOpen}
                 sessionId={sessionId}
+                roomStatus={state.roomStatus}
+                onRetryRoom={state.retryCreateRoom}
                 onStartTransmission={onStartTransmission}
                 onFinishTransmission={onFinishTransmission}
+                recording={recording}
+                isoRecording={isoRecording}
               />
             </div>
           </CardHeader>
@@ -105,6 +126,10 @@ const LivePageContent: React.FC<LivePageContentProps> = ({
               setFinalActionCoupon={state.setFinalActionCouponCode}
               onGenerateQRCode={onGenerateQRCode}
               onQRCodeToTransmission={onQRCodeToTransmission}
+              onRevokeJoinLink={onRevokeJoinLink}
+              scenes={scenes}
+              lowerThirds={lowerThirds}
+              overlays={overlays}
             />
           </CardContent>
         </Card>
@@ -149,6 +174,10 @@ const LivePageContent: React.FC<LivePageContentProps> = ({
                 onStreamReceived={onStreamReceived}
                 livekitRoom={livekitRoom}
                 livekitParticipants={livekitParticipants}
+                recordingStatus={recording.status}
+                recordingElapsedMs={recording.elapsedMs}
+                lowerThirds={lowerThirds}
+                overlays={overlays.overlays}
               />
             </div>
           </CardContent>
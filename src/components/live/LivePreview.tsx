@@ -4,7 +4,11 @@ import { Participant } from './ParticipantGrid';
 import ParticipantPreviewGrid from './ParticipantPreviewGrid';
 import QRCodeOverlay from './QRCodeOverlay';
 import LiveIndicator from './LiveIndicator';
+import RecordingIndicator from './RecordingIndicator';
+import OverlayGraphics from './OverlayGraphics';
 import { Room, RemoteParticipant } from 'livekit-client';
+import { RecordingStatus } from '@/types/recording';
+import { LowerThirdsState, TransmissionOverlays } from '@/types/transmission';
 
 interface LivePreviewProps {
   qrCodeVisible: boolean;
@@ -25,6 +29,10 @@ interface LivePreviewProps {
   onStreamReceived: (participantId: string, stream: MediaStream) => void;
   livekitRoom?: Room | null;
   livekitParticipants?: RemoteParticipant[];
+  recordingStatus?: RecordingStatus;
+  recordingElapsedMs?: number;
+  lowerThirds?: LowerThirdsState;
+  overlays?: TransmissionOverlays;
 }
 
 const LivePreview: React.FC<LivePreviewProps> = ({
@@ -45,7 +53,11 @@ const LivePreview: React.FC<LivePreviewProps> = ({
   livekitParticipants = [],
   participantCount,
   participantStreams,
-  onStreamReceived
+  onStreamReceived,
+  recordingStatus = 'idle',
+  recordingElapsedMs = 0,
+  lowerThirds,
+  overlays
 }) => {
   return (
     <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden live-preview">
@@ -68,6 +80,7 @@ const LivePreview: React.FC<LivePreviewProps> = ({
           onStreamReceived={onStreamReceived}
           livekitRoom={livekitRoom}
           livekitParticipants={livekitParticipants}
+          lowerThirds={lowerThirds}
         />
       
       {/* QR Code and description overlays */}
@@ -83,9 +96,13 @@ const LivePreview: React.FC<LivePreviewProps> = ({
         selectedTextColor={selectedTextColor}
         qrDescriptionFontSize={qrDescriptionFontSize}
       />
+
+      {/* Ticker, textos temporizados e logo de patrocinador */}
+      {overlays && <OverlayGraphics overlays={overlays} />}
       
       {/* Live indicator */}
       <LiveIndicator />
+      <RecordingIndicator status={recordingStatus} elapsedMs={recordingElapsedMs} />
     </div>
   );
 };
@@ -0,0 +1,45 @@
+import React from 'react';
+import { LowerThirdPosition, LowerThirdTemplate } from '@/types/transmission';
+
+interface LowerThirdProps {
+  name: string;
+  template: LowerThirdTemplate;
+}
+
+const POSITION_CLASSES: Record<LowerThirdPosition, string> = {
+  bottomLeft: 'items-end justify-start',
+  bottomCenter: 'items-end justify-center',
+  topLeft: 'items-start justify-start'
+};
+
+const ANIMATION_CLASSES = {
+  none: '',
+  fade: 'animate-in fade-in duration-500',
+  slide: 'animate-in fade-in slide-in-from-left-8 duration-500'
+};
+
+// Tarja com o nome sobre o vídeo; a fonte acompanha a altura do slot (unidade cqh)
+const LowerThird: React.FC<LowerThirdProps> = ({ name, template }) => (
+  <div
+    className={`absolute inset-0 flex p-[4%] pointer-events-none z-10 ${POSITION_CLASSES[template.position]}`}
+    style={{ containerType: 'size' }}
+  >
+    <div
+      key={name}
+      className={`max-w-[90%] truncate rounded-sm ${ANIMATION_CLASSES[template.animation]}`}
+      style={{
+        fontFamily: template.font,
+        fontSize: `${template.fontSize}cqh`,
+        lineHeight: 1.2,
+        color: template.textColor,
+        backgroundColor: template.backgroundColor,
+        borderLeft: `0.3em solid ${template.accentColor}`,
+        padding: '0.25em 0.7em'
+      }}
+    >
+      {name}
+    </div>
+  </div>
+);
+
+export default LowerThird;
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTimedItem } from '@/hooks/live/useTimedItem';
+import { SponsorBugPosition, TextSlidePosition, TickerSettings, TransmissionOverlays } from '@/types/transmission';
+import {
+  OVERLAY_MARGIN_PERCENT,
+  TICKER_HEIGHT_PERCENT,
+  getTickerDurationMs,
+  getTickerText
+} from '@/utils/transmissionOverlays';
+
+interface OverlayGraphicsProps {
+  overlays: TransmissionOverlays;
+}
+
+const Ticker: React.FC<{ ticker: TickerSettings }> = ({ ticker }) => {
+  const bandRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLSpanElement>(null);
+  const [durationMs, setDurationMs] = useState(0);
+  const text = getTickerText(ticker.items);
+
+  // A duração depende da largura do texto e da faixa (o preview muda de tamanho com a página)
+  useEffect(() => {
+    const band = bandRef.current;
+    if (!band) return;
+
+    const measure = () => setDurationMs(getTickerDurationMs(band.clientWidth, textRef.current?.offsetWidth ?? 0, ticker.speed));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(band);
+    return () => observer.disconnect();
+  }, [text, ticker.speed, ticker.font]);
+
+  return (
+    <div
+      ref={bandRef}
+      className="absolute inset-x-0 bottom-0 overflow-hidden"
+      style={{ height: `${TICKER_HEIGHT_PERCENT}%`, backgroundColor: ticker.backgroundColor, containerType: 'size' }}
+    >
+      <span
+        key={text}
+        ref={textRef}
+        className="absolute left-full top-0 h-full flex items-center whitespace-nowrap animate-ticker-scroll"
+        style={{
+          fontFamily: ticker.font,
+          color: ticker.textColor,
+          fontSize: '60cqh',
+          animationDuration: `${durationMs}ms`,
+          animationPlayState: durationMs > 0 ? 'running' : 'paused'
+        }}
+      >
+        {text}
+      </span>
+    </div>
+  );
+};
+
+const slidePositionStyle = (position: TextSlidePosition, tickerVisible: boolean): React.CSSProperties => {
+  if (position === 'top') return { top: `${OVERLAY_MARGIN_PERCENT}%` };
+  if (position === 'center') return { top: '50%', transform: 'translateY(-50%)' };
+  return { bottom: `${OVERLAY_MARGIN_PERCENT + (tickerVisible ? TICKER_HEIGHT_PERCENT : 0)}%` };
+};
+
+const sponsorPositionStyle = (position: SponsorBugPosition, tickerVisible: boolean): React.CSSProperties => {
+  const vertical = position.startsWith('top')
+    ? { top: `${OVERLAY_MARGIN_PERCENT}%` }
+    : { bottom: `${OVERLAY_MARGIN_PERCENT + (tickerVisible ? TICKER_HEIGHT_PERCENT : 0)}%` };
+  const horizontal = position.endsWith('Right') ? { right: `${OVERLAY_MARGIN_PERCENT}%` } : { left: `${OVERLAY_MARGIN_PERCENT}%` };
+  return { ...vertical, ...horizontal };
+};
+
+// Ticker, texto temporizado e logo de patrocinador, com as mesmas proporções da janela de transmissão
+const OverlayGraphics: React.FC<OverlayGraphicsProps> = ({ overlays }) => {
+  const { ticker, slides, sponsors } = overlays;
+  const currentSlide = useTimedItem(slides.slides, overlays.slidesStartedAt, slides.loop);
+  const currentLogo = useTimedItem(sponsors.logos, sponsors.enabled ? overlays.sponsorsStartedAt : null, true);
+  const tickerVisible = ticker.enabled && Boolean(getTickerText(ticker.items));
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none z-20" style={{ containerType: 'size' }}>
+      {currentSlide && currentSlide.item.text.trim() && (
+        <div className="absolute inset-x-0 flex justify-center" style={slidePositionStyle(slides.position, tickerVisible)}>
+          <div
+            key={`${currentSlide.item.id}-${currentSlide.index}`}
+            className="max-w-[80%] rounded-md text-center whitespace-pre-line animate-in fade-in duration-500"
+            style={{
+              fontFamily: slides.font,
+              fontSize: `${slides.fontSize}cqh`,
+              lineHeight: 1.25,
+              color: slides.textColor,
+              backgroundColor: slides.backgroundColor,
+              padding: '0.4em 0.9em'
+            }}
+          >
+            {currentSlide.item.text}
+          </div>
+        </div>
+      )}
+
+      {currentLogo && (
+        <img
+          key={currentLogo.item.id}
+          src={currentLogo.item.image}
+          alt={currentLogo.item.name}
+          className="absolute w-auto object-contain animate-in fade-in duration-500"
+          style={{ ...sponsorPositionStyle(sponsors.position, tickerVisible), height: `${sponsors.size}%`, opacity: sponsors.opacity }}
+        />
+      )}
+
+      {tickerVisible && <Ticker ticker={ticker} />}
+    </div>
+  );
+};
+
+export default OverlayGraphics;
@@ -0,0 +1,359 @@
+import React, { useRef } from 'react';
+import { ArrowDown, ArrowUp, ImagePlus, Minus, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTransmissionOverlays } from '@/hooks/live/useTransmissionOverlays';
+import { useTimedItem } from '@/hooks/live/useTimedItem';
+import { SponsorBugPosition, TextSlidePosition, TickerSpeed } from '@/types/transmission';
+import { FONT_OPTIONS } from '@/utils/transmissionAppearance';
+import {
+  OVERLAY_DURATION_RANGE,
+  SLIDE_FONT_SIZE_RANGE,
+  SPONSOR_POSITION_LABELS,
+  SPONSOR_SIZE_RANGE,
+  TEXT_SLIDE_POSITION_LABELS,
+  TICKER_SPEED_LABELS
+} from '@/utils/transmissionOverlays';
+
+interface OverlaySettingsProps {
+  overlays: ReturnType<typeof useTransmissionOverlays>;
+}
+
+const FontSelect = ({ value, onChange }: { value: string; onChange: (font: string) => void }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="hutz-input">
+      <SelectValue placeholder="Selecione a fonte" />
+    </SelectTrigger>
+    <SelectContent>
+      {FONT_OPTIONS.map((font) => (
+        <SelectItem key={font.value} value={font.value}>
+          <span style={{ fontFamily: font.value }}>{font.name}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const ColorInput = ({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (color: string) => void }) => (
+  <div>
+    <Label htmlFor={id} className="mb-2 block">{label}</Label>
+    <Input
+      id={id}
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="hutz-input h-10 p-1"
+    />
+  </div>
+);
+
+const OverlaySettings: React.FC<OverlaySettingsProps> = ({ overlays }) => {
+  const {
+    overlays: { ticker, slides, sponsors, slidesStartedAt, sponsorsStartedAt },
+    updateTicker,
+    updateSlides,
+    addSlide,
+    updateSlide,
+    removeSlide,
+    moveSlide,
+    startSlides,
+    stopSlides,
+    updateSponsors,
+    addSponsorLogos,
+    updateSponsorLogo,
+    removeSponsorLogo
+  } = overlays;
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const currentSlide = useTimedItem(slides.slides, slidesStartedAt, slides.loop);
+  const currentLogo = useTimedItem(sponsors.logos, sponsors.enabled ? sponsorsStartedAt : null, true);
+
+  const handleLogoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files?.length) {
+      addSponsorLogos(event.target.files);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Ticker de notícias na base do telão */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="ticker-enabled"
+            checked={ticker.enabled}
+            onCheckedChange={(enabled) => updateTicker({ enabled })}
+          />
+          <Label htmlFor="ticker-enabled">Ticker de notícias</Label>
+        </div>
+
+        {ticker.enabled && (
+          <>
+            <div>
+              <Label htmlFor="ticker-items" className="mb-2 block">Notícias (uma por linha)</Label>
+              <Textarea
+                id="ticker-items"
+                placeholder="Bem-vindos ao evento!"
+                value={ticker.items.join('\n')}
+                onChange={(e) => updateTicker({ items: e.target.value.split('\n') })}
+                className="hutz-input"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="mb-2 block">Velocidade</Label>
+                <Select value={ticker.speed} onValueChange={(speed) => updateTicker({ speed: speed as TickerSpeed })}>
+                  <SelectTrigger className="hutz-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TICKER_SPEED_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Fonte</Label>
+                <FontSelect value={ticker.font} onChange={(font) => updateTicker({ font })} />
+              </div>
+              <ColorInput id="ticker-text-color" label="Texto" value={ticker.textColor} onChange={(textColor) => updateTicker({ textColor })} />
+              <ColorInput id="ticker-background-color" label="Fundo" value={ticker.backgroundColor} onChange={(backgroundColor) => updateTicker({ backgroundColor })} />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Textos exibidos em sequência, cada um pelo seu tempo */}
+      <div className="space-y-4 border-t border-white/10 pt-6">
+        <div className="flex justify-between items-center">
+          <Label>Textos temporizados</Label>
+          {slidesStartedAt === null ? (
+            <Button size="sm" className="hutz-button-accent" onClick={startSlides} disabled={!slides.slides.some(slide => slide.text.trim())}>
+              <Play className="h-4 w-4 mr-2" />
+              Iniciar
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={stopSlides}>
+              <Square className="h-4 w-4 mr-2" />
+              Parar
+            </Button>
+          )}
+        </div>
+
+        {slidesStartedAt !== null && (
+          <p className="text-xs text-muted-foreground">
+            {currentSlide ? `No ar: texto ${currentSlide.index + 1} de ${slides.slides.length}` : 'Sequência encerrada'}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {slides.slides.map((slide, index) => (
+            <div
+              key={slide.id}
+              className={`flex gap-2 items-start rounded-md p-2 ${currentSlide?.item.id === slide.id ? 'bg-accent/20' : 'bg-secondary/40'}`}
+            >
+              <Textarea
+                value={slide.text}
+                placeholder="Texto exibido no telão"
+                onChange={(e) => updateSlide(slide.id, { text: e.target.value })}
+                className="hutz-input min-h-[60px] flex-1"
+              />
+              <div className="flex flex-col gap-1 w-20">
+                <Input
+                  type="number"
+                  min={OVERLAY_DURATION_RANGE.min}
+                  max={OVERLAY_DURATION_RANGE.max}
+                  value={slide.durationSec}
+                  onChange={(e) => updateSlide(slide.id, { durationSec: Number(e.target.value) })}
+                  className="hutz-input h-8"
+                  title="Duração em segundos"
+                />
+                <div className="flex">
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveSlide(slide.id, -1)} disabled={index === 0} title="Subir">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveSlide(slide.id, 1)} disabled={index === slides.slides.length - 1} title="Descer">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => removeSlide(slide.id)} title="Remover">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" className="w-full border-white/20" onClick={addSlide}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar texto
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="slides-loop"
+            checked={slides.loop}
+            onCheckedChange={(loop) => updateSlides({ loop })}
+          />
+          <Label htmlFor="slides-loop">Repetir sequência</Label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="mb-2 block">Posição</Label>
+            <Select value={slides.position} onValueChange={(position) => updateSlides({ position: position as TextSlidePosition })}>
+              <SelectTrigger className="hutz-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TEXT_SLIDE_POSITION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Fonte</Label>
+            <FontSelect value={slides.font} onChange={(font) => updateSlides({ font })} />
+          </div>
+          <div>
+            <Label className="mb-2 block">Tamanho</Label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => updateSlides({ fontSize: slides.fontSize - 1 })}
+                disabled={slides.fontSize <= SLIDE_FONT_SIZE_RANGE.min}
+                className="border-white/20"
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="text-sm px-2">{slides.fontSize}%</span>
+              <Button
+                variant="outline"
+                onClick={() => updateSlides({ fontSize: slides.fontSize + 1 })}
+                disabled={slides.fontSize >= SLIDE_FONT_SIZE_RANGE.max}
+                className="border-white/20"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <ColorInput id="slides-text-color" label="Texto" value={slides.textColor} onChange={(textColor) => updateSlides({ textColor })} />
+            <ColorInput id="slides-background-color" label="Fundo" value={slides.backgroundColor} onChange={(backgroundColor) => updateSlides({ backgroundColor })} />
+          </div>
+        </div>
+      </div>
+
+      {/* Logo de patrocinador em rodízio */}
+      <div className="space-y-4 border-t border-white/10 pt-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="sponsors-enabled"
+              checked={sponsors.enabled}
+              onCheckedChange={(enabled) => updateSponsors({ enabled })}
+            />
+            <Label htmlFor="sponsors-enabled">Logos de patrocinadores</Label>
+          </div>
+          <Button variant="outline" size="sm" className="border-white/20" onClick={() => logoInputRef.current?.click()}>
+            <ImagePlus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+          <input
+            ref={logoInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={handleLogoSelect}
+          />
+        </div>
+
+        <div className="space-y-2">
+          {sponsors.logos.map(logo => (
+            <div
+              key={logo.id}
+              className={`flex gap-2 items-center rounded-md p-2 ${currentLogo?.item.id === logo.id ? 'bg-accent/20' : 'bg-secondary/40'}`}
+            >
+              <img src={logo.image} alt={logo.name} className="h-10 w-16 object-contain" />
+              <span className="flex-1 text-sm truncate">{logo.name}</span>
+              <Input
+                type="number"
+                min={OVERLAY_DURATION_RANGE.min}
+                max={OVERLAY_DURATION_RANGE.max}
+                value={logo.durationSec}
+                onChange={(e) => updateSponsorLogo(logo.id, { durationSec: Number(e.target.value) })}
+                className="hutz-input h-8 w-20"
+                title="Duração em segundos"
+              />
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeSponsorLogo(logo.id)} title="Remover">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {sponsors.logos.length === 0 && (
+            <p className="text-xs text-muted-foreground">Nenhum logo adicionado.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="mb-2 block">Posição</Label>
+            <Select value={sponsors.position} onValueChange={(position) => updateSponsors({ position: position as SponsorBugPosition })}>
+              <SelectTrigger className="hutz-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SPONSOR_POSITION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Tamanho</Label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => updateSponsors({ size: sponsors.size - 2 })}
+                disabled={sponsors.size <= SPONSOR_SIZE_RANGE.min}
+                className="border-white/20"
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="text-sm px-2">{sponsors.size}%</span>
+              <Button
+                variant="outline"
+                onClick={() => updateSponsors({ size: sponsors.size + 2 })}
+                disabled={sponsors.size >= SPONSOR_SIZE_RANGE.max}
+                className="border-white/20"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Opacidade ({Math.round(sponsors.opacity * 100)}%)</Label>
+          <Slider
+            value={[sponsors.opacity * 100]}
+            min={10}
+            max={100}
+            step={5}
+            onValueChange={(value) => updateSponsors({ opacity: value[0] / 100 })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OverlaySettings;
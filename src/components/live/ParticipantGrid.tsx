@@ -1,11 +1,16 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/use-toast";
 import { 
   User, Video, VideoOff, Crown, Shield, 
   Check, Ban, UserX, MoreVertical, X,
-  Eye, EyeOff, Share, AlertTriangle, RefreshCcw
+  Eye, EyeOff, Share, AlertTriangle, RefreshCcw,
+  Clock, Smartphone, Monitor, UserCheck, LogOut, SwitchCamera,
+  Pencil, Tag
 } from 'lucide-react';
 import { 
   DropdownMenu,
@@ -15,6 +20,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { updateParticipantStatus } from '@/utils/sessionUtils';
+import { MAX_DISPLAY_NAME_LENGTH, getParticipantDisplayName } from '@/utils/lowerThirds';
+import type { LobbyParticipant, ModerationAction } from '@/services/UnifiedWebSocketService';
 
 export interface Participant {
   id: string;
@@ -28,6 +35,10 @@ export interface Participant {
   isAdmin?: boolean;
   browserType?: string;
   isMobile?: boolean;
+  // Tarja com nome no telão: nome digitado pelo participante, nome definido pelo host e opção de ocultar
+  displayName?: string;
+  nameOverride?: string;
+  lowerThirdHidden?: boolean;
 }
 
 interface ParticipantGridProps {
@@ -39,6 +50,17 @@ interface ParticipantGridProps {
   onToggleAdminStatus?: (participantId: string) => void;
   onToggleGrantAdminVisibility?: (participantId: string) => void;
   showAdminControls?: boolean;
+  onModerateParticipant?: (participantId: string, action: ModerationAction, facingMode?: 'user' | 'environment') => void;
+  // Sala de espera (exibida quando onToggleLobby é informado)
+  lobbyEnabled?: boolean;
+  waitingParticipants?: LobbyParticipant[];
+  onToggleLobby?: (enabled: boolean) => void;
+  onAdmitParticipant?: (participantId: string) => void;
+  onDenyParticipant?: (participantId: string) => void;
+  onAdmitAllParticipants?: () => void;
+  // Tarja com nome no telão
+  onRenameParticipant?: (participantId: string, name: string) => void;
+  onToggleLowerThird?: (participantId: string) => void;
 }
 
 const ParticipantGrid: React.FC<ParticipantGridProps> = ({
@@ -50,8 +72,24 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
   onToggleAdminStatus,
   onToggleGrantAdminVisibility,
   showAdminControls = false,
+  onModerateParticipant,
+  lobbyEnabled = false,
+  waitingParticipants = [],
+  onToggleLobby,
+  onAdmitParticipant,
+  onDenyParticipant,
+  onAdmitAllParticipants,
+  onRenameParticipant,
+  onToggleLowerThird,
 }) => {
   const { toast } = useToast();
+  const [editingName, setEditingName] = useState<{ participantId: string; value: string } | null>(null);
+
+  const submitEditingName = () => {
+    if (!editingName) return;
+    onRenameParticipant?.(editingName.participantId, editingName.value);
+    setEditingName(null);
+  };
 
   // FASE 2: Log detalhado de renderização
   console.log('🎬 PARTICIPANT GRID: Rendering', {
@@ -958,9 +996,28 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
           {/* Participant info and controls - explicitly show selection is manual */}
           <div className="flex items-center justify-between mt-auto">
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium truncate">{participant.name || 'Participante'}</p>
+              {editingName?.participantId === participant.id ? (
+                <Input
+                  autoFocus
+                  value={editingName.value}
+                  maxLength={MAX_DISPLAY_NAME_LENGTH}
+                  placeholder={participant.displayName || 'Nome do participante'}
+                  onChange={(e) => setEditingName({ participantId: participant.id, value: e.target.value })}
+                  onBlur={submitEditingName}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitEditingName();
+                    if (e.key === 'Escape') setEditingName(null);
+                  }}
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <p className="text-sm font-medium truncate" title={participant.nameOverride ? `Nome definido pelo host (digitado: ${participant.displayName || '—'})` : undefined}>
+                  {getParticipantDisplayName(participant) || 'Participante'}
+                </p>
+              )}
               <p className="text-xs text-muted-foreground">
                 {isActive ? 'Ativo' : `Inativo (${lastActiveDuration})`}
+                {onToggleLowerThird && participant.lowerThirdHidden && ' · sem tarja'}
               </p>
             </div>
             
@@ -985,7 +1042,7 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
                 <RefreshCcw className="h-4 w-4" />
               </Button>
               
-              {showAdminControls && (
+              {(showAdminControls || onModerateParticipant || onRenameParticipant) && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -996,22 +1053,25 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
                       <MoreVertical className="h-4 w-4" />
                     </Button>
                   </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => onToggleAdminStatus(participant.id)}>
-                      {participant.isAdmin ? (
-                        <>
-                          <Shield className="mr-2 h-4 w-4 text-destructive" />
-                          <span>Remover admin</span>
-                        </>
-                      ) : (
-                        <>
-                          <Crown className="mr-2 h-4 w-4 text-yellow-500" />
-                          <span>Tornar admin</span>
-                        </>
-                      )}
-                    </DropdownMenuItem>
+                  {/* Sem devolver o foco ao botão: o campo de edição do nome recebe o foco */}
+                  <DropdownMenuContent align="end" onCloseAutoFocus={(e) => e.preventDefault()}>
+                    {showAdminControls && onToggleAdminStatus && (
+                      <DropdownMenuItem onClick={() => onToggleAdminStatus(participant.id)}>
+                        {participant.isAdmin ? (
+                          <>
+                            <Shield className="mr-2 h-4 w-4 text-destructive" />
+                            <span>Remover admin</span>
+                          </>
+                        ) : (
+                          <>
+                            <Crown className="mr-2 h-4 w-4 text-yellow-500" />
+                            <span>Tornar admin</span>
+                          </>
+                        )}
+                      </DropdownMenuItem>
+                    )}
                     
-                    {onToggleGrantAdminVisibility && (
+                    {showAdminControls && onToggleGrantAdminVisibility && (
                       <DropdownMenuItem onClick={() => onToggleGrantAdminVisibility(participant.id)}>
                         {participant.selected ? (
                           <>
@@ -1026,14 +1086,55 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
                         )}
                       </DropdownMenuItem>
                     )}
+
+                    {onRenameParticipant && (
+                      <DropdownMenuItem onClick={() => setEditingName({ participantId: participant.id, value: participant.nameOverride || '' })}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        <span>Editar nome na tela</span>
+                      </DropdownMenuItem>
+                    )}
+
+                    {onToggleLowerThird && (
+                      <DropdownMenuItem onClick={() => onToggleLowerThird(participant.id)}>
+                        <Tag className="mr-2 h-4 w-4" />
+                        <span>{participant.lowerThirdHidden ? 'Mostrar nome na tela' : 'Ocultar nome na tela'}</span>
+                      </DropdownMenuItem>
+                    )}
+
+                    {onModerateParticipant && (
+                      <>
+                        <DropdownMenuItem onClick={() => onModerateParticipant(participant.id, 'video-off')}>
+                          <VideoOff className="mr-2 h-4 w-4" />
+                          <span>Desligar câmera</span>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onModerateParticipant(participant.id, 'switch-camera', 'environment')}>
+                          <SwitchCamera className="mr-2 h-4 w-4" />
+                          <span>Usar câmera traseira</span>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onModerateParticipant(participant.id, 'switch-camera', 'user')}>
+                          <SwitchCamera className="mr-2 h-4 w-4" />
+                          <span>Usar câmera frontal</span>
+                        </DropdownMenuItem>
+                      </>
+                    )}
                     
                     <DropdownMenuSeparator />
+
+                    {onModerateParticipant && (
+                      <DropdownMenuItem 
+                        className="text-destructive"
+                        onClick={() => onModerateParticipant(participant.id, 'ban')}
+                      >
+                        <UserX className="mr-2 h-4 w-4" />
+                        <span>Banir da sala</span>
+                      </DropdownMenuItem>
+                    )}
                     
                     <DropdownMenuItem 
                       className="text-destructive"
                       onClick={() => onRemoveParticipant(participant.id)}
                     >
-                      <Ban className="mr-2 h-4 w-4" />
+                      <LogOut className="mr-2 h-4 w-4" />
                       <span>Remover participante</span>
                     </DropdownMenuItem>
                   </DropdownMenuContent>
@@ -1060,6 +1161,62 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
     );
   };
 
+  const renderWaitingRoom = () => (
+    <div className="p-4 bg-secondary/20 rounded-lg border border-white/10 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="lobby-mode"
+            checked={lobbyEnabled}
+            onCheckedChange={onToggleLobby}
+          />
+          <Label htmlFor="lobby-mode">Sala de espera</Label>
+        </div>
+        {waitingParticipants.length > 1 && (
+          <Button size="sm" onClick={onAdmitAllParticipants}>
+            <UserCheck className="h-4 w-4 mr-2" />
+            Admitir todos ({waitingParticipants.length})
+          </Button>
+        )}
+      </div>
+
+      {lobbyEnabled && waitingParticipants.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Novos participantes aguardarão sua aprovação antes de entrar.
+        </p>
+      )}
+
+      {waitingParticipants.map(waiting => (
+        <div
+          key={waiting.participantId}
+          className="flex items-center justify-between gap-3 p-2 bg-background/40 rounded-md"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Clock className="h-4 w-4 text-yellow-500 shrink-0" />
+            <span className="text-sm font-medium truncate" title={waiting.participantId}>
+              {waiting.name || 'Sem nome'}
+            </span>
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              {waiting.isMobile ? <Smartphone className="h-3 w-3" /> : <Monitor className="h-3 w-3" />}
+              {waiting.browserType !== 'unknown' ? waiting.browserType : (waiting.isMobile ? 'mobile' : 'desktop')}
+            </span>
+            <span className="text-xs text-muted-foreground">{formatTimeSince(waiting.requestedAt)}</span>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button size="sm" variant="outline" onClick={() => onAdmitParticipant?.(waiting.participantId)}>
+              <Check className="h-4 w-4 mr-1" />
+              Admitir
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => onDenyParticipant?.(waiting.participantId)}>
+              <Ban className="h-4 w-4 mr-1" />
+              Recusar
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
   // Log grid render
   const totalShown = participants.length;
   const streamsCount = Object.keys(participantStreams).length;
@@ -1079,6 +1236,8 @@ const ParticipantGrid: React.FC<ParticipantGridProps> = ({
           {showDiagnostics ? 'Ocultar' : 'Mostrar'} diagnósticos
         </Button>
       </div>
+
+      {onToggleLobby && renderWaitingRoom()}
       
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {participants.length > 0 ? (
@@ -2,6 +2,8 @@
 import React, { useEffect, useState } from 'react';
 import { Participant } from './ParticipantGrid';
 import VideoContainer from './VideoContainer';
+import LowerThird from './LowerThird';
+import { LowerThirdsState } from '@/types/transmission';
 import { Room, RemoteParticipant, Track } from 'livekit-client';
 import { VideoTrack } from '@livekit/components-react';
 
@@ -12,6 +14,7 @@ interface ParticipantPreviewGridProps {
   onStreamReceived: (participantId: string, stream: MediaStream) => void;
   livekitRoom?: Room | null;
   livekitParticipants?: RemoteParticipant[];
+  lowerThirds?: LowerThirdsState;
 }
 
 const ParticipantPreviewGrid: React.FC<ParticipantPreviewGridProps> = ({
@@ -20,7 +23,8 @@ const ParticipantPreviewGrid: React.FC<ParticipantPreviewGridProps> = ({
   participantStreams,
   onStreamReceived,
   livekitRoom,
-  livekitParticipants = []
+  livekitParticipants = [],
+  lowerThirds
 }) => {
   // FASE 3: CONTAINER PRE-CREATION - Estado para slots P1-P4
   const [slots, setSlots] = useState<Participant[]>([]);
@@ -103,6 +107,12 @@ const ParticipantPreviewGrid: React.FC<ParticipantPreviewGridProps> = ({
 
   const allParticipants = finalSlots.slice(0, participantCount);
 
+  // Tarja do participante (slots vazios e nomes ocultos não têm)
+  const renderLowerThird = (participantId: string) => {
+    const name = lowerThirds?.enabled ? lowerThirds.names[participantId] : undefined;
+    return name && lowerThirds ? <LowerThird name={name} template={lowerThirds.template} /> : null;
+  };
+
   // Grid layout based on participant count
   const getGridClass = (count: number) => {
     if (count <= 1) return 'grid-cols-1';
@@ -147,10 +157,12 @@ const ParticipantPreviewGrid: React.FC<ParticipantPreviewGridProps> = ({
                   </div>
                 )}
                 
-                {/* Nome do participante */}
-                <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-sm">
-                  {participant.identity}
-                </div>
+                {/* Nome do participante: tarja quando houver, senão a identidade do LiveKit */}
+                {renderLowerThird(participant.identity) || (
+                  <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-sm">
+                    {participant.identity}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -173,12 +185,14 @@ const ParticipantPreviewGrid: React.FC<ParticipantPreviewGridProps> = ({
     <div className="absolute inset-0 p-4">
       <div className={`grid ${getGridClass(participantCount)} gap-2 h-full`}>
         {allParticipants.map((participant, index) => (
-          <VideoContainer
-            key={participant.id}
-            participant={participant}
-            index={index}
-            stream={participantStreams[participant.id] || null}
-          />
+          <div key={participant.id} className="relative w-full h-full">
+            <VideoContainer
+              participant={participant}
+              index={index}
+              stream={participantStreams[participant.id] || null}
+            />
+            {renderLowerThird(participant.id)}
+          </div>
         ))}
       </div>
     </div>
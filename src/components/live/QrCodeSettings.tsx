@@ -1,4 +1,4 @@
-import { QrCode, ExternalLink, Check, Copy } from 'lucide-react';
+import { QrCode, ExternalLink, Check, Copy, Ban } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -19,6 +19,7 @@ interface QrCodeSettingsProps {
   setFinalActionCoupon: (code: string) => void;
   onGenerateQRCode: () => void;
   onQRCodeToTransmission: () => void;
+  onRevokeJoinLink: () => void;
 }
 
 const QrCodeSettings = ({
@@ -34,7 +35,8 @@ const QrCodeSettings = ({
   finalActionCoupon,
   setFinalActionCoupon,
   onGenerateQRCode,
-  onQRCodeToTransmission
+  onQRCodeToTransmission,
+  onRevokeJoinLink
 }: QrCodeSettingsProps) => {
   const { toast } = useToast();
 
@@ -134,6 +136,17 @@ const QrCodeSettings = ({
               </>
             )}
           </Button>
+
+          <Button
+            variant="outline"
+            onClick={onRevokeJoinLink}
+            disabled={!qrCodeGenerated}
+            className="border-white/20"
+            title="Invalida o link atual e gera um novo QR Code"
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            Revogar link
+          </Button>
         </div>
         
         {qrCodeGenerated && (
@@ -0,0 +1,22 @@
+
+import React from 'react';
+import { RecordingStatus } from '@/types/recording';
+import { formatRecordingDuration } from '@/utils/mediaRecording';
+
+interface RecordingIndicatorProps {
+  status: RecordingStatus;
+  elapsedMs: number;
+}
+
+const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ status, elapsedMs }) => {
+  if (status === 'idle') return null;
+
+  return (
+    <div className="absolute top-10 right-2 bg-black/50 text-white text-xs px-2 py-1 rounded flex items-center z-30">
+      <div className={`w-2 h-2 rounded-full mr-1 ${status === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-yellow-400'}`}></div>
+      {status === 'saving' ? 'SALVANDO' : `REC ${formatRecordingDuration(elapsedMs)}`}
+    </div>
+  );
+};
+
+export default RecordingIndicator;
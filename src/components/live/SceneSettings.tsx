@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Participant } from './ParticipantGrid';
+import { useTransmissionScenes } from '@/hooks/live/useTransmissionScenes';
+import { SceneSlot, SceneTransition } from '@/types/transmission';
+import { SCENE_KIND_LABELS, SCENE_TRANSITION_LABELS } from '@/utils/transmissionScenes';
+import { getParticipantDisplayName } from '@/utils/lowerThirds';
+
+interface SceneSettingsProps {
+  scenes: ReturnType<typeof useTransmissionScenes>;
+  participantList: Participant[];
+}
+
+const AUTO_PARTICIPANT = 'auto';
+const SLOT_FIELDS: Array<{ key: keyof SceneSlot; label: string }> = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'Largura' },
+  { key: 'height', label: 'Altura' }
+];
+
+const slotLabel = (kind: string, index: number) => {
+  if (kind === 'grid') return 'Área da grade';
+  if (kind === 'qrOnly') return 'QR Code';
+  if (kind === 'pip') return index === 0 ? 'Principal' : 'Janela menor';
+  return `Participante ${index + 1}`;
+};
+
+const SceneSettings = ({ scenes, participantList }: SceneSettingsProps) => {
+  const {
+    scenes: sceneList,
+    activeSceneId,
+    layout,
+    transition,
+    transitionMs,
+    assignments,
+    switchScene,
+    updateSlot,
+    resetScene,
+    assignParticipant,
+    setTransition,
+    setTransitionMs
+  } = scenes;
+  const [editingSceneId, setEditingSceneId] = useState(activeSceneId);
+  const editingScene = sceneList.find(scene => scene.id === editingSceneId) || sceneList[0];
+  const selectedParticipants = participantList.filter(participant => participant.selected && participant.active);
+  const hasParticipantSlots = editingScene.kind === 'spotlight' || editingScene.kind === 'twoUp' || editingScene.kind === 'pip';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label className="mb-2 block">Cena no telão</Label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {sceneList.map(scene => (
+            <Button
+              key={scene.id}
+              variant={scene.id === activeSceneId ? "default" : "outline"}
+              onClick={() => {
+                switchScene(scene.id);
+                setEditingSceneId(scene.id);
+              }}
+            >
+              {scene.name}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          {layout.tiles.filter(tile => tile.participantId).length} participante(s) em cena
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="mb-2 block">Transição</Label>
+          <Select value={transition} onValueChange={(value) => setTransition(value as SceneTransition)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCENE_TRANSITION_LABELS) as SceneTransition[]).map(key => (
+                <SelectItem key={key} value={key}>{SCENE_TRANSITION_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="mb-2 block">Duração (ms)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={3000}
+            step={100}
+            value={transitionMs}
+            disabled={transition === 'cut'}
+            onChange={(e) => setTransitionMs(Math.min(3000, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Label>Editar posições: {editingScene.name} ({SCENE_KIND_LABELS[editingScene.kind]})</Label>
+          <Button size="sm" variant="ghost" onClick={() => resetScene(editingScene.id)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar
+          </Button>
+        </div>
+
+        {/* Miniatura 16:9 com os slots da cena em edição */}
+        <div className="relative w-full aspect-video rounded-md bg-black/60 border border-white/10 overflow-hidden">
+          {editingScene.slots.map((slot, index) => (
+            <div
+              key={index}
+              className="absolute border-2 border-primary/80 bg-primary/20 text-[10px] text-white flex items-center justify-center"
+              style={{ left: `${slot.x}%`, top: `${slot.y}%`, width: `${slot.width}%`, height: `${slot.height}%`, zIndex: index + 1 }}
+            >
+              {slotLabel(editingScene.kind, index)}
+            </div>
+          ))}
+        </div>
+
+        {editingScene.slots.map((slot, index) => (
+          <div key={index} className="space-y-2 rounded-md bg-white/5 p-3">
+            <p className="text-sm font-medium">{slotLabel(editingScene.kind, index)}</p>
+            <div className="grid grid-cols-4 gap-2">
+              {SLOT_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs">{label} (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(slot[key] * 10) / 10}
+                    onChange={(e) => updateSlot(editingScene.id, index, { [key]: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              ))}
+            </div>
+            {hasParticipantSlots && (
+              <Select
+                value={assignments[editingScene.id]?.[index] || AUTO_PARTICIPANT}
+                onValueChange={(value) => assignParticipant(editingScene.id, index, value === AUTO_PARTICIPANT ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_PARTICIPANT}>Automático (ordem da lista)</SelectItem>
+                  {selectedParticipants.map(participant => (
+                    <SelectItem key={participant.id} value={participant.id}>{getParticipantDisplayName(participant) || participant.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SceneSettings;
@@ -1,8 +1,18 @@
-import { Minus, Plus } from 'lucide-react';
+import { Minus, Plus, RotateCcw } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LowerThird from './LowerThird';
+import { useLowerThirds } from '@/hooks/live/useLowerThirds';
+import { LowerThirdAnimation, LowerThirdPosition } from '@/types/transmission';
+import { FONT_OPTIONS } from '@/utils/transmissionAppearance';
+import {
+  LOWER_THIRD_ANIMATION_LABELS,
+  LOWER_THIRD_FONT_SIZE_RANGE,
+  LOWER_THIRD_POSITION_LABELS
+} from '@/utils/lowerThirds';
 
 interface TextSettingsProps {
   participantCount: number;
@@ -15,6 +25,7 @@ interface TextSettingsProps {
   setSelectedTextColor: (color: string) => void;
   qrDescriptionFontSize: number;
   setQrDescriptionFontSize: (size: number) => void;
+  lowerThirds: ReturnType<typeof useLowerThirds>;
 }
 
 const TextSettings = ({
@@ -27,40 +38,10 @@ const TextSettings = ({
   selectedTextColor,
   setSelectedTextColor,
   qrDescriptionFontSize,
-  setQrDescriptionFontSize
+  setQrDescriptionFontSize,
+  lowerThirds
 }: TextSettingsProps) => {
-  const fontOptions = [
-    { name: 'Sans-serif', value: 'sans-serif' },
-    { name: 'Serif', value: 'serif' },
-    { name: 'Monospace', value: 'monospace' },
-    { name: 'Cursive', value: 'cursive' },
-    { name: 'Fantasy', value: 'fantasy' },
-    { name: 'Arial', value: 'Arial, sans-serif' },
-    { name: 'Verdana', value: 'Verdana, sans-serif' },
-    { name: 'Tahoma', value: 'Tahoma, sans-serif' },
-    { name: 'Trebuchet MS', value: 'Trebuchet MS, sans-serif' },
-    { name: 'Georgia', value: 'Georgia, serif' },
-    { name: 'Garamond', value: 'Garamond, serif' },
-    { name: 'Courier New', value: 'Courier New, monospace' },
-    { name: 'Brush Script MT', value: 'Brush Script MT, cursive' },
-    { name: 'Comic Sans MS', value: 'Comic Sans MS, cursive' },
-    { name: 'Impact', value: 'Impact, fantasy' },
-    { name: 'Lucida Handwriting', value: 'Lucida Handwriting, cursive' },
-    { name: 'Lucida Console', value: 'Lucida Console, monospace' },
-    { name: 'Palatino', value: 'Palatino, serif' },
-    { name: 'Book Antiqua', value: 'Book Antiqua, serif' },
-    { name: 'Helvetica', value: 'Helvetica, sans-serif' },
-    { name: 'Times New Roman', value: 'Times New Roman, serif' },
-    { name: 'Arial Black', value: 'Arial Black, sans-serif' },
-    { name: 'Copperplate', value: 'Copperplate, fantasy' },
-    { name: 'Papyrus', value: 'Papyrus, fantasy' },
-    { name: 'Rockwell', value: 'Rockwell, serif' },
-    { name: 'Century Gothic', value: 'Century Gothic, sans-serif' },
-    { name: 'Calibri', value: 'Calibri, sans-serif' },
-    { name: 'Cambria', value: 'Cambria, serif' },
-    { name: 'Consolas', value: 'Consolas, monospace' },
-    { name: 'Franklin Gothic', value: 'Franklin Gothic, sans-serif' }
-  ];
+  const { enabled: lowerThirdsEnabled, template, setEnabled: setLowerThirdsEnabled, updateTemplate, resetTemplate } = lowerThirds;
 
   const textColors = [
     '#FFFFFF', '#F8FAFC', '#F1F5F9', '#E2E8F0', '#CBD5E1', 
@@ -121,7 +102,7 @@ const TextSettings = ({
             <SelectValue placeholder="Selecione a fonte" />
           </SelectTrigger>
           <SelectContent>
-            {fontOptions.map((font) => (
+            {FONT_OPTIONS.map((font) => (
               <SelectItem key={font.value} value={font.value}>
                 <span style={{ fontFamily: font.value }}>{font.name}</span>
               </SelectItem>
@@ -167,6 +148,138 @@ const TextSettings = ({
           </Button>
         </div>
       </div>
+
+      {/* Tarjas com o nome dos participantes no ar */}
+      <div className="space-y-4 border-t border-white/10 pt-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="lower-thirds-enabled"
+              checked={lowerThirdsEnabled}
+              onCheckedChange={setLowerThirdsEnabled}
+            />
+            <Label htmlFor="lower-thirds-enabled">Tarjas com nome</Label>
+          </div>
+          <Button variant="ghost" size="sm" onClick={resetTemplate} disabled={!lowerThirdsEnabled}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar
+          </Button>
+        </div>
+
+        {lowerThirdsEnabled && (
+          <>
+            <div className="relative w-full aspect-video bg-slate-800 rounded-lg overflow-hidden">
+              <LowerThird name="Maria Silva" template={template} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="mb-2 block">Fonte</Label>
+                <Select value={template.font} onValueChange={(font) => updateTemplate({ font })}>
+                  <SelectTrigger className="hutz-input">
+                    <SelectValue placeholder="Selecione a fonte" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONT_OPTIONS.map((font) => (
+                      <SelectItem key={font.value} value={font.value}>
+                        <span style={{ fontFamily: font.value }}>{font.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="mb-2 block">Posição</Label>
+                <Select value={template.position} onValueChange={(position) => updateTemplate({ position: position as LowerThirdPosition })}>
+                  <SelectTrigger className="hutz-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LOWER_THIRD_POSITION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="mb-2 block">Animação</Label>
+                <Select value={template.animation} onValueChange={(animation) => updateTemplate({ animation: animation as LowerThirdAnimation })}>
+                  <SelectTrigger className="hutz-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LOWER_THIRD_ANIMATION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="mb-2 block">Tamanho</Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => updateTemplate({ fontSize: template.fontSize - 1 })}
+                    disabled={template.fontSize <= LOWER_THIRD_FONT_SIZE_RANGE.min}
+                    className="border-white/20"
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="text-sm px-2">{template.fontSize}%</span>
+                  <Button
+                    variant="outline"
+                    onClick={() => updateTemplate({ fontSize: template.fontSize + 1 })}
+                    disabled={template.fontSize >= LOWER_THIRD_FONT_SIZE_RANGE.max}
+                    className="border-white/20"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="lower-third-text-color" className="mb-2 block">Texto</Label>
+                <Input
+                  id="lower-third-text-color"
+                  type="color"
+                  value={template.textColor}
+                  onChange={(e) => updateTemplate({ textColor: e.target.value })}
+                  className="hutz-input h-10 p-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="lower-third-background-color" className="mb-2 block">Fundo</Label>
+                <Input
+                  id="lower-third-background-color"
+                  type="color"
+                  value={template.backgroundColor}
+                  onChange={(e) => updateTemplate({ backgroundColor: e.target.value })}
+                  className="hutz-input h-10 p-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="lower-third-accent-color" className="mb-2 block">Destaque</Label>
+                <Input
+                  id="lower-third-accent-color"
+                  type="color"
+                  value={template.accentColor}
+                  onChange={(e) => updateTemplate({ accentColor: e.target.value })}
+                  className="hutz-input h-10 p-1"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              O nome é o que o participante digitou no celular; para trocar ou ocultar, use o menu de cada participante.
+            </p>
+          </>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,33 +1,77 @@
 
 import React from 'react';
 import { Button } from "@/components/ui/button";
-import { MonitorPlay, StopCircle } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Circle, Film, History, Loader2, MonitorPlay, Pause, Play, RefreshCw, Square, StopCircle, Trash2 } from "lucide-react";
+import { useProgramRecording } from '@/hooks/live/useProgramRecording';
+import { useIsoRecording } from '@/hooks/live/useIsoRecording';
+import { formatRecordingDuration, formatRecordingSize } from '@/utils/mediaRecording';
 
 interface TransmissionControlsProps {
   transmissionOpen: boolean;
   sessionId: string | null;
+  roomStatus: 'creating' | 'ready' | 'error';
+  onRetryRoom: () => void;
   onStartTransmission: () => void;
   onFinishTransmission: () => void;
+  recording: ReturnType<typeof useProgramRecording>;
+  isoRecording: ReturnType<typeof useIsoRecording>;
 }
 
 const TransmissionControls: React.FC<TransmissionControlsProps> = ({
   transmissionOpen,
   sessionId,
+  roomStatus,
+  onRetryRoom,
   onStartTransmission,
-  onFinishTransmission
+  onFinishTransmission,
+  recording,
+  isoRecording
 }) => {
+  const {
+    status,
+    elapsedMs,
+    sizeBytes,
+    recoverableRecordings,
+    isSupported,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    recoverRecording,
+    discardRecording
+  } = recording;
+  const recoverableCount = recoverableRecordings.length + isoRecording.recoverableGroups.length;
+
   return (
-    <div className="flex gap-2">
-      <Button 
+    <div className="flex flex-wrap gap-2">
+      {!sessionId && roomStatus === 'error' && (
+        <Button variant="destructive" onClick={onRetryRoom}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Criar sala novamente
+        </Button>
+      )}
+
+      <Button
         className="hutz-button-accent"
         onClick={onStartTransmission}
         disabled={transmissionOpen || !sessionId}
+        title={sessionId ? undefined : roomStatus === 'creating' ? 'Criando a sala...' : 'A sala não foi criada'}
       >
-        <MonitorPlay className="h-4 w-4 mr-2" />
+        {!sessionId && roomStatus === 'creating'
+          ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          : <MonitorPlay className="h-4 w-4 mr-2" />}
         Iniciar Transmissão
       </Button>
-      
-      <Button 
+
+      <Button
         variant="destructive"
         onClick={onFinishTransmission}
         disabled={!transmissionOpen}
@@ -35,6 +79,109 @@ const TransmissionControls: React.FC<TransmissionControlsProps> = ({
         <StopCircle className="h-4 w-4 mr-2" />
         Finalizar Transmissão
       </Button>
+
+      {/* Gravação da saída do programa */}
+      {status === 'idle' && (
+        <Button
+          variant="outline"
+          onClick={startRecording}
+          disabled={!isSupported || !sessionId}
+          title={isSupported ? 'Gravar a saída do telão' : 'Navegador sem suporte a gravação'}
+        >
+          <Circle className="h-4 w-4 mr-2 fill-red-500 text-red-500" />
+          Gravar
+        </Button>
+      )}
+
+      {status === 'recording' && (
+        <Button variant="outline" onClick={pauseRecording}>
+          <Pause className="h-4 w-4 mr-2" />
+          Pausar
+        </Button>
+      )}
+
+      {status === 'paused' && (
+        <Button variant="outline" onClick={resumeRecording}>
+          <Play className="h-4 w-4 mr-2" />
+          Retomar
+        </Button>
+      )}
+
+      {(status === 'recording' || status === 'paused') && (
+        <Button variant="outline" onClick={stopRecording} title={`${formatRecordingDuration(elapsedMs)} · ${formatRecordingSize(sizeBytes)}`}>
+          <Square className="h-4 w-4 mr-2" />
+          Parar ({formatRecordingDuration(elapsedMs)})
+        </Button>
+      )}
+
+      {status === 'saving' && (
+        <Button variant="outline" disabled>
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Salvando...
+        </Button>
+      )}
+
+      {/* Gravações isoladas por participante (ISO) */}
+      {isoRecording.status === 'idle' && (
+        <Button
+          variant="outline"
+          onClick={isoRecording.startIsoRecording}
+          disabled={!isSupported || !sessionId}
+          title="Gravar o vídeo bruto de cada participante enquanto estiver no ar"
+        >
+          <Film className="h-4 w-4 mr-2" />
+          Gravar ISOs
+        </Button>
+      )}
+
+      {isoRecording.status === 'recording' && (
+        <Button variant="outline" onClick={isoRecording.stopIsoRecording}>
+          <Square className="h-4 w-4 mr-2" />
+          Parar ISOs ({isoRecording.onAirCount} no ar)
+        </Button>
+      )}
+
+      {isoRecording.status === 'saving' && (
+        <Button variant="outline" disabled>
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Gerando ZIP...
+        </Button>
+      )}
+
+      {recoverableCount > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" title="Gravações interrompidas">
+              <History className="h-4 w-4 mr-2" />
+              Recuperar ({recoverableCount})
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Gravações interrompidas</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {recoverableRecordings.map(item => (
+              <div key={item.id} className="flex items-center gap-1">
+                <DropdownMenuItem className="flex-1" onClick={() => recoverRecording(item.id)}>
+                  {new Date(item.startedAt).toLocaleString()} · {formatRecordingSize(item.size)}
+                </DropdownMenuItem>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => discardRecording(item.id)} title="Descartar">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {isoRecording.recoverableGroups.map(group => (
+              <div key={group.id} className="flex items-center gap-1">
+                <DropdownMenuItem className="flex-1" onClick={() => isoRecording.recoverGroup(group.id)}>
+                  ISOs {new Date(group.startedAt).toLocaleString()} · {group.clipCount} clipe(s) · {formatRecordingSize(group.size)}
+                </DropdownMenuItem>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => isoRecording.discardGroup(group.id)} title="Descartar">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
     </div>
   );
 };
@@ -10,9 +10,10 @@ interface ConnectionStep {
 
 interface ParticipantConnectionFlowProps {
   steps: ConnectionStep[];
+  message?: string;
 }
 
-export const ParticipantConnectionFlow: React.FC<ParticipantConnectionFlowProps> = ({ steps }) => {
+export const ParticipantConnectionFlow: React.FC<ParticipantConnectionFlowProps> = ({ steps, message }) => {
   const getIcon = (status: ConnectionStep['status']) => {
     switch (status) {
       case 'completed':
@@ -60,6 +61,9 @@ export const ParticipantConnectionFlow: React.FC<ParticipantConnectionFlowProps>
             </div>
           ))}
         </div>
+        {message && (
+          <p className="text-sm text-muted-foreground mt-4">{message}</p>
+        )}
       </CardContent>
     </Card>
   );
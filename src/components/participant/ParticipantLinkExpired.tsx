@@ -0,0 +1,68 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface ParticipantLinkExpiredProps {
+  code?: string;
+  onBack: () => void;
+}
+
+// Mensagens para os códigos de rejeição do token de entrada (server/services/joinTokens.js) da sala de espera e da moderação
+const LINK_MESSAGES: Record<string, { title: string; description: string }> = {
+  TOKEN_MISSING: {
+    title: 'Link incompleto',
+    description: 'Este link não contém o código de acesso. Escaneie novamente o QR Code exibido na transmissão.'
+  },
+  TOKEN_INVALID: {
+    title: 'Link inválido',
+    description: 'Não foi possível validar este link. Escaneie novamente o QR Code exibido na transmissão.'
+  },
+  TOKEN_EXPIRED: {
+    title: 'Link expirado',
+    description: 'Este link de acesso expirou. Peça ao apresentador um novo QR Code.'
+  },
+  TOKEN_REVOKED: {
+    title: 'Link revogado',
+    description: 'O apresentador desativou este link. Escaneie o QR Code atual da transmissão.'
+  },
+  TOKEN_EXHAUSTED: {
+    title: 'Link esgotado',
+    description: 'Este link já atingiu o número máximo de participantes.'
+  },
+  ROOM_NOT_FOUND: {
+    title: 'Sala encerrada',
+    description: 'Esta sala não existe mais ou já foi encerrada.'
+  },
+  LOBBY_DENIED: {
+    title: 'Entrada recusada',
+    description: 'O apresentador não liberou sua entrada nesta sala.'
+  },
+  KICKED: {
+    title: 'Você foi removido',
+    description: 'O apresentador removeu você da sala. Escaneie o QR Code novamente para voltar.'
+  },
+  BANNED: {
+    title: 'Acesso bloqueado',
+    description: 'O apresentador bloqueou sua entrada nesta sala até o fim da transmissão.'
+  }
+};
+
+const ParticipantLinkExpired: React.FC<ParticipantLinkExpiredProps> = ({ code, onBack }) => {
+  const message = (code && LINK_MESSAGES[code]) || LINK_MESSAGES.TOKEN_INVALID;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6 flex items-center justify-center">
+      <Card className="max-w-md w-full border-red-500/50 bg-red-500/10">
+        <CardContent className="p-6 text-center text-white">
+          <h2 className="text-xl font-bold mb-4">⛔ {message.title}</h2>
+          <p className="text-white/80 mb-6">{message.description}</p>
+          <Button onClick={onBack}>
+            Voltar ao início
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ParticipantLinkExpired;
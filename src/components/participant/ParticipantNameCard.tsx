@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from 'sonner';
+import { roomService } from '@/services/RoomService';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { MAX_DISPLAY_NAME_LENGTH, sanitizeDisplayName } from '@/utils/lowerThirds';
+
+interface ParticipantNameCardProps {
+  sessionId: string;
+}
+
+// Nome exibido na tarja do telão quando o participante estiver no ar
+const ParticipantNameCard: React.FC<ParticipantNameCardProps> = ({ sessionId }) => {
+  const [savedName, setSavedName] = useState(() => roomService.getDisplayName());
+  const [name, setName] = useState(savedName);
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const nextName = sanitizeDisplayName(name);
+
+    roomService.setDisplayName(nextName);
+    unifiedWebSocketService.setParticipantName(sessionId, nextName);
+    setSavedName(nextName);
+    setName(nextName);
+    toast.success(nextName ? `Seu nome na tela: ${nextName}` : 'Nome removido da tela');
+  };
+
+  return (
+    <Card className="mt-6 bg-black/20 border-white/10">
+      <CardContent className="p-4">
+        <form onSubmit={handleSave} className="space-y-2">
+          <Label htmlFor="participant-display-name" className="text-white font-semibold">
+            Seu nome no telão
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="participant-display-name"
+              value={name}
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              placeholder="Como você quer aparecer"
+              onChange={(e) => setName(e.target.value)}
+              className="bg-black/30 border-white/20 text-white"
+            />
+            <Button type="submit" disabled={sanitizeDisplayName(name) === savedName}>
+              Salvar
+            </Button>
+          </div>
+          <p className="text-white/50 text-xs">
+            Aparece numa tarja sobre o seu vídeo quando você estiver na tela.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParticipantNameCard;
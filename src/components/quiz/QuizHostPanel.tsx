@@ -0,0 +1,135 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Flag, MonitorUp, SkipForward, Timer, Trophy } from "lucide-react";
+import QuizResultsChart from "@/components/quiz/QuizResultsChart";
+import QuizLeaderboardList from "@/components/quiz/QuizLeaderboardList";
+import { useQuizCountdown } from "@/hooks/quiz/useQuizCountdown";
+import { QuizAnswersUpdate, QuizLeaderboard, QuizLiveState } from "@/types/quiz";
+
+interface QuizHostPanelProps {
+  liveState: QuizLiveState;
+  answers: QuizAnswersUpdate | null;
+  leaderboard: QuizLeaderboard | null;
+  transmissionOpen: boolean;
+  leaderboardOnTransmission: boolean;
+  isExporting: boolean;
+  onNext: () => void;
+  onReveal: () => void;
+  onEnd: () => void;
+  onOpenTransmission: () => void;
+  onToggleLeaderboard: () => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const QuizHostPanel = ({
+  liveState,
+  answers,
+  leaderboard,
+  transmissionOpen,
+  leaderboardOnTransmission,
+  isExporting,
+  onNext,
+  onReveal,
+  onEnd,
+  onOpenTransmission,
+  onToggleLeaderboard,
+  onExport
+}: QuizHostPanelProps) => {
+  const remaining = useQuizCountdown(liveState);
+  const { phase, question, questionIndex, totalQuestions } = liveState;
+  const isLastQuestion = questionIndex + 1 >= totalQuestions;
+  const currentAnswers = answers && question && answers.questionId === question.id ? answers : null;
+  const counts = liveState.results?.counts || currentAnswers?.counts || {};
+  const showLeaderboard = Boolean(leaderboard) && (phase === 'results' || phase === 'finished');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-white/70">
+        <span>
+          {phase === 'waiting' && 'Aguardando início'}
+          {phase === 'question' && `Pergunta ${questionIndex + 1} de ${totalQuestions}`}
+          {phase === 'results' && `Resultado ${questionIndex + 1} de ${totalQuestions}`}
+          {phase === 'finished' && 'Quiz encerrado'}
+        </span>
+        <span>{answers?.participantCount ?? 0} participante(s)</span>
+      </div>
+
+      {question && (phase === 'question' || phase === 'results') && (
+        <div className="space-y-3">
+          <p className="font-medium">{question.prompt}</p>
+
+          {phase === 'question' && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span className="flex items-center gap-1">
+                  <Timer className="h-3 w-3" />
+                  {remaining}s
+                </span>
+                <span>{currentAnswers?.totalAnswers ?? liveState.answerCount} resposta(s)</span>
+              </div>
+              <Progress value={(remaining / question.timeLimit) * 100} className="h-2" />
+            </div>
+          )}
+
+          <QuizResultsChart
+            options={question.options}
+            counts={counts}
+            correctOptionId={phase === 'results' ? liveState.results?.correctOptionId : null}
+          />
+        </div>
+      )}
+
+      {phase === 'finished' && (
+        <div className="text-center py-6 text-white/70">
+          <Trophy className="h-10 w-10 mx-auto mb-2 text-accent" />
+          <p>Obrigado por participar!</p>
+        </div>
+      )}
+
+      {showLeaderboard && leaderboard && <QuizLeaderboardList leaderboard={leaderboard} />}
+
+      <div className="grid grid-cols-2 gap-2">
+        {phase === 'question' ? (
+          <Button className="hutz-button-secondary" onClick={onReveal}>
+            <Flag className="h-4 w-4 mr-2" />
+            Encerrar pergunta
+          </Button>
+        ) : (
+          <Button className="hutz-button-accent" onClick={onNext} disabled={phase === 'finished'}>
+            <SkipForward className="h-4 w-4 mr-2" />
+            {phase === 'waiting' ? 'Primeira pergunta' : isLastQuestion ? 'Finalizar' : 'Próxima pergunta'}
+          </Button>
+        )}
+        <Button variant="outline" className="border-white/20" onClick={onEnd} disabled={phase === 'finished'}>
+          Encerrar quiz
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" className="border-white/20" onClick={onOpenTransmission}>
+          <MonitorUp className="h-4 w-4 mr-2" />
+          {transmissionOpen ? 'Focar telão' : 'Abrir telão'}
+        </Button>
+        <Button
+          variant="outline"
+          className="border-white/20"
+          onClick={onToggleLeaderboard}
+          disabled={!transmissionOpen || !leaderboard}
+        >
+          <Trophy className="h-4 w-4 mr-2" />
+          {leaderboardOnTransmission ? 'Ocultar placar' : 'Placar no telão'}
+        </Button>
+        <Button variant="outline" className="border-white/20" onClick={() => onExport('csv')} disabled={isExporting || !leaderboard}>
+          <Download className="h-4 w-4 mr-2" />
+          Exportar CSV
+        </Button>
+        <Button variant="outline" className="border-white/20" onClick={() => onExport('json')} disabled={isExporting || !leaderboard}>
+          <Download className="h-4 w-4 mr-2" />
+          Exportar JSON
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizHostPanel;
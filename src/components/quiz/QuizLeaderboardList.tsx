@@ -0,0 +1,39 @@
+import { QuizLeaderboard } from "@/types/quiz";
+
+interface QuizLeaderboardListProps {
+  leaderboard: QuizLeaderboard;
+}
+
+const QuizLeaderboardList = ({ leaderboard }: QuizLeaderboardListProps) => {
+  if (leaderboard.entries.length === 0) {
+    return <p className="text-center text-sm text-white/60">Nenhum participante pontuou ainda.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{leaderboard.final ? 'Classificação final' : 'Placar parcial'}</span>
+        <span className="text-white/60">Top {leaderboard.entries.length} de {leaderboard.totalPlayers}</span>
+      </div>
+      <ol className="space-y-1">
+        {leaderboard.entries.map(entry => (
+          <li
+            key={entry.participantId}
+            className={`flex items-center gap-3 rounded-md px-3 py-1.5 text-sm ${
+              entry.rank === 1 ? 'bg-accent/20 font-semibold' : 'bg-white/5'
+            }`}
+          >
+            <span className="w-6 text-right text-white/60">{entry.rank}º</span>
+            <span className="flex-1 truncate">{entry.name}</span>
+            {!leaderboard.final && entry.lastDelta > 0 && (
+              <span className="text-xs text-green-400">+{entry.lastDelta}</span>
+            )}
+            <span className="tabular-nums">{entry.score} pts</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default QuizLeaderboardList;
@@ -0,0 +1,60 @@
+import type { CSSProperties } from "react";
+import { Palette } from "lucide-react";
+import { QuizQuestion, QuizSettings } from "@/types/quiz";
+
+interface QuizPreviewProps {
+  question: QuizQuestion | null;
+  settings: QuizSettings;
+}
+
+const OPTION_COLORS = ['bg-red-500/80', 'bg-blue-500/80', 'bg-yellow-500/80', 'bg-green-500/80', 'bg-purple-500/80', 'bg-pink-500/80'];
+
+const getQuizBackground = (settings: QuizSettings): CSSProperties => {
+  switch (settings.appearance) {
+    case 'image':
+      return settings.backgroundImageUrl
+        ? { backgroundImage: `url(${settings.backgroundImageUrl})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+        : { backgroundColor: settings.backgroundColor };
+    case 'gradient':
+      return { backgroundImage: `linear-gradient(135deg, ${settings.backgroundColor}, #000000)` };
+    default:
+      return { backgroundColor: settings.backgroundColor };
+  }
+};
+
+const QuizPreview = ({ question, settings }: QuizPreviewProps) => {
+  if (!question) {
+    return (
+      <div className="aspect-video bg-black/50 rounded-lg p-4 flex items-center justify-center">
+        <div className="text-white/40 text-center">
+          <Palette className="h-12 w-12 mx-auto mb-2" />
+          <p>Pré-visualização do quiz</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="aspect-video rounded-lg p-3 flex flex-col text-white overflow-hidden" style={{ ...getQuizBackground(settings), fontFamily: settings.font, color: settings.textColor }}>
+      <div className="flex items-start gap-2 mb-2">
+        {question.imageUrl && (
+          <img src={question.imageUrl} alt="" className="h-12 w-12 object-cover rounded" />
+        )}
+        <p className="text-sm font-semibold flex-1">{question.prompt || 'Pergunta sem enunciado'}</p>
+        <span className="text-xs bg-black/40 rounded px-1.5 py-0.5">{question.timeLimit}s</span>
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 mt-auto">
+        {question.options.map((option, index) => (
+          <div
+            key={option.id}
+            className={`${OPTION_COLORS[index % OPTION_COLORS.length]} rounded px-2 py-1 text-xs truncate`}
+          >
+            {option.text || `Alternativa ${index + 1}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPreview;
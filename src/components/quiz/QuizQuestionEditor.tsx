@@ -0,0 +1,176 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ArrowDown, ArrowUp, Copy, Eye, Plus, Trash2, X } from "lucide-react";
+import { QuizQuestion } from "@/types/quiz";
+
+interface QuizQuestionEditorProps {
+  question: QuizQuestion;
+  index: number;
+  total: number;
+  canAddOption: boolean;
+  canRemoveOption: boolean;
+  onUpdate: (changes: Partial<QuizQuestion>) => void;
+  onUpdateOption: (optionId: string, text: string) => void;
+  onAddOption: () => void;
+  onRemoveOption: (optionId: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  onPreview: () => void;
+}
+
+const QuizQuestionEditor = ({
+  question,
+  index,
+  total,
+  canAddOption,
+  canRemoveOption,
+  onUpdate,
+  onUpdateOption,
+  onAddOption,
+  onRemoveOption,
+  onMove,
+  onDuplicate,
+  onRemove,
+  onPreview
+}: QuizQuestionEditorProps) => {
+  const fieldId = (name: string) => `q-${question.id}-${name}`;
+
+  return (
+    <Card className={`bg-secondary/60 border border-white/20 ${question.isActive ? '' : 'opacity-60'}`}>
+      <CardHeader className="pb-2 flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="text-base">Pergunta {index + 1}</CardTitle>
+          <CardDescription>Marque a alternativa correta</CardDescription>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => onMove(-1)} title="Mover para cima">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === total - 1} onClick={() => onMove(1)} title="Mover para baixo">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-2 ml-2">
+            <Label htmlFor={fieldId('active')} className="text-xs text-white/60">Ativa</Label>
+            <Switch
+              id={fieldId('active')}
+              checked={question.isActive}
+              onCheckedChange={(isActive) => onUpdate({ isActive })}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 pb-2 space-y-4">
+        <Input
+          placeholder="Digite sua pergunta aqui..."
+          value={question.prompt}
+          onChange={(e) => onUpdate({ prompt: e.target.value })}
+          className="hutz-input"
+        />
+
+        <RadioGroup
+          value={question.correctOptionId ?? undefined}
+          onValueChange={(correctOptionId) => onUpdate({ correctOptionId })}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {question.options.map((option, optionIndex) => (
+              <Label
+                key={option.id}
+                htmlFor={fieldId(option.id)}
+                className={`flex items-center space-x-2 p-2 rounded border cursor-pointer hover:bg-white/5 ${
+                  option.id === question.correctOptionId ? 'border-accent' : 'border-white/10'
+                }`}
+              >
+                <RadioGroupItem value={option.id} id={fieldId(option.id)} />
+                <Input
+                  placeholder={`Alternativa ${optionIndex + 1}`}
+                  value={option.text}
+                  onChange={(e) => onUpdateOption(option.id, e.target.value)}
+                  className="hutz-input ml-2 flex-1"
+                />
+                {canRemoveOption && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-white/50 hover:text-destructive"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onRemoveOption(option.id);
+                    }}
+                    title="Remover alternativa"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </Label>
+            ))}
+          </div>
+        </RadioGroup>
+
+        {canAddOption && (
+          <Button variant="ghost" size="sm" className="text-white/70 hover:text-white" onClick={onAddOption}>
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar alternativa
+          </Button>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor={fieldId('time')} className="mb-1 block text-xs text-white/60">Tempo (segundos)</Label>
+            <Input
+              id={fieldId('time')}
+              type="number"
+              min={5}
+              max={300}
+              value={question.timeLimit}
+              onChange={(e) => onUpdate({ timeLimit: Math.max(5, Number(e.target.value) || 5) })}
+              className="hutz-input"
+            />
+          </div>
+          <div>
+            <Label htmlFor={fieldId('points')} className="mb-1 block text-xs text-white/60">Pontos</Label>
+            <Input
+              id={fieldId('points')}
+              type="number"
+              min={0}
+              step={10}
+              value={question.points}
+              onChange={(e) => onUpdate({ points: Math.max(0, Number(e.target.value) || 0) })}
+              className="hutz-input"
+            />
+          </div>
+          <div>
+            <Label htmlFor={fieldId('image')} className="mb-1 block text-xs text-white/60">Imagem (opcional)</Label>
+            <Input
+              id={fieldId('image')}
+              placeholder="https://..."
+              value={question.imageUrl || ''}
+              onChange={(e) => onUpdate({ imageUrl: e.target.value || undefined })}
+              className="hutz-input"
+            />
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="pt-2 flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" className="text-white/70 hover:text-white" onClick={onPreview}>
+          <Eye className="h-4 w-4 mr-1" />
+          Visualizar
+        </Button>
+        <Button variant="ghost" size="sm" className="text-white/70 hover:text-white" onClick={onDuplicate}>
+          <Copy className="h-4 w-4 mr-1" />
+          Duplicar
+        </Button>
+        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive/80" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Excluir
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default QuizQuestionEditor;
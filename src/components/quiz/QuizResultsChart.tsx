@@ -0,0 +1,52 @@
+import { Bar, BarChart, Cell, LabelList, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { QuizOption } from "@/types/quiz";
+
+interface QuizResultsChartProps {
+  options: QuizOption[];
+  counts: Record<string, number>;
+  // Só destacar a correta depois que a pergunta fecha
+  correctOptionId?: string | null;
+}
+
+const chartConfig = {
+  answers: {
+    label: "Respostas",
+    color: "hsl(var(--accent))",
+  },
+} satisfies ChartConfig;
+
+const QuizResultsChart = ({ options, counts, correctOptionId }: QuizResultsChartProps) => {
+  const data = options.map((option, index) => ({
+    optionId: option.id,
+    label: option.text || `Alternativa ${index + 1}`,
+    answers: counts[option.id] || 0,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-[4/3]">
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 32 }}>
+        <XAxis type="number" allowDecimals={false} hide />
+        <YAxis type="category" dataKey="label" width={110} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+        <Bar dataKey="answers" radius={4}>
+          {data.map((entry) => (
+            <Cell
+              key={entry.optionId}
+              fill={
+                !correctOptionId
+                  ? "var(--color-answers)"
+                  : entry.optionId === correctOptionId
+                    ? "hsl(142 71% 45%)"
+                    : "hsl(0 0% 45%)"
+              }
+            />
+          ))}
+          <LabelList dataKey="answers" position="right" className="fill-foreground" />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default QuizResultsChart;
@@ -0,0 +1,308 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Participant } from '@/components/live/ParticipantGrid';
+import { recordingStorageService } from '@/services/RecordingStorageService';
+import { StoredRecording } from '@/types/recording';
+import { SceneLayout } from '@/types/transmission';
+import { RECORDING_CHUNK_MS, downloadBlob, pickRecordingMimeType } from '@/utils/mediaRecording';
+import {
+  ISO_EDL_FILENAME,
+  buildIsoEditDecisionList,
+  getIsoArchiveFilename,
+  getIsoClipFilename,
+  sortIsoClips
+} from '@/utils/isoRecording';
+import { ZipEntry, createZipArchive } from '@/utils/zipArchive';
+import { getParticipantDisplayName } from '@/utils/lowerThirds';
+
+type IsoStatus = 'idle' | 'recording' | 'saving';
+
+interface IsoClip {
+  recording: StoredRecording;
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  writeChain: Promise<void>;
+  chunkIndex: number;
+  endedAt: string | null;
+}
+
+export interface RecoverableIsoGroup {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  clipCount: number;
+  size: number;
+}
+
+interface UseIsoRecordingProps {
+  sessionId: string | null;
+  layout: SceneLayout;
+  participantStreams: { [id: string]: MediaStream };
+  participantList: Participant[];
+}
+
+/**
+ * Gravações isoladas (ISO) por participante para pós-produção: cada vez que alguém
+ * entra no ar começa um clipe do stream bruto, que termina quando sai. No fim, os clipes
+ * e uma EDL em JSON com os tempos de entrada/saída são baixados num ZIP
+ */
+export const useIsoRecording = ({
+  sessionId,
+  layout,
+  participantStreams,
+  participantList
+}: UseIsoRecordingProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<IsoStatus>('idle');
+  const [onAirCount, setOnAirCount] = useState(0);
+  const [recoverableGroups, setRecoverableGroups] = useState<RecoverableIsoGroup[]>([]);
+
+  const groupRef = useRef<{ id: string; startedAt: string } | null>(null);
+  const mimeTypeRef = useRef<string | null>(null);
+  const clipsRef = useRef<Map<string, IsoClip>>(new Map());
+  const pendingRef = useRef<Set<Promise<void>>>(new Set());
+  const participantListRef = useRef(participantList);
+  participantListRef.current = participantList;
+
+  const refreshRecoverable = useCallback(async () => {
+    try {
+      const recordings = await recordingStorageService.listRecordings();
+      const groups = new Map<string, RecoverableIsoGroup>();
+      recordings.forEach(item => {
+        if (!item.group || item.group.id === groupRef.current?.id) return;
+        const group = groups.get(item.group.id) ?? {
+          id: item.group.id,
+          sessionId: item.sessionId,
+          startedAt: item.group.startedAt,
+          clipCount: 0,
+          size: 0
+        };
+        group.clipCount += 1;
+        group.size += item.size;
+        groups.set(item.group.id, group);
+      });
+      setRecoverableGroups([...groups.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt)));
+    } catch (error) {
+      console.warn('⚠️ ISO: Could not list stored recordings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshRecoverable();
+  }, [refreshRecoverable]);
+
+  const startClip = useCallback((participantId: string, stream: MediaStream) => {
+    const group = groupRef.current;
+    const mimeType = mimeTypeRef.current;
+    if (!group || !mimeType) return;
+
+    const participant = participantListRef.current.find(item => item.id === participantId);
+    const participantName = (participant && getParticipantDisplayName(participant)) || participantId;
+    const recording: StoredRecording = {
+      id: crypto.randomUUID(),
+      sessionId: sessionId || 'sem-sessao',
+      label: `iso_${participantName}`,
+      mimeType,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      chunkCount: 0,
+      size: 0,
+      group,
+      participantId,
+      participantName
+    };
+
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType });
+    } catch (error) {
+      console.error(`❌ ISO: Could not record ${participantId}:`, error);
+      return;
+    }
+
+    const clip: IsoClip = {
+      recording,
+      recorder,
+      stream,
+      writeChain: recordingStorageService.createRecording(recording)
+        .catch(error => console.error('❌ ISO: Failed to create clip:', error)),
+      chunkIndex: 0,
+      endedAt: null
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      const index = clip.chunkIndex++;
+      clip.writeChain = clip.writeChain
+        .then(() => recordingStorageService.appendChunk(recording.id, index, event.data))
+        .catch(error => console.error('❌ ISO: Failed to store chunk:', error));
+    };
+
+    const finished = new Promise<void>(resolve => {
+      recorder.onstop = async () => {
+        try {
+          await clip.writeChain;
+          await recordingStorageService.finishRecording(recording.id, clip.endedAt ?? new Date().toISOString());
+        } catch (error) {
+          console.error('❌ ISO: Failed to finish clip:', error);
+        }
+        resolve();
+      };
+    });
+    pendingRef.current.add(finished);
+    finished.then(() => pendingRef.current.delete(finished));
+
+    recorder.onerror = (event) => {
+      console.error(`❌ ISO: Recorder error for ${participantId}:`, event);
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    recorder.start(RECORDING_CHUNK_MS);
+    clipsRef.current.set(participantId, clip);
+    console.log(`🎞️ ISO: ${participantName} on air - clip started`);
+  }, [sessionId]);
+
+  const stopClip = useCallback((participantId: string) => {
+    const clip = clipsRef.current.get(participantId);
+    if (!clip) return;
+
+    clipsRef.current.delete(participantId);
+    clip.endedAt = new Date().toISOString();
+    if (clip.recorder.state !== 'inactive') {
+      clip.recorder.stop();
+    }
+    console.log(`🎞️ ISO: ${clip.recording.participantName} off air - clip stopped`);
+  }, []);
+
+  // Entrar no ar = aparecer num slot da cena com stream; trocar de stream abre um clipe novo
+  useEffect(() => {
+    if (status !== 'recording') return;
+
+    const onAir = new Map<string, MediaStream>();
+    layout.tiles.forEach(tile => {
+      if (tile.participantId && participantStreams[tile.participantId]) {
+        onAir.set(tile.participantId, participantStreams[tile.participantId]);
+      }
+    });
+
+    [...clipsRef.current.entries()].forEach(([participantId, clip]) => {
+      if (onAir.get(participantId) !== clip.stream || clip.recorder.state === 'inactive') {
+        stopClip(participantId);
+      }
+    });
+    onAir.forEach((stream, participantId) => {
+      if (!clipsRef.current.has(participantId)) {
+        startClip(participantId, stream);
+      }
+    });
+    setOnAirCount(clipsRef.current.size);
+  }, [status, layout, participantStreams, startClip, stopClip]);
+
+  const exportGroup = useCallback(async (groupId: string) => {
+    const clips = (await recordingStorageService.listRecordings()).filter(item => item.group?.id === groupId);
+    if (clips.length === 0) return false;
+
+    const withData: StoredRecording[] = [];
+    const entries: ZipEntry[] = [];
+    for (const clip of sortIsoClips(clips)) {
+      const blob = await recordingStorageService.getRecordingBlob(clip.id);
+      if (!blob || blob.size === 0) continue;
+      entries.push({ name: getIsoClipFilename(clip, withData.length), data: blob, modifiedAt: new Date(clip.startedAt) });
+      withData.push(clip);
+    }
+
+    const { sessionId: clipSessionId, group } = clips[0];
+    const startedAt = group?.startedAt ?? clips[0].startedAt;
+    const edl = buildIsoEditDecisionList(clipSessionId, startedAt, withData);
+    entries.unshift({ name: ISO_EDL_FILENAME, data: new Blob([JSON.stringify(edl, null, 2)], { type: 'application/json' }) });
+
+    downloadBlob(getIsoArchiveFilename(clipSessionId, startedAt), await createZipArchive(entries));
+    await Promise.all(clips.map(clip => recordingStorageService.deleteRecording(clip.id)));
+    return withData.length > 0;
+  }, []);
+
+  const startIsoRecording = useCallback(() => {
+    if (groupRef.current) return;
+
+    const mimeType = pickRecordingMimeType();
+    if (!mimeType) {
+      toast({
+        title: "Gravação indisponível",
+        description: "Este navegador não suporta gravação de vídeo.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    mimeTypeRef.current = mimeType;
+    groupRef.current = { id: crypto.randomUUID(), startedAt: new Date().toISOString() };
+    setStatus('recording');
+    console.log(`🎞️ ISO: Isolated recordings armed (${mimeType})`);
+  }, [toast]);
+
+  const stopIsoRecording = useCallback(async () => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    setStatus('saving');
+    [...clipsRef.current.keys()].forEach(stopClip);
+    setOnAirCount(0);
+
+    try {
+      await Promise.all([...pendingRef.current]);
+      const saved = await exportGroup(group.id);
+      toast(saved
+        ? { title: "ISOs salvos", description: "Os clipes e a EDL foram baixados em um ZIP." }
+        : { title: "Nenhum clipe gravado", description: "Ninguém entrou no ar durante a gravação ISO." });
+    } catch (error) {
+      console.error('❌ ISO: Failed to export clips:', error);
+      toast({
+        title: "Erro ao salvar ISOs",
+        description: "Os clipes continuam guardados no navegador e podem ser recuperados.",
+        variant: "destructive"
+      });
+    } finally {
+      groupRef.current = null;
+      setStatus('idle');
+      refreshRecoverable();
+    }
+  }, [stopClip, exportGroup, toast, refreshRecoverable]);
+
+  const recoverGroup = useCallback(async (groupId: string) => {
+    try {
+      await exportGroup(groupId);
+      toast({ title: "ISOs recuperados", description: "Os clipes e a EDL foram baixados em um ZIP." });
+    } catch (error) {
+      console.error('❌ ISO: Failed to recover clips:', error);
+      toast({ title: "Erro ao recuperar ISOs", description: "Não foi possível montar o ZIP.", variant: "destructive" });
+    }
+    refreshRecoverable();
+  }, [exportGroup, toast, refreshRecoverable]);
+
+  const discardGroup = useCallback(async (groupId: string) => {
+    const clips = (await recordingStorageService.listRecordings()).filter(item => item.group?.id === groupId);
+    await Promise.all(clips.map(clip => recordingStorageService.deleteRecording(clip.id)));
+    refreshRecoverable();
+  }, [refreshRecoverable]);
+
+  // Saindo da página: os clipes já salvos ficam recuperáveis
+  useEffect(() => {
+    const clips = clipsRef.current;
+    return () => {
+      clips.forEach(clip => {
+        if (clip.recorder.state !== 'inactive') clip.recorder.stop();
+      });
+      clips.clear();
+    };
+  }, []);
+
+  return {
+    status,
+    onAirCount,
+    recoverableGroups,
+    startIsoRecording,
+    stopIsoRecording,
+    recoverGroup,
+    discardGroup
+  };
+};
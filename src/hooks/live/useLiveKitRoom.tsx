@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Room, RoomEvent, RemoteParticipant, Track } from 'livekit-client';
+import { Room, RoomEvent, RemoteParticipant, Track, LocalVideoTrack } from 'livekit-client';
 import { joinLiveRoom, disconnectFromRoom } from '@/utils/livekit/LiveKitConnection';
 import { toast } from 'sonner';
 
@@ -120,6 +120,18 @@ export const useLiveKitRoom = ({
     console.log(`🎤 Áudio ${enabled ? 'desativado' : 'ativado'}`);
   };
 
+  // Switch between front/back camera
+  const switchCamera = async (facingMode: 'user' | 'environment') => {
+    if (!roomRef.current) return;
+    
+    const publication = roomRef.current.localParticipant.getTrackPublication(Track.Source.Camera);
+    const track = publication?.track as LocalVideoTrack | undefined;
+    if (!track) return;
+    
+    await track.restartTrack({ facingMode });
+    console.log(`📱 Câmera trocada para ${facingMode === 'user' ? 'frontal' : 'traseira'}`);
+  };
+
   // Auto-connect on mount
   useEffect(() => {
     if (autoConnect && roomName && userName && !connectionAttemptRef.current) {
@@ -135,7 +147,7 @@ export const useLiveKitRoom = ({
         connectionAttemptRef.current = false;
       }
     };
-  }, [roomName, userName]);
+  }, [roomName, userName, autoConnect]);
 
   return {
     room,
@@ -147,6 +159,7 @@ export const useLiveKitRoom = ({
     disconnect,
     toggleVideo,
     toggleAudio,
+    switchCamera,
     localParticipant: room?.localParticipant || null,
   };
 };
@@ -1,7 +1,9 @@
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { Participant } from '@/components/live/ParticipantGrid';
-import { generateSessionId } from '@/utils/sessionUtils';
+import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { roomService } from '@/services/RoomService';
 import { initHostWebRTC } from '@/utils/webrtc';
 
 export const useLivePageState = () => {
@@ -28,17 +30,45 @@ export const useLivePageState = () => {
   const [finalActionTimerId, setFinalActionTimerId] = useState<number | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
 
-  // 🚀 CORREÇÃO CRÍTICA: Gerar sessionId automaticamente na inicialização
+  const { toast } = useToast();
+  const [roomStatus, setRoomStatus] = useState<'creating' | 'ready' | 'error'>('creating');
+  // Uma criação por vez: o StrictMode monta o efeito duas vezes e criaria duas salas
+  const creatingRoomRef = useRef<Promise<void> | null>(null);
+
+  // 🚀 Criar a sala no backend: o host fica registrado como dono. Sem sala, os controles de ir ao ar ficam desativados
+  const createRoom = useCallback(() => {
+    if (creatingRoomRef.current) return creatingRoomRef.current;
+
+    setRoomStatus('creating');
+    creatingRoomRef.current = roomService.createRoom()
+      .then(room => {
+        console.log('🚀 Sala criada no backend, sessionId:', room.roomId);
+        setSessionId(room.roomId);
+      })
+      .catch(error => {
+        console.error('❌ Falha ao criar sala no backend:', error);
+        setRoomStatus('error');
+        toast({
+          title: "Não foi possível criar a sala",
+          description: error instanceof Error ? error.message : "Verifique sua conexão e o login de host.",
+          variant: "destructive",
+          action: <ToastAction altText="Tentar novamente" onClick={() => createRoom()}>Tentar novamente</ToastAction>
+        });
+      })
+      .finally(() => {
+        creatingRoomRef.current = null;
+      });
+    return creatingRoomRef.current;
+  }, [toast]);
+
   useEffect(() => {
-    if (!sessionId) {
-      const newSessionId = generateSessionId();
-      console.log('🚀 Gerando novo sessionId:', newSessionId);
-      setSessionId(newSessionId);
-    }
+    if (!sessionId) createRoom();
   }, []);
 
   useEffect(() => {
     if (sessionId) {
+      // A sala também pode vir da geração do QR Code
+      setRoomStatus('ready');
       console.log('🚀 Iniciando WebRTC com sessionId:', sessionId);
       initHostWebRTC(sessionId);
     }
@@ -85,6 +115,7 @@ export const useLivePageState = () => {
     finalActionTimeLeft, setFinalActionTimeLeft,
     finalActionTimerId, setFinalActionTimerId,
     sessionId, setSessionId,
+    roomStatus, retryCreateRoom: createRoom,
     qrCodePosition, setQrCodePosition,
     qrDescriptionPosition, setQrDescriptionPosition,
     participantStreams, setParticipantStreams,
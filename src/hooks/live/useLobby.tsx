@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { unifiedWebSocketService, LobbyParticipant, LobbyState } from '@/services/UnifiedWebSocketService';
+
+/**
+ * Sala de espera do host: estado vindo do servidor (lobby-updated) e ações de admitir/recusar
+ */
+export const useLobby = (sessionId: string | null) => {
+  const [lobbyEnabled, setLobbyEnabledState] = useState(false);
+  const [waitingParticipants, setWaitingParticipants] = useState<LobbyParticipant[]>([]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = unifiedWebSocketService.on('lobby-updated', (data: LobbyState) => {
+      if (data?.roomId !== sessionId) return;
+
+      console.log(`⏳ LOBBY: ${data.waiting.length} waiting (enabled: ${data.enabled})`);
+      setLobbyEnabledState(data.enabled);
+      setWaitingParticipants(data.waiting);
+    });
+
+    return unsubscribe;
+  }, [sessionId]);
+
+  const setLobbyEnabled = useCallback((enabled: boolean) => {
+    if (!sessionId) return;
+    unifiedWebSocketService.setLobbyEnabled(sessionId, enabled);
+  }, [sessionId]);
+
+  const admitParticipant = useCallback((participantId: string) => {
+    if (!sessionId) return;
+    unifiedWebSocketService.admitParticipant(sessionId, participantId);
+  }, [sessionId]);
+
+  const denyParticipant = useCallback((participantId: string) => {
+    if (!sessionId) return;
+    unifiedWebSocketService.denyParticipant(sessionId, participantId);
+  }, [sessionId]);
+
+  const admitAllParticipants = useCallback(() => {
+    if (!sessionId) return;
+    unifiedWebSocketService.admitAllParticipants(sessionId);
+  }, [sessionId]);
+
+  return {
+    lobbyEnabled,
+    waitingParticipants,
+    setLobbyEnabled,
+    admitParticipant,
+    denyParticipant,
+    admitAllParticipants
+  };
+};
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Participant } from '@/components/live/ParticipantGrid';
+import { unifiedWebSocketService, ParticipantNameUpdate } from '@/services/UnifiedWebSocketService';
+import { LowerThirdTemplate } from '@/types/transmission';
+import {
+  DEFAULT_LOWER_THIRD_TEMPLATE,
+  LOWER_THIRD_FONT_SIZE_RANGE,
+  buildLowerThirdNames,
+  postTransmissionLowerThirds,
+  sanitizeDisplayName
+} from '@/utils/lowerThirds';
+
+const LOWER_THIRDS_STORAGE_KEY = 'transmission-lower-thirds';
+
+interface StoredLowerThirds {
+  enabled: boolean;
+  template: LowerThirdTemplate;
+}
+
+// Modelo salvo no navegador; campos ausentes voltam ao padrão
+const loadLowerThirds = (): StoredLowerThirds => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOWER_THIRDS_STORAGE_KEY) || '{}') as Partial<StoredLowerThirds>;
+    return {
+      enabled: saved.enabled ?? true,
+      template: { ...DEFAULT_LOWER_THIRD_TEMPLATE, ...saved.template }
+    };
+  } catch (error) {
+    console.warn('⚠️ LOWER THIRDS: Could not read saved template:', error);
+    return { enabled: true, template: DEFAULT_LOWER_THIRD_TEMPLATE };
+  }
+};
+
+interface UseLowerThirdsProps {
+  transmissionWindowRef: React.MutableRefObject<Window | null>;
+  participantList: Participant[];
+  setParticipantList: React.Dispatch<React.SetStateAction<Participant[]>>;
+}
+
+/**
+ * Tarjas com o nome de cada participante no ar: o nome vem do que o participante digitou
+ * no celular ou do que o host definiu na lista, e o modelo visual vale para todos os slots
+ */
+export const useLowerThirds = ({
+  transmissionWindowRef,
+  participantList,
+  setParticipantList
+}: UseLowerThirdsProps) => {
+  const [initial] = useState(loadLowerThirds);
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [template, setTemplate] = useState<LowerThirdTemplate>(initial.template);
+  // Guardados por id (e não só na lista) para sobreviver quando o participante reconecta
+  const [reportedNames, setReportedNames] = useState<Record<string, string>>({});
+  const [nameOverrides, setNameOverrides] = useState<Record<string, string>>({});
+  const [hiddenIds, setHiddenIds] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    return unifiedWebSocketService.on('participant-name-updated', (data: ParticipantNameUpdate) => {
+      if (!data?.participantId) return;
+      setReportedNames(current => ({ ...current, [data.participantId]: sanitizeDisplayName(data.name || '') }));
+    });
+  }, []);
+
+  // Copia nomes e visibilidade para a lista de participantes (só quando algo mudou)
+  useEffect(() => {
+    const isOutdated = (participant: Participant) =>
+      (reportedNames[participant.id] || undefined) !== participant.displayName ||
+      (nameOverrides[participant.id] || undefined) !== participant.nameOverride ||
+      (hiddenIds[participant.id] || undefined) !== participant.lowerThirdHidden;
+
+    if (!participantList.some(isOutdated)) return;
+
+    setParticipantList(current => current.map(participant => (isOutdated(participant)
+      ? {
+          ...participant,
+          displayName: reportedNames[participant.id] || undefined,
+          nameOverride: nameOverrides[participant.id] || undefined,
+          lowerThirdHidden: hiddenIds[participant.id] || undefined
+        }
+      : participant)));
+  }, [participantList, reportedNames, nameOverrides, hiddenIds, setParticipantList]);
+
+  // Chave estável: a lista muda o tempo todo, os nomes raramente
+  const namesKey = JSON.stringify(buildLowerThirdNames(participantList));
+  const names = useMemo(() => JSON.parse(namesKey) as Record<string, string>, [namesKey]);
+
+  useEffect(() => {
+    localStorage.setItem(LOWER_THIRDS_STORAGE_KEY, JSON.stringify({ enabled, template }));
+  }, [enabled, template]);
+
+  useEffect(() => {
+    postTransmissionLowerThirds(transmissionWindowRef.current, { enabled, template, names });
+  }, [enabled, template, names, transmissionWindowRef]);
+
+  // Janela recém-aberta recebe as tarjas atuais
+  const syncTransmission = useCallback(() => {
+    postTransmissionLowerThirds(transmissionWindowRef.current, { enabled, template, names });
+  }, [enabled, template, names, transmissionWindowRef]);
+
+  const updateTemplate = useCallback((updates: Partial<LowerThirdTemplate>) => {
+    setTemplate(current => {
+      const next = { ...current, ...updates };
+      next.fontSize = Math.min(LOWER_THIRD_FONT_SIZE_RANGE.max, Math.max(LOWER_THIRD_FONT_SIZE_RANGE.min, next.fontSize));
+      return next;
+    });
+  }, []);
+
+  const resetTemplate = useCallback(() => {
+    setTemplate(DEFAULT_LOWER_THIRD_TEMPLATE);
+  }, []);
+
+  // Nome vazio devolve a tarja ao nome digitado pelo participante
+  const renameParticipant = useCallback((participantId: string, name: string) => {
+    const nextName = sanitizeDisplayName(name);
+    console.log(`🏷️ LOWER THIRDS: ${participantId} ${nextName ? `renamed to "${nextName}"` : 'back to own name'}`);
+    setNameOverrides(current => ({ ...current, [participantId]: nextName }));
+  }, []);
+
+  const toggleLowerThird = useCallback((participantId: string) => {
+    setHiddenIds(current => ({ ...current, [participantId]: !current[participantId] }));
+  }, []);
+
+  return {
+    enabled,
+    template,
+    names,
+    setEnabled,
+    updateTemplate,
+    resetTemplate,
+    renameParticipant,
+    toggleLowerThird,
+    syncTransmission
+  };
+};
@@ -0,0 +1,51 @@
+import { useEffect, useCallback } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import {
+  unifiedWebSocketService,
+  ModerationAction,
+  ModerationResult
+} from '@/services/UnifiedWebSocketService';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  'kick': 'Participante removido',
+  'ban': 'Participante banido',
+  'video-off': 'Câmera desligada',
+  'switch-camera': 'Troca de câmera solicitada'
+};
+
+/**
+ * Comandos de moderação do host aplicados pelo servidor de signaling
+ */
+export const useModeration = (sessionId: string | null) => {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = unifiedWebSocketService.on('moderation-result', (result: ModerationResult) => {
+      if (result?.roomId !== sessionId) return;
+
+      toast({
+        title: ACTION_LABELS[result.action],
+        description: result.delivered || result.enforced
+          ? `Comando aplicado a ${result.participantId}.`
+          : result.action === 'ban'
+            ? `${result.participantId} não está conectado, mas não poderá entrar novamente.`
+            : `${result.participantId} não está conectado ao servidor.`
+      });
+    });
+
+    return unsubscribe;
+  }, [sessionId, toast]);
+
+  const moderateParticipant = useCallback((
+    participantId: string,
+    action: ModerationAction,
+    facingMode?: 'user' | 'environment'
+  ) => {
+    if (!sessionId) return;
+    unifiedWebSocketService.moderateParticipant(sessionId, participantId, action, facingMode);
+  }, [sessionId]);
+
+  return { moderateParticipant };
+};
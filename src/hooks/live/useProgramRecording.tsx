@@ -0,0 +1,421 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { recordingStorageService } from '@/services/RecordingStorageService';
+import { RecordingStatus, StoredRecording } from '@/types/recording';
+import { LowerThirdsState, SceneLayout, TransmissionAppearance, TransmissionOverlays } from '@/types/transmission';
+import { PROGRAM_HEIGHT, PROGRAM_WIDTH, ProgramFrame, drawProgramFrame } from '@/utils/programCompositor';
+import {
+  RECORDING_CHUNK_MS,
+  downloadBlob,
+  getRecordingFilename,
+  pickRecordingMimeType,
+  startWorkerInterval
+} from '@/utils/mediaRecording';
+import { getTimedItem } from '@/utils/transmissionOverlays';
+
+const PROGRAM_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+
+type OverlayRect = { x: number; y: number; width: number; height: number };
+
+interface UseProgramRecordingProps {
+  sessionId: string | null;
+  layout: SceneLayout;
+  participantStreams: { [id: string]: MediaStream };
+  appearance: TransmissionAppearance;
+  qrOverlay: {
+    visible: boolean;
+    image: string | null;
+    position: OverlayRect;
+    descriptionPosition: OverlayRect;
+    description: string;
+    fontSize: number;
+  };
+  lowerThirds?: LowerThirdsState;
+  overlays?: TransmissionOverlays;
+}
+
+// Elemento de mídia oculto só para alimentar o canvas e o mixer de áudio
+const createHiddenVideo = (stream: MediaStream) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(error => console.warn('⚠️ RECORDING: Could not play hidden video:', error));
+  return video;
+};
+
+/**
+ * Gravação da saída do programa: o layout da cena, fundo, tarjas, QR Code, textos e gráficos são
+ * compostos num canvas e gravados com o áudio dos participantes em cena.
+ * Os pedaços vão para o IndexedDB durante a gravação, então uma queda não perde o vídeo
+ */
+export const useProgramRecording = ({
+  sessionId,
+  layout,
+  participantStreams,
+  appearance,
+  qrOverlay,
+  lowerThirds,
+  overlays
+}: UseProgramRecordingProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<RecordingStatus>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [sizeBytes, setSizeBytes] = useState(0);
+  const [recoverableRecordings, setRecoverableRecordings] = useState<StoredRecording[]>([]);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingRef = useRef<StoredRecording | null>(null);
+  const chunkIndexRef = useRef(0);
+  const writeChainRef = useRef<Promise<void>>(Promise.resolve());
+  const stopDrawLoopRef = useRef<(() => void) | null>(null);
+  const clockTimerRef = useRef<number | null>(null);
+  const activeSinceRef = useRef<number | null>(null);
+  const accumulatedMsRef = useRef(0);
+  const videosRef = useRef<Record<string, HTMLVideoElement>>({});
+  const imagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const audioSourcesRef = useRef<Map<string, { stream: MediaStream; node: MediaStreamAudioSourceNode }>>(new Map());
+
+  // O loop de desenho lê sempre a versão mais recente das props
+  const propsRef = useRef({ layout, participantStreams, appearance, qrOverlay, lowerThirds, overlays });
+  propsRef.current = { layout, participantStreams, appearance, qrOverlay, lowerThirds, overlays };
+
+  const refreshRecoverable = useCallback(async () => {
+    try {
+      const recordings = await recordingStorageService.listRecordings();
+      setRecoverableRecordings(recordings.filter(item => !item.group && !item.finishedAt && item.id !== recordingRef.current?.id));
+    } catch (error) {
+      console.warn('⚠️ RECORDING: Could not list stored recordings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshRecoverable();
+  }, [refreshRecoverable]);
+
+  const getImage = (src: string | null) => {
+    if (!src) return null;
+    let image = imagesRef.current.get(src);
+    if (!image) {
+      image = new Image();
+      image.src = src;
+      imagesRef.current.set(src, image);
+    }
+    return image;
+  };
+
+  // Vídeos ocultos e fontes de áudio acompanham quem está em cena
+  const syncMedia = useCallback(() => {
+    const { layout: currentLayout, participantStreams: streams } = propsRef.current;
+    const onScene = new Set(
+      currentLayout.tiles.map(tile => tile.participantId).filter((id): id is string => Boolean(id && streams[id]))
+    );
+
+    Object.entries(videosRef.current).forEach(([id, video]) => {
+      if (onScene.has(id) && video.srcObject === streams[id]) return;
+      video.srcObject = null;
+      delete videosRef.current[id];
+    });
+    onScene.forEach(id => {
+      if (!videosRef.current[id]) {
+        videosRef.current[id] = createHiddenVideo(streams[id]);
+      }
+    });
+
+    const audioContext = audioContextRef.current;
+    const destination = audioDestinationRef.current;
+    if (!audioContext || !destination) return;
+
+    audioSourcesRef.current.forEach((source, id) => {
+      if (onScene.has(id) && source.stream === streams[id]) return;
+      source.node.disconnect();
+      audioSourcesRef.current.delete(id);
+    });
+    onScene.forEach(id => {
+      if (audioSourcesRef.current.has(id) || streams[id].getAudioTracks().length === 0) return;
+      const node = audioContext.createMediaStreamSource(streams[id]);
+      node.connect(destination);
+      audioSourcesRef.current.set(id, { stream: streams[id], node });
+    });
+  }, []);
+
+  const drawFrame = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const {
+      layout: currentLayout,
+      appearance: currentAppearance,
+      qrOverlay: overlay,
+      lowerThirds: currentLowerThirds,
+      overlays: graphics
+    } = propsRef.current;
+    // Posições do QR Code arrastável estão em pixels do preview da página
+    const previewWidth = document.querySelector('.live-preview')?.clientWidth || PROGRAM_WIDTH;
+    const scale = PROGRAM_WIDTH / previewWidth;
+    const toProgram = (rect: OverlayRect) => ({
+      x: rect.x * scale,
+      y: rect.y * scale,
+      width: rect.width * scale,
+      height: rect.height * scale
+    });
+
+    const frame: ProgramFrame = {
+      layout: currentLayout,
+      videos: videosRef.current,
+      backgroundColor: currentAppearance.selectedBackgroundColor,
+      backgroundImage: getImage(currentAppearance.backgroundImage),
+      font: currentAppearance.selectedFont,
+      textColor: currentAppearance.selectedTextColor,
+      sceneQrImage: getImage(currentLayout.qrCode?.image ?? null),
+      overlay: overlay.visible
+        ? {
+            qrImage: getImage(overlay.image),
+            qrRect: toProgram(overlay.position),
+            text: overlay.description,
+            textRect: toProgram(overlay.descriptionPosition),
+            fontSize: overlay.fontSize * scale
+          }
+        : null,
+      lowerThirds: currentLowerThirds
+    };
+    if (graphics) {
+      const now = Date.now();
+      const logo = graphics.sponsors.enabled ? getTimedItem(graphics.sponsors.logos, graphics.sponsorsStartedAt, now, true) : null;
+      frame.graphics = { state: graphics, sponsorImage: getImage(logo?.item.image ?? null), now };
+    }
+    drawProgramFrame(ctx, frame);
+  }, []);
+
+  useEffect(() => {
+    if (status === 'recording' || status === 'paused') {
+      syncMedia();
+    }
+  }, [status, layout, participantStreams, syncMedia]);
+
+  const stopTimers = () => {
+    stopDrawLoopRef.current?.();
+    if (clockTimerRef.current) window.clearInterval(clockTimerRef.current);
+    stopDrawLoopRef.current = null;
+    clockTimerRef.current = null;
+  };
+
+  const startTimers = useCallback(() => {
+    stopTimers();
+    activeSinceRef.current = Date.now();
+    // O operador costuma trocar de aba durante a live: o desenho não pode depender do timer da página
+    stopDrawLoopRef.current = startWorkerInterval(drawFrame, 1000 / PROGRAM_FPS);
+    clockTimerRef.current = window.setInterval(() => {
+      setElapsedMs(accumulatedMsRef.current + (activeSinceRef.current ? Date.now() - activeSinceRef.current : 0));
+    }, 500);
+  }, [drawFrame]);
+
+  const releaseMedia = useCallback(() => {
+    stopTimers();
+    Object.values(videosRef.current).forEach(video => { video.srcObject = null; });
+    videosRef.current = {};
+    audioSourcesRef.current.forEach(source => source.node.disconnect());
+    audioSourcesRef.current.clear();
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    audioDestinationRef.current = null;
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    recorderRef.current = null;
+    canvasRef.current = null;
+  }, []);
+
+  const saveRecording = useCallback(async (recording: StoredRecording) => {
+    const blob = await recordingStorageService.getRecordingBlob(recording.id);
+    if (!blob || blob.size === 0) {
+      throw new Error('Gravação vazia');
+    }
+    downloadBlob(getRecordingFilename(recording.label, recording.startedAt, recording.mimeType), blob);
+    await recordingStorageService.deleteRecording(recording.id);
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const mimeType = pickRecordingMimeType();
+    if (!mimeType) {
+      toast({
+        title: "Gravação indisponível",
+        description: "Este navegador não suporta gravação de vídeo.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = PROGRAM_WIDTH;
+      canvas.height = PROGRAM_HEIGHT;
+      canvasRef.current = canvas;
+
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      audioDestinationRef.current = audioContext.createMediaStreamDestination();
+      syncMedia();
+      drawFrame();
+
+      const stream = new MediaStream([
+        ...canvas.captureStream(PROGRAM_FPS).getVideoTracks(),
+        ...audioDestinationRef.current.stream.getAudioTracks()
+      ]);
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+      const recording: StoredRecording = {
+        id: crypto.randomUUID(),
+        sessionId: sessionId || 'sem-sessao',
+        label: `programa_${sessionId || 'live'}`,
+        mimeType,
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        chunkCount: 0,
+        size: 0
+      };
+      await recordingStorageService.createRecording(recording);
+
+      recordingRef.current = recording;
+      recorderRef.current = recorder;
+      chunkIndexRef.current = 0;
+      accumulatedMsRef.current = 0;
+      writeChainRef.current = Promise.resolve();
+      setElapsedMs(0);
+      setSizeBytes(0);
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        const index = chunkIndexRef.current++;
+        setSizeBytes(current => current + event.data.size);
+        writeChainRef.current = writeChainRef.current
+          .then(() => recordingStorageService.appendChunk(recording.id, index, event.data))
+          .catch(error => console.error('❌ RECORDING: Failed to store chunk:', error));
+      };
+
+      recorder.onstop = async () => {
+        setStatus('saving');
+        stopTimers();
+        try {
+          await writeChainRef.current;
+          // Sem finishedAt até o download: se salvar falhar, a gravação aparece entre as recuperáveis
+          await saveRecording(recording);
+          toast({ title: "Gravação salva", description: "O vídeo do programa foi baixado." });
+        } catch (error) {
+          console.error('❌ RECORDING: Failed to save recording:', error);
+          toast({
+            title: "Erro ao salvar gravação",
+            description: "O vídeo continua guardado no navegador e pode ser recuperado.",
+            variant: "destructive"
+          });
+        } finally {
+          releaseMedia();
+          recordingRef.current = null;
+          setStatus('idle');
+          refreshRecoverable();
+        }
+      };
+
+      recorder.onerror = (event) => {
+        console.error('❌ RECORDING: MediaRecorder error:', event);
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+
+      recorder.start(RECORDING_CHUNK_MS);
+      startTimers();
+      setStatus('recording');
+      console.log(`🔴 RECORDING: Program recording started (${mimeType})`);
+    } catch (error) {
+      console.error('❌ RECORDING: Could not start recording:', error);
+      releaseMedia();
+      toast({
+        title: "Erro ao iniciar gravação",
+        description: error instanceof Error ? error.message : "Não foi possível iniciar a gravação.",
+        variant: "destructive"
+      });
+    }
+  }, [sessionId, toast, syncMedia, drawFrame, startTimers, releaseMedia, saveRecording, refreshRecoverable]);
+
+  const pauseRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+
+    recorder.pause();
+    stopTimers();
+    if (activeSinceRef.current) {
+      accumulatedMsRef.current += Date.now() - activeSinceRef.current;
+      activeSinceRef.current = null;
+    }
+    setElapsedMs(accumulatedMsRef.current);
+    setStatus('paused');
+    console.log('⏸️ RECORDING: Paused');
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+
+    recorder.resume();
+    startTimers();
+    setStatus('recording');
+    console.log('▶️ RECORDING: Resumed');
+  }, [startTimers]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    console.log('⏹️ RECORDING: Stopping program recording');
+    recorder.stop();
+  }, []);
+
+  // Gravações interrompidas (aba fechada, travamento) continuam no IndexedDB
+  const recoverRecording = useCallback(async (recordingId: string) => {
+    const recording = recoverableRecordings.find(item => item.id === recordingId);
+    if (!recording) return;
+
+    try {
+      await saveRecording(recording);
+      toast({ title: "Gravação recuperada", description: "O vídeo foi baixado." });
+    } catch (error) {
+      console.error('❌ RECORDING: Failed to recover recording:', error);
+      toast({ title: "Erro ao recuperar gravação", description: "Não foi possível montar o vídeo.", variant: "destructive" });
+    }
+    refreshRecoverable();
+  }, [recoverableRecordings, saveRecording, toast, refreshRecoverable]);
+
+  const discardRecording = useCallback(async (recordingId: string) => {
+    await recordingStorageService.deleteRecording(recordingId);
+    refreshRecoverable();
+  }, [refreshRecoverable]);
+
+  // Saindo da página: o que já foi salvo fica recuperável
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      releaseMedia();
+    };
+  }, [releaseMedia]);
+
+  return {
+    status,
+    elapsedMs,
+    sizeBytes,
+    recoverableRecordings,
+    isSupported: pickRecordingMimeType() !== null,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    recoverRecording,
+    discardRecording
+  };
+};
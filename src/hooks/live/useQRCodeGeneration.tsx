@@ -2,7 +2,7 @@
 import { useState } from 'react';
 import { useToast } from "@/hooks/use-toast";
 import QRCode from 'qrcode';
-import { generateSessionId } from '@/utils/sessionUtils';
+import { roomService } from '@/services/RoomService';
 
 // FASE 1: URL SYNC CRITICO - Forçar produção URLs com PARÂMETROS MOBILE OBRIGATÓRIOS
 const RENDER_PRODUCTION_URL = 'https://hutz-live-85.onrender.com';
@@ -55,6 +55,9 @@ export const useQRCodeGeneration = () => {
   const [productionUrl] = useState(getProductionURL());
   const [backendUrl] = useState(getBackendURL());
 
+  const buildParticipantURL = (sessionId: string, joinToken: string) =>
+    `${productionUrl}/participant/${sessionId}${FORCED_MOBILE_PARAMS}&token=${encodeURIComponent(joinToken)}`;
+
   const generateQRCode = async (url: string, setQrCodeSvg: (svg: string) => void) => {
     try {
       const dataUrl = await QRCode.toDataURL(url, {
@@ -83,9 +86,11 @@ export const useQRCodeGeneration = () => {
     console.log("📱 MOBILE PARAMS:", FORCED_MOBILE_PARAMS);
     
     try {
-      // 🚀 CORREÇÃO CRÍTICA: Reutilizar sessionId existente em vez de gerar novo
-      const currentSessionId = state.sessionId || generateSessionId();
-      const finalUrl = `${productionUrl}/participant/${currentSessionId}${FORCED_MOBILE_PARAMS}`;
+      // 🚀 CORREÇÃO CRÍTICA: Reutilizar sessionId existente; sala nova sempre criada no backend (dono = host)
+      const currentSessionId = state.sessionId || (await roomService.createRoom()).roomId;
+      const joinToken = roomService.getJoinToken(currentSessionId)?.token ||
+        (await roomService.createJoinToken(currentSessionId)).joinToken;
+      const finalUrl = buildParticipantURL(currentSessionId, joinToken);
       
       console.log(`🎯 QR URL GERADA: ${finalUrl}`);
       console.log(`🔑 SESSION ID: ${currentSessionId} (${state.sessionId ? 'existing' : 'new'})`);
@@ -128,6 +133,40 @@ export const useQRCodeGeneration = () => {
     }
   };
 
+  // Invalida o link atual (ex: QR vazado) e gera um novo QR com outro token
+  const handleRevokeJoinLink = async (state: {
+    sessionId: string | null;
+    setQrCodeURL: (url: string) => void;
+    setQrCodeSvg: (svg: string) => void;
+  }) => {
+    if (!state.sessionId) return;
+    
+    try {
+      const current = roomService.getJoinToken(state.sessionId);
+      if (current?.tokenId) {
+        await roomService.revokeJoinToken(state.sessionId, current.tokenId);
+      }
+      
+      const { joinToken } = await roomService.createJoinToken(state.sessionId);
+      const finalUrl = buildParticipantURL(state.sessionId, joinToken);
+      
+      state.setQrCodeURL(finalUrl);
+      await generateQRCode(finalUrl, state.setQrCodeSvg);
+      
+      toast({
+        title: "Link revogado",
+        description: "O QR Code anterior não funciona mais. Compartilhe o novo QR Code.",
+      });
+    } catch (error) {
+      console.error('❌ REVOKE JOIN LINK ERROR:', error);
+      toast({
+        title: "Erro ao revogar link",
+        description: `Não foi possível revogar o link: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleQRCodeToTransmission = (setQrCodeVisible: (visible: boolean) => void) => {
     setQrCodeVisible(true);
     toast({
@@ -140,6 +179,7 @@ export const useQRCodeGeneration = () => {
     generateQRCode,
     handleGenerateQRCode,
     handleQRCodeToTransmission,
+    handleRevokeJoinLink,
     productionUrl,
     backendUrl
   };
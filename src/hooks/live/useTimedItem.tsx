@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { TimedItem, getTimedItem } from '@/utils/transmissionOverlays';
+
+/**
+ * Item atual de uma sequência temporizada (slides, logos); re-renderiza só na troca de item
+ */
+export const useTimedItem = <T extends { durationSec: number }>(
+  items: T[],
+  startedAt: number | null,
+  loop: boolean
+): TimedItem<T> | null => {
+  const [now, setNow] = useState(() => Date.now());
+  const current = getTimedItem(items, startedAt, now, loop);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, [items, startedAt, loop]);
+
+  const remainingMs = current?.remainingMs;
+  useEffect(() => {
+    if (remainingMs === undefined) return;
+    const timer = window.setTimeout(() => setNow(Date.now()), remainingMs + 20);
+    return () => window.clearTimeout(timer);
+  }, [remainingMs, now]);
+
+  return current;
+};
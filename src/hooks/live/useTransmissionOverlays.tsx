@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import {
+  SponsorBugSettings,
+  SponsorLogo,
+  TextSlide,
+  TextSlidesSettings,
+  TickerSettings,
+  TransmissionOverlays
+} from '@/types/transmission';
+import {
+  DEFAULT_TRANSMISSION_OVERLAYS,
+  OVERLAY_DURATION_RANGE,
+  SLIDE_FONT_SIZE_RANGE,
+  SPONSOR_SIZE_RANGE,
+  clampNumber,
+  postTransmissionOverlays
+} from '@/utils/transmissionOverlays';
+
+const OVERLAYS_STORAGE_KEY = 'transmission-overlays';
+const DEFAULT_SLIDE_DURATION_SEC = 8;
+const DEFAULT_LOGO_DURATION_SEC = 10;
+
+// Configuração salva no navegador; slides nunca voltam em exibição depois de recarregar
+const loadOverlays = (): TransmissionOverlays => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OVERLAYS_STORAGE_KEY) || '{}') as Partial<TransmissionOverlays>;
+    return {
+      ticker: { ...DEFAULT_TRANSMISSION_OVERLAYS.ticker, ...saved.ticker },
+      slides: { ...DEFAULT_TRANSMISSION_OVERLAYS.slides, ...saved.slides },
+      sponsors: { ...DEFAULT_TRANSMISSION_OVERLAYS.sponsors, ...saved.sponsors },
+      slidesStartedAt: null,
+      sponsorsStartedAt: Date.now()
+    };
+  } catch (error) {
+    console.warn('⚠️ OVERLAYS: Could not read saved overlays:', error);
+    return { ...DEFAULT_TRANSMISSION_OVERLAYS, sponsorsStartedAt: Date.now() };
+  }
+};
+
+const readImageFile = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+interface UseTransmissionOverlaysProps {
+  transmissionWindowRef: React.MutableRefObject<Window | null>;
+}
+
+/**
+ * Gráficos do telão: ticker de notícias, textos temporizados e logo de patrocinador
+ * em rodízio. Cada alteração é enviada na hora para a janela de transmissão
+ */
+export const useTransmissionOverlays = ({ transmissionWindowRef }: UseTransmissionOverlaysProps) => {
+  const { toast } = useToast();
+  const [overlays, setOverlays] = useState<TransmissionOverlays>(loadOverlays);
+
+  useEffect(() => {
+    const { ticker, slides, sponsors } = overlays;
+    try {
+      localStorage.setItem(OVERLAYS_STORAGE_KEY, JSON.stringify({ ticker, slides, sponsors }));
+    } catch (error) {
+      // Logos em data URL podem passar do limite do localStorage: seguem valendo nesta sessão
+      console.warn('⚠️ OVERLAYS: Could not save overlays:', error);
+    }
+  }, [overlays]);
+
+  useEffect(() => {
+    postTransmissionOverlays(transmissionWindowRef.current, overlays);
+  }, [overlays, transmissionWindowRef]);
+
+  // Janela recém-aberta recebe os gráficos atuais (slides e logos continuam de onde estão)
+  const syncTransmission = useCallback(() => {
+    postTransmissionOverlays(transmissionWindowRef.current, overlays);
+  }, [overlays, transmissionWindowRef]);
+
+  const updateTicker = useCallback((updates: Partial<TickerSettings>) => {
+    setOverlays(current => ({ ...current, ticker: { ...current.ticker, ...updates } }));
+  }, []);
+
+  const updateSlides = useCallback((updates: Partial<TextSlidesSettings>) => {
+    setOverlays(current => {
+      const slides = { ...current.slides, ...updates };
+      slides.fontSize = clampNumber(slides.fontSize, SLIDE_FONT_SIZE_RANGE);
+      return { ...current, slides };
+    });
+  }, []);
+
+  const mapSlides = useCallback((map: (slides: TextSlide[]) => TextSlide[]) => {
+    setOverlays(current => ({ ...current, slides: { ...current.slides, slides: map(current.slides.slides) } }));
+  }, []);
+
+  const addSlide = useCallback(() => {
+    mapSlides(slides => [...slides, { id: crypto.randomUUID(), text: '', durationSec: DEFAULT_SLIDE_DURATION_SEC }]);
+  }, [mapSlides]);
+
+  const updateSlide = useCallback((slideId: string, updates: Partial<TextSlide>) => {
+    mapSlides(slides => slides.map(slide => (slide.id === slideId
+      ? { ...slide, ...updates, durationSec: clampNumber(updates.durationSec ?? slide.durationSec, OVERLAY_DURATION_RANGE) }
+      : slide)));
+  }, [mapSlides]);
+
+  const removeSlide = useCallback((slideId: string) => {
+    mapSlides(slides => slides.filter(slide => slide.id !== slideId));
+  }, [mapSlides]);
+
+  const moveSlide = useCallback((slideId: string, direction: -1 | 1) => {
+    mapSlides(slides => {
+      const index = slides.findIndex(slide => slide.id === slideId);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= slides.length) return slides;
+      const next = [...slides];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [mapSlides]);
+
+  // Slides vazios não entram na sequência
+  const startSlides = useCallback(() => {
+    console.log('🪧 OVERLAYS: Text slides started');
+    setOverlays(current => ({
+      ...current,
+      slides: { ...current.slides, slides: current.slides.slides.filter(slide => slide.text.trim()) },
+      slidesStartedAt: Date.now()
+    }));
+  }, []);
+
+  const stopSlides = useCallback(() => {
+    console.log('🪧 OVERLAYS: Text slides stopped');
+    setOverlays(current => ({ ...current, slidesStartedAt: null }));
+  }, []);
+
+  // Ativar ou trocar a lista de logos recomeça o rodízio pelo primeiro
+  const updateSponsors = useCallback((updates: Partial<SponsorBugSettings>) => {
+    setOverlays(current => {
+      const sponsors = { ...current.sponsors, ...updates };
+      sponsors.size = clampNumber(sponsors.size, SPONSOR_SIZE_RANGE);
+      sponsors.opacity = clampNumber(sponsors.opacity, { min: 0.1, max: 1 });
+      const restart = (updates.enabled && !current.sponsors.enabled) || updates.logos !== undefined;
+      return { ...current, sponsors, sponsorsStartedAt: restart ? Date.now() : current.sponsorsStartedAt };
+    });
+  }, []);
+
+  const addSponsorLogos = useCallback(async (files: FileList | File[]) => {
+    const images = [...files].filter(file => file.type.startsWith('image/'));
+    try {
+      const logos: SponsorLogo[] = await Promise.all(images.map(async file => ({
+        id: crypto.randomUUID(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        image: await readImageFile(file),
+        durationSec: DEFAULT_LOGO_DURATION_SEC
+      })));
+      setOverlays(current => ({
+        ...current,
+        sponsors: { ...current.sponsors, logos: [...current.sponsors.logos, ...logos] },
+        sponsorsStartedAt: Date.now()
+      }));
+    } catch (error) {
+      console.error('❌ OVERLAYS: Could not read sponsor logo:', error);
+      toast({ title: "Erro ao carregar logo", description: "Não foi possível ler a imagem.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  const updateSponsorLogo = useCallback((logoId: string, updates: Partial<SponsorLogo>) => {
+    setOverlays(current => ({
+      ...current,
+      sponsors: {
+        ...current.sponsors,
+        logos: current.sponsors.logos.map(logo => (logo.id === logoId
+          ? { ...logo, ...updates, durationSec: clampNumber(updates.durationSec ?? logo.durationSec, OVERLAY_DURATION_RANGE) }
+          : logo))
+      }
+    }));
+  }, []);
+
+  const removeSponsorLogo = useCallback((logoId: string) => {
+    setOverlays(current => ({
+      ...current,
+      sponsors: { ...current.sponsors, logos: current.sponsors.logos.filter(logo => logo.id !== logoId) },
+      sponsorsStartedAt: Date.now()
+    }));
+  }, []);
+
+  return {
+    overlays,
+    updateTicker,
+    updateSlides,
+    addSlide,
+    updateSlide,
+    removeSlide,
+    moveSlide,
+    startSlides,
+    stopSlides,
+    updateSponsors,
+    addSponsorLogos,
+    updateSponsorLogo,
+    removeSponsorLogo,
+    syncTransmission
+  };
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Participant } from '@/components/live/ParticipantGrid';
+import { SceneSlot, SceneTransition, TransmissionScene } from '@/types/transmission';
+import { DEFAULT_SCENES, buildSceneLayout, clampSlot, postTransmissionScene } from '@/utils/transmissionScenes';
+
+const SCENES_STORAGE_KEY = 'transmission-scenes';
+const DEFAULT_TRANSITION_MS = 600;
+
+// Posições editadas ficam salvas no navegador; cenas desconhecidas são ignoradas
+const loadScenes = (): TransmissionScene[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SCENES_STORAGE_KEY) || '[]') as TransmissionScene[];
+    return DEFAULT_SCENES.map(scene => {
+      const stored = saved.find(item => item?.id === scene.id);
+      return stored && Array.isArray(stored.slots) && stored.slots.length === scene.slots.length
+        ? { ...scene, slots: stored.slots.map(clampSlot) }
+        : scene;
+    });
+  } catch (error) {
+    console.warn('⚠️ SCENES: Could not read saved scenes:', error);
+    return DEFAULT_SCENES;
+  }
+};
+
+interface UseTransmissionScenesProps {
+  transmissionWindowRef: React.MutableRefObject<Window | null>;
+  participantList: Participant[];
+  participantCount: number;
+  qrCodeSvg: string | null;
+  qrCodeDescription: string;
+}
+
+/**
+ * Cenas do telão (destaque, entrevista, picture-in-picture, grade e QR Code): o host troca
+ * de cena ao vivo e a janela de transmissão reposiciona os vídeos sem ser recriada
+ */
+export const useTransmissionScenes = ({
+  transmissionWindowRef,
+  participantList,
+  participantCount,
+  qrCodeSvg,
+  qrCodeDescription
+}: UseTransmissionScenesProps) => {
+  const [scenes, setScenes] = useState<TransmissionScene[]>(loadScenes);
+  const [activeSceneId, setActiveSceneId] = useState('grid');
+  const [transition, setTransition] = useState<SceneTransition>('fade');
+  const [transitionMs, setTransitionMs] = useState(DEFAULT_TRANSITION_MS);
+  // Participante fixado em cada slot, por cena (ids mudam a cada sessão, então não são salvos)
+  const [assignments, setAssignments] = useState<Record<string, (string | null)[]>>({});
+
+  const activeScene = scenes.find(scene => scene.id === activeSceneId) || scenes[0];
+  const participantIds = useMemo(
+    () => participantList.filter(participant => participant.selected && participant.active).map(participant => participant.id),
+    [participantList]
+  );
+
+  const layout = useMemo(() => buildSceneLayout(activeScene, {
+    participantIds,
+    assignments: assignments[activeScene.id],
+    maxGridParticipants: participantCount,
+    qrCode: { image: qrCodeSvg, description: qrCodeDescription }
+  }), [activeScene, participantIds, assignments, participantCount, qrCodeSvg, qrCodeDescription]);
+
+  useEffect(() => {
+    localStorage.setItem(SCENES_STORAGE_KEY, JSON.stringify(scenes));
+  }, [scenes]);
+
+  // Toda mudança de layout vai para a janela; a transição só é aplicada quando a cena muda
+  useEffect(() => {
+    postTransmissionScene(transmissionWindowRef.current, layout, transition, transitionMs);
+  }, [layout, transition, transitionMs, transmissionWindowRef]);
+
+  // Janela recém-aberta recebe a cena atual sem transição
+  const syncTransmission = useCallback(() => {
+    postTransmissionScene(transmissionWindowRef.current, layout, 'cut', 0);
+  }, [layout, transmissionWindowRef]);
+
+  const switchScene = useCallback((sceneId: string) => {
+    console.log(`🎬 SCENES: Switching to ${sceneId}`);
+    setActiveSceneId(sceneId);
+  }, []);
+
+  const updateSlot = useCallback((sceneId: string, index: number, updates: Partial<SceneSlot>) => {
+    setScenes(current => current.map(scene => scene.id !== sceneId ? scene : {
+      ...scene,
+      slots: scene.slots.map((slot, slotIndex) => (slotIndex === index ? clampSlot({ ...slot, ...updates }) : slot))
+    }));
+  }, []);
+
+  const resetScene = useCallback((sceneId: string) => {
+    const original = DEFAULT_SCENES.find(scene => scene.id === sceneId);
+    if (!original) return;
+    setScenes(current => current.map(scene => (scene.id === sceneId ? original : scene)));
+  }, []);
+
+  const assignParticipant = useCallback((sceneId: string, index: number, participantId: string | null) => {
+    setAssignments(current => {
+      const slots = [...(current[sceneId] || [])];
+      slots[index] = participantId;
+      return { ...current, [sceneId]: slots };
+    });
+  }, []);
+
+  return {
+    scenes,
+    activeSceneId: activeScene.id,
+    layout,
+    transition,
+    transitionMs,
+    assignments,
+    switchScene,
+    updateSlot,
+    resetScene,
+    assignParticipant,
+    setTransition,
+    setTransitionMs,
+    syncTransmission
+  };
+};
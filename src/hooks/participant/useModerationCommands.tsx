@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { unifiedWebSocketService, ModerationCommand } from '@/services/UnifiedWebSocketService';
+import { setCameraPreference } from '@/utils/media/deviceDetection';
+
+interface UseModerationCommandsProps {
+  sessionId: string | undefined;
+  onVideoOff: () => Promise<void>;
+  onSwitchCamera: (facing: 'user' | 'environment') => Promise<void>;
+  onRemoved: (action: 'kick' | 'ban') => void;
+}
+
+/**
+ * Aplica no participante os comandos de moderação enviados pelo host
+ */
+export const useModerationCommands = (props: UseModerationCommandsProps) => {
+  const { sessionId } = props;
+
+  // Handlers mais recentes sem re-registrar o listener a cada render
+  const handlersRef = useRef(props);
+  handlersRef.current = props;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = unifiedWebSocketService.on('moderation-command', async (command: ModerationCommand) => {
+      if (command?.roomId !== sessionId) return;
+
+      const handlers = handlersRef.current;
+      console.log(`🛡️ PARTICIPANT: Moderation command ${command.action}`);
+
+      try {
+        switch (command.action) {
+          case 'video-off':
+            await handlers.onVideoOff();
+            toast.warning('O apresentador desligou sua câmera');
+            break;
+
+          case 'switch-camera': {
+            const facing = command.facingMode || 'environment';
+            setCameraPreference(facing);
+            await handlers.onSwitchCamera(facing);
+            toast.info(`O apresentador trocou para a câmera ${facing === 'user' ? 'frontal' : 'traseira'}`);
+            break;
+          }
+
+          case 'kick':
+          case 'ban':
+            unifiedWebSocketService.disconnect();
+            handlers.onRemoved(command.action);
+            toast.error(command.action === 'ban'
+              ? 'Você foi banido desta sala pelo apresentador'
+              : 'Você foi removido da sala pelo apresentador');
+            break;
+        }
+      } catch (error) {
+        console.error('❌ PARTICIPANT: Failed to apply moderation command:', error);
+      }
+    });
+
+    return unsubscribe;
+  }, [sessionId]);
+};
@@ -1,5 +1,6 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { roomService } from '@/services/RoomService';
 import { toast } from 'sonner';
 
 // FASE 1: Flag global para prevenir conexões duplicadas
@@ -96,7 +97,10 @@ export const useParticipantConnection = (sessionId: string | undefined, particip
       console.log('✅ PARTICIPANT: WebSocket ready');
 
       console.log('👤 PARTICIPANT: Joining session via WebSocket...');
-      await unifiedWebSocketService.joinRoom(sessionId, participantId);
+      await unifiedWebSocketService.joinRoom(sessionId, participantId, {
+        joinToken: roomService.getJoinToken(sessionId)?.token,
+        name: roomService.getDisplayName()
+      });
 
       await new Promise(resolve => setTimeout(resolve, 500));
 
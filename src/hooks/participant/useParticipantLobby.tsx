@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { roomService } from '@/services/RoomService';
+import { detectMobile } from '@/utils/media/deviceDetection';
+import { detectBrowserType } from '@/utils/sessionUtils';
+
+export type LobbyStatus = 'joining' | 'waiting' | 'admitted' | 'denied';
+
+interface UseParticipantLobbyProps {
+  sessionId: string | undefined;
+  participantId: string;
+  enabled: boolean;
+}
+
+/**
+ * Entrada do participante via signaling: com a sala de espera ativa o join-room fica pendente
+ * até o host admitir ou recusar
+ */
+export const useParticipantLobby = ({ sessionId, participantId, enabled }: UseParticipantLobbyProps) => {
+  const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus>('joining');
+  const [deniedCode, setDeniedCode] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    let cancelled = false;
+    const unsubscribe = unifiedWebSocketService.on('lobby-waiting', () => {
+      if (!cancelled) setLobbyStatus('waiting');
+    });
+
+    unifiedWebSocketService.joinRoom(sessionId, participantId, {
+      joinToken: roomService.getJoinToken(sessionId)?.token,
+      name: roomService.getDisplayName(),
+      browserType: detectBrowserType(),
+      isMobile: detectMobile()
+    })
+      .then(() => {
+        console.log('🚪 PARTICIPANT LOBBY: Admitted to room');
+        if (!cancelled) setLobbyStatus('admitted');
+      })
+      .catch((error: { code?: string }) => {
+        if (cancelled) return;
+
+        if (error?.code === 'LOBBY_DENIED' || error?.code === 'BANNED') {
+          console.warn(`🚫 PARTICIPANT LOBBY: Host denied entry (${error.code})`);
+          setDeniedCode(error.code);
+          setLobbyStatus('denied');
+        } else {
+          // Falha de signaling não bloqueia a mídia: o /get-token decide a entrada
+          console.warn('⚠️ PARTICIPANT LOBBY: Signaling join failed, continuing:', error);
+          setLobbyStatus('admitted');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId, participantId, enabled]);
+
+  return { lobbyStatus, deniedCode };
+};
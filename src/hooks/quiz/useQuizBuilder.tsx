@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useToast } from "@/hooks/use-toast";
+import { Quiz, QuizQuestion, QuizSettings, QuizSummary } from '@/types/quiz';
+import {
+  quizService,
+  createEmptyQuiz,
+  createQuizOption,
+  createQuizQuestion,
+  validateQuiz
+} from '@/services/QuizService';
+
+const DRAFT_AUTOSAVE_DELAY = 800;
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+/**
+ * Estado do editor de quiz: perguntas, alternativas, rascunho local e persistência no Supabase
+ */
+export const useQuizBuilder = () => {
+  const { toast } = useToast();
+  const [quiz, setQuiz] = useState<Quiz>(() => quizService.loadDraft()?.quiz || createEmptyQuiz());
+  const [savedQuizzes, setSavedQuizzes] = useState<QuizSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(() => quizService.loadDraft()?.savedAt || null);
+  const skipNextDraftRef = useRef(true);
+  const quizRef = useRef(quiz);
+  quizRef.current = quiz;
+
+  // Autosave do rascunho (debounce) a cada alteração
+  useEffect(() => {
+    if (skipNextDraftRef.current) {
+      skipNextDraftRef.current = false;
+      return;
+    }
+
+    setIsDirty(true);
+    const timeout = setTimeout(() => {
+      quizService.saveDraft(quiz);
+      setDraftSavedAt(new Date().toISOString());
+    }, DRAFT_AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [quiz]);
+
+  const refreshSavedQuizzes = useCallback(async () => {
+    try {
+      setSavedQuizzes(await quizService.listQuizzes());
+    } catch (error) {
+      console.warn('⚠️ QUIZ BUILDER: Could not list quizzes:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSavedQuizzes();
+  }, [refreshSavedQuizzes]);
+
+  // Substitui o quiz no editor sem marcá-lo como alterado
+  const replaceQuiz = useCallback((next: Quiz) => {
+    // Mesmo objeto não dispara o efeito de autosave: pular aqui engoliria a próxima edição
+    if (next !== quizRef.current) {
+      skipNextDraftRef.current = true;
+    }
+    setQuiz(next);
+    setIsDirty(false);
+    quizService.saveDraft(next);
+    setDraftSavedAt(new Date().toISOString());
+  }, []);
+
+  const setTitle = useCallback((title: string) => {
+    setQuiz(prev => ({ ...prev, title }));
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<QuizSettings>) => {
+    setQuiz(prev => ({ ...prev, settings: { ...prev.settings, ...changes } }));
+  }, []);
+
+  const updateQuestion = useCallback((questionId: string, changes: Partial<QuizQuestion>) => {
+    setQuiz(prev => ({
+      ...prev,
+      questions: prev.questions.map(question =>
+        question.id === questionId ? { ...question, ...changes } : question
+      )
+    }));
+  }, []);
+
+  const addQuestion = useCallback(() => {
+    setQuiz(prev => ({ ...prev, questions: [...prev.questions, createQuizQuestion()] }));
+  }, []);
+
+  const removeQuestion = useCallback((questionId: string) => {
+    setQuiz(prev => ({ ...prev, questions: prev.questions.filter(question => question.id !== questionId) }));
+  }, []);
+
+  const duplicateQuestion = useCallback((questionId: string) => {
+    setQuiz(prev => {
+      const index = prev.questions.findIndex(question => question.id === questionId);
+      if (index === -1) return prev;
+
+      const source = prev.questions[index];
+      const options = source.options.map(option => createQuizOption(option.text));
+      const correctIndex = source.options.findIndex(option => option.id === source.correctOptionId);
+      const copy: QuizQuestion = {
+        ...source,
+        id: crypto.randomUUID(),
+        options,
+        correctOptionId: correctIndex >= 0 ? options[correctIndex].id : null
+      };
+
+      const questions = [...prev.questions];
+      questions.splice(index + 1, 0, copy);
+      return { ...prev, questions };
+    });
+  }, []);
+
+  const moveQuestion = useCallback((questionId: string, direction: -1 | 1) => {
+    setQuiz(prev => {
+      const index = prev.questions.findIndex(question => question.id === questionId);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.questions.length) return prev;
+
+      const questions = [...prev.questions];
+      [questions[index], questions[target]] = [questions[target], questions[index]];
+      return { ...prev, questions };
+    });
+  }, []);
+
+  const updateOption = useCallback((questionId: string, optionId: string, text: string) => {
+    setQuiz(prev => ({
+      ...prev,
+      questions: prev.questions.map(question =>
+        question.id === questionId
+          ? { ...question, options: question.options.map(option => option.id === optionId ? { ...option, text } : option) }
+          : question
+      )
+    }));
+  }, []);
+
+  const addOption = useCallback((questionId: string) => {
+    setQuiz(prev => ({
+      ...prev,
+      questions: prev.questions.map(question =>
+        question.id === questionId && question.options.length < MAX_OPTIONS
+          ? { ...question, options: [...question.options, createQuizOption()] }
+          : question
+      )
+    }));
+  }, []);
+
+  const removeOption = useCallback((questionId: string, optionId: string) => {
+    setQuiz(prev => ({
+      ...prev,
+      questions: prev.questions.map(question => {
+        if (question.id !== questionId || question.options.length <= MIN_OPTIONS) return question;
+
+        const options = question.options.filter(option => option.id !== optionId);
+        return {
+          ...question,
+          options,
+          correctOptionId: question.correctOptionId === optionId ? options[0].id : question.correctOptionId
+        };
+      })
+    }));
+  }, []);
+
+  const saveQuiz = useCallback(async () => {
+    const validationError = validateQuiz(quiz);
+    if (validationError) {
+      toast({ title: "Quiz incompleto", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await quizService.saveQuiz(quiz);
+      if (quizRef.current === quiz) {
+        replaceQuiz(saved);
+      } else {
+        // Editado durante o salvamento: só os campos do servidor, as edições seguem pendentes
+        setQuiz(prev => ({ ...prev, id: saved.id, updatedAt: saved.updatedAt }));
+      }
+      await refreshSavedQuizzes();
+      toast({ title: "Quiz salvo", description: `"${saved.title}" está pronto para o evento.` });
+    } catch (error) {
+      console.error('❌ QUIZ BUILDER: Save failed:', error);
+      toast({
+        title: "Erro ao salvar quiz",
+        description: `${error instanceof Error ? error.message : error}. O rascunho continua salvo neste navegador.`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [quiz, replaceQuiz, refreshSavedQuizzes, toast]);
+
+  const loadQuiz = useCallback(async (quizId: string) => {
+    try {
+      replaceQuiz(await quizService.getQuiz(quizId));
+    } catch (error) {
+      console.error('❌ QUIZ BUILDER: Load failed:', error);
+      toast({ title: "Erro ao abrir quiz", description: "Não foi possível carregar o quiz.", variant: "destructive" });
+    }
+  }, [replaceQuiz, toast]);
+
+  const deleteQuiz = useCallback(async (quizId: string) => {
+    try {
+      await quizService.deleteQuiz(quizId);
+      if (quiz.id === quizId) {
+        replaceQuiz(createEmptyQuiz());
+      }
+      await refreshSavedQuizzes();
+      toast({ title: "Quiz excluído" });
+    } catch (error) {
+      console.error('❌ QUIZ BUILDER: Delete failed:', error);
+      toast({ title: "Erro ao excluir quiz", description: "Não foi possível excluir o quiz.", variant: "destructive" });
+    }
+  }, [quiz.id, replaceQuiz, refreshSavedQuizzes, toast]);
+
+  const newQuiz = useCallback(() => {
+    replaceQuiz(createEmptyQuiz());
+  }, [replaceQuiz]);
+
+  return {
+    quiz,
+    savedQuizzes,
+    isSaving,
+    isDirty,
+    draftSavedAt,
+    setTitle,
+    updateSettings,
+    addQuestion,
+    updateQuestion,
+    removeQuestion,
+    duplicateQuestion,
+    moveQuestion,
+    addOption,
+    updateOption,
+    removeOption,
+    saveQuiz,
+    loadQuiz,
+    deleteQuiz,
+    newQuiz,
+    canAddOption: (question: QuizQuestion) => question.options.length < MAX_OPTIONS,
+    canRemoveOption: (question: QuizQuestion) => question.options.length > MIN_OPTIONS
+  };
+};
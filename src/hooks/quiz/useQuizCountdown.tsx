@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { QuizLiveState } from '@/types/quiz';
+
+/**
+ * Segundos restantes da pergunta aberta, corrigindo a diferença de relógio com o servidor
+ */
+export const useQuizCountdown = (state: QuizLiveState | null) => {
+  const [remaining, setRemaining] = useState(0);
+
+  useEffect(() => {
+    if (!state || state.phase !== 'question' || !state.endsAt) {
+      setRemaining(0);
+      return;
+    }
+
+    const clockOffset = state.serverTime - Date.now();
+    const endsAt = state.endsAt;
+    const update = () => {
+      setRemaining(Math.max(0, Math.ceil((endsAt - (Date.now() + clockOffset)) / 1000)));
+    };
+
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  return remaining;
+};
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { roomService } from '@/services/RoomService';
+import { detectMobile } from '@/utils/media/deviceDetection';
+import { detectBrowserType } from '@/utils/sessionUtils';
+import { QuizAnswerAck, QuizLiveState, QuizScore } from '@/types/quiz';
+
+export type QuizPlayerStatus = 'idle' | 'joining' | 'joined' | 'error';
+
+interface UseQuizPlayerProps {
+  sessionId: string | undefined;
+  participantId: string;
+  name: string;
+  enabled: boolean;
+}
+
+/**
+ * Participante do quiz ao vivo: entra na sala via signaling, recebe as perguntas e envia respostas
+ */
+export const useQuizPlayer = ({ sessionId, participantId, name, enabled }: UseQuizPlayerProps) => {
+  const [status, setStatus] = useState<QuizPlayerStatus>('idle');
+  const [errorCode, setErrorCode] = useState<string | undefined>();
+  const [liveState, setLiveState] = useState<QuizLiveState | null>(null);
+  const [selectedOptionId, setSelectedOptionId] = useState<string | null>(null);
+  const [answerStatus, setAnswerStatus] = useState<'none' | 'sending' | 'accepted' | 'rejected'>('none');
+  const [score, setScore] = useState<QuizScore | null>(null);
+  const questionIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    let cancelled = false;
+    // Registrados antes do join: o servidor envia o estado atual logo após a entrada
+    const unsubscribeState = unifiedWebSocketService.on('quiz-state', (state: QuizLiveState) => {
+      if (cancelled || state?.roomId !== sessionId) return;
+
+      const questionId = state.question?.id ?? null;
+      if (questionId !== questionIdRef.current) {
+        questionIdRef.current = questionId;
+        setSelectedOptionId(state.myAnswer);
+        setAnswerStatus(state.myAnswer ? 'accepted' : 'none');
+      }
+      setLiveState(state);
+    });
+
+    const unsubscribeAck = unifiedWebSocketService.on('quiz-answer-ack', (ack: QuizAnswerAck) => {
+      if (cancelled || ack?.roomId !== sessionId || ack.questionId !== questionIdRef.current) return;
+
+      if (ack.accepted || ack.code === 'ALREADY_ANSWERED') {
+        setAnswerStatus('accepted');
+      } else {
+        console.warn(`⚠️ QUIZ PLAYER: Answer rejected (${ack.code})`);
+        setSelectedOptionId(null);
+        setAnswerStatus('rejected');
+      }
+    });
+
+    // Pontuação individual enviada a cada pergunta encerrada
+    const unsubscribeScore = unifiedWebSocketService.on('quiz-score', (update: QuizScore) => {
+      if (!cancelled && update?.roomId === sessionId) {
+        setScore(update);
+      }
+    });
+
+    setStatus('joining');
+    unifiedWebSocketService.joinRoom(sessionId, participantId, {
+      joinToken: roomService.getJoinToken(sessionId)?.token,
+      name,
+      browserType: detectBrowserType(),
+      isMobile: detectMobile()
+    })
+      .then(() => {
+        console.log('🧠 QUIZ PLAYER: Joined quiz room');
+        if (!cancelled) setStatus('joined');
+      })
+      .catch((error: { code?: string }) => {
+        console.error('❌ QUIZ PLAYER: Join failed:', error);
+        if (cancelled) return;
+        setErrorCode(error?.code);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribeState();
+      unsubscribeAck();
+      unsubscribeScore();
+    };
+  }, [sessionId, participantId, name, enabled]);
+
+  const submitAnswer = useCallback((optionId: string) => {
+    const questionId = liveState?.question?.id;
+    if (!sessionId || !questionId || liveState?.phase !== 'question') return;
+    if (answerStatus === 'sending' || answerStatus === 'accepted') return;
+
+    setSelectedOptionId(optionId);
+    setAnswerStatus('sending');
+    unifiedWebSocketService.submitQuizAnswer(sessionId, questionId, optionId);
+  }, [sessionId, liveState, answerStatus]);
+
+  return {
+    status,
+    errorCode,
+    liveState,
+    selectedOptionId,
+    answerStatus,
+    score,
+    submitAnswer
+  };
+};
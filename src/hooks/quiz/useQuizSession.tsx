@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import QRCode from 'qrcode';
+import { useToast } from "@/hooks/use-toast";
+import { roomService } from '@/services/RoomService';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { validateQuiz } from '@/services/QuizService';
+import { useQRCodeGeneration } from '@/hooks/live/useQRCodeGeneration';
+import { useQuizTransmission } from '@/hooks/quiz/useQuizTransmission';
+import { buildQuizAnswersCSV, downloadTextFile, getQuizExportFilename } from '@/utils/quizExport';
+import { Quiz, QuizAnswersUpdate, QuizExportData, QuizLeaderboard, QuizLiveState, QuizSettings } from '@/types/quiz';
+
+const EXPORT_TIMEOUT_MS = 10000;
+
+/**
+ * Sessão ao vivo do quiz (host): cria a sala com QR Code e conduz as perguntas via Socket.IO
+ */
+export const useQuizSession = (settings: QuizSettings) => {
+  const { toast } = useToast();
+  const { productionUrl } = useQRCodeGeneration();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [joinURL, setJoinURL] = useState<string | null>(null);
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+  const [liveState, setLiveState] = useState<QuizLiveState | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswersUpdate | null>(null);
+  const [leaderboard, setLeaderboard] = useState<QuizLeaderboard | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const transmission = useQuizTransmission({ liveState, answers, leaderboard, settings, qrCodeDataUrl });
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribeState = unifiedWebSocketService.on('quiz-state', (state: QuizLiveState) => {
+      if (state?.roomId === sessionId) {
+        setLiveState(state);
+      }
+    });
+    const unsubscribeAnswers = unifiedWebSocketService.on('quiz-answers-updated', (update: QuizAnswersUpdate) => {
+      if (update?.roomId === sessionId) {
+        setAnswers(update);
+      }
+    });
+    const unsubscribeLeaderboard = unifiedWebSocketService.on('quiz-leaderboard', (board: QuizLeaderboard) => {
+      if (board?.roomId === sessionId) {
+        setLeaderboard(board);
+      }
+    });
+
+    return () => {
+      unsubscribeState();
+      unsubscribeAnswers();
+      unsubscribeLeaderboard();
+    };
+  }, [sessionId]);
+
+  const startSession = useCallback(async (quiz: Quiz) => {
+    const validationError = validateQuiz(quiz);
+    if (validationError) {
+      toast({ title: "Quiz incompleto", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    if (!quiz.questions.some(question => question.isActive)) {
+      toast({ title: "Quiz sem perguntas ativas", description: "Ative pelo menos uma pergunta.", variant: "destructive" });
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      // Reutiliza a sala já criada; sala nova sempre criada no backend (dono = host)
+      const roomId = sessionId || (await roomService.createRoom()).roomId;
+      const joinToken = roomService.getJoinToken(roomId)?.token ||
+        (await roomService.createJoinToken(roomId)).joinToken;
+      const url = `${productionUrl}/quiz/play/${roomId}?token=${encodeURIComponent(joinToken)}`;
+
+      await unifiedWebSocketService.connect();
+      const hostAuth = await roomService.getHostAuth(roomId);
+      await unifiedWebSocketService.joinRoom(roomId, 'host', { role: 'host', hostAuth });
+
+      setSessionId(roomId);
+      setJoinURL(url);
+      setQrCodeDataUrl(await QRCode.toDataURL(url, {
+        width: 256,
+        margin: 1,
+        color: {
+          dark: '#000000',
+          light: '#ffffff'
+        }
+      }));
+
+      unifiedWebSocketService.startQuiz(roomId, quiz);
+      console.log(`🧠 QUIZ SESSION: Started in room ${roomId}`);
+
+      toast({
+        title: "Quiz ao vivo",
+        description: "Compartilhe o QR Code e avance para a primeira pergunta quando todos entrarem.",
+      });
+    } catch (error) {
+      console.error('❌ QUIZ SESSION: Start failed:', error);
+      toast({
+        title: "Erro ao iniciar quiz",
+        description: `Não foi possível iniciar a sessão: ${error instanceof Error ? error.message : error}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }, [sessionId, productionUrl, toast]);
+
+  const nextQuestion = useCallback(() => {
+    if (sessionId) unifiedWebSocketService.nextQuizQuestion(sessionId);
+  }, [sessionId]);
+
+  const revealResults = useCallback(() => {
+    if (sessionId) unifiedWebSocketService.revealQuizResults(sessionId);
+  }, [sessionId]);
+
+  const endQuiz = useCallback(() => {
+    if (sessionId) unifiedWebSocketService.endQuiz(sessionId);
+  }, [sessionId]);
+
+  const exportResults = useCallback((format: 'csv' | 'json') => {
+    if (!sessionId || isExporting) return;
+
+    setIsExporting(true);
+    let unsubscribe: () => void = () => {};
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      setIsExporting(false);
+      toast({ title: "Erro ao exportar", description: "O servidor não respondeu a tempo.", variant: "destructive" });
+    }, EXPORT_TIMEOUT_MS);
+
+    unsubscribe = unifiedWebSocketService.on('quiz-export-data', (data: QuizExportData) => {
+      if (data?.roomId !== sessionId) return;
+
+      clearTimeout(timeout);
+      unsubscribe();
+      setIsExporting(false);
+
+      if (format === 'csv') {
+        downloadTextFile(getQuizExportFilename(data, 'csv'), buildQuizAnswersCSV(data), 'text/csv');
+      } else {
+        downloadTextFile(getQuizExportFilename(data, 'json'), JSON.stringify(data, null, 2), 'application/json');
+      }
+      console.log(`📥 QUIZ SESSION: Exported ${data.participants.length} participant(s) as ${format}`);
+    });
+
+    unifiedWebSocketService.requestQuizExport(sessionId);
+  }, [sessionId, isExporting, toast]);
+
+  return {
+    sessionId,
+    joinURL,
+    qrCodeDataUrl,
+    liveState,
+    answers,
+    leaderboard,
+    isStarting,
+    isExporting,
+    ...transmission,
+    startSession,
+    nextQuestion,
+    revealResults,
+    endQuiz,
+    exportResults
+  };
+};
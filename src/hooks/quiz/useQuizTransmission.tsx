@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useToast } from "@/hooks/use-toast";
+import { useTransmissionWindow } from '@/hooks/live/useTransmissionWindow';
+import { getQuizTransmissionAppearance, postTransmissionAppearance } from '@/utils/transmissionAppearance';
+import { QuizAnswersUpdate, QuizLeaderboard, QuizLiveState, QuizSettings } from '@/types/quiz';
+
+interface UseQuizTransmissionProps {
+  liveState: QuizLiveState | null;
+  answers: QuizAnswersUpdate | null;
+  leaderboard: QuizLeaderboard | null;
+  settings: QuizSettings;
+  qrCodeDataUrl: string | null;
+}
+
+/**
+ * Modo quiz da janela de transmissão (telão): pergunta, alternativas, contagem regressiva,
+ * distribuição das respostas e placar, com a mesma aparência configurável do Live
+ */
+export const useQuizTransmission = ({ liveState, answers, leaderboard, settings, qrCodeDataUrl }: UseQuizTransmissionProps) => {
+  const { toast } = useToast();
+  const [transmissionOpen, setTransmissionOpen] = useState(false);
+  const [leaderboardOnTransmission, setLeaderboardOnTransmission] = useState(false);
+  const { transmissionWindowRef, openTransmissionWindow } = useTransmissionWindow();
+  const leaderboardOnTransmissionRef = useRef(false);
+  const clockOffsetRef = useRef(0);
+  const appearance = useMemo(() => getQuizTransmissionAppearance(settings), [settings]);
+
+  // Último estado conhecido, reenviado quando a popup sinaliza que está pronta
+  const snapshotRef = useRef({ liveState, answers, leaderboard, appearance, qrCodeDataUrl, description: settings.description });
+  snapshotRef.current = { liveState, answers, leaderboard, appearance, qrCodeDataUrl, description: settings.description };
+
+  const postToTransmission = useCallback((message: { type: string; [key: string]: unknown }) => {
+    const transmissionWindow = transmissionWindowRef.current;
+    if (!transmissionWindow || transmissionWindow.closed) return false;
+
+    transmissionWindow.postMessage(message, '*');
+    return true;
+  }, [transmissionWindowRef]);
+
+  // A popup roda no mesmo relógio do host: converte o prazo da pergunta para o relógio local
+  const postQuizState = useCallback((state: QuizLiveState) => {
+    postToTransmission({
+      type: 'quiz-state',
+      ...state,
+      endsAt: state.endsAt ? state.endsAt - clockOffsetRef.current : null
+    });
+  }, [postToTransmission]);
+
+  const postQuizDisplay = useCallback(() => {
+    const { liveState: state, qrCodeDataUrl: qrCode, description } = snapshotRef.current;
+    postToTransmission({
+      type: 'quiz-display',
+      enabled: true,
+      title: state?.title || '',
+      description,
+      qrCode
+    });
+  }, [postToTransmission]);
+
+  const syncTransmission = useCallback(() => {
+    const snapshot = snapshotRef.current;
+    console.log('🧠 QUIZ TRANSMISSION: Syncing projector display');
+
+    postTransmissionAppearance(transmissionWindowRef.current, snapshot.appearance);
+    postQuizDisplay();
+    if (snapshot.liveState) postQuizState(snapshot.liveState);
+    if (snapshot.answers) postToTransmission({ type: 'quiz-answers', ...snapshot.answers });
+    if (leaderboardOnTransmissionRef.current && snapshot.leaderboard) {
+      postToTransmission({ type: 'quiz-leaderboard', ...snapshot.leaderboard });
+    }
+  }, [transmissionWindowRef, postQuizDisplay, postQuizState, postToTransmission]);
+
+  const hideLeaderboard = useCallback(() => {
+    leaderboardOnTransmissionRef.current = false;
+    setLeaderboardOnTransmission(false);
+    postToTransmission({ type: 'quiz-leaderboard-hide' });
+  }, [postToTransmission]);
+
+  useEffect(() => {
+    if (!liveState) return;
+
+    clockOffsetRef.current = liveState.serverTime - Date.now();
+    // Nova pergunta aberta tira o placar da frente
+    if (liveState.phase === 'question' && leaderboardOnTransmissionRef.current) {
+      hideLeaderboard();
+    }
+    postQuizState(liveState);
+  }, [liveState, postQuizState, hideLeaderboard]);
+
+  useEffect(() => {
+    if (answers) postToTransmission({ type: 'quiz-answers', ...answers });
+  }, [answers, postToTransmission]);
+
+  useEffect(() => {
+    // Placar já exibido no telão acompanha cada atualização
+    if (leaderboard && leaderboardOnTransmissionRef.current) {
+      postToTransmission({ type: 'quiz-leaderboard', ...leaderboard });
+    }
+  }, [leaderboard, postToTransmission]);
+
+  useEffect(() => {
+    postTransmissionAppearance(transmissionWindowRef.current, appearance);
+  }, [appearance, transmissionWindowRef]);
+
+  useEffect(() => {
+    postQuizDisplay();
+  }, [qrCodeDataUrl, settings.description, postQuizDisplay]);
+
+  const openTransmission = useCallback(() => {
+    openTransmissionWindow({ setTransmissionOpen }, syncTransmission);
+  }, [openTransmissionWindow, syncTransmission]);
+
+  const toggleLeaderboardOnTransmission = useCallback(() => {
+    if (leaderboardOnTransmissionRef.current) {
+      hideLeaderboard();
+      return;
+    }
+
+    if (!leaderboard) {
+      toast({ title: "Placar indisponível", description: "Encerre uma pergunta para gerar o placar." });
+      return;
+    }
+
+    if (!postToTransmission({ type: 'quiz-leaderboard', ...leaderboard })) {
+      toast({ title: "Telão fechado", description: "Abra a janela de transmissão para exibir o placar." });
+      return;
+    }
+
+    leaderboardOnTransmissionRef.current = true;
+    setLeaderboardOnTransmission(true);
+  }, [leaderboard, postToTransmission, hideLeaderboard, toast]);
+
+  return {
+    transmissionOpen,
+    leaderboardOnTransmission,
+    openTransmission,
+    toggleLeaderboardOnTransmission
+  };
+};
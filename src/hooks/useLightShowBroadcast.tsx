@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import QRCode from 'qrcode';
+import { useToast } from "@/hooks/use-toast";
+import { useServerClock } from '@/hooks/useServerClock';
+import { useQRCodeGeneration } from '@/hooks/live/useQRCodeGeneration';
+import { roomService } from '@/services/RoomService';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { hasPublishableMedia, lightShowAssetService } from '@/services/LightShowAssetService';
+import { AudienceZone, LightShowNetworkState, TimelineItem } from '@/types/lightshow';
+
+// A jump larger than this while playing is a seek: the server restarts from the new position
+const SEEK_THRESHOLD_SECONDS = 0.5;
+
+interface UseLightShowBroadcastProps {
+  showName: string;
+  timelineItems: TimelineItem[];
+  zones: AudienceZone[];
+  duration: number;
+  isPlaying: boolean;
+  currentTime: number;
+}
+
+/**
+ * Network cue mode (host): phones scan the show QR code and the server sends them the
+ * timeline cues while the show plays here, for venues where the ultrasound can't be heard
+ */
+export const useLightShowBroadcast = ({ showName, timelineItems, zones, duration, isPlaying, currentTime }: UseLightShowBroadcastProps) => {
+  const { toast } = useToast();
+  const { productionUrl } = useQRCodeGeneration();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [joinURL, setJoinURL] = useState<string | null>(null);
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+  const [networkState, setNetworkState] = useState<LightShowNetworkState | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const { estimate, serverNow } = useServerClock(sessionId !== null);
+  // Last position sent to the server, to tell seeks apart from regular playback
+  const transportRef = useRef<{ playing: boolean; position: number; sentAt: number }>({ playing: false, position: 0, sentAt: 0 });
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return unifiedWebSocketService.on('lightshow-state', (state: LightShowNetworkState) => {
+      if (state?.roomId === sessionId) {
+        setNetworkState(state);
+      }
+    });
+  }, [sessionId]);
+
+  const sendPlay = useCallback((roomId: string, position: number) => {
+    transportRef.current = { playing: true, position, sentAt: performance.now() };
+    unifiedWebSocketService.playLightShow(roomId, position, serverNow());
+  }, [serverNow]);
+
+  const sendPause = useCallback((roomId: string, position: number) => {
+    transportRef.current = { playing: false, position, sentAt: performance.now() };
+    unifiedWebSocketService.pauseLightShow(roomId, position);
+  }, []);
+
+  // Images go to the asset bucket: phones can't load the editor's data/blob URLs
+  const resolveMedia = useCallback(async (showId: string): Promise<TimelineItem[]> => {
+    if (!timelineItems.some(hasPublishableMedia)) return timelineItems;
+
+    const { manifest, references } = await lightShowAssetService.publishShow({ showId, showName, duration, timelineItems });
+    const assetUrl = (key?: string) => (key ? manifest.assets[key]?.url : undefined);
+
+    return timelineItems.map(item => {
+      const reference = references.get(item.id);
+      if (item.type === 'image' && item.imageUrl) {
+        return { ...item, imageUrl: assetUrl(reference?.asset) };
+      }
+      if (item.type === 'callToAction' && item.content) {
+        const entry = reference?.callToAction ? manifest.callsToAction[reference.callToAction] : undefined;
+        return { ...item, content: { ...item.content, imageUrl: assetUrl(entry?.asset) } };
+      }
+      return item;
+    });
+  }, [timelineItems, showName, duration]);
+
+  // Loads (or reloads after edits) the show; the server restarts it when it was playing
+  const loadShow = useCallback(async (roomId: string) => {
+    const items = await resolveMedia(roomId);
+    unifiedWebSocketService.loadLightShow(roomId, {
+      showId: roomId,
+      showName,
+      duration,
+      zones: zones.map(({ id, name, color }) => ({ id, name, color })),
+      items
+    });
+
+    if (isPlaying) sendPlay(roomId, currentTime);
+  }, [resolveMedia, showName, duration, zones, isPlaying, currentTime, sendPlay]);
+
+  const startBroadcast = useCallback(async () => {
+    if (timelineItems.length === 0) {
+      toast({ title: "Timeline vazia", description: "Adicione itens à timeline antes de transmitir.", variant: "destructive" });
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      // Reutiliza a sala já criada; sala nova sempre criada no backend (dono = host)
+      const roomId = sessionId || (await roomService.createRoom()).roomId;
+      const joinToken = roomService.getJoinToken(roomId)?.token ||
+        (await roomService.createJoinToken(roomId)).joinToken;
+      const url = `${productionUrl}/lightshow/play/${roomId}?token=${encodeURIComponent(joinToken)}`;
+
+      await unifiedWebSocketService.connect();
+      const hostAuth = await roomService.getHostAuth(roomId);
+      await unifiedWebSocketService.joinRoom(roomId, 'host', { role: 'host', hostAuth });
+
+      await loadShow(roomId);
+
+      setSessionId(roomId);
+      setJoinURL(url);
+      setQrCodeDataUrl(await QRCode.toDataURL(url, {
+        width: 256,
+        margin: 1,
+        color: {
+          dark: '#000000',
+          light: '#ffffff'
+        }
+      }));
+      console.log(`💡 LIGHTSHOW BROADCAST: Started in room ${roomId}`);
+
+      toast({
+        title: "Transmissão pela rede ativa",
+        description: "Os celulares que lerem o QR Code recebem o show enquanto ele toca aqui.",
+      });
+    } catch (error) {
+      console.error('❌ LIGHTSHOW BROADCAST: Start failed:', error);
+      toast({
+        title: "Erro ao transmitir pela rede",
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: "destructive"
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }, [timelineItems.length, sessionId, productionUrl, loadShow, toast]);
+
+  const updateShow = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      await loadShow(sessionId);
+      toast({ title: "Show atualizado", description: "Os celulares já recebem a timeline atual." });
+    } catch (error) {
+      console.error('❌ LIGHTSHOW BROADCAST: Update failed:', error);
+      toast({
+        title: "Erro ao atualizar o show",
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: "destructive"
+      });
+    }
+  }, [sessionId, loadShow, toast]);
+
+  const stopBroadcast = useCallback(() => {
+    if (!sessionId) return;
+
+    unifiedWebSocketService.stopLightShow(sessionId);
+    transportRef.current = { playing: false, position: 0, sentAt: performance.now() };
+  }, [sessionId]);
+
+  // The editor's playback drives the show: play, pause and seeks go to the server
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const transport = transportRef.current;
+    if (isPlaying !== transport.playing) {
+      if (isPlaying) sendPlay(sessionId, currentTime);
+      else sendPause(sessionId, currentTime);
+      return;
+    }
+
+    const expected = isPlaying
+      ? transport.position + (performance.now() - transport.sentAt) / 1000
+      : transport.position;
+    if (Math.abs(currentTime - expected) > SEEK_THRESHOLD_SECONDS) {
+      if (isPlaying) sendPlay(sessionId, currentTime);
+      else sendPause(sessionId, currentTime);
+    }
+  }, [sessionId, isPlaying, currentTime, sendPlay, sendPause]);
+
+  // The first clock estimate only arrives after the show is loaded: re-anchor a show already playing
+  const clockAnchoredRef = useRef(false);
+  useEffect(() => {
+    if (!estimate || !sessionId || clockAnchoredRef.current) return;
+
+    clockAnchoredRef.current = true;
+    const transport = transportRef.current;
+    if (transport.playing) {
+      sendPlay(sessionId, transport.position + (performance.now() - transport.sentAt) / 1000);
+    }
+  }, [estimate, sessionId, sendPlay]);
+
+  return {
+    sessionId,
+    joinURL,
+    qrCodeDataUrl,
+    networkState,
+    clockEstimate: estimate,
+    isStarting,
+    startBroadcast,
+    updateShow,
+    stopBroadcast
+  };
+};
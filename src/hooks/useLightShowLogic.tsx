@@ -1,8 +1,33 @@
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useToast } from "@/hooks/use-toast";
-import { TimelineItem, CallToActionType } from "@/types/lightshow";
-import { generateUltrasonicAudio, detectBeats, trimAudioFile } from "@/utils/audioProcessing";
+import { TimelineItem, AudioEditInfo, AudienceZone, BeatDetectionResult, CallToActionContent, LightShowProjectState } from "@/types/lightshow";
+import {
+  generateUltrasonicAudio,
+  buildUltrasonicPayload,
+  detectBeats,
+  trimAudioFile,
+  trimTimelineItems
+} from "@/utils/audioProcessing";
+import {
+  DEFAULT_MODEM_PROFILE,
+  MODEM_PROFILES,
+  ModemProfileId,
+  planTransmission,
+  suggestModemProfile
+} from "@/utils/ultrasonicModem";
+import { PublishedLightShow, hasPublishableMedia, lightShowAssetService } from "@/services/LightShowAssetService";
+import { useTimelineHistory } from "@/hooks/useTimelineHistory";
+import {
+  cloneItemsAt,
+  hasImageOverlap,
+  placeWithoutImageOverlap,
+  removeItemsClosingGaps,
+  shiftItems
+} from "@/utils/timelineEditing";
+import { createZone, pruneItemZones } from "@/utils/audienceZones";
+
+const PLACEHOLDER_SHOW_ID = '00000000-0000-0000-0000-000000000000';
 
 export function useLightShowLogic() {
   const { toast } = useToast();
@@ -12,25 +37,78 @@ export function useLightShowLogic() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [timelineItems, setTimelineItems] = useState<TimelineItem[]>([]);
-  const [selectedItemIndex, setSelectedItemIndex] = useState<number | null>(null);
+  const timelineHistory = useTimelineHistory();
+  const { timelineItems, zones, commit: commitTimeline, commitShow, reset: resetTimeline } = timelineHistory;
+  // Ids of the selected items; the last one is the item shown in the properties panel
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [clipboard, setClipboard] = useState<TimelineItem[]>([]);
+  const [beats, setBeats] = useState<number[]>([]);
   const [autoSync, setAutoSync] = useState(true);
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
-  const [callToAction, setCallToAction] = useState<{
-    type: CallToActionType;
-    imageUrl?: string;
-    buttonText?: string;
-    externalUrl?: string;
-    couponCode?: string;
-  }>({
+  const [callToAction, setCallToAction] = useState<CallToActionContent>({
     type: 'image'
   });
-  const [audioEditInfo, setAudioEditInfo] = useState({
+  const [modemProfile, setModemProfile] = useState<ModemProfileId>(DEFAULT_MODEM_PROFILE);
+  const [audioEditInfo, setAudioEditInfo] = useState<AudioEditInfo>({
     startTrim: 0,
     endTrim: 0,
+    fadeIn: 0,
+    fadeOut: 0,
   });
   
   const imageSelector = useRef<HTMLDivElement>(null);
+  
+  const selectedItems = timelineItems.filter(item => selectedItemIds.includes(item.id));
+
+  // Payload size for the capacity warning; the show ID published on export has the same length
+  const payloadBytes = useMemo(() => {
+    if (!timelineItems.length || !duration) return 0;
+    const showId = timelineItems.some(hasPublishableMedia) ? PLACEHOLDER_SHOW_ID : undefined;
+    return buildUltrasonicPayload(timelineItems, { showId, showName, zones }, duration).length;
+  }, [timelineItems, showName, zones, duration]);
+  const transmissionPlan = payloadBytes ? planTransmission(payloadBytes, MODEM_PROFILES[modemProfile], duration) : null;
+  const suggestedModemProfile = payloadBytes ? suggestModemProfile(payloadBytes, duration) : null;
+  const primaryIndex = timelineItems.findIndex(item => item.id === selectedItemIds[selectedItemIds.length - 1]);
+  const selectedItemIndex = primaryIndex === -1 ? null : primaryIndex;
+  
+  const setSelectedItemIndex = (index: number | null) => {
+    const item = index !== null ? timelineItems[index] : undefined;
+    setSelectedItemIds(item ? [item.id] : []);
+  };
+  
+  // One beat analysis per audio file, shared by the snapping grid and auto-sync
+  const beatAnalysisRef = useRef<{ file: File; result: Promise<BeatDetectionResult> } | null>(null);
+  
+  const analyzeAudioBeats = useCallback((file: File) => {
+    if (beatAnalysisRef.current?.file !== file) {
+      const result = detectBeats(file);
+      beatAnalysisRef.current = { file, result };
+      // A failed analysis is not cached, so the next request tries again
+      result.catch(() => {
+        if (beatAnalysisRef.current?.result === result) beatAnalysisRef.current = null;
+      });
+    }
+    return beatAnalysisRef.current.result;
+  }, []);
+  
+  // Beat grid used for snapping, detected in the background for every new audio
+  useEffect(() => {
+    if (!audioFile) {
+      setBeats([]);
+      return;
+    }
+    
+    let cancelled = false;
+    analyzeAudioBeats(audioFile)
+      .then(result => {
+        if (!cancelled) setBeats(result.beats);
+      })
+      .catch(error => console.warn("Beat grid detection failed:", error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [audioFile, analyzeAudioBeats]);
 
   const handleAudioUpload = (file: File) => {
     setAudioFile(file);
@@ -43,7 +121,7 @@ export function useLightShowLogic() {
       description: `${file.name} foi carregado com sucesso.`,
     });
     
-    setTimelineItems([]);
+    resetTimeline([]);
     setCurrentTime(0);
   };
   
@@ -62,10 +140,9 @@ export function useLightShowLogic() {
       description: "Processando o áudio e criando um show de luzes...",
     });
     
-    const nonFlashlightItems = timelineItems.filter(item => item.type !== 'flashlight');
-    
     try {
-      const { beats, bassBeats, trebleBeats } = await detectBeats(audioFile);
+      const { beats, bassBeats, trebleBeats, tempo } = await analyzeAudioBeats(audioFile);
+      setBeats(beats);
       
       const newPatterns: TimelineItem[] = [];
       const totalSeconds = Math.ceil(duration);
@@ -104,8 +181,14 @@ export function useLightShowLogic() {
           blinkRate = 100;
         }
         
-        const isNearBeat = beats.some(b => Math.abs(b - time) < 0.2);
-        const isNearBassBeat = bassBeats.some(b => Math.abs(b - time) < 0.2);
+        // Encaixa o flash na batida detectada mais próxima
+        const nearestBeat = beats.reduce<number | null>(
+          (closest, b) => (closest === null || Math.abs(b - time) < Math.abs(closest - time) ? b : closest),
+          null
+        );
+        const isNearBeat = nearestBeat !== null && Math.abs(nearestBeat - time) < 0.2;
+        const flashTime = isNearBeat ? nearestBeat : time;
+        const isNearBassBeat = bassBeats.some(b => Math.abs(b - flashTime) < 0.2);
         
         let intensity = isNearBeat ? 90 : 70;
         if (isNearBassBeat) intensity = 100;
@@ -117,7 +200,7 @@ export function useLightShowLogic() {
         newPatterns.push({
           id: `flash-regular-${Date.now()}-${time.toFixed(2)}`,
           type: 'flashlight',
-          startTime: time,
+          startTime: flashTime,
           duration: flashDuration,
           pattern: {
             intensity: intensity,
@@ -261,11 +344,15 @@ export function useLightShowLogic() {
       
       const finalSortedPatterns = [...gapFilledPatterns].sort((a, b) => a.startTime - b.startTime);
       
-      setTimelineItems([...nonFlashlightItems, ...finalSortedPatterns]);
+      // One undo step restores every flashlight item the run replaced
+      commitTimeline("Sincronização automática", prev => [
+        ...prev.filter(item => item.type !== 'flashlight'),
+        ...finalSortedPatterns
+      ]);
       
       toast({
         title: "Show de luzes criado!",
-        description: "Um show de luzes foi sincronizado com as batidas da música.",
+        description: `Um show de luzes foi sincronizado com as batidas da música (${Math.round(tempo)} BPM).`,
       });
     } catch (error) {
       console.error("Error generating auto-sync patterns:", error);
@@ -323,7 +410,7 @@ export function useLightShowLogic() {
       }
     }
     
-    setTimelineItems(prevItems => [...prevItems, newImage]);
+    commitTimeline("Adicionar imagem", prevItems => [...prevItems, newImage]);
     
     console.log(`Added image to timeline: ${imageUrl} at ${actualStartTime}s with duration ${duration}s`);
   };
@@ -365,7 +452,7 @@ export function useLightShowLogic() {
       });
     });
     
-    setTimelineItems(updatedTimelineItems);
+    commitTimeline("Adicionar imagens", updatedTimelineItems);
     
     toast({
       title: "Imagens adicionadas",
@@ -397,49 +484,111 @@ export function useLightShowLogic() {
       }
     };
     
-    setTimelineItems([...timelineItems, newPattern]);
+    commitTimeline("Adicionar lanterna", prev => [...prev, newPattern]);
   };
   
   const updateTimelineItem = (id: string, updates: Partial<TimelineItem>) => {
-    setTimelineItems(timelineItems.map(item => 
+    // Repeated edits of the same fields (drag, resize, sliders) coalesce into one undo step
+    const coalesceKey = `update:${id}:${Object.keys(updates).sort().join(',')}`;
+    commitTimeline("Editar item", prev => prev.map(item => 
       item.id === id ? { ...item, ...updates } : item
-    ));
+    ), coalesceKey);
+  };
+  
+  // Applies several item updates as one step; repeated moves of the same group coalesce
+  const updateTimelineItems = (updates: Record<string, Partial<TimelineItem>>, label = "Mover itens") => {
+    const ids = Object.keys(updates).sort();
+    if (ids.length === 0) return;
+    
+    const fields = [...new Set(ids.flatMap(id => Object.keys(updates[id])))].sort();
+    commitTimeline(label, prev => prev.map(item => 
+      updates[item.id] ? { ...item, ...updates[item.id] } : item
+    ), `update:${ids.join(',')}:${fields.join(',')}`);
+  };
+  
+  const removeTimelineItems = (ids: string[], label = ids.length > 1 ? "Remover itens" : "Remover item") => {
+    if (ids.length === 0) return;
+    commitTimeline(label, prev => removeItemsClosingGaps(prev, ids));
+    setSelectedItemIds([]);
   };
   
   const removeTimelineItem = (id: string) => {
-    const itemToRemove = timelineItems.find(item => item.id === id);
-    
-    if (itemToRemove?.type === 'image') {
-      const imageItems = timelineItems.filter(item => item.type === 'image');
-      const removedIndex = imageItems.findIndex(item => item.id === id);
-      
-      if (removedIndex !== -1) {
-        const followingImages = imageItems.slice(removedIndex + 1);
-        
-        if (followingImages.length > 0) {
-          const gap = itemToRemove.duration;
-          
-          setTimelineItems(prev => {
-            const withoutRemoved = prev.filter(item => item.id !== id);
-            
-            return withoutRemoved.map(item => {
-              if (item.type === 'image' && followingImages.some(img => img.id === item.id)) {
-                return {
-                  ...item,
-                  startTime: item.startTime - gap
-                };
-              }
-              return item;
-            });
-          });
-          
-          return;
-        }
-      }
-    }
+    removeTimelineItems([id]);
+  };
+  
+  const selectAllItems = () => {
+    setSelectedItemIds(timelineItems.map(item => item.id));
+  };
+  
+  const copySelection = () => {
+    if (selectedItems.length === 0) return;
+    setClipboard(selectedItems);
+  };
+  
+  const cutSelection = () => {
+    if (selectedItems.length === 0) return;
+    setClipboard(selectedItems);
+    removeTimelineItems(selectedItems.map(item => item.id), "Recortar itens");
+  };
+  
+  const insertCopies = (source: TimelineItem[], startTime: number, label: string) => {
+    const copies = placeWithoutImageOverlap(timelineItems, cloneItemsAt(source, startTime));
+    if (copies.length === 0) return;
     
-    setTimelineItems(timelineItems.filter(item => item.id !== id));
-    setSelectedItemIndex(null);
+    commitTimeline(label, prev => [...prev, ...copies]);
+    setSelectedItemIds(copies.map(item => item.id));
+  };
+  
+  // Pastes at the playhead
+  const pasteClipboard = (startTime = currentTime) => {
+    insertCopies(clipboard, startTime, "Colar itens");
+  };
+  
+  // Duplicates right after the end of the selection
+  const duplicateSelection = () => {
+    if (selectedItems.length === 0) return;
+    const selectionEnd = Math.max(...selectedItems.map(item => item.startTime + item.duration));
+    insertCopies(selectedItems, selectionEnd, "Duplicar itens");
+  };
+  
+  const nudgeSelection = (delta: number) => {
+    const { delta: applied, items: moved } = shiftItems(selectedItems, delta, duration);
+    if (applied === 0 || hasImageOverlap(timelineItems, moved)) return;
+    
+    updateTimelineItems(
+      Object.fromEntries(moved.map(item => [item.id, { startTime: item.startTime }])),
+      "Deslocar itens"
+    );
+  };
+  
+  const addZone = () => {
+    commitShow("Adicionar zona", show => ({ ...show, zones: [...show.zones, createZone(show.zones)] }));
+  };
+  
+  const updateZone = (id: string, updates: Partial<AudienceZone>) => {
+    commitShow("Editar zona", show => ({
+      ...show,
+      zones: show.zones.map(zone => zone.id === id ? { ...zone, ...updates } : zone)
+    }), `zone:${id}:${Object.keys(updates).sort().join(',')}`);
+  };
+  
+  // The zone and the item references to it go in one step, so undo brings both back
+  const removeZone = (id: string) => {
+    commitShow("Remover zona", show => {
+      const remaining = show.zones.filter(zone => zone.id !== id);
+      // Items that only targeted this zone go back to every phone
+      const items = show.items.some(item => item.zones?.includes(id)) ? pruneItemZones(show.items, remaining) : show.items;
+      return { items, zones: remaining };
+    });
+  };
+  
+  // Targets every selected item at the given zones (empty = every phone)
+  const setSelectionZones = (zoneIds: string[]) => {
+    if (selectedItems.length === 0) return;
+    updateTimelineItems(
+      Object.fromEntries(selectedItems.map(item => [item.id, { zones: zoneIds.length ? zoneIds : undefined }])),
+      "Definir zonas"
+    );
   };
   
   const handlePlayPause = () => {
@@ -456,6 +605,18 @@ export function useLightShowLogic() {
       return;
     }
     
+    if (transmissionPlan && !transmissionPlan.fits) {
+      if (window.resetGeneratingState) {
+        window.resetGeneratingState();
+      }
+      toast({
+        title: "Timeline grande demais para a música",
+        description: `Os dados precisam de ${Math.ceil(transmissionPlan.seconds)}s no perfil ${MODEM_PROFILES[modemProfile].label}, mas o áudio tem ${Math.floor(transmissionPlan.availableSeconds)}s.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
     toast({
       title: "Gerando arquivo...",
       description: "Processando áudio e padrões ultrassônicos.",
@@ -473,37 +634,33 @@ export function useLightShowLogic() {
       };
       console.log("Item types breakdown:", itemTypes);
       
-      // Create a safe copy of the timelineItems with sanitized image URLs
-      // This is critical for preventing circular references and data URI issues
-      const sanitizedTimelineItems = timelineItems.map(item => {
-        if (item.type === 'image' && item.imageUrl) {
-          console.log(`Sanitizing image URL for item ${item.id.substring(0, 8)}...`);
-          
-          // Create a simplified reference to the image instead of the full data URI
-          return {
-            ...item,
-            imageUrl: `img-ref:${item.id}`
-          };
-        } else if (item.type === 'callToAction' && item.content?.imageUrl) {
-          console.log(`Sanitizing CTA image URL for item ${item.id.substring(0, 8)}...`);
-          
-          // Create a simplified version with safe image references
-          return {
-            ...item,
-            content: {
-              ...item.content,
-              imageUrl: `cta-img-ref:${item.id}`
-            }
-          };
+      // Images go to the asset bucket and the WAV only carries the show ID and short keys.
+      // Shows without images need no manifest (and no login): their content goes inline.
+      let published: PublishedLightShow | null = null;
+      if (timelineItems.some(hasPublishableMedia)) {
+        const showId = crypto.randomUUID();
+        console.log(`Publishing show assets for ${showId}...`);
+        try {
+          published = await lightShowAssetService.publishShow({ showId, showName, duration, timelineItems });
+          console.log(`Manifest published: ${published.manifestUrl} (${Object.keys(published.manifest.assets).length} assets)`);
+        } catch (publishError) {
+          console.warn("Publishing show assets failed, exporting without images:", publishError);
+          toast({
+            title: "Imagens não publicadas",
+            description: `${publishError instanceof Error ? publishError.message : "Erro ao publicar"}. O arquivo será gerado sem as imagens.`,
+            variant: "destructive"
+          });
         }
-        return item;
-      });
-      
-      console.log("Timeline items sanitized successfully for processing");
+      }
       
-      // Generate the ultrasonic audio with the sanitized timeline items
       console.log("Calling generateUltrasonicAudio...");
-      const blob = await generateUltrasonicAudio(audioFile, sanitizedTimelineItems);
+      const blob = await generateUltrasonicAudio(audioFile, timelineItems, {
+        showId: published?.manifest.showId,
+        showName,
+        references: published?.references,
+        zones,
+        modemProfile
+      });
       
       if (!blob || blob.size === 0) {
         throw new Error("Generated WAV file is empty");
@@ -584,7 +741,9 @@ export function useLightShowLogic() {
             
             toast({
               title: "Arquivo gerado com sucesso",
-              description: "O arquivo .WAV com sinais ultrassônicos foi baixado.",
+              description: published
+                ? `O arquivo .WAV com sinais ultrassônicos foi baixado. Show ${published.manifest.showId.slice(0, 8)} publicado com ${Object.keys(published.manifest.assets).length} imagem(ns).`
+                : "O arquivo .WAV com sinais ultrassônicos foi baixado.",
             });
           }, 1000);
         }, 100);
@@ -605,12 +764,28 @@ export function useLightShowLogic() {
     }
   };
 
+  // Replaces the whole editor state with a saved project (see useLightShowProject)
+  const loadProjectState = useCallback((project: LightShowProjectState) => {
+    setAudioFile(project.audioFile);
+    setAudioUrl(previousUrl => {
+      if (previousUrl) URL.revokeObjectURL(previousUrl);
+      return project.audioFile ? URL.createObjectURL(project.audioFile) : null;
+    });
+    setShowName(project.showName);
+    resetTimeline(project.timelineItems, project.zones);
+    setCallToAction(project.callToAction);
+    setSelectedItemIds([]);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    if (!project.audioFile) setDuration(0);
+  }, [resetTimeline]);
+
   const handleReset = () => {
-    if (window.confirm("Tem certeza que deseja resetar todo o projeto? Todas as edições serão perdidas.")) {
-      setTimelineItems([]);
+    if (window.confirm("Tem certeza que deseja resetar todo o projeto? Todos os itens da timeline serão removidos (Ctrl+Z desfaz).")) {
+      commitTimeline("Resetar timeline", []);
       setCurrentTime(0);
       setIsPlaying(false);
-      setSelectedItemIndex(null);
+      setSelectedItemIds([]);
       
       toast({
         title: "Projeto resetado",
@@ -646,7 +821,7 @@ export function useLightShowLogic() {
       content: callToAction
     };
     
-    setTimelineItems(prev => {
+    commitTimeline("Adicionar chamada", prev => {
       const filteredItems = prev.filter(item => item.type !== 'callToAction');
       return [...filteredItems, newCta];
     });
@@ -657,7 +832,10 @@ export function useLightShowLogic() {
     });
   };
   
-  const trimAudio = async () => {
+  const trimAudio = async (range?: Pick<AudioEditInfo, 'startTrim' | 'endTrim'>) => {
+    const startTrim = range?.startTrim ?? audioEditInfo.startTrim;
+    const endTrim = (range?.endTrim ?? audioEditInfo.endTrim) || duration;
+
     if (!audioFile) {
       toast({
         title: "Erro",
@@ -667,7 +845,7 @@ export function useLightShowLogic() {
       return;
     }
     
-    if (audioEditInfo.endTrim <= audioEditInfo.startTrim) {
+    if (endTrim <= startTrim) {
       toast({
         title: "Erro",
         description: "O tempo final deve ser maior que o tempo inicial.",
@@ -682,21 +860,33 @@ export function useLightShowLogic() {
     });
     
     try {
-      const trimmedAudio = await trimAudioFile(
-        audioFile, 
-        audioEditInfo.startTrim, 
-        audioEditInfo.endTrim || duration
-      );
+      const trimmedAudio = await trimAudioFile(audioFile, startTrim, endTrim, {
+        fadeIn: audioEditInfo.fadeIn,
+        fadeOut: audioEditInfo.fadeOut
+      });
       
       const newFile = new File([trimmedAudio], `${audioFile.name.split('.')[0]}_trimmed.wav`, {
         type: 'audio/wav'
       });
       
-      handleAudioUpload(newFile);
+      // Mantém a timeline: itens são deslocados e recortados para o novo trecho
+      const trimmedItems = trimTimelineItems(timelineItems, startTrim, endTrim);
+      const removedCount = timelineItems.length - trimmedItems.length;
+      
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      setAudioFile(newFile);
+      setAudioUrl(URL.createObjectURL(newFile));
+      // The trimmed audio can't be undone, so the history starts over
+      resetTimeline(trimmedItems);
+      setSelectedItemIds([]);
+      setCurrentTime(0);
+      setAudioEditInfo({ ...audioEditInfo, startTrim: 0, endTrim: 0 });
       
       toast({
         title: "Áudio editado",
-        description: "O áudio foi cortado com sucesso.",
+        description: removedCount > 0
+          ? `O áudio foi cortado com sucesso. ${removedCount} item(ns) fora do trecho foram removidos da timeline.`
+          : "O áudio foi cortado com sucesso.",
       });
     } catch (error) {
       console.error("Error trimming audio:", error);
@@ -718,8 +908,15 @@ export function useLightShowLogic() {
     duration,
     timelineItems,
     selectedItemIndex,
+    selectedItemIds,
+    beats,
+    clipboard,
     selectedImages,
     callToAction,
+    zones,
+    modemProfile,
+    transmissionPlan,
+    suggestedModemProfile,
     audioEditInfo,
     imageSelector,
     handleAudioUpload,
@@ -729,16 +926,32 @@ export function useLightShowLogic() {
     addFlashlightPattern,
     updateTimelineItem,
     removeTimelineItem,
+    updateTimelineItems,
+    removeTimelineItems,
+    selectAllItems,
+    copySelection,
+    cutSelection,
+    pasteClipboard,
+    duplicateSelection,
+    nudgeSelection,
+    addZone,
+    updateZone,
+    removeZone,
+    setSelectionZones,
+    setModemProfile,
     handlePlayPause,
     handleGenerateFile,
     handleReset,
     setCurrentTime,
     setDuration,
     setSelectedItemIndex,
+    setSelectedItemIds,
     setSelectedImages,
     setCallToActionContent,
     addCallToActionToTimeline,
     setAudioEditInfo,
-    trimAudio
+    trimAudio,
+    loadProjectState,
+    timelineHistory
   };
 }
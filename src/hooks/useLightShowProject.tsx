@@ -0,0 +1,243 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { useToast } from "@/hooks/use-toast";
+import {
+  LightShowProjectState,
+  LightShowProjectSummary,
+  LightShowProjectVersion
+} from "@/types/lightshow";
+import {
+  PackedProject,
+  PROJECT_FILE_EXTENSION,
+  lightShowProjectService
+} from "@/services/LightShowProjectService";
+
+const AUTOSAVE_DELAY = 1500;
+
+export type ProjectLocation = 'local' | 'cloud';
+
+const EMPTY_PROJECT: LightShowProjectState = {
+  showName: "Meu Show de Luzes",
+  audioFile: null,
+  timelineItems: [],
+  callToAction: { type: 'image' },
+  zones: []
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Save/open of light-show projects: autosave to IndexedDB, optional Supabase copy,
+ * named versions and .lightshow.json files with the media embedded
+ */
+export function useLightShowProject(
+  state: LightShowProjectState,
+  loadProjectState: (project: LightShowProjectState) => void
+) {
+  const { toast } = useToast();
+  const [projectId, setProjectId] = useState(() => lightShowProjectService.getLastProjectId() ?? crypto.randomUUID());
+  const [autosavedAt, setAutosavedAt] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [projects, setProjects] = useState<LightShowProjectSummary[]>([]);
+  const [versions, setVersions] = useState<LightShowProjectVersion[]>([]);
+  const createdAtRef = useRef(new Date().toISOString());
+  const skipNextAutosaveRef = useRef(false);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const packCurrent = useCallback(
+    () => lightShowProjectService.packProject(stateRef.current, { id: projectId, createdAt: createdAtRef.current }),
+    [projectId]
+  );
+
+  const applyProject = useCallback((packed: PackedProject) => {
+    createdAtRef.current = packed.project.createdAt;
+    skipNextAutosaveRef.current = true;
+    setProjectId(packed.project.id);
+    setAutosavedAt(packed.project.updatedAt);
+    loadProjectState(lightShowProjectService.unpackProject(packed));
+  }, [loadProjectState]);
+
+  // Reopens the last project after a refresh
+  useEffect(() => {
+    let cancelled = false;
+    const lastProjectId = lightShowProjectService.getLastProjectId();
+
+    if (!lastProjectId) {
+      setIsRestoring(false);
+      return;
+    }
+
+    lightShowProjectService.loadLocal(lastProjectId)
+      .then(packed => {
+        if (!cancelled && packed) {
+          applyProject(packed);
+          console.log(`📂 LIGHTSHOW PROJECT: Restored "${packed.project.showName}" from autosave`);
+        }
+      })
+      .catch(error => console.warn('⚠️ LIGHTSHOW PROJECT: Could not restore autosave:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyProject]);
+
+  // Autosave (debounce) a cada alteração do projeto
+  useEffect(() => {
+    if (isRestoring) return;
+    if (skipNextAutosaveRef.current) {
+      skipNextAutosaveRef.current = false;
+      return;
+    }
+    if (!state.audioFile && state.timelineItems.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const packed = await packCurrent();
+        await lightShowProjectService.saveLocal(packed);
+        setAutosavedAt(packed.project.updatedAt);
+      } catch (error) {
+        console.warn('⚠️ LIGHTSHOW PROJECT: Autosave failed:', error);
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [state.showName, state.audioFile, state.timelineItems, state.callToAction, state.zones, isRestoring, packCurrent]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [signedIn, local] = await Promise.all([
+        lightShowProjectService.isSignedIn(),
+        lightShowProjectService.listLocal()
+      ]);
+      const cloud = signedIn ? await lightShowProjectService.listCloud() : [];
+
+      setIsSignedIn(signedIn);
+      setProjects([...local, ...cloud]);
+      setVersions(await lightShowProjectService.listVersions(projectId));
+    } catch (error) {
+      console.warn('⚠️ LIGHTSHOW PROJECT: Could not list projects:', error);
+    }
+  }, [projectId]);
+
+  // Runs an action with the busy flag and an error toast
+  const run = useCallback(async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      console.error(`❌ LIGHTSHOW PROJECT: ${title}:`, error);
+      toast({ title, description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refresh, toast]);
+
+  const saveProject = useCallback((location: ProjectLocation) => run("Erro ao salvar projeto", async () => {
+    const packed = await packCurrent();
+    await lightShowProjectService.saveLocal(packed);
+    if (location === 'cloud') {
+      await lightShowProjectService.saveCloud(packed);
+    }
+    setAutosavedAt(packed.project.updatedAt);
+    toast({
+      title: "Projeto salvo",
+      description: location === 'cloud' ? "Salvo na sua conta e neste navegador." : "Salvo neste navegador."
+    });
+  }), [packCurrent, run, toast]);
+
+  const saveVersion = useCallback((label: string, location: ProjectLocation) => run("Erro ao salvar versão", async () => {
+    const name = label.trim() || new Date().toLocaleString();
+    await lightShowProjectService.saveVersion(await packCurrent(), name, location);
+    toast({ title: "Versão salva", description: `"${name}" pode ser restaurada a qualquer momento.` });
+  }), [packCurrent, run, toast]);
+
+  const restoreVersion = useCallback((version: LightShowProjectVersion) => run("Erro ao restaurar versão", async () => {
+    const packed = await lightShowProjectService.loadVersion(version);
+    applyProject(packed);
+    await lightShowProjectService.saveLocal({ ...packed, project: { ...packed.project, updatedAt: new Date().toISOString() } });
+    toast({ title: "Versão restaurada", description: `"${version.label}" está aberta no editor.` });
+  }), [applyProject, run, toast]);
+
+  const openProject = useCallback((summary: LightShowProjectSummary) => run("Erro ao abrir projeto", async () => {
+    const packed = summary.location === 'cloud'
+      ? await lightShowProjectService.loadCloud(summary.id)
+      : await lightShowProjectService.loadLocal(summary.id);
+    if (!packed) throw new Error('Projeto não encontrado');
+
+    applyProject(packed);
+    // A cópia local vira o autosave do projeto aberto
+    await lightShowProjectService.saveLocal(packed);
+    toast({ title: "Projeto aberto", description: packed.project.showName });
+  }), [applyProject, run, toast]);
+
+  const deleteProject = useCallback((summary: LightShowProjectSummary) => run("Erro ao excluir projeto", async () => {
+    if (summary.location === 'cloud') {
+      await lightShowProjectService.deleteCloud(summary.id);
+    } else {
+      await lightShowProjectService.deleteLocal(summary.id);
+    }
+    toast({ title: "Projeto excluído", description: summary.showName });
+  }), [run, toast]);
+
+  const newProject = useCallback(() => {
+    const nextProjectId = crypto.randomUUID();
+    createdAtRef.current = new Date().toISOString();
+    skipNextAutosaveRef.current = true;
+    // Recarregar a página abre o projeto novo (vazio), não o anterior
+    lightShowProjectService.setLastProjectId(nextProjectId);
+    lightShowProjectService.releaseProjectMedia();
+    setProjectId(nextProjectId);
+    setAutosavedAt(null);
+    setVersions([]);
+    loadProjectState(EMPTY_PROJECT);
+  }, [loadProjectState]);
+
+  const downloadProjectFile = useCallback(() => run("Erro ao exportar projeto", async () => {
+    const blob = await lightShowProjectService.exportFile(await packCurrent());
+    const safeName = stateRef.current.showName.replace(/[^\w\s-]/gi, '').trim().replace(/\s+/g, '_') || 'projeto';
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${safeName}${PROJECT_FILE_EXTENSION}`;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+
+    setTimeout(() => {
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }, 100);
+  }), [packCurrent, run]);
+
+  const openProjectFile = useCallback((file: File) => run("Erro ao abrir arquivo", async () => {
+    const packed = await lightShowProjectService.importFile(file);
+    applyProject(packed);
+    await lightShowProjectService.saveLocal(packed);
+    toast({ title: "Projeto aberto", description: `${packed.project.showName} (${file.name})` });
+  }), [applyProject, run, toast]);
+
+  return {
+    projectId,
+    autosavedAt,
+    isRestoring,
+    isBusy,
+    isSignedIn,
+    projects,
+    versions,
+    refresh,
+    saveProject,
+    saveVersion,
+    restoreVersion,
+    openProject,
+    deleteProject,
+    newProject,
+    downloadProjectFile,
+    openProjectFile
+  };
+}
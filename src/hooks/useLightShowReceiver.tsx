@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef } from 'react';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { roomService } from '@/services/RoomService';
+import { useServerClock } from '@/hooks/useServerClock';
+import { detectMobile } from '@/utils/media/deviceDetection';
+import { detectBrowserType } from '@/utils/sessionUtils';
+import { filterItemsForZones } from '@/utils/audienceZones';
+import { evaluateFlashlight, FlashlightState } from '@/utils/flashlightEffects';
+import {
+  CallToActionContent,
+  LightShowCueBatch,
+  LightShowNetworkShow,
+  LightShowNetworkState,
+  TimelineItem
+} from '@/types/lightshow';
+
+export type LightShowReceiverStatus = 'idle' | 'joining' | 'joined' | 'error';
+
+interface ScheduledCue {
+  at: number;         // Server time (ms) the item starts
+  item: TimelineItem;
+}
+
+// What the screen shows at a given instant
+export interface LightShowFrame {
+  flashlight: FlashlightState | null;
+  imageUrl: string | null;
+  backgroundColor: string;
+  callToAction: (CallToActionContent & { id: string }) | null;
+}
+
+const EMPTY_FRAME: LightShowFrame = { flashlight: null, imageUrl: null, backgroundColor: '#000000', callToAction: null };
+
+const sameFrame = (a: LightShowFrame, b: LightShowFrame) =>
+  a.imageUrl === b.imageUrl &&
+  a.backgroundColor === b.backgroundColor &&
+  a.callToAction?.id === b.callToAction?.id &&
+  a.flashlight?.intensity === b.flashlight?.intensity &&
+  a.flashlight?.color === b.flashlight?.color &&
+  a.flashlight?.screen === b.flashlight?.screen;
+
+// Same precedence as the editor preview: a call to action covers everything, the last item wins
+const renderFrame = (cues: ScheduledCue[], now: number): LightShowFrame => {
+  const active = cues.filter(({ at, item }) => now >= at && now < at + item.duration * 1000);
+  if (active.length === 0) return EMPTY_FRAME;
+
+  const callToAction = active.filter(({ item }) => item.type === 'callToAction' && item.content).pop();
+  if (callToAction?.item.content) {
+    return { ...EMPTY_FRAME, callToAction: { ...callToAction.item.content, id: callToAction.item.id } };
+  }
+
+  const frame = { ...EMPTY_FRAME };
+  active.forEach(({ item }) => {
+    if (item.type !== 'image') return;
+    if (item.imageUrl) frame.imageUrl = item.imageUrl;
+    else if (item.backgroundColor) frame.backgroundColor = item.backgroundColor;
+  });
+
+  const flashlight = active.filter(({ item }) => item.type === 'flashlight' && item.pattern).pop();
+  if (flashlight?.item.pattern) {
+    frame.flashlight = evaluateFlashlight(flashlight.item.pattern, (now - flashlight.at) / 1000, flashlight.item.duration);
+  }
+
+  return frame;
+};
+
+interface UseLightShowReceiverProps {
+  sessionId: string | undefined;
+  participantId: string;
+  zoneIds: string[];
+  enabled: boolean;
+}
+
+/**
+ * Phone side of the network cue mode: joins the show room, keeps its clock in step with
+ * the server and renders each cue at the server time it was scheduled for
+ */
+export const useLightShowReceiver = ({ sessionId, participantId, zoneIds, enabled }: UseLightShowReceiverProps) => {
+  const [status, setStatus] = useState<LightShowReceiverStatus>('idle');
+  const [errorCode, setErrorCode] = useState<string | undefined>();
+  const [show, setShow] = useState<LightShowNetworkShow | null>(null);
+  const [networkState, setNetworkState] = useState<LightShowNetworkState | null>(null);
+  const [frame, setFrame] = useState<LightShowFrame>(EMPTY_FRAME);
+  const cuesRef = useRef<ScheduledCue[]>([]);
+  const startedAtRef = useRef<number | null>(null);
+  const { estimate, isSynced, serverNow } = useServerClock(status === 'joined');
+
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    let cancelled = false;
+    // Registrados antes do join: o servidor envia o show e os cues em andamento logo após a entrada
+    const unsubscribeShow = unifiedWebSocketService.on('lightshow-show', (data: LightShowNetworkShow) => {
+      if (cancelled || data?.roomId !== sessionId) return;
+      cuesRef.current = [];
+      setShow(data);
+    });
+
+    const unsubscribeState = unifiedWebSocketService.on('lightshow-state', (state: LightShowNetworkState) => {
+      if (cancelled || state?.roomId !== sessionId) return;
+
+      // Pause, stop or a new start point: the server resends what is still due
+      if (state.status !== 'playing' || state.startedAt !== startedAtRef.current) {
+        cuesRef.current = [];
+      }
+      startedAtRef.current = state.startedAt;
+      setNetworkState(state);
+    });
+
+    const unsubscribeCues = unifiedWebSocketService.on('lightshow-cues', (batch: LightShowCueBatch) => {
+      if (cancelled || batch?.roomId !== sessionId) return;
+
+      const known = new Set(cuesRef.current.map(cue => `${cue.item.id}@${cue.at}`));
+      const incoming = batch.cues.filter(cue => !known.has(`${cue.item.id}@${cue.at}`));
+      cuesRef.current = [...cuesRef.current, ...incoming];
+    });
+
+    setStatus('joining');
+    unifiedWebSocketService.joinRoom(sessionId, participantId, {
+      joinToken: roomService.getJoinToken(sessionId)?.token,
+      browserType: detectBrowserType(),
+      isMobile: detectMobile()
+    })
+      .then(() => {
+        console.log('💡 LIGHTSHOW RECEIVER: Joined show room');
+        if (!cancelled) setStatus('joined');
+      })
+      .catch((error: { code?: string }) => {
+        console.error('❌ LIGHTSHOW RECEIVER: Join failed:', error);
+        if (cancelled) return;
+        setErrorCode(error?.code);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribeShow();
+      unsubscribeState();
+      unsubscribeCues();
+    };
+  }, [sessionId, participantId, enabled]);
+
+  // Frame loop on the server clock; finished cues are dropped as it goes
+  useEffect(() => {
+    if (networkState?.status !== 'playing') {
+      setFrame(EMPTY_FRAME);
+      return;
+    }
+
+    let frameId: number;
+    const animate = () => {
+      const now = serverNow();
+      cuesRef.current = cuesRef.current.filter(({ at, item }) => at + item.duration * 1000 > now);
+
+      const visible = cuesRef.current.filter(cue => filterItemsForZones([cue.item], zoneIds).length > 0);
+      const next = renderFrame(visible, now);
+      setFrame(previous => (sameFrame(previous, next) ? previous : next));
+      frameId = window.requestAnimationFrame(animate);
+    };
+
+    frameId = window.requestAnimationFrame(animate);
+    return () => window.cancelAnimationFrame(frameId);
+  }, [networkState?.status, zoneIds, serverNow]);
+
+  // Mantém a tela acesa durante o show (quando o navegador suporta)
+  useEffect(() => {
+    if (status !== 'joined' || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+    navigator.wakeLock.request('screen')
+      .then(lock => {
+        if (released) lock.release();
+        else sentinel = lock;
+      })
+      .catch(error => console.warn('⚠️ LIGHTSHOW RECEIVER: Wake lock unavailable:', error));
+
+    return () => {
+      released = true;
+      sentinel?.release();
+    };
+  }, [status]);
+
+  return {
+    status,
+    errorCode,
+    show,
+    networkState,
+    frame,
+    clockEstimate: estimate,
+    isSynced
+  };
+};
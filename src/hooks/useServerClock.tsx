@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { ClockEstimate, ClockSample, estimateClockOffset } from '@/utils/clockSync';
+
+const PINGS_PER_SYNC = 8;
+const PING_GAP_MS = 150;
+const RESYNC_INTERVAL_MS = 30000;
+// Older samples are kept so a single congested sync doesn't move the offset
+const MAX_SAMPLES = 32;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Server clock over the ping ack, re-estimated periodically while `enabled`
+ * (phone clocks drift and can be seconds apart from each other)
+ */
+export const useServerClock = (enabled: boolean) => {
+  const [estimate, setEstimate] = useState<ClockEstimate | null>(null);
+  const offsetRef = useRef(0);
+  const samplesRef = useRef<ClockSample[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const sync = async () => {
+      for (let i = 0; i < PINGS_PER_SYNC && !cancelled; i++) {
+        try {
+          samplesRef.current = [...samplesRef.current, await unifiedWebSocketService.pingServer()].slice(-MAX_SAMPLES);
+        } catch (error) {
+          console.warn('⚠️ CLOCK: Ping failed:', error);
+        }
+        await wait(PING_GAP_MS);
+      }
+      if (cancelled) return;
+
+      const next = estimateClockOffset(samplesRef.current);
+      if (next) {
+        offsetRef.current = next.offset;
+        setEstimate(next);
+        console.log(`⏱️ CLOCK: Offset ${next.offset}ms (best round trip ${next.roundTrip}ms, ${next.samples} samples)`);
+      }
+      timer = setTimeout(sync, RESYNC_INTERVAL_MS);
+    };
+
+    sync();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [enabled]);
+
+  // Current server time in ms
+  const serverNow = useCallback(() => Date.now() + offsetRef.current, []);
+
+  return { estimate, isSynced: estimate !== null, serverNow };
+};
@@ -0,0 +1,245 @@
+import { useReducer, useEffect, useCallback } from 'react';
+import { AudienceZone, TimelineItem } from "@/types/lightshow";
+
+const MAX_HISTORY = 100;
+// Consecutive edits with the same coalesce key (e.g. one slider drag) within this window become one step
+const COALESCE_WINDOW_MS = 1000;
+
+export interface TimelineHistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  before: TimelineItem[];
+  after: TimelineItem[];
+  // Audience zones live in the history too: removing a zone also rewrites the items that target it
+  zonesBefore: AudienceZone[];
+  zonesAfter: AudienceZone[];
+  coalesceKey?: string;
+}
+
+interface HistoryState {
+  present: TimelineItem[];
+  zones: AudienceZone[];
+  past: TimelineHistoryEntry[];    // Oldest first
+  future: TimelineHistoryEntry[];  // Next redo first
+  openGroup: boolean;
+  nextId: number;
+}
+
+export type TimelineUpdate = TimelineItem[] | ((previous: TimelineItem[]) => TimelineItem[]);
+
+export interface TimelineShow {
+  items: TimelineItem[];
+  zones: AudienceZone[];
+}
+
+type ShowUpdate = (previous: TimelineShow) => TimelineShow;
+
+type HistoryAction =
+  | { type: 'commit'; label: string; update: ShowUpdate; coalesceKey?: string; timestamp: number }
+  | { type: 'begin-group'; label: string; timestamp: number }
+  | { type: 'end-group' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; entryId: number | null }
+  | { type: 'reset'; items: TimelineItem[]; zones?: AudienceZone[] };
+
+const initialState: HistoryState = { present: [], zones: [], past: [], future: [], openGroup: false, nextId: 1 };
+
+const replaceLast = (entries: TimelineHistoryEntry[], entry: TimelineHistoryEntry) => [...entries.slice(0, -1), entry];
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'commit': {
+      const { items: next, zones } = action.update({ items: state.present, zones: state.zones });
+      if (next === state.present && zones === state.zones) return state;
+
+      const last = state.past[state.past.length - 1];
+      const merge = last && (
+        state.openGroup ||
+        (action.coalesceKey !== undefined &&
+          last.coalesceKey === action.coalesceKey &&
+          state.future.length === 0 &&
+          action.timestamp - last.timestamp < COALESCE_WINDOW_MS)
+      );
+
+      if (merge) {
+        return {
+          ...state,
+          present: next,
+          zones,
+          past: replaceLast(state.past, { ...last, after: next, zonesAfter: zones, timestamp: action.timestamp }),
+          future: []
+        };
+      }
+
+      const entry: TimelineHistoryEntry = {
+        id: state.nextId,
+        label: action.label,
+        timestamp: action.timestamp,
+        before: state.present,
+        after: next,
+        zonesBefore: state.zones,
+        zonesAfter: zones,
+        coalesceKey: action.coalesceKey
+      };
+
+      return {
+        ...state,
+        present: next,
+        zones,
+        past: [...state.past, entry].slice(-MAX_HISTORY),
+        future: [],
+        nextId: state.nextId + 1
+      };
+    }
+
+    case 'begin-group':
+      if (state.openGroup) return state;
+      return {
+        ...state,
+        openGroup: true,
+        past: [...state.past, {
+          id: state.nextId,
+          label: action.label,
+          timestamp: action.timestamp,
+          before: state.present,
+          after: state.present,
+          zonesBefore: state.zones,
+          zonesAfter: state.zones
+        }].slice(-MAX_HISTORY),
+        // Redo survives until the group actually changes something
+        nextId: state.nextId + 1
+      };
+
+    case 'end-group': {
+      const last = state.past[state.past.length - 1];
+      // A group that changed nothing leaves no step behind
+      const past = last && last.before === last.after && last.zonesBefore === last.zonesAfter ? state.past.slice(0, -1) : state.past;
+      return { ...state, openGroup: false, past };
+    }
+
+    case 'undo': {
+      const last = state.past[state.past.length - 1];
+      if (!last || state.openGroup) return state;
+      return {
+        ...state,
+        present: last.before,
+        zones: last.zonesBefore,
+        past: state.past.slice(0, -1),
+        future: [last, ...state.future]
+      };
+    }
+
+    case 'redo': {
+      const [next, ...future] = state.future;
+      if (!next || state.openGroup) return state;
+      return {
+        ...state,
+        present: next.after,
+        zones: next.zonesAfter,
+        past: [...state.past, next],
+        future
+      };
+    }
+
+    case 'jump': {
+      if (state.openGroup) return state;
+      // entryId = last applied step after the jump (null = before every step)
+      const entries = [...state.past, ...state.future];
+      const index = action.entryId === null ? -1 : entries.findIndex(entry => entry.id === action.entryId);
+      if (action.entryId !== null && index === -1) return state;
+
+      return {
+        ...state,
+        present: index === -1 ? (entries[0]?.before ?? state.present) : entries[index].after,
+        zones: index === -1 ? (entries[0]?.zonesBefore ?? state.zones) : entries[index].zonesAfter,
+        past: entries.slice(0, index + 1),
+        future: entries.slice(index + 1)
+      };
+    }
+
+    case 'reset':
+      return { ...initialState, present: action.items, zones: action.zones ?? state.zones, nextId: state.nextId };
+
+    default:
+      return state;
+  }
+}
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Undo/redo history of the light-show timeline and its audience zones. Every change goes
+ * through commit() (or commitShow() when zones change) with a label; Ctrl+Z / Ctrl+Shift+Z
+ * (or Ctrl+Y) walk the history.
+ */
+export function useTimelineHistory() {
+  const [state, dispatch] = useReducer(historyReducer, initialState);
+
+  const commit = useCallback((label: string, update: TimelineUpdate, coalesceKey?: string) => {
+    const updateItems: ShowUpdate = show => ({
+      ...show,
+      items: typeof update === 'function' ? update(show.items) : update
+    });
+    dispatch({ type: 'commit', label, update: updateItems, coalesceKey, timestamp: Date.now() });
+  }, []);
+
+  // Zone edits, together with the item changes they cause, as one undo step
+  const commitShow = useCallback((label: string, update: ShowUpdate, coalesceKey?: string) => {
+    dispatch({ type: 'commit', label, update, coalesceKey, timestamp: Date.now() });
+  }, []);
+
+  // Every commit until endGroup() becomes a single undo step (e.g. a whole drag on the timeline)
+  const beginGroup = useCallback((label: string) => {
+    dispatch({ type: 'begin-group', label, timestamp: Date.now() });
+  }, []);
+
+  const endGroup = useCallback(() => {
+    dispatch({ type: 'end-group' });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const jumpTo = useCallback((entryId: number | null) => dispatch({ type: 'jump', entryId }), []);
+
+  // Replaces the timeline without history (new audio, opened project); zones are kept unless given
+  const reset = useCallback((items: TimelineItem[] = [], zones?: AudienceZone[]) => dispatch({ type: 'reset', items, zones }), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    timelineItems: state.present,
+    zones: state.zones,
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0 && !state.openGroup,
+    canRedo: state.future.length > 0 && !state.openGroup,
+    commit,
+    commitShow,
+    beginGroup,
+    endGroup,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+}
@@ -0,0 +1,118 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { useToast } from "@/hooks/use-toast";
+import { TimelineItem } from "@/types/lightshow";
+import {
+  UltrasonicDecodeResult,
+  UltrasonicMicrophoneDecoder,
+  UltrasonicRoundTripReport,
+  decodeUltrasonicFile,
+  verifyTimelineRoundTrip
+} from "@/utils/ultrasonicDecoder";
+
+export type UltrasonicVerificationSource = 'file' | 'microphone';
+
+/**
+ * Decodes an exported WAV (or the microphone) and checks it against the current timeline
+ */
+export function useUltrasonicVerification(timelineItems: TimelineItem[]) {
+  const { toast } = useToast();
+  const [source, setSource] = useState<UltrasonicVerificationSource | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [isListening, setIsListening] = useState(false);
+  const [listenedSeconds, setListenedSeconds] = useState(0);
+  const [result, setResult] = useState<UltrasonicDecodeResult | null>(null);
+  const [roundTrip, setRoundTrip] = useState<UltrasonicRoundTripReport | null>(null);
+  const microphoneRef = useRef<UltrasonicMicrophoneDecoder | null>(null);
+
+  const applyResult = useCallback((decoded: UltrasonicDecodeResult | null) => {
+    setResult(decoded);
+    setRoundTrip(decoded?.payload ? verifyTimelineRoundTrip(decoded.payload, timelineItems) : null);
+  }, [timelineItems]);
+
+  const verifyFile = useCallback(async (file: File) => {
+    setSource('file');
+    setFileName(file.name);
+    setIsDecoding(true);
+    setProgress(0);
+    applyResult(null);
+
+    try {
+      applyResult(await decodeUltrasonicFile(file, setProgress));
+    } catch (error) {
+      console.error("Error decoding ultrasonic file:", error);
+      toast({
+        title: "Erro ao verificar arquivo",
+        description: `Não foi possível decodificar o áudio: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsDecoding(false);
+    }
+  }, [applyResult, toast]);
+
+  const startListening = useCallback(async () => {
+    if (microphoneRef.current?.isListening) return;
+
+    const microphone = new UltrasonicMicrophoneDecoder();
+    try {
+      await microphone.start();
+      microphoneRef.current = microphone;
+      setSource('microphone');
+      setFileName(null);
+      setListenedSeconds(0);
+      applyResult(null);
+      setIsListening(true);
+    } catch (error) {
+      console.error("Error starting microphone decoder:", error);
+      toast({
+        title: "Microfone indisponível",
+        description: "Permita o acesso ao microfone para escutar o sinal ultrassônico.",
+        variant: "destructive"
+      });
+    }
+  }, [applyResult, toast]);
+
+  const stopListening = useCallback(() => {
+    const microphone = microphoneRef.current;
+    if (!microphone) return;
+
+    microphoneRef.current = null;
+    setIsListening(false);
+    applyResult(microphone.stop());
+  }, [applyResult]);
+
+  // Partial decode while listening: shows the payload as soon as it is complete
+  useEffect(() => {
+    if (!isListening) return;
+
+    const interval = setInterval(() => {
+      const microphone = microphoneRef.current;
+      if (!microphone) return;
+
+      setListenedSeconds(microphone.duration);
+      applyResult(microphone.decode());
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [isListening, applyResult]);
+
+  useEffect(() => () => {
+    microphoneRef.current?.stop();
+  }, []);
+
+  return {
+    source,
+    fileName,
+    isDecoding,
+    progress,
+    isListening,
+    listenedSeconds,
+    result,
+    roundTrip,
+    verifyFile,
+    startListening,
+    stopListening
+  };
+}
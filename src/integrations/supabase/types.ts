@@ -95,6 +95,65 @@ export type Database = {
         }
         Relationships: []
       }
+      lightshow_project_versions: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          label: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id?: string
+          label: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          label?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lightshow_project_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "lightshow_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lightshow_projects: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          owner_id: string
+          show_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id?: string
+          owner_id?: string
+          show_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          owner_id?: string
+          show_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           chat_id: string
@@ -169,6 +228,83 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_questions: {
+        Row: {
+          correct_option_id: string | null
+          created_at: string
+          id: string
+          image_url: string | null
+          is_active: boolean
+          options: Json
+          points: number
+          position: number
+          prompt: string
+          quiz_id: string
+          time_limit_seconds: number
+        }
+        Insert: {
+          correct_option_id?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          options?: Json
+          points?: number
+          position: number
+          prompt?: string
+          quiz_id: string
+          time_limit_seconds?: number
+        }
+        Update: {
+          correct_option_id?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          options?: Json
+          points?: number
+          position?: number
+          prompt?: string
+          quiz_id?: string
+          time_limit_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string
+          settings: Json
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id?: string
+          settings?: Json
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string
+          settings?: Json
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       sessions: {
         Row: {
           created_at: string
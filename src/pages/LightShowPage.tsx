@@ -1,6 +1,8 @@
 
 import React from 'react';
 import { useLightShowLogic } from '@/hooks/useLightShowLogic';
+import { useLightShowProject } from '@/hooks/useLightShowProject';
+import { useLightShowBroadcast } from '@/hooks/useLightShowBroadcast';
 import Header from '@/components/lightshow/Header';
 import MainContent from '@/components/lightshow/MainContent';
 import BackButton from '@/components/common/BackButton';
@@ -16,8 +18,14 @@ const LightShowPage = () => {
     duration,
     timelineItems,
     selectedItemIndex,
+    selectedItemIds,
+    beats,
     selectedImages,
     callToAction,
+    zones,
+    modemProfile,
+    transmissionPlan,
+    suggestedModemProfile,
     audioEditInfo,
     imageSelector,
     handleAudioUpload,
@@ -27,19 +35,38 @@ const LightShowPage = () => {
     addFlashlightPattern,
     updateTimelineItem,
     removeTimelineItem,
+    updateTimelineItems,
+    removeTimelineItems,
+    selectAllItems,
+    copySelection,
+    cutSelection,
+    pasteClipboard,
+    duplicateSelection,
+    nudgeSelection,
+    addZone,
+    updateZone,
+    removeZone,
+    setSelectionZones,
+    setModemProfile,
     handlePlayPause,
     handleGenerateFile,
     handleReset,
     setCurrentTime,
     setDuration,
     setSelectedItemIndex,
+    setSelectedItemIds,
     setSelectedImages,
     setCallToActionContent,
     addCallToActionToTimeline,
     setAudioEditInfo,
-    trimAudio
+    trimAudio,
+    loadProjectState,
+    timelineHistory
   } = useLightShowLogic();
 
+  const project = useLightShowProject({ showName, audioFile, timelineItems, callToAction, zones }, loadProjectState);
+  const broadcast = useLightShowBroadcast({ showName, timelineItems, zones, duration, isPlaying, currentTime });
+
   return (
     <div className="min-h-screen flex flex-col bg-black">
       <div className="container mx-auto py-4 px-4 relative">
@@ -52,6 +79,12 @@ const LightShowPage = () => {
           handleGenerateFile={handleGenerateFile}
           audioFile={audioFile}
           timelineItems={timelineItems}
+          project={project}
+          modemProfile={modemProfile}
+          onModemProfileChange={setModemProfile}
+          transmissionPlan={transmissionPlan}
+          suggestedModemProfile={suggestedModemProfile}
+          broadcast={broadcast}
         />
         
         <MainContent 
@@ -77,12 +110,29 @@ const LightShowPage = () => {
           setDuration={setDuration}
           updateTimelineItem={updateTimelineItem}
           removeTimelineItem={removeTimelineItem}
+          updateTimelineItems={updateTimelineItems}
+          removeTimelineItems={removeTimelineItems}
           setSelectedItemIndex={setSelectedItemIndex}
+          selectedItemIds={selectedItemIds}
+          setSelectedItemIds={setSelectedItemIds}
+          beats={beats}
+          selectAllItems={selectAllItems}
+          copySelection={copySelection}
+          cutSelection={cutSelection}
+          pasteClipboard={pasteClipboard}
+          duplicateSelection={duplicateSelection}
+          nudgeSelection={nudgeSelection}
+          zones={zones}
+          addZone={addZone}
+          updateZone={updateZone}
+          removeZone={removeZone}
+          setSelectionZones={setSelectionZones}
           setSelectedImages={setSelectedImages}
           setCallToActionContent={setCallToActionContent}
           addCallToActionToTimeline={addCallToActionToTimeline}
           setAudioEditInfo={setAudioEditInfo}
           trimAudio={trimAudio}
+          history={timelineHistory}
         />
       </div>
     </div>
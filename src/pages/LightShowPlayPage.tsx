@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo, ReactNode } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import ParticipantLinkExpired from '@/components/participant/ParticipantLinkExpired';
+import { roomService } from '@/services/RoomService';
+import { useLightShowReceiver } from '@/hooks/useLightShowReceiver';
+
+// Zona escolhida neste show ('' = sem zona)
+const getZoneKey = (sessionId: string) => `lightshow-zone:${sessionId}`;
+
+const LightShowPlayPage = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [participantId] = useState(() => roomService.getParticipantId(sessionId || ''));
+  const [joinStatus, setJoinStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [joinErrorCode, setJoinErrorCode] = useState<string | undefined>();
+  const [zone, setZone] = useState<string | null>(() => (sessionId ? localStorage.getItem(getZoneKey(sessionId)) : null));
+
+  // Token de entrada do QR code: guardado na sessão (reconexões) e validado antes de entrar
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const urlToken = searchParams.get('token');
+    if (urlToken) {
+      roomService.setJoinToken(sessionId, { token: urlToken });
+    }
+
+    const joinToken = urlToken || roomService.getJoinToken(sessionId)?.token || null;
+    roomService.verifyJoinToken(sessionId, joinToken)
+      .then(result => {
+        setJoinErrorCode(result.code);
+        setJoinStatus(result.valid ? 'valid' : 'invalid');
+      })
+      .catch(err => {
+        console.warn('⚠️ LIGHTSHOW PLAY: Could not verify join token:', err);
+        setJoinStatus('valid');
+      });
+  }, [sessionId, searchParams]);
+
+  const zoneIds = useMemo(() => (zone ? [zone] : []), [zone]);
+  const { status, errorCode, show, networkState, frame, isSynced } = useLightShowReceiver({
+    sessionId,
+    participantId,
+    zoneIds,
+    enabled: joinStatus === 'valid'
+  });
+
+  const chooseZone = (id: string) => {
+    if (sessionId) localStorage.setItem(getZoneKey(sessionId), id);
+    setZone(id);
+  };
+
+  const renderScreen = (content: ReactNode) => (
+    <div className="min-h-screen bg-black p-6 flex items-center justify-center text-white">
+      <div className="w-full max-w-md">{content}</div>
+    </div>
+  );
+
+  if (joinStatus === 'invalid') {
+    return <ParticipantLinkExpired code={joinErrorCode} onBack={() => navigate('/')} />;
+  }
+
+  if (status === 'error') {
+    return <ParticipantLinkExpired code={errorCode} onBack={() => navigate('/')} />;
+  }
+
+  if (joinStatus === 'checking' || status !== 'joined' || !show) {
+    return renderScreen(
+      <div className="text-center">
+        <Loader2 className="h-10 w-10 animate-spin mx-auto mb-4" />
+        <p className="text-white/80">
+          {joinStatus === 'checking' ? 'Validando link...' : status === 'joined' ? 'Aguardando o show...' : 'Conectando ao show...'}
+        </p>
+      </div>
+    );
+  }
+
+  const knownZone = zone === '' || show.zones.some(item => item.id === zone);
+  if (show.zones.length > 0 && !knownZone) {
+    return renderScreen(
+      <div className="space-y-4 text-center">
+        <h1 className="text-2xl font-bold">{show.showName}</h1>
+        <p className="text-white/80">Em qual setor você está?</p>
+        <div className="grid grid-cols-2 gap-3">
+          {show.zones.map(item => (
+            <Button key={item.id} className="h-14" style={{ backgroundColor: item.color }} onClick={() => chooseZone(item.id)}>
+              {item.name}
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" className="w-full" onClick={() => chooseZone('')}>
+          Não sei / nenhum
+        </Button>
+      </div>
+    );
+  }
+
+  if (networkState?.status !== 'playing') {
+    const zoneName = show.zones.find(item => item.id === zone)?.name;
+    return renderScreen(
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold">{show.showName}</h1>
+        <p className="text-white/80">Mantenha esta tela aberta e o celular virado para o palco.</p>
+        <p className="text-white/60 text-sm">
+          {networkState?.status === 'paused' ? 'Show pausado' : 'O show vai começar em instantes'}
+          {zoneName && ` · ${zoneName}`}
+        </p>
+        {!isSynced && <p className="text-white/40 text-xs">Sincronizando relógio...</p>}
+      </div>
+    );
+  }
+
+  const { flashlight, imageUrl, backgroundColor, callToAction } = frame;
+
+  return (
+    <div className="fixed inset-0 overflow-hidden" style={{ backgroundColor }}>
+      {flashlight && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{ backgroundColor: flashlight.color, opacity: flashlight.intensity / 100 }}
+        />
+      )}
+
+      {imageUrl && !callToAction && (
+        <img src={imageUrl} alt="" className="absolute inset-0 w-full h-full object-contain" />
+      )}
+
+      {callToAction && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 bg-black text-white">
+          {callToAction.imageUrl && (
+            <img src={callToAction.imageUrl} alt="" className="max-w-full max-h-[60vh] object-contain" />
+          )}
+          {callToAction.type === 'coupon' && callToAction.couponCode && (
+            <p className="font-mono text-2xl tracking-widest">{callToAction.couponCode}</p>
+          )}
+          {callToAction.externalUrl && callToAction.type !== 'image' && (
+            <Button asChild className="hutz-button-accent">
+              <a href={callToAction.externalUrl} target="_blank" rel="noopener noreferrer">
+                {callToAction.buttonText || (callToAction.type === 'coupon' ? 'Resgatar Cupom' : 'Abrir Link')}
+              </a>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LightShowPlayPage;
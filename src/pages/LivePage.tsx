@@ -9,6 +9,11 @@ import { useParticipantManagement } from '@/hooks/live/useParticipantManagement'
 import { useQRCodeGeneration } from '@/hooks/live/useQRCodeGeneration';
 import { useAutoQRGeneration } from '@/hooks/live/useAutoQRGeneration';
 import { useTransmissionWindow } from '@/hooks/live/useTransmissionWindow';
+import { useTransmissionScenes } from '@/hooks/live/useTransmissionScenes';
+import { useProgramRecording } from '@/hooks/live/useProgramRecording';
+import { useIsoRecording } from '@/hooks/live/useIsoRecording';
+import { useLowerThirds } from '@/hooks/live/useLowerThirds';
+import { useTransmissionOverlays } from '@/hooks/live/useTransmissionOverlays';
 import { useFinalAction } from '@/hooks/live/useFinalAction';
 import { useLivePageEffects } from '@/hooks/live/useLivePageEffects';
 import { useTransmissionMessageHandler } from '@/hooks/live/useTransmissionMessageHandler';
@@ -16,12 +21,13 @@ import { useLiveKitRoom } from '@/hooks/live/useLiveKitRoom';
 import { WebRTCDebugToasts } from '@/components/live/WebRTCDebugToasts';
 import { getEnvironmentInfo, clearConnectionCache } from '@/utils/connectionUtils';
 import { clearDeviceCache } from '@/utils/media/deviceDetection';
+import { postTransmissionAppearance } from '@/utils/transmissionAppearance';
 
 const LivePage: React.FC = () => {
   const { toast } = useToast();
   const state = useLivePageState();
   const [showHealthMonitor, setShowHealthMonitor] = useState(false);
-  const { generateQRCode, handleGenerateQRCode, handleQRCodeToTransmission } = useQRCodeGeneration();
+  const { generateQRCode, handleGenerateQRCode, handleQRCodeToTransmission, handleRevokeJoinLink } = useQRCodeGeneration();
   const { transmissionWindowRef, openTransmissionWindow, finishTransmission } = useTransmissionWindow();
   
   // LiveKit connection for host
@@ -442,6 +448,75 @@ const LivePage: React.FC = () => {
     state.qrDescriptionFontSize
   ]);
 
+  // Aparência do telão (compartilhada com o modo quiz da mesma janela)
+  const sendTransmissionAppearance = () => {
+    postTransmissionAppearance(transmissionWindowRef.current, {
+      selectedFont: state.selectedFont,
+      selectedTextColor: state.selectedTextColor,
+      selectedBackgroundColor: state.selectedBackgroundColor,
+      backgroundImage: state.backgroundImage
+    });
+  };
+
+  useEffect(() => {
+    postTransmissionAppearance(transmissionWindowRef.current, {
+      selectedFont: state.selectedFont,
+      selectedTextColor: state.selectedTextColor,
+      selectedBackgroundColor: state.selectedBackgroundColor,
+      backgroundImage: state.backgroundImage
+    });
+  }, [transmissionWindowRef, state.selectedFont, state.selectedTextColor, state.selectedBackgroundColor, state.backgroundImage]);
+
+  // Cenas do telão: troca ao vivo sem recriar a janela
+  const scenes = useTransmissionScenes({
+    transmissionWindowRef,
+    participantList: state.participantList,
+    participantCount: state.participantCount,
+    qrCodeSvg: state.qrCodeSvg,
+    qrCodeDescription: state.qrCodeDescription
+  });
+
+  // Tarjas com nome dos participantes no ar
+  const lowerThirds = useLowerThirds({
+    transmissionWindowRef,
+    participantList: state.participantList,
+    setParticipantList: state.setParticipantList
+  });
+
+  // Ticker, textos temporizados e logos de patrocinadores
+  const overlays = useTransmissionOverlays({ transmissionWindowRef });
+
+  // Gravação da saída do programa (mesmo layout enviado ao telão)
+  const recording = useProgramRecording({
+    sessionId: state.sessionId,
+    layout: scenes.layout,
+    participantStreams: state.participantStreams,
+    appearance: {
+      selectedFont: state.selectedFont,
+      selectedTextColor: state.selectedTextColor,
+      selectedBackgroundColor: state.selectedBackgroundColor,
+      backgroundImage: state.backgroundImage
+    },
+    qrOverlay: {
+      visible: state.qrCodeVisible,
+      image: state.qrCodeSvg,
+      position: state.qrCodePosition,
+      descriptionPosition: state.qrDescriptionPosition,
+      description: state.qrCodeDescription,
+      fontSize: state.qrDescriptionFontSize
+    },
+    lowerThirds: { enabled: lowerThirds.enabled, template: lowerThirds.template, names: lowerThirds.names },
+    overlays: overlays.overlays
+  });
+
+  // ISOs: stream bruto de cada participante enquanto estiver no ar
+  const isoRecording = useIsoRecording({
+    sessionId: state.sessionId,
+    layout: scenes.layout,
+    participantStreams: state.participantStreams,
+    participantList: state.participantList
+  });
+
   return (
     <div className="relative">
       <LivePageContainer
@@ -449,14 +524,26 @@ const LivePage: React.FC = () => {
         participantManagement={participantManagement}
         transmissionOpen={state.transmissionOpen}
         sessionId={state.sessionId}
-        onStartTransmission={() => openTransmissionWindow(state, updateTransmissionParticipants)}
+        onStartTransmission={() => openTransmissionWindow(state, () => {
+          scenes.syncTransmission();
+          lowerThirds.syncTransmission();
+          overlays.syncTransmission();
+          updateTransmissionParticipants();
+          sendTransmissionAppearance();
+        })}
         onFinishTransmission={() => finishTransmission(state, closeFinalAction)}
         onFileSelect={handleFileSelect}
         onRemoveImage={removeBackgroundImage}
         onGenerateQRCode={() => handleGenerateQRCode(state)}
         onQRCodeToTransmission={() => handleQRCodeToTransmission(state.setQrCodeVisible)}
+        onRevokeJoinLink={() => handleRevokeJoinLink(state)}
         closeFinalAction={closeFinalAction}
         onStreamReceived={handleStreamReceived}
+        scenes={scenes}
+        lowerThirds={lowerThirds}
+        overlays={overlays}
+        recording={recording}
+        isoRecording={isoRecording}
         livekitRoom={livekitRoom}
         livekitParticipants={livekitParticipants}
       />
@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useMobileOnlyGuard } from '@/hooks/useMobileOnlyGuard';
 import { useLiveKitRoom } from '@/hooks/live/useLiveKitRoom';
 import { VideoTrack } from '@livekit/components-react';
@@ -9,6 +9,13 @@ import ParticipantErrorDisplay from '@/components/participant/ParticipantErrorDi
 import ParticipantConnectionStatus from '@/components/participant/ParticipantConnectionStatus';
 import ParticipantControls from '@/components/participant/ParticipantControls';
 import ParticipantInstructions from '@/components/participant/ParticipantInstructions';
+import ParticipantNameCard from '@/components/participant/ParticipantNameCard';
+import ParticipantLinkExpired from '@/components/participant/ParticipantLinkExpired';
+import { ParticipantConnectionFlow } from '@/components/participant/ParticipantConnectionFlow';
+import { useParticipantLobby } from '@/hooks/participant/useParticipantLobby';
+import { useModerationCommands } from '@/hooks/participant/useModerationCommands';
+import { CameraSwitcher } from '@/components/participant/CameraSwitcher';
+import { roomService } from '@/services/RoomService';
 import StreamDebugPanel from '@/utils/debug/StreamDebugPanel';
 import { toast } from 'sonner';
 import { Card } from '@/components/ui/card';
@@ -17,6 +24,7 @@ const ParticipantPage = () => {
   console.log('🎯 PARTICIPANT PAGE: Iniciando com LiveKit');
   
   const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const localVideoRef = useRef<HTMLVideoElement>(null);
   
@@ -34,9 +42,42 @@ const ParticipantPage = () => {
   console.log('🎯 PARTICIPANT PAGE: sessionId:', sessionId);
   
   // State management
-  const [participantId] = useState(() => `participant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const [participantId] = useState(() => roomService.getParticipantId(sessionId || ''));
   const [mediaError, setMediaError] = useState<string | null>(null);
+  const [joinStatus, setJoinStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [joinErrorCode, setJoinErrorCode] = useState<string | undefined>();
+  const [removedBy, setRemovedBy] = useState<'kick' | 'ban' | null>(null);
+
+  // Token de entrada do QR code: guardado na sessão (reconexões) e validado antes de conectar
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const urlToken = searchParams.get('token');
+    if (urlToken) {
+      roomService.setJoinToken(sessionId, { token: urlToken });
+    }
+
+    const joinToken = urlToken || roomService.getJoinToken(sessionId)?.token || null;
+    roomService.verifyJoinToken(sessionId, joinToken)
+      .then(result => {
+        console.log('🎟️ PARTICIPANT PAGE: Join token verification:', result);
+        setJoinErrorCode(result.code);
+        setJoinStatus(result.valid ? 'valid' : 'invalid');
+      })
+      .catch(err => {
+        // Falha do backend não é culpa do link: segue e deixa o servidor decidir na conexão
+        console.warn('⚠️ PARTICIPANT PAGE: Could not verify join token:', err);
+        setJoinStatus('valid');
+      });
+  }, [sessionId, searchParams]);
   
+  // Sala de espera: entrada via signaling antes de abrir câmera/LiveKit
+  const { lobbyStatus, deniedCode } = useParticipantLobby({
+    sessionId,
+    participantId,
+    enabled: !isBlocked && isValidated && joinStatus === 'valid'
+  });
+
   // LiveKit connection
   const {
     room,
@@ -46,12 +87,26 @@ const ParticipantPage = () => {
     error,
     toggleVideo,
     toggleAudio,
+    switchCamera,
     disconnect,
     localParticipant
   } = useLiveKitRoom({
     roomName: sessionId || '',
     userName: participantId,
-    autoConnect: !isBlocked && isValidated
+    autoConnect: !isBlocked && isValidated && joinStatus === 'valid' && lobbyStatus === 'admitted' && !removedBy
+  });
+
+  // Moderação do host: câmera desligada/trocada ou remoção da sala
+  useModerationCommands({
+    sessionId,
+    onVideoOff: async () => {
+      await room?.localParticipant.setCameraEnabled(false);
+    },
+    onSwitchCamera: switchCamera,
+    onRemoved: (action) => {
+      disconnect();
+      setRemovedBy(action);
+    }
   });
 
   // Monitor connection status
@@ -118,6 +173,49 @@ const ParticipantPage = () => {
     );
   }
 
+  if (joinStatus === 'invalid') {
+    return <ParticipantLinkExpired code={joinErrorCode} onBack={() => navigate('/')} />;
+  }
+
+  if (joinStatus === 'checking') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6 flex items-center justify-center">
+        <div className="text-center text-white">
+          <h2 className="text-xl font-bold mb-4">Validando link...</h2>
+          <p className="text-white/80">Conferindo o acesso à sala...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (removedBy) {
+    return <ParticipantLinkExpired code={removedBy === 'ban' ? 'BANNED' : 'KICKED'} onBack={() => navigate('/')} />;
+  }
+
+  if (lobbyStatus === 'denied') {
+    return <ParticipantLinkExpired code={deniedCode} onBack={() => navigate('/')} />;
+  }
+
+  if (lobbyStatus !== 'admitted') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6 flex items-center justify-center">
+        <div className="max-w-md w-full">
+          <ParticipantConnectionFlow
+            steps={[
+              { name: 'Link validado', status: 'completed' },
+              { name: 'Aguardando aprovação do apresentador', status: lobbyStatus === 'waiting' ? 'inProgress' : 'pending' },
+              { name: 'Conectando à sala', status: 'pending' }
+            ]}
+            message={lobbyStatus === 'waiting'
+              ? 'Você está na sala de espera. A câmera será ativada assim que o apresentador liberar sua entrada.'
+              : 'Entrando na sala...'}
+          />
+          {lobbyStatus === 'waiting' && <ParticipantNameCard sessionId={sessionId || ''} />}
+        </div>
+      </div>
+    );
+  }
+
   const connectionStatus = isConnected ? 'connected' : isConnecting ? 'connecting' : 'disconnected';
   const hasVideo = localParticipant?.isCameraEnabled || false;
   const hasAudio = localParticipant?.isMicrophoneEnabled || false;
@@ -198,6 +296,12 @@ const ParticipantPage = () => {
           onRetryMedia={handleRetryMedia}
         />
 
+        {/* Camera switch (mobile) */}
+        <CameraSwitcher onSwitchCamera={switchCamera} hasVideo={hasVideo} />
+
+        {/* Nome na tarja do telão */}
+        <ParticipantNameCard sessionId={sessionId || ''} />
+
         {/* Instructions */}
         <ParticipantInstructions />
         
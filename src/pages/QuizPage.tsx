@@ -3,22 +3,88 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/components/ui/use-toast";
-import { QrCode, BrainCircuit, Pencil, Trash2, Eye, Plus, Image, Palette } from "lucide-react";
+import { QrCode, BrainCircuit, Trash2, Plus, Image, Loader2 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import BackButton from '@/components/common/BackButton';
+import QuizQuestionEditor from '@/components/quiz/QuizQuestionEditor';
+import QuizPreview from '@/components/quiz/QuizPreview';
+import QuizHostPanel from '@/components/quiz/QuizHostPanel';
+import { useQuizBuilder } from '@/hooks/quiz/useQuizBuilder';
+import { useQuizSession } from '@/hooks/quiz/useQuizSession';
+import { FONT_OPTIONS, DEFAULT_TRANSMISSION_FONT, DEFAULT_TRANSMISSION_TEXT_COLOR } from '@/utils/transmissionAppearance';
+import { QuizAppearance, QuizFinalAction } from '@/types/quiz';
+
+const APPEARANCE_OPTIONS: { value: QuizAppearance; label: string }[] = [
+  { value: 'solid', label: 'Cor Sólida' },
+  { value: 'gradient', label: 'Gradiente' },
+  { value: 'image', label: 'Imagem' }
+];
 
 const QuizPage = () => {
-  const [qrCodeGenerated, setQrCodeGenerated] = useState(false);
+  const [previewQuestionId, setPreviewQuestionId] = useState<string | null>(null);
   const { toast } = useToast();
+  const {
+    quiz,
+    savedQuizzes,
+    isSaving,
+    isDirty,
+    draftSavedAt,
+    setTitle,
+    updateSettings,
+    addQuestion,
+    updateQuestion,
+    removeQuestion,
+    duplicateQuestion,
+    moveQuestion,
+    addOption,
+    updateOption,
+    removeOption,
+    saveQuiz,
+    loadQuiz,
+    deleteQuiz,
+    newQuiz,
+    canAddOption,
+    canRemoveOption
+  } = useQuizBuilder();
+  const {
+    sessionId,
+    joinURL,
+    qrCodeDataUrl,
+    liveState,
+    answers,
+    leaderboard,
+    isStarting,
+    isExporting,
+    transmissionOpen,
+    leaderboardOnTransmission,
+    startSession,
+    nextQuestion,
+    revealResults,
+    endQuiz,
+    openTransmission,
+    toggleLeaderboardOnTransmission,
+    exportResults
+  } = useQuizSession(quiz.settings);
+  const { settings } = quiz;
+  const previewQuestion = quiz.questions.find(question => question.id === previewQuestionId)
+    || quiz.questions.find(question => question.isActive)
+    || null;
+
+  const handleShareJoinURL = async () => {
+    if (!joinURL) return;
+
+    if (navigator.share) {
+      await navigator.share({ title: quiz.title, url: joinURL }).catch(() => undefined);
+      return;
+    }
 
-  const handleGenerateQRCode = () => {
-    setQrCodeGenerated(true);
+    await navigator.clipboard.writeText(joinURL);
     toast({
-      title: "QR Code gerado",
-      description: "QR Code gerado com sucesso. Compartilhe com os participantes.",
+      title: "Link copiado",
+      description: "O link do quiz foi copiado para a área de transferência.",
     });
   };
 
@@ -37,18 +103,20 @@ const QuizPage = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="flex items-center justify-between">
-                <div>
+              <div className="flex items-end justify-between gap-4">
+                <div className="flex-1">
                   <Label htmlFor="quiz-title" className="text-sm font-medium">
                     Título do Quiz
                   </Label>
                   <Input
                     id="quiz-title"
                     placeholder="Meu Quiz Interativo"
+                    value={quiz.title}
+                    onChange={(e) => setTitle(e.target.value)}
                     className="hutz-input mt-1 max-w-md"
                   />
                 </div>
-                <Button className="hutz-button-accent">
+                <Button className="hutz-button-accent" onClick={addQuestion}>
                   <Plus className="h-4 w-4 mr-2" />
                   Nova Pergunta
                 </Button>
@@ -57,153 +125,27 @@ const QuizPage = () => {
               <Separator className="bg-white/10" />
               
               <div className="space-y-6">
-                {/* Pergunta 1 */}
-                <Card className="bg-secondary/60 border border-white/20">
-                  <CardHeader className="pb-2 flex flex-row items-start justify-between">
-                    <div>
-                      <CardTitle className="text-base">Pergunta 1</CardTitle>
-                      <CardDescription>Qual é a pergunta correta?</CardDescription>
-                    </div>
-                    <Checkbox id="q1-active" defaultChecked />
-                  </CardHeader>
-                  <CardContent className="pt-0 pb-2">
-                    <Input
-                      placeholder="Digite sua pergunta aqui..."
-                      defaultValue="Qual destas tecnologias é utilizada para comunicação ultrassônica?"
-                      className="hutz-input mb-4"
-                    />
-                    
-                    <RadioGroup defaultValue="option3">
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <Label htmlFor="option1" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="option1" id="option1" />
-                          <Input
-                            placeholder="Alternativa 1"
-                            defaultValue="Bluetooth"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="option2" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="option2" id="option2" />
-                          <Input
-                            placeholder="Alternativa 2"
-                            defaultValue="Wi-Fi"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="option3" className="flex items-center space-x-2 p-2 rounded border border-accent cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="option3" id="option3" />
-                          <Input
-                            placeholder="Alternativa 3"
-                            defaultValue="Data-to-Sound"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="option4" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="option4" id="option4" />
-                          <Input
-                            placeholder="Alternativa 4"
-                            defaultValue="NFC"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                      </div>
-                    </RadioGroup>
-                  </CardContent>
-                  <CardFooter className="pt-2 flex justify-end space-x-2">
-                    <Button variant="ghost" size="sm" className="text-white/70 hover:text-white">
-                      <Eye className="h-4 w-4 mr-1" />
-                      Visualizar
-                    </Button>
-                    <Button variant="ghost" size="sm" className="text-white/70 hover:text-white">
-                      <Pencil className="h-4 w-4 mr-1" />
-                      Editar
-                    </Button>
-                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive/80">
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Excluir
-                    </Button>
-                  </CardFooter>
-                </Card>
-                
-                {/* Pergunta 2 */}
-                <Card className="bg-secondary/60 border border-white/20">
-                  <CardHeader className="pb-2 flex flex-row items-start justify-between">
-                    <div>
-                      <CardTitle className="text-base">Pergunta 2</CardTitle>
-                      <CardDescription>Qual é a pergunta correta?</CardDescription>
-                    </div>
-                    <Checkbox id="q2-active" defaultChecked />
-                  </CardHeader>
-                  <CardContent className="pt-0 pb-2">
-                    <Input
-                      placeholder="Digite sua pergunta aqui..."
-                      defaultValue="Qual o alcance máximo do sistema de transmissão para dispositivos móveis?"
-                      className="hutz-input mb-4"
-                    />
-                    
-                    <RadioGroup defaultValue="option2">
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <Label htmlFor="q2-option1" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="q2-option1" id="q2-option1" />
-                          <Input
-                            placeholder="Alternativa 1"
-                            defaultValue="Até 1 metro"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="q2-option2" className="flex items-center space-x-2 p-2 rounded border border-accent cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="q2-option2" id="q2-option2" />
-                          <Input
-                            placeholder="Alternativa 2"
-                            defaultValue="Até 3-10 metros"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="q2-option3" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="q2-option3" id="q2-option3" />
-                          <Input
-                            placeholder="Alternativa 3"
-                            defaultValue="Até 20-30 metros"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                        
-                        <Label htmlFor="q2-option4" className="flex items-center space-x-2 p-2 rounded border border-white/10 cursor-pointer hover:bg-white/5">
-                          <RadioGroupItem value="q2-option4" id="q2-option4" />
-                          <Input
-                            placeholder="Alternativa 4"
-                            defaultValue="Até 50 metros"
-                            className="hutz-input ml-2 flex-1"
-                          />
-                        </Label>
-                      </div>
-                    </RadioGroup>
-                  </CardContent>
-                  <CardFooter className="pt-2 flex justify-end space-x-2">
-                    <Button variant="ghost" size="sm" className="text-white/70 hover:text-white">
-                      <Eye className="h-4 w-4 mr-1" />
-                      Visualizar
-                    </Button>
-                    <Button variant="ghost" size="sm" className="text-white/70 hover:text-white">
-                      <Pencil className="h-4 w-4 mr-1" />
-                      Editar
-                    </Button>
-                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive/80">
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Excluir
-                    </Button>
-                  </CardFooter>
-                </Card>
+                {quiz.questions.map((question, index) => (
+                  <QuizQuestionEditor
+                    key={question.id}
+                    question={question}
+                    index={index}
+                    total={quiz.questions.length}
+                    canAddOption={canAddOption(question)}
+                    canRemoveOption={canRemoveOption(question)}
+                    onUpdate={(changes) => updateQuestion(question.id, changes)}
+                    onUpdateOption={(optionId, text) => updateOption(question.id, optionId, text)}
+                    onAddOption={() => addOption(question.id)}
+                    onRemoveOption={(optionId) => removeOption(question.id, optionId)}
+                    onMove={(direction) => moveQuestion(question.id, direction)}
+                    onDuplicate={() => duplicateQuestion(question.id)}
+                    onRemove={() => removeQuestion(question.id)}
+                    onPreview={() => setPreviewQuestionId(question.id)}
+                  />
+                ))}
                 
-                {/* Adicione mais perguntas aqui */}
                 <div className="text-center py-4">
-                  <Button className="hutz-button-secondary">
+                  <Button className="hutz-button-secondary" onClick={addQuestion}>
                     <Plus className="h-4 w-4 mr-2" />
                     Adicionar Mais Perguntas
                   </Button>
@@ -223,6 +165,8 @@ const QuizPage = () => {
                     <Input
                       id="description-text"
                       placeholder="Escaneie o QR Code para participar do quiz"
+                      value={settings.description}
+                      onChange={(e) => updateSettings({ description: e.target.value })}
                       className="hutz-input"
                     />
                   </div>
@@ -230,56 +174,142 @@ const QuizPage = () => {
                   <div>
                     <Label className="mb-2 block">Aparência</Label>
                     <div className="grid grid-cols-3 gap-2">
-                      <Button variant="outline" className="border-white/20">
-                        Cor Sólida
-                      </Button>
-                      <Button variant="outline" className="border-white/20">
-                        Gradiente
-                      </Button>
-                      <Button variant="default" className="bg-accent text-white">
-                        Imagem
-                      </Button>
+                      {APPEARANCE_OPTIONS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          variant={settings.appearance === value ? 'default' : 'outline'}
+                          className={settings.appearance === value ? 'bg-accent text-white' : 'border-white/20'}
+                          onClick={() => updateSettings({ appearance: value })}
+                        >
+                          {label}
+                        </Button>
+                      ))}
                     </div>
                   </div>
                   
                   <div>
-                    <Label htmlFor="bg-image-upload" className="mb-2 block">
-                      Imagem de Fundo
-                    </Label>
-                    <Button id="bg-image-upload" className="w-full hutz-button-secondary">
-                      <Image className="h-4 w-4 mr-2" />
-                      Carregar Imagem
-                    </Button>
+                    {settings.appearance === 'image' ? (
+                      <>
+                        <Label htmlFor="bg-image-url" className="mb-2 block">
+                          Imagem de Fundo
+                        </Label>
+                        <div className="flex items-center gap-2">
+                          <Image className="h-4 w-4 text-white/60" />
+                          <Input
+                            id="bg-image-url"
+                            placeholder="https://..."
+                            value={settings.backgroundImageUrl || ''}
+                            onChange={(e) => updateSettings({ backgroundImageUrl: e.target.value || undefined })}
+                            className="hutz-input"
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <Label htmlFor="bg-color" className="mb-2 block">
+                          Cor de Fundo
+                        </Label>
+                        <Input
+                          id="bg-color"
+                          type="color"
+                          value={settings.backgroundColor}
+                          onChange={(e) => updateSettings({ backgroundColor: e.target.value })}
+                          className="hutz-input h-10 p-1"
+                        />
+                      </>
+                    )}
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="mb-2 block">Fonte do Texto</Label>
+                      <Select
+                        value={settings.font || DEFAULT_TRANSMISSION_FONT}
+                        onValueChange={(font) => updateSettings({ font })}
+                      >
+                        <SelectTrigger className="hutz-input">
+                          <SelectValue placeholder="Selecione a fonte" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FONT_OPTIONS.map((font) => (
+                            <SelectItem key={font.value} value={font.value}>
+                              <span style={{ fontFamily: font.value }}>{font.name}</span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="text-color" className="mb-2 block">
+                        Cor do Texto
+                      </Label>
+                      <Input
+                        id="text-color"
+                        type="color"
+                        value={settings.textColor || DEFAULT_TRANSMISSION_TEXT_COLOR}
+                        onChange={(e) => updateSettings({ textColor: e.target.value })}
+                        className="hutz-input h-10 p-1"
+                      />
+                    </div>
                   </div>
                   
                   <div>
-                    <Label htmlFor="final-action" className="mb-2 block">
+                    <Label className="mb-2 block">
                       Ação ao Finalizar
                     </Label>
-                    <div className="space-y-2">
+                    <RadioGroup
+                      value={settings.finalAction}
+                      onValueChange={(finalAction) => updateSettings({ finalAction: finalAction as QuizFinalAction })}
+                      className="space-y-2"
+                    >
                       <div className="flex items-center space-x-2">
-                        <input type="radio" id="final-no-action" name="finalAction" className="h-4 w-4" />
+                        <RadioGroupItem value="none" id="final-no-action" />
                         <Label htmlFor="final-no-action">Nenhuma ação</Label>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <input type="radio" id="final-show-image" name="finalAction" className="h-4 w-4" defaultChecked />
+                        <RadioGroupItem value="image" id="final-show-image" />
                         <Label htmlFor="final-show-image">Mostrar imagem</Label>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <input type="radio" id="final-show-coupon" name="finalAction" className="h-4 w-4" />
+                        <RadioGroupItem value="coupon" id="final-show-coupon" />
                         <Label htmlFor="final-show-coupon">Mostrar cupom</Label>
                       </div>
-                    </div>
+                    </RadioGroup>
+                    {settings.finalAction === 'image' && (
+                      <Input
+                        placeholder="URL da imagem final"
+                        value={settings.finalImageUrl || ''}
+                        onChange={(e) => updateSettings({ finalImageUrl: e.target.value || undefined })}
+                        className="hutz-input mt-2"
+                      />
+                    )}
+                    {settings.finalAction === 'coupon' && (
+                      <Input
+                        placeholder="Código do cupom"
+                        value={settings.couponCode || ''}
+                        onChange={(e) => updateSettings({ couponCode: e.target.value || undefined })}
+                        className="hutz-input mt-2"
+                      />
+                    )}
                   </div>
                 </div>
               </div>
             </CardContent>
-            <CardFooter className="flex justify-between pt-4 border-t border-white/10">
-              <Button variant="outline" className="border-white/20">
-                Cancelar
-              </Button>
-              <Button className="hutz-button-accent">
-                <BrainCircuit className="h-4 w-4 mr-2" />
+            <CardFooter className="flex justify-between items-center pt-4 border-t border-white/10">
+              <div className="flex items-center gap-3">
+                <Button variant="outline" className="border-white/20" onClick={newQuiz}>
+                  Novo Quiz
+                </Button>
+                <span className="text-xs text-white/50">
+                  {isDirty
+                    ? draftSavedAt
+                      ? `Rascunho salvo às ${new Date(draftSavedAt).toLocaleTimeString()}`
+                      : 'Alterações não salvas'
+                    : quiz.id ? 'Salvo' : ''}
+                </span>
+              </div>
+              <Button className="hutz-button-accent" onClick={saveQuiz} disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BrainCircuit className="h-4 w-4 mr-2" />}
                 Salvar Quiz
               </Button>
             </CardFooter>
@@ -287,6 +317,47 @@ const QuizPage = () => {
         </div>
         
         <div>
+          <Card className="bg-secondary/40 backdrop-blur-lg border border-white/10">
+            <CardHeader>
+              <CardTitle>Quizzes Salvos</CardTitle>
+              <CardDescription>
+                Abra um quiz preparado para editar ou apresentar
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {savedQuizzes.length === 0 ? (
+                <p className="text-sm text-white/50">Nenhum quiz salvo ainda.</p>
+              ) : (
+                savedQuizzes.map((summary) => (
+                  <div
+                    key={summary.id}
+                    className={`flex items-center justify-between p-2 rounded border ${
+                      summary.id === quiz.id ? 'border-accent' : 'border-white/10'
+                    }`}
+                  >
+                    <button className="text-left flex-1 min-w-0" onClick={() => loadQuiz(summary.id)}>
+                      <p className="text-sm font-medium truncate">{summary.title}</p>
+                      <p className="text-xs text-white/50">
+                        {summary.questionCount} pergunta(s) · {new Date(summary.updatedAt).toLocaleDateString()}
+                      </p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive/80"
+                      onClick={() => deleteQuiz(summary.id)}
+                      title="Excluir quiz"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+          
+          <Separator className="my-6 bg-white/10" />
+          
           <Card className="bg-secondary/40 backdrop-blur-lg border border-white/10">
             <CardHeader>
               <CardTitle>QR Code da Sessão</CardTitle>
@@ -296,34 +367,36 @@ const QuizPage = () => {
             </CardHeader>
             <CardContent className="flex flex-col items-center">
               <div className="w-full aspect-square bg-secondary/60 rounded-lg flex items-center justify-center mb-4">
-                {qrCodeGenerated ? (
+                {qrCodeDataUrl ? (
                   <div className="w-3/4 h-3/4 bg-white p-4 rounded-lg flex items-center justify-center">
-                    <QrCode className="h-full w-full text-black" />
+                    <img src={qrCodeDataUrl} alt="QR Code do quiz" className="h-full w-full" />
                   </div>
                 ) : (
                   <QrCode className="h-16 w-16 text-white/30" />
                 )}
               </div>
               
-              {!qrCodeGenerated ? (
+              {!sessionId ? (
                 <Button 
-                  onClick={handleGenerateQRCode} 
+                  onClick={() => startSession(quiz)} 
                   className="w-full hutz-button-primary"
+                  disabled={isStarting}
                 >
-                  <QrCode className="h-4 w-4 mr-2" />
+                  {isStarting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <QrCode className="h-4 w-4 mr-2" />}
                   Gerar QR Code
                 </Button>
               ) : (
                 <div className="space-y-2 w-full">
-                  <Button className="w-full hutz-button-secondary">
+                  <Button className="w-full hutz-button-secondary" onClick={handleShareJoinURL}>
                     Compartilhar QR Code
                   </Button>
                   <Button 
                     variant="outline" 
                     className="w-full border-white/20"
-                    onClick={() => setQrCodeGenerated(false)}
+                    onClick={() => startSession(quiz)}
+                    disabled={isStarting}
                   >
-                    Gerar Novo QR Code
+                    Reiniciar Quiz
                   </Button>
                 </div>
               )}
@@ -340,12 +413,7 @@ const QuizPage = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="aspect-video bg-black/50 rounded-lg p-4 flex items-center justify-center">
-                <div className="text-white/40 text-center">
-                  <Palette className="h-12 w-12 mx-auto mb-2" />
-                  <p>Pré-visualização do quiz</p>
-                </div>
-              </div>
+              <QuizPreview question={previewQuestion} settings={settings} />
             </CardContent>
           </Card>
           
@@ -363,16 +431,33 @@ const QuizPage = () => {
                 <div className="grid grid-cols-2 gap-4">
                   <div className="hutz-card p-3 text-center">
                     <p className="text-xs text-white/60">Participantes</p>
-                    <p className="text-2xl font-bold">0</p>
+                    <p className="text-2xl font-bold">{answers?.participantCount ?? 0}</p>
                   </div>
                   <div className="hutz-card p-3 text-center">
                     <p className="text-xs text-white/60">Respostas</p>
-                    <p className="text-2xl font-bold">0</p>
+                    <p className="text-2xl font-bold">{answers?.totalAnswers ?? 0}</p>
                   </div>
                 </div>
-                <Button className="w-full hutz-button-secondary">
-                  Iniciar Quiz
-                </Button>
+                {liveState ? (
+                  <QuizHostPanel
+                    liveState={liveState}
+                    answers={answers}
+                    leaderboard={leaderboard}
+                    transmissionOpen={transmissionOpen}
+                    leaderboardOnTransmission={leaderboardOnTransmission}
+                    isExporting={isExporting}
+                    onNext={nextQuestion}
+                    onReveal={revealResults}
+                    onEnd={endQuiz}
+                    onOpenTransmission={openTransmission}
+                    onToggleLeaderboard={toggleLeaderboardOnTransmission}
+                    onExport={exportResults}
+                  />
+                ) : (
+                  <Button className="w-full hutz-button-secondary" onClick={() => startSession(quiz)} disabled={isStarting}>
+                    Iniciar Quiz
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,211 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Loader2, Timer, XCircle } from "lucide-react";
+import ParticipantLinkExpired from '@/components/participant/ParticipantLinkExpired';
+import { roomService } from '@/services/RoomService';
+import { useQuizPlayer } from '@/hooks/quiz/useQuizPlayer';
+import { useQuizCountdown } from '@/hooks/quiz/useQuizCountdown';
+
+const PLAYER_NAME_KEY = 'quiz-player-name';
+const OPTION_COLORS = ['bg-red-500', 'bg-blue-500', 'bg-yellow-500', 'bg-green-500', 'bg-purple-500', 'bg-pink-500'];
+
+const QuizPlayPage = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [participantId] = useState(() => roomService.getParticipantId(sessionId || ''));
+  const [joinStatus, setJoinStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [joinErrorCode, setJoinErrorCode] = useState<string | undefined>();
+  const [nameInput, setNameInput] = useState(() => localStorage.getItem(PLAYER_NAME_KEY) || '');
+  const [playerName, setPlayerName] = useState<string | null>(null);
+
+  // Token de entrada do QR code: guardado na sessão (reconexões) e validado antes de entrar
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const urlToken = searchParams.get('token');
+    if (urlToken) {
+      roomService.setJoinToken(sessionId, { token: urlToken });
+    }
+
+    const joinToken = urlToken || roomService.getJoinToken(sessionId)?.token || null;
+    roomService.verifyJoinToken(sessionId, joinToken)
+      .then(result => {
+        setJoinErrorCode(result.code);
+        setJoinStatus(result.valid ? 'valid' : 'invalid');
+      })
+      .catch(err => {
+        console.warn('⚠️ QUIZ PLAY: Could not verify join token:', err);
+        setJoinStatus('valid');
+      });
+  }, [sessionId, searchParams]);
+
+  const { status, errorCode, liveState, selectedOptionId, answerStatus, score, submitAnswer } = useQuizPlayer({
+    sessionId,
+    participantId,
+    name: playerName || '',
+    enabled: joinStatus === 'valid' && Boolean(playerName)
+  });
+  const remaining = useQuizCountdown(liveState);
+
+  const handleJoin = () => {
+    const name = nameInput.trim();
+    if (!name) return;
+
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+    setPlayerName(name);
+  };
+
+  const renderScreen = (content: ReactNode) => (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6 flex items-center justify-center text-white">
+      <div className="w-full max-w-md">{content}</div>
+    </div>
+  );
+
+  if (joinStatus === 'invalid') {
+    return <ParticipantLinkExpired code={joinErrorCode} onBack={() => navigate('/')} />;
+  }
+
+  if (status === 'error') {
+    return <ParticipantLinkExpired code={errorCode} onBack={() => navigate('/')} />;
+  }
+
+  if (joinStatus === 'checking') {
+    return renderScreen(
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-4">Validando link...</h2>
+        <p className="text-white/80">Conferindo o acesso ao quiz...</p>
+      </div>
+    );
+  }
+
+  if (!playerName) {
+    return renderScreen(
+      <div className="space-y-4 text-center">
+        <h1 className="text-2xl font-bold">Momento Quiz</h1>
+        <p className="text-white/80">Como você quer aparecer no placar?</p>
+        <Input
+          placeholder="Seu nome ou apelido"
+          value={nameInput}
+          maxLength={30}
+          onChange={(e) => setNameInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+          className="hutz-input text-center"
+        />
+        <Button className="w-full hutz-button-accent" onClick={handleJoin} disabled={!nameInput.trim()}>
+          Entrar no quiz
+        </Button>
+      </div>
+    );
+  }
+
+  if (status !== 'joined' || !liveState) {
+    return renderScreen(
+      <div className="text-center">
+        <Loader2 className="h-10 w-10 animate-spin mx-auto mb-4" />
+        <p className="text-white/80">
+          {status === 'joined' ? 'Aguardando o apresentador iniciar o quiz...' : 'Entrando no quiz...'}
+        </p>
+      </div>
+    );
+  }
+
+  const { phase, question, results } = liveState;
+
+  if (phase === 'waiting') {
+    return renderScreen(
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold">{liveState.title}</h1>
+        <p className="text-white/80">Olá, {playerName}! O quiz vai começar em instantes.</p>
+        <p className="text-white/60 text-sm">{liveState.totalQuestions} pergunta(s)</p>
+      </div>
+    );
+  }
+
+  if (phase === 'finished' || !question) {
+    return renderScreen(
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold">Quiz encerrado</h1>
+        <p className="text-white/80">Obrigado por participar, {playerName}!</p>
+        {score && (
+          <div className="mt-4 rounded-lg bg-white/10 p-4">
+            <p className="text-3xl font-bold">{score.rank}º lugar</p>
+            <p className="text-white/80">{score.score} pontos · {score.correctCount} acerto(s)</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const isClosed = phase === 'results';
+  const isCorrect = isClosed && results && selectedOptionId === results.correctOptionId;
+
+  return renderScreen(
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-white/70">
+        <span>Pergunta {liveState.questionIndex + 1} de {liveState.totalQuestions}</span>
+        {!isClosed && (
+          <span className="flex items-center gap-1">
+            <Timer className="h-4 w-4" />
+            {remaining}s
+          </span>
+        )}
+      </div>
+      {!isClosed && <Progress value={(remaining / question.timeLimit) * 100} className="h-2" />}
+
+      {question.imageUrl && (
+        <img src={question.imageUrl} alt="" className="w-full max-h-48 object-contain rounded-lg" />
+      )}
+      <h2 className="text-xl font-bold">{question.prompt}</h2>
+
+      <div className="grid grid-cols-1 gap-3">
+        {question.options.map((option, index) => {
+          const isSelected = option.id === selectedOptionId;
+          const isAnswer = isClosed && option.id === results?.correctOptionId;
+
+          return (
+            <button
+              key={option.id}
+              onClick={() => submitAnswer(option.id)}
+              disabled={isClosed || answerStatus === 'sending' || answerStatus === 'accepted'}
+              className={`${OPTION_COLORS[index % OPTION_COLORS.length]} rounded-lg p-4 text-left font-medium transition-opacity ${
+                isSelected || isAnswer ? 'ring-4 ring-white' : ''
+              } ${(isClosed && !isAnswer) || (!isClosed && selectedOptionId && !isSelected) ? 'opacity-40' : ''}`}
+            >
+              {option.text}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="text-center text-white/80 min-h-[2rem]">
+        {!isClosed && answerStatus === 'sending' && 'Enviando resposta...'}
+        {!isClosed && answerStatus === 'accepted' && 'Resposta registrada! Aguarde o resultado.'}
+        {!isClosed && answerStatus === 'rejected' && 'Não foi possível registrar sua resposta.'}
+        {isClosed && !selectedOptionId && 'Tempo esgotado.'}
+        {isClosed && selectedOptionId && (
+          isCorrect ? (
+            <span className="flex items-center justify-center gap-2 text-green-400 font-semibold">
+              <CheckCircle2 className="h-5 w-5" /> Resposta correta!
+            </span>
+          ) : (
+            <span className="flex items-center justify-center gap-2 text-red-400 font-semibold">
+              <XCircle className="h-5 w-5" /> Não foi dessa vez.
+            </span>
+          )
+        )}
+        {isClosed && score && (
+          <p className="mt-2 text-sm">
+            {score.lastDelta > 0 && <span className="text-green-400 font-semibold">+{score.lastDelta} pts · </span>}
+            {score.score} pontos · {score.rank}º de {score.totalPlayers}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPlayPage;
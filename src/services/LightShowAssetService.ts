@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LightShowAsset,
+  LightShowCallToActionEntry,
+  LightShowItemReference,
+  LightShowManifest,
+  TimelineItem
+} from '@/types/lightshow';
+import { sha256Hex } from '@/utils/contentHash';
+
+export const LIGHTSHOW_ASSETS_BUCKET = 'lightshow-assets';
+
+const ASSET_KEY_LENGTH = 8;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+export interface PublishedLightShow {
+  manifest: LightShowManifest;
+  manifestUrl: string;
+  references: Map<string, LightShowItemReference>;
+}
+
+interface PublishOptions {
+  showId: string;
+  showName: string;
+  duration: number;
+  timelineItems: TimelineItem[];
+}
+
+// Itens com imagem precisam do bucket: os celulares não carregam as URLs data:/blob: do editor
+export const hasPublishableMedia = (item: TimelineItem) =>
+  (item.type === 'image' && Boolean(item.imageUrl)) || (item.type === 'callToAction' && Boolean(item.content?.imageUrl));
+
+// Caminho público do manifesto de um show (os celulares montam a mesma URL a partir do showId)
+export const getLightShowManifestPath = (showId: string) => `shows/${showId}/manifest.json`;
+
+class LightShowAssetService {
+  getManifestUrl(showId: string): string {
+    return supabase.storage.from(LIGHTSHOW_ASSETS_BUCKET).getPublicUrl(getLightShowManifestPath(showId)).data.publicUrl;
+  }
+
+  /**
+   * Envia as imagens (nome = hash do conteúdo, então reenvios não duplicam arquivos)
+   * e o manifesto do show; retorna as chaves curtas que vão no payload ultrassônico
+   */
+  async publishShow({ showId, showName, duration, timelineItems }: PublishOptions): Promise<PublishedLightShow> {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      throw new Error('Faça login para publicar as imagens do show');
+    }
+
+    const assets: Record<string, LightShowAsset> = {};
+    const assetKeysByUrl = new Map<string, string>();
+    const callsToAction: Record<string, LightShowCallToActionEntry> = {};
+    const references = new Map<string, LightShowItemReference>();
+
+    const uploadAsset = async (url: string): Promise<string> => {
+      const cached = assetKeysByUrl.get(url);
+      if (cached) return cached;
+
+      const asset = await this.uploadAsset(url);
+      const key = asset.hash.slice(0, ASSET_KEY_LENGTH);
+      assets[key] = asset;
+      assetKeysByUrl.set(url, key);
+      return key;
+    };
+
+    const items: LightShowManifest['items'] = [];
+
+    for (const item of timelineItems) {
+      const reference: LightShowItemReference = {};
+
+      if (item.type === 'image' && item.imageUrl) {
+        reference.asset = await uploadAsset(item.imageUrl);
+      } else if (item.type === 'callToAction' && item.content) {
+        const entry: LightShowCallToActionEntry = {
+          type: item.content.type,
+          asset: item.content.imageUrl ? await uploadAsset(item.content.imageUrl) : undefined,
+          buttonText: item.content.buttonText,
+          externalUrl: item.content.externalUrl,
+          couponCode: item.content.couponCode
+        };
+        const entryHash = await sha256Hex(new Blob([JSON.stringify(entry)]));
+        reference.callToAction = entryHash.slice(0, ASSET_KEY_LENGTH);
+        callsToAction[reference.callToAction] = entry;
+      }
+
+      references.set(item.id, reference);
+      items.push({
+        id: item.id,
+        type: item.type,
+        startTime: item.startTime,
+        duration: item.duration,
+        ...reference
+      });
+    }
+
+    const manifest: LightShowManifest = {
+      version: 1,
+      showId,
+      showName,
+      createdAt: new Date().toISOString(),
+      duration,
+      assets,
+      callsToAction,
+      items
+    };
+
+    const { error } = await supabase.storage
+      .from(LIGHTSHOW_ASSETS_BUCKET)
+      .upload(getLightShowManifestPath(showId), new Blob([JSON.stringify(manifest)], { type: 'application/json' }), {
+        contentType: 'application/json',
+        upsert: true
+      });
+
+    if (error) {
+      throw new Error(`Erro ao enviar o manifesto: ${error.message}`);
+    }
+
+    console.log(`✅ LIGHTSHOW ASSETS: Show ${showId} publicado (${Object.keys(assets).length} arquivos, ${items.length} itens)`);
+    return { manifest, manifestUrl: this.getManifestUrl(showId), references };
+  }
+
+  // Aceita data URI, blob: ou URL http(s) com CORS
+  private async uploadAsset(url: string): Promise<LightShowAsset> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Não foi possível ler a imagem ${url.slice(0, 60)} (${response.status})`);
+    }
+
+    const blob = await response.blob();
+    const hash = await sha256Hex(blob);
+    const mimeType = blob.type || 'application/octet-stream';
+    const path = `assets/${hash}.${EXTENSIONS[mimeType] || 'bin'}`;
+    const bucket = supabase.storage.from(LIGHTSHOW_ASSETS_BUCKET);
+
+    // Mesmo hash = mesmo conteúdo: se o arquivo já existe, basta reutilizá-lo
+    const { error } = await bucket.upload(path, blob, { contentType: mimeType, upsert: false, cacheControl: '31536000' });
+    if (error && !/exists|duplicate/i.test(error.message)) {
+      throw new Error(`Erro ao enviar a imagem: ${error.message}`);
+    }
+
+    return {
+      hash,
+      path,
+      url: bucket.getPublicUrl(path).data.publicUrl,
+      mimeType,
+      size: blob.size
+    };
+  }
+}
+
+export const lightShowAssetService = new LightShowAssetService();
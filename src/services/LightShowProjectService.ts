@@ -0,0 +1,535 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  LightShowProject,
+  LightShowProjectState,
+  LightShowProjectSummary,
+  LightShowProjectVersion,
+  TimelineItem
+} from '@/types/lightshow';
+import { sha256Hex } from '@/utils/contentHash';
+
+export const LIGHTSHOW_PROJECTS_BUCKET = 'lightshow-projects';
+export const PROJECT_FILE_EXTENSION = '.lightshow.json';
+
+const DB_NAME = 'momento-lightshow';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const VERSIONS_STORE = 'versions';
+const MEDIA_STORE = 'media';
+const LAST_PROJECT_KEY = 'lightshow-last-project';
+const MEDIA_PREFIX = 'media:';
+// Limpeza das mídias órfãs depois do autosave: uma por rajada de salvamentos
+const MEDIA_PRUNE_DELAY_MS = 10_000;
+
+export interface PackedProject {
+  project: LightShowProject;
+  media: Map<string, Blob>;
+}
+
+interface StoredVersion {
+  id: string;
+  projectId: string;
+  label: string;
+  createdAt: string;
+  project: LightShowProject;
+}
+
+// Arquivo exportado: o projeto com as mídias embutidas em data URIs
+interface ProjectFile extends LightShowProject {
+  media: Record<string, string>;
+}
+
+const isMediaReference = (url?: string) => Boolean(url?.startsWith(MEDIA_PREFIX));
+const toMediaHash = (url: string) => url.slice(MEDIA_PREFIX.length);
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+class LightShowProjectService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Mídia por URL/arquivo já processado: o autosave não relê nem recalcula mídias que não mudaram.
+  // Só guarda as URLs que o editor ainda usa (ver packProject e releaseProjectMedia)
+  private mediaByUrl = new Map<string, { hash: string; blob: Blob }>();
+  private hashesByFile = new WeakMap<File, string>();
+  // Object URLs criadas ao abrir um projeto, liberadas quando outro projeto entra no editor
+  private projectObjectUrls = new Set<string>();
+  private pruneTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+          db.createObjectStore(MEDIA_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Converte o estado do editor em projeto + mídias (áudio e imagens por hash do conteúdo)
+   */
+  async packProject(
+    state: LightShowProjectState,
+    identity: { id: string; createdAt: string }
+  ): Promise<PackedProject> {
+    const media = new Map<string, Blob>();
+    const usedUrls = new Set<string>();
+
+    const packUrl = async (url?: string): Promise<string | undefined> => {
+      if (!url || isMediaReference(url)) return url;
+
+      usedUrls.add(url);
+      let cached = this.mediaByUrl.get(url);
+      if (!cached) {
+        const blob = await (await fetch(url)).blob();
+        cached = { hash: await sha256Hex(blob), blob };
+        this.mediaByUrl.set(url, cached);
+      }
+      media.set(cached.hash, cached.blob);
+      return `${MEDIA_PREFIX}${cached.hash}`;
+    };
+
+    let audio: LightShowProject['audio'] = null;
+    if (state.audioFile) {
+      const hash = this.hashesByFile.get(state.audioFile) ?? await sha256Hex(state.audioFile);
+      this.hashesByFile.set(state.audioFile, hash);
+      media.set(hash, state.audioFile);
+      audio = { name: state.audioFile.name, type: state.audioFile.type, media: hash };
+    }
+
+    const timelineItems: TimelineItem[] = [];
+    for (const item of state.timelineItems) {
+      timelineItems.push({
+        ...item,
+        imageUrl: await packUrl(item.imageUrl),
+        content: item.content ? { ...item.content, imageUrl: await packUrl(item.content.imageUrl) } : undefined
+      });
+    }
+
+    const project: LightShowProject = {
+      format: 'momento-lightshow',
+      formatVersion: 1,
+      id: identity.id,
+      showName: state.showName,
+      audio,
+      timelineItems,
+      callToAction: { ...state.callToAction, imageUrl: await packUrl(state.callToAction.imageUrl) },
+      zones: state.zones,
+      createdAt: identity.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    // Imagens trocadas ou removidas saem do cache junto com o blob
+    this.mediaByUrl.forEach((_, url) => {
+      if (!usedUrls.has(url) && !this.projectObjectUrls.has(url)) this.mediaByUrl.delete(url);
+    });
+
+    return { project, media };
+  }
+
+  /**
+   * Restaura o estado do editor: referências de mídia viram object URLs
+   * (as do projeto aberto antes são liberadas)
+   */
+  unpackProject({ project, media }: PackedProject): LightShowProjectState {
+    this.releaseProjectMedia();
+
+    const unpackUrl = (url?: string): string | undefined => {
+      if (!url || !isMediaReference(url)) return url;
+
+      const hash = toMediaHash(url);
+      const blob = media.get(hash);
+      if (!blob) {
+        console.warn(`⚠️ LIGHTSHOW PROJECT: Missing media ${hash}`);
+        return undefined;
+      }
+
+      const objectUrl = URL.createObjectURL(blob);
+      this.mediaByUrl.set(objectUrl, { hash, blob });
+      this.projectObjectUrls.add(objectUrl);
+      return objectUrl;
+    };
+
+    let audioFile: File | null = null;
+    const audioBlob = project.audio && media.get(project.audio.media);
+    if (project.audio && audioBlob) {
+      audioFile = new File([audioBlob], project.audio.name, { type: project.audio.type });
+      this.hashesByFile.set(audioFile, project.audio.media);
+    }
+
+    return {
+      showName: project.showName,
+      audioFile,
+      timelineItems: project.timelineItems.map(item => ({
+        ...item,
+        imageUrl: unpackUrl(item.imageUrl),
+        content: item.content ? { ...item.content, imageUrl: unpackUrl(item.content.imageUrl) } : undefined
+      })),
+      callToAction: { ...project.callToAction, imageUrl: unpackUrl(project.callToAction.imageUrl) },
+      zones: project.zones ?? []
+    };
+  }
+
+  // Revoga as object URLs do último projeto aberto, que saiu do editor
+  releaseProjectMedia(): void {
+    this.projectObjectUrls.forEach(url => {
+      URL.revokeObjectURL(url);
+      this.mediaByUrl.delete(url);
+    });
+    this.projectObjectUrls.clear();
+  }
+
+  private getMediaHashes(project: LightShowProject): string[] {
+    const urls = [
+      ...project.timelineItems.flatMap(item => [item.imageUrl, item.content?.imageUrl]),
+      project.callToAction.imageUrl
+    ];
+    const hashes = urls.filter(isMediaReference).map(url => toMediaHash(url as string));
+    if (project.audio) hashes.push(project.audio.media);
+    return Array.from(new Set(hashes));
+  }
+
+  // ---- Navegador (IndexedDB) ----
+
+  async saveLocal({ project, media }: PackedProject): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite');
+    const mediaStore = transaction.objectStore(MEDIA_STORE);
+
+    // Mídias são endereçadas pelo hash: só grava as que ainda não estão no banco
+    const storedKeys = mediaStore.getAllKeys();
+    storedKeys.onsuccess = () => {
+      const stored = new Set(storedKeys.result.map(String));
+      media.forEach((blob, hash) => {
+        if (!stored.has(hash)) mediaStore.put(blob, hash);
+      });
+    };
+    transaction.objectStore(PROJECTS_STORE).put(project);
+
+    await transactionDone(transaction);
+    this.setLastProjectId(project.id);
+    this.schedulePruneLocalMedia();
+  }
+
+  async loadLocal(projectId: string): Promise<PackedProject | null> {
+    const db = await this.openDatabase();
+    const project = await requestToPromise<LightShowProject | undefined>(
+      db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(projectId)
+    );
+    if (!project) return null;
+
+    return { project, media: await this.readLocalMedia(this.getMediaHashes(project)) };
+  }
+
+  async listLocal(): Promise<LightShowProjectSummary[]> {
+    const db = await this.openDatabase();
+    const projects = await requestToPromise<LightShowProject[]>(
+      db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+    );
+
+    return projects
+      .map(project => ({ id: project.id, showName: project.showName, updatedAt: project.updatedAt, location: 'local' as const }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async deleteLocal(projectId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const versions = await requestToPromise<StoredVersion[]>(
+      db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE).index('projectId').getAll(projectId)
+    );
+
+    const transaction = db.transaction([PROJECTS_STORE, VERSIONS_STORE], 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).delete(projectId);
+    versions.forEach(version => transaction.objectStore(VERSIONS_STORE).delete(version.id));
+    await transactionDone(transaction);
+
+    if (localStorage.getItem(LAST_PROJECT_KEY) === projectId) {
+      localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+    await this.pruneLocalMedia();
+  }
+
+  getLastProjectId(): string | null {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  }
+
+  // Projeto reaberto depois de recarregar a página
+  setLastProjectId(projectId: string): void {
+    localStorage.setItem(LAST_PROJECT_KEY, projectId);
+  }
+
+  private async readLocalMedia(hashes: string[]): Promise<Map<string, Blob>> {
+    const db = await this.openDatabase();
+    const store = db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE);
+    const entries = await Promise.all(
+      hashes.map(async hash => [hash, await requestToPromise<Blob | undefined>(store.get(hash))] as const)
+    );
+
+    return new Map(entries.filter((entry): entry is readonly [string, Blob] => Boolean(entry[1])));
+  }
+
+  // Áudio trocado, corte e imagens substituídas deixam blobs para trás a cada autosave
+  private schedulePruneLocalMedia(): void {
+    if (this.pruneTimer) clearTimeout(this.pruneTimer);
+    this.pruneTimer = setTimeout(() => {
+      this.pruneTimer = null;
+      this.pruneLocalMedia().catch(error => console.warn('⚠️ LIGHTSHOW PROJECT: Could not prune stored media:', error));
+    }, MEDIA_PRUNE_DELAY_MS);
+  }
+
+  /**
+   * Remove mídias que nenhum projeto ou versão referencia mais. Leitura e remoção ficam na
+   * mesma transação, então um salvamento em paralelo não perde uma mídia que voltou a ser usada
+   */
+  private async pruneLocalMedia(): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, VERSIONS_STORE, MEDIA_STORE], 'readwrite');
+    const mediaStore = transaction.objectStore(MEDIA_STORE);
+    const projects = transaction.objectStore(PROJECTS_STORE).getAll();
+    const versions = transaction.objectStore(VERSIONS_STORE).getAll();
+    const mediaKeys = mediaStore.getAllKeys();
+    let removed = 0;
+
+    // Pedidos da mesma transação terminam em ordem: aqui os projetos e versões já foram lidos
+    mediaKeys.onsuccess = () => {
+      const stored = [...(projects.result as LightShowProject[]), ...(versions.result as StoredVersion[]).map(version => version.project)];
+      const used = new Set(stored.flatMap(project => this.getMediaHashes(project)));
+      mediaKeys.result.forEach(key => {
+        if (used.has(String(key))) return;
+        mediaStore.delete(key);
+        removed++;
+      });
+    };
+
+    await transactionDone(transaction);
+    if (removed > 0) {
+      console.log(`🧹 LIGHTSHOW PROJECT: Removed ${removed} unused media files`);
+    }
+  }
+
+  // ---- Versões nomeadas ----
+
+  async saveVersion(packed: PackedProject, label: string, location: 'local' | 'cloud'): Promise<LightShowProjectVersion> {
+    const version: StoredVersion = {
+      id: crypto.randomUUID(),
+      projectId: packed.project.id,
+      label,
+      createdAt: new Date().toISOString(),
+      project: packed.project
+    };
+
+    if (location === 'cloud') {
+      await this.saveCloud(packed);
+      const { error } = await supabase.from('lightshow_project_versions').insert({
+        id: version.id,
+        project_id: version.projectId,
+        label,
+        data: version.project as unknown as Json
+      });
+      if (error) throw new Error(error.message);
+    } else {
+      await this.saveLocal(packed);
+      const db = await this.openDatabase();
+      const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+      transaction.objectStore(VERSIONS_STORE).put(version);
+      await transactionDone(transaction);
+    }
+
+    const { project: _project, ...summary } = version;
+    return { ...summary, location };
+  }
+
+  async listVersions(projectId: string): Promise<LightShowProjectVersion[]> {
+    const db = await this.openDatabase();
+    const local = await requestToPromise<StoredVersion[]>(
+      db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE).index('projectId').getAll(projectId)
+    );
+    const versions: LightShowProjectVersion[] = local.map(({ project: _project, ...version }) => ({ ...version, location: 'local' }));
+
+    if (await this.isSignedIn()) {
+      const { data, error } = await supabase
+        .from('lightshow_project_versions')
+        .select('id, project_id, label, created_at')
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.warn('⚠️ LIGHTSHOW PROJECT: Could not list cloud versions:', error.message);
+      } else {
+        versions.push(...data.map(row => ({
+          id: row.id,
+          projectId: row.project_id,
+          label: row.label,
+          createdAt: row.created_at,
+          location: 'cloud' as const
+        })));
+      }
+    }
+
+    return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async loadVersion(version: LightShowProjectVersion): Promise<PackedProject> {
+    let project: LightShowProject;
+
+    if (version.location === 'cloud') {
+      const { data, error } = await supabase.from('lightshow_project_versions').select('data').eq('id', version.id).single();
+      if (error) throw new Error(error.message);
+      project = data.data as unknown as LightShowProject;
+      return { project, media: await this.downloadCloudMedia(this.getMediaHashes(project)) };
+    }
+
+    const db = await this.openDatabase();
+    const stored = await requestToPromise<StoredVersion | undefined>(
+      db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE).get(version.id)
+    );
+    if (!stored) throw new Error('Versão não encontrada');
+
+    project = stored.project;
+    return { project, media: await this.readLocalMedia(this.getMediaHashes(project)) };
+  }
+
+  // ---- Supabase (opcional, por usuário) ----
+
+  async isSignedIn(): Promise<boolean> {
+    const { data } = await supabase.auth.getSession();
+    return Boolean(data.session);
+  }
+
+  private async getUserId(): Promise<string> {
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+      throw new Error('Faça login para salvar projetos na nuvem');
+    }
+    return data.session.user.id;
+  }
+
+  async saveCloud({ project, media }: PackedProject): Promise<void> {
+    const userId = await this.getUserId();
+    const bucket = supabase.storage.from(LIGHTSHOW_PROJECTS_BUCKET);
+
+    for (const [hash, blob] of media) {
+      // Mídias são nomeadas pelo hash: se já existem, não precisam ser reenviadas
+      const { error } = await bucket.upload(`${userId}/${hash}`, blob, { contentType: blob.type || undefined, upsert: false });
+      if (error && !/exists|duplicate/i.test(error.message)) {
+        throw new Error(`Erro ao enviar mídia do projeto: ${error.message}`);
+      }
+    }
+
+    const { error } = await supabase.from('lightshow_projects').upsert({
+      id: project.id,
+      show_name: project.showName,
+      data: project as unknown as Json,
+      updated_at: project.updatedAt
+    });
+    if (error) throw new Error(error.message);
+
+    console.log(`✅ LIGHTSHOW PROJECT: Saved ${project.id} to the cloud (${media.size} media files)`);
+  }
+
+  async listCloud(): Promise<LightShowProjectSummary[]> {
+    if (!(await this.isSignedIn())) return [];
+
+    const { data, error } = await supabase
+      .from('lightshow_projects')
+      .select('id, show_name, updated_at')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    return data.map(row => ({ id: row.id, showName: row.show_name, updatedAt: row.updated_at, location: 'cloud' as const }));
+  }
+
+  async loadCloud(projectId: string): Promise<PackedProject> {
+    const { data, error } = await supabase.from('lightshow_projects').select('data').eq('id', projectId).single();
+    if (error) throw new Error(error.message);
+
+    const project = data.data as unknown as LightShowProject;
+    return { project, media: await this.downloadCloudMedia(this.getMediaHashes(project)) };
+  }
+
+  async deleteCloud(projectId: string): Promise<void> {
+    const { error } = await supabase.from('lightshow_projects').delete().eq('id', projectId);
+    if (error) throw new Error(error.message);
+  }
+
+  private async downloadCloudMedia(hashes: string[]): Promise<Map<string, Blob>> {
+    const userId = await this.getUserId();
+    const bucket = supabase.storage.from(LIGHTSHOW_PROJECTS_BUCKET);
+    const media = new Map<string, Blob>();
+
+    for (const hash of hashes) {
+      const { data, error } = await bucket.download(`${userId}/${hash}`);
+      if (error) {
+        console.warn(`⚠️ LIGHTSHOW PROJECT: Could not download media ${hash}:`, error.message);
+        continue;
+      }
+      media.set(hash, data);
+    }
+    return media;
+  }
+
+  // ---- Arquivo (.lightshow.json) ----
+
+  async exportFile({ project, media }: PackedProject): Promise<Blob> {
+    const file: ProjectFile = { ...project, media: {} };
+    for (const [hash, blob] of media) {
+      file.media[hash] = await blobToDataUrl(blob);
+    }
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+  }
+
+  async importFile(file: File): Promise<PackedProject> {
+    let parsed: ProjectFile;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error('O arquivo não é um projeto válido');
+    }
+
+    if (parsed.format !== 'momento-lightshow' || !Array.isArray(parsed.timelineItems)) {
+      throw new Error('O arquivo não é um projeto de show de luzes');
+    }
+    if (parsed.formatVersion > 1) {
+      throw new Error('Projeto criado em uma versão mais nova do editor');
+    }
+
+    const { media: encodedMedia = {}, ...project } = parsed;
+    const media = new Map<string, Blob>();
+    for (const [hash, dataUrl] of Object.entries(encodedMedia)) {
+      media.set(hash, await (await fetch(dataUrl)).blob());
+    }
+
+    return { project, media };
+  }
+}
+
+export const lightShowProjectService = new LightShowProjectService();
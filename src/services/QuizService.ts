@@ -0,0 +1,201 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { Quiz, QuizOption, QuizQuestion, QuizSettings, QuizSummary } from '@/types/quiz';
+
+export interface QuizDraft {
+  quiz: Quiz;
+  savedAt: string;
+}
+
+const DRAFT_KEY = 'quiz-draft';
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  description: 'Escaneie o QR Code para participar do quiz',
+  appearance: 'gradient',
+  backgroundColor: '#1e1b4b',
+  font: 'sans-serif',
+  textColor: '#FFFFFF',
+  finalAction: 'none'
+};
+
+export const createQuizOption = (text = ''): QuizOption => ({
+  id: crypto.randomUUID().slice(0, 8),
+  text
+});
+
+export const createQuizQuestion = (): QuizQuestion => {
+  const options = [createQuizOption(), createQuizOption(), createQuizOption(), createQuizOption()];
+  return {
+    id: crypto.randomUUID(),
+    prompt: '',
+    options,
+    correctOptionId: options[0].id,
+    timeLimit: 30,
+    points: 100,
+    isActive: true
+  };
+};
+
+export const createEmptyQuiz = (): Quiz => ({
+  id: null,
+  title: 'Meu Quiz Interativo',
+  settings: { ...DEFAULT_QUIZ_SETTINGS },
+  questions: [createQuizQuestion()]
+});
+
+// Retorna a primeira pendência que impede salvar ou apresentar o quiz
+export const validateQuiz = (quiz: Quiz): string | null => {
+  if (!quiz.title.trim()) return 'Informe o título do quiz.';
+  if (quiz.questions.length === 0) return 'Adicione pelo menos uma pergunta.';
+
+  for (const [index, question] of quiz.questions.entries()) {
+    if (!question.prompt.trim()) return `A pergunta ${index + 1} está sem enunciado.`;
+    if (question.options.some(option => !option.text.trim())) return `Preencha todas as alternativas da pergunta ${index + 1}.`;
+    if (!question.options.some(option => option.id === question.correctOptionId)) return `Marque a resposta correta da pergunta ${index + 1}.`;
+  }
+  return null;
+};
+
+const toQuestion = (row: Tables<'quiz_questions'>): QuizQuestion => ({
+  id: row.id,
+  prompt: row.prompt,
+  options: (row.options as unknown as QuizOption[]) || [],
+  correctOptionId: row.correct_option_id,
+  timeLimit: row.time_limit_seconds,
+  points: row.points,
+  imageUrl: row.image_url || undefined,
+  isActive: row.is_active
+});
+
+class QuizService {
+  async listQuizzes(): Promise<QuizSummary[]> {
+    const { data, error } = await supabase
+      .from('quizzes')
+      .select('id, title, updated_at, quiz_questions(count)')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      title: row.title,
+      questionCount: (row.quiz_questions as unknown as { count: number }[])[0]?.count ?? 0,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  async getQuiz(quizId: string): Promise<Quiz> {
+    const { data, error } = await supabase
+      .from('quizzes')
+      .select('*, quiz_questions(*)')
+      .eq('id', quizId)
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const questions = [...(data.quiz_questions || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(toQuestion);
+
+    return {
+      id: data.id,
+      title: data.title,
+      settings: { ...DEFAULT_QUIZ_SETTINGS, ...(data.settings as unknown as Partial<QuizSettings>) },
+      questions,
+      updatedAt: data.updated_at
+    };
+  }
+
+  // Salva o quiz e substitui as perguntas (ordem = position); retorna o quiz com o id do Supabase
+  async saveQuiz(quiz: Quiz): Promise<Quiz> {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      throw new Error('Faça login para salvar quizzes');
+    }
+
+    const updatedAt = new Date().toISOString();
+    const quizRow = {
+      title: quiz.title.trim() || 'Quiz sem título',
+      settings: quiz.settings as unknown as Json,
+      updated_at: updatedAt
+    };
+
+    const { data: saved, error: quizError } = quiz.id
+      ? await supabase.from('quizzes').update(quizRow).eq('id', quiz.id).select('id').single()
+      : await supabase.from('quizzes').insert(quizRow).select('id').single();
+
+    if (quizError) {
+      throw new Error(quizError.message);
+    }
+
+    const quizId = saved.id;
+    const questionIds = quiz.questions.map(question => question.id);
+
+    // Remove perguntas excluídas no editor
+    let deleteQuery = supabase.from('quiz_questions').delete().eq('quiz_id', quizId);
+    if (questionIds.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${questionIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+
+    if (quiz.questions.length > 0) {
+      const { error: questionsError } = await supabase.from('quiz_questions').upsert(
+        quiz.questions.map((question, index) => ({
+          id: question.id,
+          quiz_id: quizId,
+          position: index,
+          prompt: question.prompt,
+          options: question.options as unknown as Json,
+          correct_option_id: question.correctOptionId,
+          time_limit_seconds: question.timeLimit,
+          points: question.points,
+          image_url: question.imageUrl || null,
+          is_active: question.isActive
+        }))
+      );
+
+      if (questionsError) {
+        throw new Error(questionsError.message);
+      }
+    }
+
+    console.log(`✅ QUIZ SERVICE: Saved quiz ${quizId} (${quiz.questions.length} questions)`);
+    return { ...quiz, id: quizId, updatedAt };
+  }
+
+  async deleteQuiz(quizId: string): Promise<void> {
+    const { error } = await supabase.from('quizzes').delete().eq('id', quizId);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // Rascunho local: sobrevive a recarregamentos e quedas de conexão antes de salvar
+  loadDraft(): QuizDraft | null {
+    try {
+      const raw = localStorage.getItem(DRAFT_KEY);
+      return raw ? JSON.parse(raw) as QuizDraft : null;
+    } catch (error) {
+      console.warn('⚠️ QUIZ SERVICE: Could not read draft:', error);
+      return null;
+    }
+  }
+
+  saveDraft(quiz: Quiz): void {
+    const draft: QuizDraft = { quiz, savedAt: new Date().toISOString() };
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  }
+
+  clearDraft(): void {
+    localStorage.removeItem(DRAFT_KEY);
+  }
+}
+
+export const quizService = new QuizService();
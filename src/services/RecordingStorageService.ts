@@ -0,0 +1,122 @@
+import { StoredRecording } from '@/types/recording';
+
+const DB_NAME = 'momento-recordings';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+const CHUNKS_STORE = 'chunks';
+
+interface StoredChunk {
+  recordingId: string;
+  index: number;
+  blob: Blob;
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Todos os pedaços de uma gravação (chave composta [recordingId, index])
+const chunkRange = (recordingId: string) => IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+
+class RecordingStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          db.createObjectStore(CHUNKS_STORE, { keyPath: ['recordingId', 'index'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async createRecording(recording: StoredRecording): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+    transaction.objectStore(RECORDINGS_STORE).put(recording);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Grava um pedaço e atualiza o tamanho na mesma transação: se a aba cair,
+   * tudo que já foi confirmado continua recuperável
+   */
+  async appendChunk(recordingId: string, index: number, blob: Blob): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+    const recordings = transaction.objectStore(RECORDINGS_STORE);
+
+    transaction.objectStore(CHUNKS_STORE).put({ recordingId, index, blob } satisfies StoredChunk);
+    const recording = await requestToPromise<StoredRecording | undefined>(recordings.get(recordingId));
+    if (recording) {
+      recordings.put({ ...recording, chunkCount: recording.chunkCount + 1, size: recording.size + blob.size });
+    }
+
+    await transactionDone(transaction);
+  }
+
+  async finishRecording(recordingId: string, finishedAt = new Date().toISOString()): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+    const recordings = transaction.objectStore(RECORDINGS_STORE);
+    const recording = await requestToPromise<StoredRecording | undefined>(recordings.get(recordingId));
+    if (recording) {
+      recordings.put({ ...recording, finishedAt });
+    }
+    await transactionDone(transaction);
+  }
+
+  async listRecordings(): Promise<StoredRecording[]> {
+    const db = await this.openDatabase();
+    const recordings = await requestToPromise<StoredRecording[]>(
+      db.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE).getAll()
+    );
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Junta os pedaços na ordem de gravação num único arquivo
+   */
+  async getRecordingBlob(recordingId: string): Promise<Blob | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE]);
+    const recording = await requestToPromise<StoredRecording | undefined>(
+      transaction.objectStore(RECORDINGS_STORE).get(recordingId)
+    );
+    if (!recording) return null;
+
+    const chunks = await requestToPromise<StoredChunk[]>(
+      transaction.objectStore(CHUNKS_STORE).getAll(chunkRange(recordingId))
+    );
+    return new Blob(chunks.map(chunk => chunk.blob), { type: recording.mimeType });
+  }
+
+  async deleteRecording(recordingId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+    transaction.objectStore(RECORDINGS_STORE).delete(recordingId);
+    transaction.objectStore(CHUNKS_STORE).delete(chunkRange(recordingId));
+    await transactionDone(transaction);
+  }
+}
+
+export const recordingStorageService = new RecordingStorageService();
@@ -0,0 +1,217 @@
+import { getApiBaseURL } from '@/utils/connectionUtils';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface HostAuth {
+  hostSecret?: string;
+  accessToken?: string;
+}
+
+export interface JoinTokenInfo {
+  tokenId: string;
+  createdAt: string;
+  expiresAt: string;
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+}
+
+export interface StoredJoinToken {
+  token: string;
+  tokenId?: string;
+  expiresAt?: string;
+}
+
+export interface CreatedRoom {
+  roomId: string;
+  joinURL: string;
+  qrDataUrl: string;
+  hostSecret: string;
+  ownerId: string | null;
+  joinToken: string;
+  joinTokenInfo: JoinTokenInfo;
+}
+
+export interface IssuedJoinToken {
+  joinToken: string;
+  joinURL: string;
+  joinTokenInfo: JoinTokenInfo;
+}
+
+export interface JoinTokenVerification {
+  valid: boolean;
+  code?: string;
+  message?: string;
+  expiresAt?: string;
+}
+
+const HOST_SECRET_PREFIX = 'host-secret-';
+const JOIN_TOKEN_PREFIX = 'join-token-';
+const PARTICIPANT_ID_PREFIX = 'participant-id-';
+const DISPLAY_NAME_KEY = 'participant-display-name';
+
+class RoomService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = import.meta.env.VITE_API_URL || getApiBaseURL();
+  }
+
+  private async getAccessToken(): Promise<string | undefined> {
+    try {
+      const { data } = await supabase.auth.getSession();
+      return data.session?.access_token;
+    } catch (error) {
+      console.warn('⚠️ ROOM SERVICE: Could not read Supabase session:', error);
+      return undefined;
+    }
+  }
+
+  // Cria a sala no backend; o hostSecret fica na sessionStorage para reentrar como host
+  async createRoom(): Promise<CreatedRoom> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(`${this.baseUrl}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const room: CreatedRoom = await response.json();
+    sessionStorage.setItem(`${HOST_SECRET_PREFIX}${room.roomId}`, room.hostSecret);
+    this.setJoinToken(room.roomId, {
+      token: room.joinToken,
+      tokenId: room.joinTokenInfo?.tokenId,
+      expiresAt: room.joinTokenInfo?.expiresAt
+    });
+
+    console.log(`✅ ROOM SERVICE: Room created ${room.roomId} (owner: ${room.ownerId || 'host-secret'})`);
+    return room;
+  }
+
+  // Credenciais enviadas no join-room como host
+  async getHostAuth(roomId: string): Promise<HostAuth> {
+    const hostSecret = sessionStorage.getItem(`${HOST_SECRET_PREFIX}${roomId}`) || undefined;
+    const accessToken = await this.getAccessToken();
+
+    return { hostSecret, accessToken };
+  }
+
+  // Headers HTTP equivalentes ao hostAuth (rotas restritas ao dono)
+  async getHostHeaders(roomId: string): Promise<Record<string, string>> {
+    const { hostSecret, accessToken } = await this.getHostAuth(roomId);
+
+    return {
+      ...(hostSecret ? { 'X-Host-Secret': hostSecret } : {}),
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+    };
+  }
+
+  // Token de entrada atual da sala (host: link do QR; participante: token recebido na URL)
+  getJoinToken(roomId: string): StoredJoinToken | null {
+    const raw = sessionStorage.getItem(`${JOIN_TOKEN_PREFIX}${roomId}`);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as StoredJoinToken;
+    } catch {
+      return null;
+    }
+  }
+
+  setJoinToken(roomId: string, joinToken: StoredJoinToken): void {
+    sessionStorage.setItem(`${JOIN_TOKEN_PREFIX}${roomId}`, JSON.stringify(joinToken));
+  }
+
+  // Identidade estável do participante na sala (reconexões e banimento sobrevivem ao reload)
+  getParticipantId(roomId: string): string {
+    const key = `${PARTICIPANT_ID_PREFIX}${roomId}`;
+    const existing = localStorage.getItem(key);
+    if (existing) return existing;
+
+    const participantId = `participant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(key, participantId);
+    return participantId;
+  }
+
+  // Nome que o participante digita para a tarja do telão (vale para qualquer sala neste aparelho)
+  getDisplayName(): string {
+    return localStorage.getItem(DISPLAY_NAME_KEY) || '';
+  }
+
+  setDisplayName(name: string): void {
+    if (name) {
+      localStorage.setItem(DISPLAY_NAME_KEY, name);
+    } else {
+      localStorage.removeItem(DISPLAY_NAME_KEY);
+    }
+  }
+
+  // Emite um novo link de entrada (apenas o dono)
+  async createJoinToken(
+    roomId: string,
+    options: { expiresInMinutes?: number; maxUses?: number } = {}
+  ): Promise<IssuedJoinToken> {
+    const response = await fetch(`${this.baseUrl}/api/rooms/${roomId}/join-tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await this.getHostHeaders(roomId))
+      },
+      body: JSON.stringify(options)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const issued: IssuedJoinToken = await response.json();
+    this.setJoinToken(roomId, {
+      token: issued.joinToken,
+      tokenId: issued.joinTokenInfo.tokenId,
+      expiresAt: issued.joinTokenInfo.expiresAt
+    });
+
+    console.log(`🎟️ ROOM SERVICE: Join token issued for ${roomId} (expires: ${issued.joinTokenInfo.expiresAt})`);
+    return issued;
+  }
+
+  // Revoga um link de entrada (apenas o dono)
+  async revokeJoinToken(roomId: string, tokenId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/rooms/${roomId}/join-tokens/${tokenId}`, {
+      method: 'DELETE',
+      headers: await this.getHostHeaders(roomId)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    console.log(`🚫 ROOM SERVICE: Join token revoked ${roomId}/${tokenId}`);
+  }
+
+  // Confere o link antes de abrir câmera/conexões (não consome uso)
+  async verifyJoinToken(roomId: string, token: string | null): Promise<JoinTokenVerification> {
+    if (!token) {
+      return { valid: false, code: 'TOKEN_MISSING' };
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/api/rooms/${roomId}/join-tokens/verify?token=${encodeURIComponent(token)}`
+    );
+
+    if (response.status >= 500) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
+
+export const roomService = new RoomService();
+export default roomService;
@@ -4,6 +4,23 @@ import { setDynamicIceServers } from '@/utils/webrtc/WebRTCConfig';
 import { WebSocketDiagnostics } from '@/utils/debug/WebSocketDiagnostics';
 import { OfflineFallback } from '@/utils/fallback/OfflineFallback';
 import { turnServerDiagnostics } from '@/utils/webrtc/TurnServerDiagnostics';
+import type { HostAuth } from '@/services/RoomService';
+import type {
+  Quiz,
+  QuizAnswerAck,
+  QuizAnswersUpdate,
+  QuizExportData,
+  QuizLeaderboard,
+  QuizLiveState,
+  QuizScore
+} from '@/types/quiz';
+import type {
+  LightShowCueBatch,
+  LightShowNetworkShow,
+  LightShowNetworkState,
+  TimelineItem
+} from '@/types/lightshow';
+import type { ClockSample } from '@/utils/clockSync';
 
 export interface UnifiedSignalingCallbacks {
   onConnected?: () => void;
@@ -19,6 +36,57 @@ export interface UnifiedSignalingCallbacks {
   onError?: (error: any) => void;
 }
 
+export interface JoinRoomOptions {
+  role?: 'host' | 'participant';
+  hostAuth?: HostAuth;
+  joinToken?: string;
+  // Exibidos ao host na sala de espera
+  name?: string;
+  browserType?: string;
+  isMobile?: boolean;
+}
+
+export interface LobbyParticipant {
+  socketId: string;
+  participantId: string;
+  name: string;
+  browserType: string;
+  isMobile: boolean;
+  requestedAt: number;
+}
+
+export type ModerationAction = 'kick' | 'ban' | 'video-off' | 'switch-camera';
+
+export interface ModerationCommand {
+  roomId: string;
+  action: ModerationAction;
+  facingMode?: 'user' | 'environment';
+  timestamp: number;
+}
+
+export interface ModerationResult {
+  roomId: string;
+  participantId: string;
+  action: ModerationAction;
+  delivered: boolean;
+  enforced: boolean;
+  timestamp: number;
+}
+
+export interface ParticipantNameUpdate {
+  roomId: string;
+  participantId: string;
+  name: string;
+  timestamp: number;
+}
+
+export interface LobbyState {
+  roomId: string;
+  enabled: boolean;
+  waiting: LobbyParticipant[];
+  timestamp: number;
+}
+
 interface ConnectionMetrics {
   attemptCount: number;
   lastAttempt: number;
@@ -393,6 +461,70 @@ class UnifiedWebSocketService {
       this.callbacks.onParticipantsUpdate?.(participants);
     });
 
+    this.socket.on('lobby-updated', (data: LobbyState) => {
+      console.log(`⏳ [WS] Lobby update: ${data?.waiting?.length || 0} waiting (enabled: ${data?.enabled})`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('lobby-updated', { detail: data }));
+    });
+
+    this.socket.on('lobby-waiting', (data: unknown) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('lobby-waiting', { detail: data }));
+    });
+
+    this.socket.on('moderation-command', (data: ModerationCommand) => {
+      console.log(`🛡️ [WS] Moderation command received: ${data?.action}`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('moderation-command', { detail: data }));
+    });
+
+    this.socket.on('moderation-result', (data: ModerationResult) => {
+      console.log(`🛡️ [WS] Moderation result: ${data?.action} → ${data?.participantId} (delivered: ${data?.delivered})`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('moderation-result', { detail: data }));
+    });
+
+    this.socket.on('participant-name-updated', (data: ParticipantNameUpdate) => {
+      console.log(`🏷️ [WS] Participant name: ${data?.participantId} → "${data?.name}"`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('participant-name-updated', { detail: data }));
+    });
+
+    this.socket.on('quiz-state', (data: QuizLiveState) => {
+      console.log(`🧠 [WS] Quiz state: ${data?.phase} (question ${(data?.questionIndex ?? -1) + 1}/${data?.totalQuestions})`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-state', { detail: data }));
+    });
+
+    this.socket.on('quiz-answers-updated', (data: QuizAnswersUpdate) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-answers-updated', { detail: data }));
+    });
+
+    this.socket.on('quiz-answer-ack', (data: QuizAnswerAck) => {
+      console.log(`🧠 [WS] Quiz answer ${data?.accepted ? 'accepted' : `rejected (${data?.code})`}`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-answer-ack', { detail: data }));
+    });
+
+    this.socket.on('quiz-leaderboard', (data: QuizLeaderboard) => {
+      console.log(`🏆 [WS] Quiz leaderboard: ${data?.totalPlayers} players (final: ${data?.final})`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-leaderboard', { detail: data }));
+    });
+
+    this.socket.on('quiz-score', (data: QuizScore) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-score', { detail: data }));
+    });
+
+    this.socket.on('quiz-export-data', (data: QuizExportData) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('quiz-export-data', { detail: data }));
+    });
+
+    this.socket.on('lightshow-show', (data: LightShowNetworkShow) => {
+      console.log(`💡 [WS] Light show: "${data?.showName}" (${data?.cueCount} cues)`);
+      this.eventEmitter.dispatchEvent(new CustomEvent('lightshow-show', { detail: data }));
+    });
+
+    this.socket.on('lightshow-state', (data: LightShowNetworkState) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('lightshow-state', { detail: data }));
+    });
+
+    this.socket.on('lightshow-cues', (data: LightShowCueBatch) => {
+      this.eventEmitter.dispatchEvent(new CustomEvent('lightshow-cues', { detail: data }));
+    });
+
     // FASE 1: Receber configuração ICE servers do backend
 this.socket.on('ice-servers', (data) => {
   console.log('🧊 ICE Servers received from backend:', {
@@ -562,7 +694,7 @@ this.socket.on('ice-servers', (data) => {
     this.reconnectDelay = this.metrics.networkQuality === 'slow' ? 3000 : 2000;
   }
 
-  async joinRoom(roomId: string, userId: string): Promise<void> {
+  async joinRoom(roomId: string, userId: string, options: JoinRoomOptions = {}): Promise<void> {
     console.log(`🚪 WEBSOCKET: Joining room ${roomId} as ${userId}`);
     
     if (!this.isConnected()) {
@@ -582,55 +714,164 @@ this.socket.on('ice-servers', (data) => {
       const baseTimeout = this.metrics.networkQuality === 'slow' ? 30000 : 20000;
       const isMobile = this.isMobileDevice();
       const joinTimeout = isMobile ? baseTimeout + 10000 : baseTimeout;
+      const payload = { roomId, userId, ...options, timestamp: Date.now() };
       
       console.log(`⏱️ JOIN TIMEOUT: ${joinTimeout}ms (Network: ${this.metrics.networkQuality}, Mobile: ${isMobile})`);
 
-      const timeout = setTimeout(() => {
+      const startTimeout = () => setTimeout(() => {
         console.error(`❌ WEBSOCKET: Join room timeout for ${roomId} after ${joinTimeout}ms`);
+        cleanup();
         reject(new Error(`Join room timeout after ${joinTimeout}ms`));
       }, joinTimeout);
+      let timeout = startTimeout();
 
-      const handleJoinSuccess = (data: any) => {
-        console.log(`✅ WEBSOCKET: Successfully joined room ${roomId}:`, data);
+      const cleanup = () => {
         clearTimeout(timeout);
         this.socket?.off('room_joined', handleJoinSuccess);
         this.socket?.off('join-room-response', handleJoinResponse);
         this.socket?.off('error', handleJoinError);
+        this.socket?.off('lobby-waiting', handleLobbyWaiting);
+        this.socket?.off('lobby-admitted', handleLobbyAdmitted);
+      };
+
+      const handleJoinSuccess = (data: any) => {
+        console.log(`✅ WEBSOCKET: Successfully joined room ${roomId}:`, data);
+        cleanup();
         resolve();
       };
 
       const handleJoinResponse = (response: any) => {
         console.log(`📡 WEBSOCKET: Join room response:`, response);
+        cleanup();
         if (response?.success) {
-          clearTimeout(timeout);
-          this.socket?.off('room_joined', handleJoinSuccess);
-          this.socket?.off('join-room-response', handleJoinResponse);
-          this.socket?.off('error', handleJoinError);
           resolve();
         } else {
-          clearTimeout(timeout);
-          this.socket?.off('room_joined', handleJoinSuccess);
-          this.socket?.off('join-room-response', handleJoinResponse);
-          this.socket?.off('error', handleJoinError);
-          reject(new Error(response?.error || 'Join room failed'));
+          reject(Object.assign(new Error(response?.error || 'Join room failed'), { code: response?.code }));
         }
       };
 
       const handleJoinError = (error: any) => {
         console.error(`❌ WEBSOCKET: Join room error for ${roomId}:`, error);
-        clearTimeout(timeout);
-        this.socket?.off('room_joined', handleJoinSuccess);
-        this.socket?.off('join-room-response', handleJoinResponse);
-        this.socket?.off('error', handleJoinError);
+        cleanup();
         reject(error);
       };
 
+      // Sala de espera: sem timeout enquanto o host não decide
+      const handleLobbyWaiting = (data: unknown) => {
+        console.log(`⏳ WEBSOCKET: Waiting for host approval in ${roomId}:`, data);
+        clearTimeout(timeout);
+      };
+
+      // Admitido: repetir o join-room para entrar de fato na sala
+      const handleLobbyAdmitted = () => {
+        console.log(`🚪 WEBSOCKET: Admitted to ${roomId}, joining...`);
+        timeout = startTimeout();
+        this.socket?.emit('join-room', { ...payload, timestamp: Date.now() });
+      };
+
       this.socket?.on('room_joined', handleJoinSuccess);
       this.socket?.on('join-room-response', handleJoinResponse);
       this.socket?.on('error', handleJoinError);
+      this.socket?.on('lobby-waiting', handleLobbyWaiting);
+      this.socket?.on('lobby-admitted', handleLobbyAdmitted);
 
       console.log(`📡 WEBSOCKET: Sending join-room for ${roomId} as ${userId}`);
-      this.socket?.emit('join-room', { roomId, userId, timestamp: Date.now() });
+      this.socket?.emit('join-room', payload);
+    });
+  }
+
+  // Sala de espera (host)
+  setLobbyEnabled(roomId: string, enabled: boolean): void {
+    this.emit('lobby-set-enabled', { roomId, enabled });
+  }
+
+  admitParticipant(roomId: string, participantId: string): void {
+    this.emit('lobby-admit', { roomId, participantId });
+  }
+
+  denyParticipant(roomId: string, participantId: string): void {
+    this.emit('lobby-deny', { roomId, participantId });
+  }
+
+  admitAllParticipants(roomId: string): void {
+    this.emit('lobby-admit-all', { roomId });
+  }
+
+  // Moderação (host)
+  moderateParticipant(
+    roomId: string,
+    participantId: string,
+    action: ModerationAction,
+    facingMode?: 'user' | 'environment'
+  ): void {
+    this.emit('moderate-participant', { roomId, participantId, action, facingMode });
+  }
+
+  // Nome exibido na tarja do telão (participante)
+  setParticipantName(roomId: string, name: string): void {
+    this.emit('participant-name', { roomId, name });
+  }
+
+  // Quiz ao vivo (host)
+  startQuiz(roomId: string, quiz: Quiz): void {
+    this.emit('quiz-start', { roomId, quiz });
+  }
+
+  nextQuizQuestion(roomId: string): void {
+    this.emit('quiz-next', { roomId });
+  }
+
+  revealQuizResults(roomId: string): void {
+    this.emit('quiz-reveal', { roomId });
+  }
+
+  endQuiz(roomId: string): void {
+    this.emit('quiz-end', { roomId });
+  }
+
+  requestQuizExport(roomId: string): void {
+    this.emit('quiz-export', { roomId });
+  }
+
+  // Quiz ao vivo (participante)
+  submitQuizAnswer(roomId: string, questionId: string, optionId: string): void {
+    this.emit('quiz-answer', { roomId, questionId, optionId, submittedAt: Date.now() });
+  }
+
+  // Light show por rede (host)
+  loadLightShow(roomId: string, show: { showId: string; showName: string; duration: number; zones: LightShowNetworkShow['zones']; items: TimelineItem[] }): void {
+    this.emit('lightshow-load', { roomId, show });
+  }
+
+  // `at`: horário do servidor em que a posição toca no host
+  playLightShow(roomId: string, position: number, at: number): void {
+    this.emit('lightshow-play', { roomId, position, at });
+  }
+
+  pauseLightShow(roomId: string, position: number): void {
+    this.emit('lightshow-pause', { roomId, position });
+  }
+
+  stopLightShow(roomId: string): void {
+    this.emit('lightshow-stop', { roomId });
+  }
+
+  // Sincronia de relógio: o ping com ack devolve o horário do servidor (sem passar pelo log de emit)
+  pingServer(timeoutMs = 2000): Promise<ClockSample> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      const sentAt = Date.now();
+      this.socket.timeout(timeoutMs).emit('ping', { clientTime: sentAt }, (error: Error | null, response: { timestamp: number }) => {
+        if (error || !Number.isFinite(response?.timestamp)) {
+          reject(error || new Error('Invalid ping response'));
+          return;
+        }
+        resolve({ sentAt, serverTime: response.timestamp, receivedAt: Date.now() });
+      });
     });
   }
 
@@ -868,11 +1109,14 @@ this.socket.on('ice-servers', (data) => {
     this.socket?.emit(event, data);
   }
 
-  on(event: string, callback: (data: any) => void): void {
+  on(event: string, callback: (data: any) => void): () => void {
     console.log(`👂 WEBSOCKET: Listening to ${event}`);
-    this.eventEmitter.addEventListener(event, (e: any) => {
-      callback(e.detail);
-    });
+    const listener = (e: Event) => {
+      callback((e as CustomEvent).detail);
+    };
+    this.eventEmitter.addEventListener(event, listener);
+
+    return () => this.eventEmitter.removeEventListener(event, listener);
   }
 
   // FASE 1: Utilities
@@ -1,8 +1,27 @@
 
-export interface FlashlightPattern {
+export type FlashlightEffect = 'constant' | 'ramp' | 'strobe' | 'pulse' | 'colorSequence';
+
+export interface IntensityKeyframe {
+  time: number;       // 0-1, fraction of the item duration
   intensity: number;  // 0-100%
-  blinkRate: number;  // Hz
+}
+
+export interface ColorKeyframe {
+  time: number;       // 0-1, fraction of the item duration
+  color: string;
+}
+
+export interface FlashlightPattern {
+  intensity: number;  // 0-100% (peak intensity of the effects)
+  blinkRate: number;  // Hz (on/off cycles per second; 0 = steady)
   color: string;      // Color value
+  effect?: FlashlightEffect;          // Default 'constant': steady or blinking at blinkRate
+  keyframes?: IntensityKeyframe[];    // ramp: intensity envelope
+  dutyCycle?: number;                 // strobe: 0-1 share of each cycle with the light on
+  pulses?: number[];                  // pulse: seconds from the item start, usually the detected beats
+  pulseDecay?: number;                // pulse: seconds each pulse takes to fade out
+  colors?: ColorKeyframe[];           // colorSequence: screen colours
+  colorBlend?: 'step' | 'fade';       // colorSequence: jump or fade between colours
 }
 
 export type CallToActionType = 'image' | 'imageWithButton' | 'coupon';
@@ -15,6 +34,7 @@ export interface TimelineItem {
   imageUrl?: string;  // For image items
   backgroundColor?: string; // For color background items
   pattern?: FlashlightPattern;  // For flashlight items
+  zones?: string[];   // Audience zone ids the item targets (absent/empty = every phone)
   content?: {         // For callToAction items
     type: CallToActionType;
     imageUrl?: string;
@@ -24,6 +44,28 @@ export interface TimelineItem {
   };
 }
 
+/**
+ * Section of the crowd that can get its own light pattern. Phones join a zone
+ * explicitly (picker or seat QR code) or through their seat sector/row.
+ */
+export interface AudienceZone {
+  id: string;         // Short key written in the payload and in seat QR codes (e.g. "A")
+  name: string;
+  color: string;      // Editor colour
+  sectors?: string[]; // Seat sectors that belong to the zone
+  rows?: {            // Seat-row range, inclusive
+    from: number;
+    to: number;
+  };
+}
+
+// Seat information a phone knows about itself
+export interface AudienceSeat {
+  zone?: string;
+  sector?: string;
+  row?: number;
+}
+
 export interface WaveformRegion {
   id: string;
   start: number;
@@ -31,3 +73,147 @@ export interface WaveformRegion {
   color: string;
   content: string;  // JSON stringified metadata
 }
+
+export interface BeatDetectionResult {
+  beats: number[];        // Beat grid (seconds) following the estimated tempo
+  bassBeats: number[];    // Low band onsets (kick, bass)
+  trebleBeats: number[];  // High band onsets (hi-hats, snares)
+  onsets: number[];       // Full band onsets
+  tempo: number;          // Estimated BPM
+}
+
+export interface AudioEditInfo {
+  startTrim: number;  // Seconds
+  endTrim: number;    // Seconds (0 = end of the audio)
+  fadeIn: number;     // Seconds
+  fadeOut: number;    // Seconds
+}
+
+export interface LightShowAsset {
+  hash: string;       // SHA-256 of the file contents (hex)
+  path: string;       // Path inside the storage bucket
+  url: string;        // Public URL the phones download from
+  mimeType: string;
+  size: number;       // Bytes
+}
+
+export interface LightShowCallToActionEntry {
+  type: CallToActionType;
+  asset?: string;     // Key in LightShowManifest.assets
+  buttonText?: string;
+  externalUrl?: string;
+  couponCode?: string;
+}
+
+/**
+ * Published next to the WAV: the ultrasonic payload only carries the show ID and the
+ * item timing plus short keys, and phones resolve images and CTA content from here
+ */
+export interface LightShowManifest {
+  version: 1;
+  showId: string;
+  showName: string;
+  createdAt: string;
+  duration: number;
+  assets: Record<string, LightShowAsset>;                     // Key = first 8 hex chars of the hash
+  callsToAction: Record<string, LightShowCallToActionEntry>;  // Key = first 8 hex chars of the entry hash
+  items: Array<{
+    id: string;
+    type: TimelineItem['type'];
+    startTime: number;
+    duration: number;
+    asset?: string;
+    callToAction?: string;
+  }>;
+}
+
+// Short keys written in the ultrasonic payload for each timeline item id
+export interface LightShowItemReference {
+  asset?: string;
+  callToAction?: string;
+}
+
+export interface CallToActionContent {
+  type: CallToActionType;
+  imageUrl?: string;
+  buttonText?: string;
+  externalUrl?: string;
+  couponCode?: string;
+}
+
+/**
+ * Saved light-show project. Media (audio and images) is stored apart, keyed by
+ * content hash: URLs inside the project are replaced by "media:<hash>"
+ */
+export interface LightShowProject {
+  format: 'momento-lightshow';
+  formatVersion: 1;
+  id: string;
+  showName: string;
+  audio: {
+    name: string;
+    type: string;
+    media: string;    // Content hash
+  } | null;
+  timelineItems: TimelineItem[];
+  callToAction: CallToActionContent;
+  zones?: AudienceZone[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LightShowProjectSummary {
+  id: string;
+  showName: string;
+  updatedAt: string;
+  location: 'local' | 'cloud';
+}
+
+export interface LightShowProjectVersion {
+  id: string;
+  projectId: string;
+  label: string;
+  createdAt: string;
+  location: 'local' | 'cloud';
+}
+
+// Editor state a project saves and restores
+export interface LightShowProjectState {
+  showName: string;
+  audioFile: File | null;
+  timelineItems: TimelineItem[];
+  callToAction: CallToActionContent;
+  zones: AudienceZone[];
+}
+
+// Network cue mode: the host plays the show and the server sends the cues over Socket.IO
+
+export type LightShowTransportStatus = 'stopped' | 'playing' | 'paused';
+
+export interface LightShowNetworkShow {
+  roomId: string;
+  showId: string;
+  showName: string;
+  duration: number;
+  zones: Array<Pick<AudienceZone, 'id' | 'name' | 'color'>>;
+  cueCount: number;
+}
+
+export interface LightShowNetworkState {
+  roomId: string;
+  status: LightShowTransportStatus;
+  position: number;          // Seconds
+  startedAt: number | null;  // Server time (ms) of position 0 while playing
+  audienceCount: number;     // Phones in the room
+  serverTime: number;
+}
+
+/**
+ * Timeline items sent ahead of time; `at` is the server time (ms) the item starts.
+ * Images and call-to-action images carry public (published) URLs.
+ */
+export interface LightShowCueBatch {
+  roomId: string;
+  cues: Array<{ at: number; item: TimelineItem }>;
+  serverTime: number;
+}
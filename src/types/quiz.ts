@@ -0,0 +1,149 @@
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  prompt: string;
+  options: QuizOption[];
+  correctOptionId: string | null;
+  timeLimit: number;  // Seconds
+  points: number;
+  imageUrl?: string;
+  isActive: boolean;
+}
+
+export type QuizAppearance = 'solid' | 'gradient' | 'image';
+
+export type QuizFinalAction = 'none' | 'image' | 'coupon';
+
+export interface QuizSettings {
+  description: string;
+  appearance: QuizAppearance;
+  backgroundColor: string;
+  backgroundImageUrl?: string;
+  font?: string;       // Mesma lista de fontes do Live (telão)
+  textColor?: string;
+  finalAction: QuizFinalAction;
+  finalImageUrl?: string;
+  couponCode?: string;
+}
+
+export interface Quiz {
+  id: string | null;  // null until first saved to Supabase
+  title: string;
+  settings: QuizSettings;
+  questions: QuizQuestion[];
+  updatedAt?: string;
+}
+
+export interface QuizSummary {
+  id: string;
+  title: string;
+  questionCount: number;
+  updatedAt: string;
+}
+
+// Quiz ao vivo (server/signaling/quiz.js)
+export type QuizPhase = 'waiting' | 'question' | 'results' | 'finished';
+
+export interface QuizLiveQuestion {
+  id: string;
+  prompt: string;
+  options: QuizOption[];
+  timeLimit: number;
+  points: number;
+  imageUrl?: string;
+}
+
+export interface QuizQuestionResults {
+  questionId: string;
+  counts: Record<string, number>;  // optionId → respostas
+  totalAnswers: number;
+  correctOptionId: string | null;
+}
+
+export interface QuizLiveState {
+  roomId: string;
+  title: string;
+  settings: Partial<QuizSettings>;
+  phase: QuizPhase;
+  questionIndex: number;
+  totalQuestions: number;
+  question: QuizLiveQuestion | null;
+  startedAt: number | null;
+  endsAt: number | null;
+  answerCount: number;
+  results: QuizQuestionResults | null;
+  myAnswer: string | null;
+  serverTime: number;
+}
+
+export interface QuizAnswersUpdate extends Omit<QuizQuestionResults, 'questionId'> {
+  roomId: string;
+  questionId: string | null;
+  participantCount: number;
+  timestamp: number;
+}
+
+export interface QuizAnswerAck {
+  roomId: string;
+  questionId: string;
+  optionId: string;
+  accepted: boolean;
+  code?: 'NOT_IN_ROOM' | 'QUESTION_CLOSED' | 'TIME_UP' | 'INVALID_OPTION' | 'ALREADY_ANSWERED';
+}
+
+// Pontuação (server/services/quizScoring.js)
+export interface QuizLeaderboardEntry {
+  rank: number;
+  participantId: string;
+  name: string;
+  score: number;
+  correctCount: number;
+  correctTimeMs: number;
+  streak: number;
+  bestStreak: number;
+  lastDelta: number;  // Pontos ganhos na última pergunta
+}
+
+export interface QuizLeaderboard {
+  roomId: string;
+  final: boolean;
+  questionIndex: number;
+  totalQuestions: number;
+  totalPlayers: number;
+  entries: QuizLeaderboardEntry[];  // Top 10
+  timestamp: number;
+}
+
+export interface QuizScore extends QuizLeaderboardEntry {
+  roomId: string;
+  final: boolean;
+  totalPlayers: number;
+}
+
+export interface QuizScoredAnswer {
+  questionId: string;
+  optionId: string | null;
+  elapsedMs: number | null;
+  answeredAt: number | null;
+  submittedAt: number | null;  // Relógio do cliente (auditoria)
+  correct: boolean;
+  base: number;
+  speedBonus: number;
+  streakBonus: number;
+  total: number;
+  streak: number;
+}
+
+export interface QuizExportData {
+  roomId: string;
+  title: string;
+  phase: QuizPhase;
+  exportedAt: string;
+  questions: (Omit<QuizLiveQuestion, 'imageUrl'> & { correctOptionId: string })[];
+  participants: (QuizLeaderboardEntry & { joinedAt: string; answers: QuizScoredAnswer[] })[];
+}
@@ -0,0 +1,36 @@
+export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'saving';
+
+// Gravação guardada no navegador; os pedaços do MediaRecorder ficam num store separado
+export interface StoredRecording {
+  id: string;
+  sessionId: string;
+  label: string;
+  mimeType: string;
+  startedAt: string;
+  finishedAt: string | null;   // null = interrompida (aba fechada, travou ou o download falhou) e recuperável
+  chunkCount: number;
+  size: number;
+  // Gravações ISO: clipes de uma mesma sessão de gravação por participante
+  group?: { id: string; startedAt: string };
+  participantId?: string;
+  participantName?: string;
+}
+
+// Entrada/saída de um participante no ar, relativa ao início da sessão ISO
+export interface IsoEditEvent {
+  participantId: string;
+  participantName: string;
+  file: string;
+  inMs: number;
+  outMs: number | null;   // null = clipe interrompido sem saída registrada
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface IsoEditDecisionList {
+  format: 'momento-iso-edl';
+  formatVersion: 1;
+  sessionId: string;
+  startedAt: string;
+  events: IsoEditEvent[];
+}
@@ -0,0 +1,122 @@
+// Aparência compartilhada pela janela de transmissão (Live e Quiz usam o mesmo telão)
+export interface TransmissionAppearance {
+  selectedFont: string;
+  selectedTextColor: string;
+  selectedBackgroundColor: string;
+  backgroundImage: string | null;
+  backgroundGradient?: boolean;
+}
+
+export type TransmissionSceneKind = 'spotlight' | 'twoUp' | 'pip' | 'grid' | 'qrOnly';
+
+export type SceneTransition = 'cut' | 'fade' | 'morph';
+
+// Retângulo em porcentagem do telão (0-100)
+export interface SceneSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Cena do telão. O significado dos slots depende do tipo: um por participante em
+ * spotlight, twoUp e pip (o segundo é a janela menor), a área da grade em grid
+ * e a posição do QR Code em qrOnly
+ */
+export interface TransmissionScene {
+  id: string;
+  name: string;
+  kind: TransmissionSceneKind;
+  slots: SceneSlot[];
+}
+
+// Layout final enviado à janela de transmissão
+export interface SceneLayout {
+  sceneId: string;
+  tiles: Array<SceneSlot & { participantId: string | null; layer: number }>;
+  qrCode: (SceneSlot & { image: string | null; description: string }) | null;
+}
+
+export type LowerThirdPosition = 'bottomLeft' | 'bottomCenter' | 'topLeft';
+
+export type LowerThirdAnimation = 'none' | 'fade' | 'slide';
+
+// Modelo visual das tarjas com nome; o tamanho da fonte é em % da altura do slot
+export interface LowerThirdTemplate {
+  font: string;
+  textColor: string;
+  backgroundColor: string;
+  accentColor: string;
+  fontSize: number;
+  position: LowerThirdPosition;
+  animation: LowerThirdAnimation;
+}
+
+// Estado enviado à janela de transmissão: nome exibido por participante no ar
+export interface LowerThirdsState {
+  enabled: boolean;
+  template: LowerThirdTemplate;
+  names: Record<string, string>;
+}
+
+export type TickerSpeed = 'slow' | 'normal' | 'fast';
+
+// Faixa de notícias rolando na base do telão; cada item é separado por um marcador
+export interface TickerSettings {
+  enabled: boolean;
+  items: string[];
+  speed: TickerSpeed;
+  font: string;
+  textColor: string;
+  backgroundColor: string;
+}
+
+export interface TextSlide {
+  id: string;
+  text: string;
+  durationSec: number;
+}
+
+export type TextSlidePosition = 'top' | 'center' | 'bottom';
+
+// Textos exibidos em sequência, cada um pelo seu tempo; o tamanho da fonte é em % da altura do telão
+export interface TextSlidesSettings {
+  slides: TextSlide[];
+  loop: boolean;
+  position: TextSlidePosition;
+  font: string;
+  textColor: string;
+  backgroundColor: string;
+  fontSize: number;
+}
+
+export interface SponsorLogo {
+  id: string;
+  name: string;
+  image: string;
+  durationSec: number;
+}
+
+export type SponsorBugPosition = 'topRight' | 'topLeft' | 'bottomRight' | 'bottomLeft';
+
+// Logo de patrocinador num canto, alternando entre os logos; o tamanho é em % da altura do telão
+export interface SponsorBugSettings {
+  enabled: boolean;
+  logos: SponsorLogo[];
+  position: SponsorBugPosition;
+  size: number;
+  opacity: number;
+}
+
+/**
+ * Gráficos sobre o telão. Os horários de início (Date.now() do host) deixam preview,
+ * janela de transmissão e gravação no mesmo slide e no mesmo logo
+ */
+export interface TransmissionOverlays {
+  ticker: TickerSettings;
+  slides: TextSlidesSettings;
+  sponsors: SponsorBugSettings;
+  slidesStartedAt: number | null;
+  sponsorsStartedAt: number;
+}
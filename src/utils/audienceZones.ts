@@ -0,0 +1,108 @@
+import { AudienceSeat, AudienceZone, TimelineItem } from "@/types/lightshow";
+
+// Audience zones: which phones play which timeline items
+
+export const ZONE_COLORS = ['#F97316', '#22C55E', '#3B82F6', '#EAB308', '#EC4899', '#14B8A6', '#A855F7', '#EF4444'];
+
+// Seat QR codes carry "momento-lightshow://seat?zone=A" (or sector/row) for the app to read
+export const SEAT_QR_PREFIX = 'momento-lightshow://seat';
+
+/**
+ * Next free zone id: A, B, C ... Z, then Z1, Z2 ...
+ */
+export const nextZoneId = (zones: AudienceZone[]) => {
+  const used = new Set(zones.map(zone => zone.id));
+  for (let code = 65; code <= 90; code++) {
+    const id = String.fromCharCode(code);
+    if (!used.has(id)) return id;
+  }
+
+  let index = 1;
+  while (used.has(`Z${index}`)) index++;
+  return `Z${index}`;
+};
+
+export const createZone = (zones: AudienceZone[]): AudienceZone => {
+  const id = nextZoneId(zones);
+  return {
+    id,
+    name: `Setor ${id}`,
+    color: ZONE_COLORS[zones.length % ZONE_COLORS.length],
+    sectors: [id]
+  };
+};
+
+/**
+ * Zone ids a seat belongs to: the zone it was given explicitly plus every zone
+ * whose sector list and row range match the seat. A zone without sectors and
+ * rows is only joined explicitly.
+ */
+export function resolveSeatZones(zones: AudienceZone[], seat: AudienceSeat): string[] {
+  return zones
+    .filter(zone => {
+      if (seat.zone !== undefined && zone.id === seat.zone) return true;
+
+      const sectors = zone.sectors ?? [];
+      if (sectors.length === 0 && !zone.rows) return false;
+
+      const seatSector = seat.sector?.toLowerCase();
+      const sectorMatches = sectors.length === 0 || sectors.some(sector => sector.toLowerCase() === seatSector);
+      const rowMatches = !zone.rows ||
+        (seat.row !== undefined && seat.row >= zone.rows.from && seat.row <= zone.rows.to);
+
+      return sectorMatches && rowMatches;
+    })
+    .map(zone => zone.id);
+}
+
+/**
+ * Items a phone in the given zones plays: untargeted items plus the ones aimed at
+ * any of its zones. A phone without a zone only plays untargeted items.
+ */
+export const filterItemsForZones = (items: TimelineItem[], zoneIds: string[]) =>
+  items.filter(item => !item.zones?.length || item.zones.some(zone => zoneIds.includes(zone)));
+
+/**
+ * Removes references to zones that no longer exist
+ */
+export const pruneItemZones = (items: TimelineItem[], zones: AudienceZone[]) => {
+  const ids = new Set(zones.map(zone => zone.id));
+  return items.map(item => {
+    if (!item.zones?.length || item.zones.every(zone => ids.has(zone))) return item;
+    const remaining = item.zones.filter(zone => ids.has(zone));
+    return { ...item, zones: remaining.length ? remaining : undefined };
+  });
+};
+
+/**
+ * Zone definitions for the payload metadata: k = id, n = name, s = sectors, r = [from, to]
+ */
+export const compressZones = (zones: AudienceZone[]) =>
+  zones.map(zone => ({
+    k: zone.id,
+    n: zone.name,
+    ...(zone.sectors?.length ? { s: zone.sectors } : {}),
+    ...(zone.rows ? { r: [zone.rows.from, zone.rows.to] } : {})
+  }));
+
+export const buildSeatQRCode = (seat: AudienceSeat) => {
+  const params = new URLSearchParams();
+  if (seat.zone) params.set('zone', seat.zone);
+  if (seat.sector) params.set('sector', seat.sector);
+  if (seat.row !== undefined) params.set('row', String(seat.row));
+  return `${SEAT_QR_PREFIX}?${params.toString()}`;
+};
+
+export function parseSeatQRCode(text: string): AudienceSeat | null {
+  if (!text.startsWith(`${SEAT_QR_PREFIX}?`)) return null;
+
+  const params = new URLSearchParams(text.slice(SEAT_QR_PREFIX.length + 1));
+  const row = params.get('row');
+  const seat: AudienceSeat = {
+    zone: params.get('zone') ?? undefined,
+    sector: params.get('sector') ?? undefined,
+    row: row !== null && !isNaN(Number(row)) ? Number(row) : undefined
+  };
+
+  return seat.zone || seat.sector || seat.row !== undefined ? seat : null;
+}
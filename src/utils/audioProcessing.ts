@@ -1,13 +1,38 @@
-import { TimelineItem } from '@/types/lightshow';
+import { AudienceZone, BeatDetectionResult, CallToActionContent, LightShowItemReference, TimelineItem } from '@/types/lightshow';
+import { analyzeBeats } from '@/utils/beatDetection';
+import { clipFlashlightPattern, compressFlashlightPattern } from '@/utils/flashlightEffects';
+import { compressZones } from '@/utils/audienceZones';
+import {
+  DEFAULT_MODEM_PROFILE,
+  MODEM_PROFILES,
+  ModemProfileId,
+  ULTRASONIC_PROTOCOL,
+  planTransmission,
+  profileBitRate,
+  writeUltrasonicFrame
+} from '@/utils/ultrasonicModem';
+import type { BeatDetectionMessage, BeatDetectionRequest } from '@/workers/beatDetection.worker';
+
+export interface UltrasonicShowInfo {
+  showId?: string;
+  showName?: string;
+  references?: Map<string, LightShowItemReference>;
+  zones?: AudienceZone[];
+  modemProfile?: ModemProfileId;
+}
 
 /**
- * Generates an ultrasonic audio file with embedded data
- * Uses frequencies between 17.5kHz-19kHz to encode timeline data
- * Enhanced for better mobile app compatibility and reliable decoding
+ * Generates an ultrasonic audio file with embedded data.
+ * The preamble, header and sync markers use the base FSK of ULTRASONIC_PROTOCOL; the
+ * payload uses the chosen modem profile (see ultrasonicModem.ts) with Reed-Solomon
+ * FEC and interleaving. Fails when the transmission does not fit in the song.
+ * The metadata carries the show ID phones use to fetch the asset manifest and the
+ * audience zones; items aimed at specific zones carry their zone ids.
  */
 export async function generateUltrasonicAudio(
   audioFile: File,
-  timelineItems: TimelineItem[]
+  timelineItems: TimelineItem[],
+  show: UltrasonicShowInfo = {}
 ): Promise<Blob> {
   console.log("\n=== GENERATING ULTRASONIC AUDIO ===");
   console.log(`Input: Audio file (${audioFile.size} bytes) and ${timelineItems.length} timeline items`);
@@ -37,7 +62,7 @@ export async function generateUltrasonicAudio(
     console.log(`Audio successfully decoded: ${audioBuffer.duration.toFixed(2)}s, ${audioBuffer.numberOfChannels} channels, ${audioBuffer.sampleRate}Hz`);
     
     // Add initial silence for app preparation (2 seconds)
-    const initialSilenceDuration = 2.0; 
+    const initialSilenceDuration = ULTRASONIC_PROTOCOL.leadInSeconds;
     const totalDuration = audioBuffer.duration + initialSilenceDuration;
     
     console.log(`Adding ${initialSilenceDuration}s silence at beginning, total duration: ${totalDuration.toFixed(2)}s`);
@@ -65,231 +90,59 @@ export async function generateUltrasonicAudio(
     // Delay the original audio by initialSilenceDuration seconds
     musicSource.start(initialSilenceDuration);
     
-    // Create oscillator for ultrasonic carrier wave (18kHz)
-    const carrier = offlineContext.createOscillator();
-    carrier.frequency.value = 18000; // 18kHz carrier frequency
-    
-    // Create gain node for the ultrasonic signal
-    const ultrasonicGain = offlineContext.createGain();
-    ultrasonicGain.gain.value = 0.08; // Increased from 0.05 for better detection
-    
-    // Connect carrier to gain
-    carrier.connect(ultrasonicGain);
-    ultrasonicGain.connect(offlineContext.destination);
-    
     // Prepare the data for encoding
     console.log("Preparing timeline data for encoding...");
-    
-    // Convert timeline items to a more robust format with error correction
-    const enhancedTimelineData = {
-      version: "1.0",
-      metadata: {
-        showName: "MomentoLightShow",
-        duration: audioBuffer.duration,
-        itemCount: timelineItems.length,
-        timestamp: Date.now()
-      },
-      items: compressTimelineItems(timelineItems)
-    };
-    
-    // Convert data to string safely with error handling
-    let binaryData: string;
-    try {
-      console.log("Stringifying enhanced timeline data...");
-      binaryData = JSON.stringify(enhancedTimelineData);
-      console.log(`Successfully stringified timeline data: ${binaryData.length} chars`);
-      
-      // Add CRC checksum to verify data integrity
-      const checksum = calculateCRC(binaryData);
-      binaryData = JSON.stringify({
-        data: enhancedTimelineData,
-        checksum: checksum
-      });
-      
-    } catch (jsonError) {
-      console.error("JSON stringify error:", jsonError);
-      
-      // Fallback to even more simplified version
-      console.log("Falling back to simplified data structure...");
-      binaryData = JSON.stringify({
-        version: "1.0",
-        items: timelineItems.map(item => ({
-          id: item.id,
-          type: item.type,
-          startTime: item.startTime,
-          duration: item.duration
-        }))
-      });
-      console.log(`Using simplified fallback data: ${binaryData.length} chars`);
-    }
-    
-    // Encode the data
-    console.log("Encoding data to binary...");
-    const encoder = new TextEncoder();
-    const binaryArray = encoder.encode(binaryData);
-    
+    const binaryArray = buildUltrasonicPayload(timelineItems, show, audioBuffer.duration);
     console.log(`Encoded data length: ${binaryArray.length} bytes`);
     
-    // FSK modulation parameters
-    const mark = 18500;  // 18.5kHz for binary 1
-    const space = 17500; // 17.5kHz for binary 0
-    const bitsPerSecond = 20; // Slower data rate for better reliability (reduced from 25)
-    
-    // Current position in the audio timeline
-    let currentTime = 0; 
-    
-    // ENHANCEMENT 1: Add silent period first (ultrasonic carrier muted)
-    ultrasonicGain.gain.setValueAtTime(0, 0);
-    currentTime = 0.5; // First 0.5 seconds are completely silent for app preparation
-    ultrasonicGain.gain.setValueAtTime(0.08, currentTime);
-    
-    // ENHANCEMENT 2: Extended preamble with distinct pattern (3 seconds)
-    console.log("Adding extended preamble signal (3s)...");
-    const preambleLength = 3; // 3 second preamble
-    
-    // Start marker - special pattern (10101010 repeated, then 11111111, then 00000000)
-    // This distinct pattern helps the app recognize the start of the data
-    for (let i = 0; i < preambleLength * bitsPerSecond * 0.3; i++) {
-      const value = i % 2; // Alternating 0, 1 pattern
-      carrier.frequency.setValueAtTime(
-        value ? mark : space,
-        currentTime
+    const profile = MODEM_PROFILES[show.modemProfile ?? DEFAULT_MODEM_PROFILE];
+    const plan = planTransmission(binaryArray.length, profile, audioBuffer.duration);
+    if (!plan.fits) {
+      throw new Error(
+        `Payload needs ${plan.seconds.toFixed(1)}s with the ${profile.id} profile but the audio has ${plan.availableSeconds.toFixed(1)}s`
       );
-      currentTime += 1 / bitsPerSecond;
     }
     
-    // Specific start marker - all 1s
-    for (let i = 0; i < preambleLength * bitsPerSecond * 0.3; i++) {
-      carrier.frequency.setValueAtTime(mark, currentTime);
-      currentTime += 1 / bitsPerSecond;
-    }
-    
-    // Specific end marker - all 0s
-    for (let i = 0; i < preambleLength * bitsPerSecond * 0.3; i++) {
-      carrier.frequency.setValueAtTime(space, currentTime);
-      currentTime += 1 / bitsPerSecond;
-    }
-    
-    // Final alternating pattern to confirm readiness
-    for (let i = 0; i < preambleLength * bitsPerSecond * 0.1; i++) {
-      const value = i % 2;
-      carrier.frequency.setValueAtTime(
-        value ? mark : space,
-        currentTime
-      );
-      currentTime += 1 / bitsPerSecond;
-    }
-    
-    // ENHANCEMENT 3: Duplicate the data for redundancy
-    // We'll transmit the data twice for better reliability
-    const transmitDataWithTimestamp = (startTime: number) => {
-      let localTime = startTime;
+    // One oscillator per modem channel; writeUltrasonicFrame drives their frequencies.
+    // Channel 0 carries the base FSK parts, the others only sound during the payload.
+    const carriers = Array.from({ length: profile.channels }, () => {
+      const carrier = offlineContext.createOscillator();
+      carrier.frequency.value = ULTRASONIC_PROTOCOL.markFrequency;
       
-      // Add timestamp sync marker
-      const syncTimestamp = Date.now().toString();
-      const syncData = encoder.encode(syncTimestamp);
+      const ultrasonicGain = offlineContext.createGain();
+      ultrasonicGain.gain.setValueAtTime(0, 0);
       
-      // Transmit sync marker
-      for (let i = 0; i < syncData.length; i++) {
-        const byte = syncData[i];
-        for (let bit = 0; bit < 8; bit++) {
-          const value = (byte >> bit) & 1;
-          carrier.frequency.setValueAtTime(
-            value ? mark : space,
-            localTime
-          );
-          localTime += 1 / bitsPerSecond;
-        }
-      }
-      
-      // Short pause
-      localTime += 0.1;
-      
-      // Transmit the actual data
-      console.log(`Encoding timeline data at position ${localTime.toFixed(2)}s...`);
-      for (let i = 0; i < binaryArray.length; i++) {
-        const byte = binaryArray[i];
-        for (let bit = 0; bit < 8; bit++) {
-          const value = (byte >> bit) & 1;
-          carrier.frequency.setValueAtTime(
-            value ? mark : space,
-            localTime
-          );
-          localTime += 1 / bitsPerSecond;
-        }
-        
-        // Add progress logging
-        if (i % 200 === 0) {
-          console.log(`Encoding data: ${Math.round((i / binaryArray.length) * 100)}%`);
-        }
-      }
-      
-      // Return the updated time position
-      return localTime;
-    };
-    
-    // First data transmission
-    currentTime = transmitDataWithTimestamp(currentTime);
-    
-    // ENHANCEMENT 4: Add postamble for reliable detection
-    console.log("Adding postamble signal...");
-    for (let i = 0; i < 0.5 * bitsPerSecond; i++) {
-      carrier.frequency.setValueAtTime(mark, currentTime);
-      currentTime += 1 / bitsPerSecond;
-    }
-    
-    // Add periodic sync markers throughout the audio
-    const audioDuration = initialSilenceDuration + audioBuffer.duration;
-    const syncInterval = 10; // seconds
-    let syncPoint = currentTime + syncInterval;
+      carrier.connect(ultrasonicGain);
+      ultrasonicGain.connect(offlineContext.destination);
+      return { carrier, gain: ultrasonicGain.gain };
+    });
     
-    while (syncPoint < audioDuration - 5) { // Don't add sync markers in the last 5 seconds
-      console.log(`Adding sync marker at ${syncPoint.toFixed(2)}s`);
-      
-      // Brief sync pattern
-      for (let i = 0; i < 0.2 * bitsPerSecond; i++) {
-        const value = i % 2;
-        carrier.frequency.setValueAtTime(
-          value ? mark : space,
-          syncPoint
-        );
-        syncPoint += 1 / bitsPerSecond;
+    console.log(`Modulating with the ${profile.id} profile (${profileBitRate(profile)} bps, ${profile.parityBytes} parity bytes per block)...`);
+    const frame = writeUltrasonicFrame(binaryArray, profile, totalDuration, (channel, time, duration, frequency, endFrequency) => {
+      const { frequency: carrierFrequency } = carriers[channel].carrier;
+      carrierFrequency.setValueAtTime(frequency, time);
+      if (endFrequency !== undefined) {
+        carrierFrequency.linearRampToValueAtTime(endFrequency, time + duration);
       }
-      
-      // Add timestamp
-      const syncTimestamp = JSON.stringify({
-        t: syncPoint,
-        c: "sync"
-      });
-      
-      const syncBytes = encoder.encode(syncTimestamp);
-      for (let i = 0; i < syncBytes.length; i++) {
-        const byte = syncBytes[i];
-        for (let bit = 0; bit < 8; bit++) {
-          const value = (byte >> bit) & 1;
-          carrier.frequency.setValueAtTime(
-            value ? mark : space,
-            syncPoint
-          );
-          syncPoint += 1 / bitsPerSecond;
-        }
+    });
+    console.log(
+      `Payload: ${frame.encodedBytes} bytes with FEC from ${frame.payloadStart.toFixed(2)}s to ${frame.payloadEnd.toFixed(2)}s, ` +
+      `${frame.syncMarkers.length} sync markers`
+    );
+    
+    // Carrier muted during the first 0.5 seconds for app preparation; the channels share the gain
+    carriers.forEach(({ gain }, channel) => {
+      if (channel === 0) {
+        gain.setValueAtTime(profile.gain, ULTRASONIC_PROTOCOL.preambleStart);
       }
-      
-      // Move to next sync point
-      syncPoint += syncInterval;
-    }
-    
-    // Second data transmission near the end for redundancy
-    if (audioDuration > 45) { // Only for longer audio files
-      const secondTransmissionTime = audioDuration - 30; // 30 seconds from the end
-      console.log(`Adding second data transmission at ${secondTransmissionTime.toFixed(2)}s`);
-      transmitDataWithTimestamp(secondTransmissionTime);
-    }
+      gain.setValueAtTime(profile.gain / profile.channels, frame.payloadStart);
+      gain.setValueAtTime(channel === 0 ? profile.gain : 0, frame.payloadEnd);
+    });
     
     console.log("Starting audio sources...");
     
-    // Start the carrier source
-    carrier.start(0);
+    // Start the carrier sources
+    carriers.forEach(({ carrier }) => carrier.start(0));
     
     console.log("Starting audio rendering process...");
     
@@ -323,6 +176,59 @@ export async function generateUltrasonicAudio(
   }
 }
 
+/**
+ * JSON bytes carried by the ultrasonic frame: { data, checksum }
+ */
+export function buildUltrasonicPayload(
+  timelineItems: TimelineItem[],
+  show: UltrasonicShowInfo,
+  duration: number
+): Uint8Array {
+  const enhancedTimelineData = {
+    version: "1.0",
+    metadata: {
+      showId: show.showId,
+      showName: show.showName ?? "MomentoLightShow",
+      duration,
+      itemCount: timelineItems.length,
+      timestamp: Date.now(),
+      zones: show.zones?.length ? compressZones(show.zones) : undefined
+    },
+    items: compressTimelineItems(timelineItems, show.references)
+  };
+  
+  // Convert data to string safely with error handling
+  let binaryData: string;
+  try {
+    binaryData = JSON.stringify(enhancedTimelineData);
+    
+    // Add CRC checksum to verify data integrity
+    const checksum = calculateCRC(binaryData);
+    binaryData = JSON.stringify({
+      data: enhancedTimelineData,
+      checksum: checksum
+    });
+    
+  } catch (jsonError) {
+    console.error("JSON stringify error:", jsonError);
+    
+    // Fallback to even more simplified version
+    console.log("Falling back to simplified data structure...");
+    binaryData = JSON.stringify({
+      version: "1.0",
+      items: timelineItems.map(item => ({
+        id: item.id,
+        type: item.type,
+        startTime: item.startTime,
+        duration: item.duration
+      }))
+    });
+    console.log(`Using simplified fallback data: ${binaryData.length} chars`);
+  }
+  
+  return new TextEncoder().encode(binaryData);
+}
+
 /**
  * Convert AudioBuffer to WAV format
  */
@@ -418,16 +324,34 @@ function audioBufferToWav(buffer: AudioBuffer): Uint8Array {
   }
 }
 
+// Image, button, link and coupon live in the manifest; shows exported without one carry the text inline
+const compressCallToActionContent = (content: CallToActionContent, manifestKey?: string) =>
+  manifestKey
+    ? { k: manifestKey }
+    : {
+        k: null,
+        ...(content.buttonText ? { b: content.buttonText } : {}),
+        ...(content.externalUrl ? { l: content.externalUrl } : {}),
+        ...(content.couponCode ? { x: content.couponCode } : {})
+      };
+
 /**
- * Compress timeline items to reduce data size while preserving functionality
+ * Compress timeline items to reduce data size while preserving functionality.
+ * Images and call-to-action content are not embedded: items carry short keys
+ * into the show manifest (see LightShowAssetService) instead. Without a manifest
+ * images have no key and call-to-action text goes inline.
  */
-function compressTimelineItems(timelineItems: TimelineItem[]): any[] {
+export function compressTimelineItems(
+  timelineItems: TimelineItem[],
+  references?: Map<string, LightShowItemReference>
+): any[] {
   return timelineItems.map(item => {
     const base = {
       i: item.id.substring(0, 8), // Shortened ID
       t: item.type.charAt(0),     // Type: 'i' for image, 'f' for flashlight, 'c' for callToAction
       s: parseFloat(item.startTime.toFixed(2)), // Start time with 2 decimal precision
       d: parseFloat(item.duration.toFixed(2)),  // Duration with 2 decimal precision
+      ...(item.zones?.length ? { z: item.zones } : {}) // Audience zones (absent = every phone)
     };
     
     // Add type-specific properties with minimal data
@@ -435,17 +359,13 @@ function compressTimelineItems(timelineItems: TimelineItem[]): any[] {
       return { 
         ...base, 
         t: 'i',
-        u: item.imageUrl ? item.imageUrl.substring(0, 30) + '...' : null
+        a: references?.get(item.id)?.asset ?? null // Asset key in the show manifest
       };
     } else if (item.type === 'flashlight') {
       return { 
         ...base,
         t: 'f', 
-        p: item.pattern ? {
-          i: item.pattern.intensity,
-          b: item.pattern.blinkRate,
-          c: item.pattern.color
-        } : null
+        p: item.pattern ? compressFlashlightPattern(item.pattern) : null
       };
     } else if (item.type === 'callToAction') {
       return {
@@ -453,10 +373,7 @@ function compressTimelineItems(timelineItems: TimelineItem[]): any[] {
         t: 'c',
         c: item.content ? {
           t: item.content.type.charAt(0),
-          h: !!item.content.imageUrl,
-          b: item.content.buttonText,
-          u: !!item.content.externalUrl,
-          x: item.content.couponCode
+          ...compressCallToActionContent(item.content, references?.get(item.id)?.callToAction)
         } : null
       };
     }
@@ -468,7 +385,7 @@ function compressTimelineItems(timelineItems: TimelineItem[]): any[] {
 /**
  * Calculate CRC checksum for data integrity verification
  */
-function calculateCRC(data: string): number {
+export function calculateCRC(data: string): number {
   let crc = 0xFFFF;
   for (let i = 0; i < data.length; i++) {
     const code = data.charCodeAt(i);
@@ -485,89 +402,157 @@ function calculateCRC(data: string): number {
 }
 
 /**
- * Detects beats in an audio file for auto-synchronization
- * This would use a real beat detection algorithm in production
+ * Detects beats in an audio file for auto-synchronization.
+ * Decoding happens here (AudioContext is not available in workers); the spectral
+ * analysis runs in workers/beatDetection.worker.ts so long tracks don't block the editor.
  */
-export async function detectBeats(audioFile: File): Promise<{beats: number[], bassBeats: number[], trebleBeats: number[]}> {
-  // This is a simplified placeholder for actual beat detection
-  // In a real implementation, this would analyze the audio waveform
-  // and return timestamps of detected beats
-  
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Simulate detected beats at different points with slight variations for realism
-      const beats = [];
-      const bassBeats = [];
-      const trebleBeats = [];
-      
-      // Generate main beats (approximately every 0.3 seconds for more frequent beats)
-      for (let i = 0; i < 200; i++) {
-        // Add some randomness to make it more realistic
-        const jitter = Math.random() * 0.08;
-        const beatTime = i * 0.3 + jitter;
-        beats.push(beatTime);
-        
-        // Every third beat is a bass beat
-        if (i % 3 === 0) {
-          bassBeats.push(beatTime);
-        }
-        
-        // Different treble pattern - more frequent 
-        if (i % 2 === 0 || i % 4 === 0) {
-          // Add slight offset to treble beats
-          trebleBeats.push(beatTime + 0.05);
-        }
-      }
-      
-      // Add strobe effects every second (with minor variations)
-      for (let i = 0; i < 60; i++) {
-        for (let j = 0; j < 4; j++) {
-          const strobeTime = i + (j * 0.05);
-          beats.push(strobeTime);
-        }
-      }
-      
-      // Add some extra random bass drops
-      for (let i = 0; i < 30; i++) {
-        const randomTime = Math.random() * 60;
-        bassBeats.push(randomTime);
+export async function detectBeats(
+  audioFile: File,
+  onProgress?: (progress: number) => void
+): Promise<BeatDetectionResult> {
+  const arrayBuffer = await audioFile.arrayBuffer();
+  const audioContext = new window.AudioContext();
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+
+  console.log(`Detecting beats: ${audioBuffer.duration.toFixed(2)}s, ${audioBuffer.sampleRate}Hz`);
+
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+
+  if (typeof Worker === 'undefined') {
+    console.warn('Web Workers unavailable, analyzing beats on the main thread');
+    return analyzeBeats(mono, audioBuffer.sampleRate, onProgress);
+  }
+
+  const result = await new Promise<BeatDetectionResult>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/beatDetection.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<BeatDetectionMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
       }
-      
-      // Add more random treble hits
-      for (let i = 0; i < 40; i++) {
-        const randomTime = Math.random() * 60;
-        trebleBeats.push(randomTime);
+
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
       }
-      
-      // Sort all beat arrays
-      beats.sort((a, b) => a - b);
-      bassBeats.sort((a, b) => a - b);
-      trebleBeats.sort((a, b) => a - b);
-      
-      resolve({ beats, bassBeats, trebleBeats });
-    }, 1000);
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Beat detection worker failed'));
+    };
+
+    const request: BeatDetectionRequest = { samples: mono, sampleRate: audioBuffer.sampleRate };
+    worker.postMessage(request, [mono.buffer]);
   });
+
+  console.log(`Detected ${result.beats.length} beats at ${result.tempo} BPM (${result.bassBeats.length} bass, ${result.trebleBeats.length} treble onsets)`);
+  return result;
+}
+
+export interface TrimOptions {
+  fadeIn?: number;  // seconds
+  fadeOut?: number; // seconds
 }
 
 /**
- * Edits an audio file by trimming it
- * This is a simplified version that would need to be replaced with actual audio processing
+ * Edits an audio file by trimming it to [startTime, endTime] (sample-accurate),
+ * with optional linear fade-in/out, re-encoded as 16-bit WAV
  */
 export async function trimAudioFile(
   audioFile: File, 
   startTime: number, 
-  endTime: number
+  endTime: number,
+  options: TrimOptions = {}
 ): Promise<Blob> {
   console.log(`Trimming audio file from ${startTime}s to ${endTime}s`);
-  
-  // This is a simplified placeholder for actual audio trimming
-  // In a real implementation, this would decode the audio, trim it, and re-encode
-  
-  return new Promise((resolve) => {
-    // Simulate processing time
-    setTimeout(() => {
-      // In a real implementation, this would be the trimmed audio
-      resolve(audioFile);
-    }, 1500);
+
+  const arrayBuffer = await audioFile.arrayBuffer();
+  const audioContext = new window.AudioContext();
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+
+  const { sampleRate, numberOfChannels } = audioBuffer;
+  const startSample = Math.max(0, Math.round(startTime * sampleRate));
+  const endSample = Math.min(audioBuffer.length, Math.round(endTime * sampleRate));
+  const length = endSample - startSample;
+
+  if (length <= 0) {
+    throw new Error(`Invalid trim range: ${startTime}s - ${endTime}s (audio has ${audioBuffer.duration.toFixed(2)}s)`);
+  }
+
+  // Fades can't overlap each other
+  const fadeInSamples = Math.min(Math.round((options.fadeIn ?? 0) * sampleRate), Math.floor(length / 2));
+  const fadeOutSamples = Math.min(Math.round((options.fadeOut ?? 0) * sampleRate), Math.floor(length / 2));
+
+  const trimmedBuffer = new AudioBuffer({ numberOfChannels, length, sampleRate });
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const trimmed = audioBuffer.getChannelData(channel).slice(startSample, endSample);
+
+    for (let i = 0; i < fadeInSamples; i++) {
+      trimmed[i] *= i / fadeInSamples;
+    }
+    for (let i = 0; i < fadeOutSamples; i++) {
+      trimmed[length - 1 - i] *= i / fadeOutSamples;
+    }
+
+    trimmedBuffer.copyToChannel(trimmed, channel);
+  }
+
+  console.log(`Trimmed audio: ${trimmedBuffer.duration.toFixed(3)}s (${length} samples), fade in ${fadeInSamples}, fade out ${fadeOutSamples} samples`);
+
+  const wavData = audioBufferToWav(trimmedBuffer);
+  const regularBuffer = new ArrayBuffer(wavData.byteLength);
+  new Uint8Array(regularBuffer).set(wavData);
+
+  return new Blob([regularBuffer], { type: 'audio/wav' });
+}
+
+/**
+ * Moves timeline items to the trimmed audio: items are shifted by startTime,
+ * clipped to the new boundaries and dropped when nothing of them is left.
+ * Flashlight pulses and keyframes follow the part of the item that is kept
+ */
+export function trimTimelineItems(
+  items: TimelineItem[],
+  startTime: number,
+  endTime: number,
+  minDuration = 0.05
+): TimelineItem[] {
+  return items.flatMap(item => {
+    const itemStart = Math.max(item.startTime, startTime);
+    const itemEnd = Math.min(item.startTime + item.duration, endTime);
+
+    if (itemEnd - itemStart < minDuration) return [];
+
+    const duration = itemEnd - itemStart;
+    return [{
+      ...item,
+      startTime: itemStart - startTime,
+      duration,
+      ...(item.pattern && { pattern: clipFlashlightPattern(item.pattern, itemStart - item.startTime, duration, item.duration) })
+    }];
   });
 }
@@ -0,0 +1,361 @@
+import { BeatDetectionResult } from '@/types/lightshow';
+
+/**
+ * Onset and beat analysis (runs inside workers/beatDetection.worker.ts):
+ * STFT → log-magnitude spectral flux (full, low and high bands) → adaptive peak picking,
+ * tempo from the autocorrelation of the onset envelope and dynamic-programming beat tracking.
+ */
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+const LOG_COMPRESSION = 100;
+
+const BASS_BAND: [number, number] = [30, 150];
+const TREBLE_BAND: [number, number] = [4000, 12000];
+
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 200;
+const PREFERRED_TEMPO = 120;
+const TEMPO_PRIOR_WIDTH = 1.0; // octaves
+const BEAT_TIGHTNESS = 100;    // higher = beats stick closer to the estimated period
+
+interface OnsetOptions {
+  minInterval: number;   // seconds between two onsets of the same band
+  sensitivity: number;   // threshold multiplier over the local mean
+}
+
+const FULL_ONSETS: OnsetOptions = { minInterval: 0.1, sensitivity: 1.4 };
+const BASS_ONSETS: OnsetOptions = { minInterval: 0.15, sensitivity: 1.5 };
+const TREBLE_ONSETS: OnsetOptions = { minInterval: 0.07, sensitivity: 1.5 };
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+class FFT {
+  private readonly cos: Float32Array;
+  private readonly sin: Float32Array;
+  private readonly reversed: Uint32Array;
+
+  constructor(private readonly size: number) {
+    this.cos = new Float32Array(size / 2);
+    this.sin = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cos[i] = Math.cos((-2 * Math.PI * i) / size);
+      this.sin[i] = Math.sin((-2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reversed = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        reversed = (reversed << 1) | ((i >> bit) & 1);
+      }
+      this.reversed[i] = reversed;
+    }
+  }
+
+  transform(real: Float32Array, imag: Float32Array) {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      const j = this.reversed[i];
+      if (j > i) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const half = length >> 1;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const twiddleReal = this.cos[k * step];
+          const twiddleImag = this.sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tReal = real[b] * twiddleReal - imag[b] * twiddleImag;
+          const tImag = real[b] * twiddleImag + imag[b] * twiddleReal;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+        }
+      }
+    }
+  }
+}
+
+interface OnsetEnvelopes {
+  full: Float32Array;
+  bass: Float32Array;
+  treble: Float32Array;
+  frameRate: number;
+  latency: number; // seconds between a frame start and the onset it reports (half a window)
+}
+
+/**
+ * Half-wave rectified spectral flux of the log-compressed magnitude, per band
+ */
+function computeOnsetEnvelopes(
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): OnsetEnvelopes {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const bins = FRAME_SIZE / 2;
+  const binOf = (frequency: number) => Math.min(bins - 1, Math.round((frequency * FRAME_SIZE) / sampleRate));
+  const [bassStart, bassEnd] = BASS_BAND.map(binOf);
+  const [trebleStart, trebleEnd] = TREBLE_BAND.map(binOf);
+
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+
+  const fft = new FFT(FRAME_SIZE);
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(bins);
+  let current = new Float32Array(bins);
+
+  const full = new Float32Array(frameCount);
+  const bass = new Float32Array(frameCount);
+  const treble = new Float32Array(frameCount);
+  const progressStep = Math.max(1, Math.floor(frameCount / 20));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i];
+      imag[i] = 0;
+    }
+    fft.transform(real, imag);
+
+    let fullFlux = 0;
+    let bassFlux = 0;
+    let trebleFlux = 0;
+    for (let bin = 1; bin < bins; bin++) {
+      current[bin] = Math.log1p(LOG_COMPRESSION * Math.hypot(real[bin], imag[bin]));
+      const rise = current[bin] - previous[bin];
+      if (rise <= 0 || frame === 0) continue;
+
+      fullFlux += rise;
+      if (bin >= bassStart && bin <= bassEnd) bassFlux += rise;
+      if (bin >= trebleStart && bin <= trebleEnd) trebleFlux += rise;
+    }
+
+    full[frame] = fullFlux;
+    bass[frame] = bassFlux;
+    treble[frame] = trebleFlux;
+    [previous, current] = [current, previous];
+
+    if (onProgress && frame % progressStep === 0) {
+      onProgress(frame / frameCount);
+    }
+  }
+
+  return { full, bass, treble, frameRate: sampleRate / HOP_SIZE, latency: FRAME_SIZE / 2 / sampleRate };
+}
+
+/**
+ * Local maxima above an adaptive threshold (moving mean of the envelope)
+ */
+function pickOnsets(envelope: Float32Array, frameRate: number, { minInterval, sensitivity }: OnsetOptions): number[] {
+  const meanRadius = Math.round(frameRate * 0.25);
+  const peakRadius = Math.max(1, Math.round(frameRate * 0.03));
+  const minFrames = Math.round(frameRate * minInterval);
+
+  let globalMean = 0;
+  for (let i = 0; i < envelope.length; i++) globalMean += envelope[i];
+  globalMean /= envelope.length || 1;
+  // Ignores near-silent passages where any flicker would count as an onset
+  const floor = globalMean * 0.5;
+
+  // Prefix sums for the moving mean
+  const prefix = new Float64Array(envelope.length + 1);
+  for (let i = 0; i < envelope.length; i++) prefix[i + 1] = prefix[i] + envelope[i];
+
+  const onsets: number[] = [];
+  let lastFrame = -Infinity;
+
+  for (let i = 0; i < envelope.length; i++) {
+    const value = envelope[i];
+    if (value <= floor) continue;
+
+    const start = Math.max(0, i - meanRadius);
+    const end = Math.min(envelope.length, i + meanRadius + 1);
+    const localMean = (prefix[end] - prefix[start]) / (end - start);
+    if (value < localMean * sensitivity) continue;
+
+    let isPeak = true;
+    for (let j = Math.max(0, i - peakRadius); j <= Math.min(envelope.length - 1, i + peakRadius); j++) {
+      if (envelope[j] > value) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak) continue;
+
+    if (i - lastFrame < minFrames) {
+      // Keep the stronger of two close onsets
+      const previous = onsets.length - 1;
+      if (previous >= 0 && value > envelope[Math.round(onsets[previous] * frameRate)]) {
+        onsets[previous] = i / frameRate;
+        lastFrame = i;
+      }
+      continue;
+    }
+
+    onsets.push(i / frameRate);
+    lastFrame = i;
+  }
+
+  return onsets;
+}
+
+/**
+ * Tempo (BPM) from the autocorrelation of the onset envelope, weighted by a
+ * log-gaussian prior around 120 BPM to settle octave ambiguity
+ */
+function estimateTempo(envelope: Float32Array, frameRate: number): number {
+  let mean = 0;
+  for (let i = 0; i < envelope.length; i++) mean += envelope[i];
+  mean /= envelope.length || 1;
+  if (mean === 0) return PREFERRED_TEMPO;
+
+  const minLag = Math.floor((60 / MAX_TEMPO) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_TEMPO) * frameRate);
+  let bestLag = Math.round((60 / PREFERRED_TEMPO) * frameRate);
+  let bestScore = -Infinity;
+  const scores = new Map<number, number>();
+
+  for (let lag = minLag; lag <= maxLag && lag < envelope.length; lag++) {
+    let correlation = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      correlation += (envelope[i] - mean) * (envelope[i - lag] - mean);
+    }
+    correlation /= envelope.length - lag;
+
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_TEMPO) / TEMPO_PRIOR_WIDTH;
+    const score = correlation * Math.exp(-0.5 * octaves * octaves);
+    scores.set(lag, score);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const before = scores.get(bestLag - 1);
+  const after = scores.get(bestLag + 1);
+  let lag = bestLag;
+  if (before !== undefined && after !== undefined) {
+    const curvature = before - 2 * bestScore + after;
+    if (curvature < 0) lag += (0.5 * (before - after)) / curvature;
+  }
+
+  return (60 * frameRate) / lag;
+}
+
+/**
+ * Envelope used for beat tracking: full band plus the low band, each normalized,
+ * so the grid lands on the kick rather than on off-beat hi-hats
+ */
+function beatEnvelope({ full, bass }: OnsetEnvelopes): Float32Array {
+  const peak = (envelope: Float32Array) => envelope.reduce((max, value) => Math.max(max, value), 0) || 1;
+  const fullPeak = peak(full);
+  const bassPeak = peak(bass);
+  return Float32Array.from(full, (value, i) => value / fullPeak + bass[i] / bassPeak);
+}
+
+/**
+ * Dynamic-programming beat tracker (Ellis, 2007): each beat maximizes onset strength
+ * plus the best previous beat, penalizing spacings away from the tempo period
+ */
+function trackBeats(envelope: Float32Array, frameRate: number, tempo: number): number[] {
+  const period = (60 / tempo) * frameRate;
+  const length = envelope.length;
+  if (length === 0) return [];
+
+  let std = 0;
+  let mean = 0;
+  for (let i = 0; i < length; i++) mean += envelope[i];
+  mean /= length;
+  for (let i = 0; i < length; i++) std += (envelope[i] - mean) ** 2;
+  std = Math.sqrt(std / length);
+  // Silence: no onsets to follow
+  if (std === 0) return [];
+
+  const strength = Float32Array.from(envelope, value => value / std);
+  const score = new Float32Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+
+  const searchStart = Math.round(period / 2);
+  const searchEnd = Math.round(period * 2);
+
+  for (let i = 0; i < length; i++) {
+    let bestPrevious = -1;
+    let bestValue = -Infinity;
+
+    for (let previous = i - searchEnd; previous <= i - searchStart; previous++) {
+      if (previous < 0) continue;
+      const spacing = Math.log((i - previous) / period);
+      const value = score[previous] - BEAT_TIGHTNESS * spacing * spacing;
+      if (value > bestValue) {
+        bestValue = value;
+        bestPrevious = previous;
+      }
+    }
+
+    score[i] = strength[i] + (bestPrevious >= 0 ? Math.max(0, bestValue) : 0);
+    backlink[i] = bestPrevious >= 0 && bestValue > 0 ? bestPrevious : -1;
+  }
+
+  // Best ending beat within the last period, then follow the backlinks
+  let frame = Math.max(0, length - Math.round(period));
+  for (let i = frame; i < length; i++) {
+    if (score[i] > score[frame]) frame = i;
+  }
+
+  const beats: number[] = [];
+  while (frame >= 0) {
+    beats.push(frame / frameRate);
+    frame = backlink[frame];
+  }
+
+  return beats.reverse();
+}
+
+/**
+ * Full analysis of a mono signal
+ */
+export function analyzeBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): BeatDetectionResult {
+  const envelopes = computeOnsetEnvelopes(samples, sampleRate, progress => onProgress?.(progress * 0.8));
+  const { frameRate } = envelopes;
+
+  const tempo = estimateTempo(envelopes.full, frameRate);
+  onProgress?.(0.9);
+
+  const beats = trackBeats(beatEnvelope(envelopes), frameRate, tempo);
+  const bassBeats = pickOnsets(envelopes.bass, frameRate, BASS_ONSETS);
+  const trebleBeats = pickOnsets(envelopes.treble, frameRate, TREBLE_ONSETS);
+  const onsets = pickOnsets(envelopes.full, frameRate, FULL_ONSETS);
+  onProgress?.(1);
+
+  const toTime = (times: number[]) => times.map(time => Math.max(0, time + envelopes.latency));
+
+  return {
+    beats: toTime(beats),
+    bassBeats: toTime(bassBeats),
+    trebleBeats: toTime(trebleBeats),
+    onsets: toTime(onsets),
+    tempo: Math.round(tempo * 10) / 10
+  };
+}
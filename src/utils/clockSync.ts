@@ -0,0 +1,36 @@
+// Clock-offset estimation against the signaling server (NTP-style, over the ping ack)
+
+export interface ClockSample {
+  sentAt: number;      // Local time the ping left (ms)
+  serverTime: number;  // Server time in the response (ms)
+  receivedAt: number;  // Local time the response arrived (ms)
+}
+
+export interface ClockEstimate {
+  offset: number;      // serverTime ≈ Date.now() + offset
+  roundTrip: number;   // Round trip of the best sample (ms)
+  samples: number;
+}
+
+// Share of the fastest samples averaged together
+const BEST_SAMPLE_SHARE = 0.25;
+
+/**
+ * Assumes the server answered halfway through each round trip. Slow round trips are
+ * the ones where that assumption fails (queueing on one leg), so only the fastest
+ * samples are averaged.
+ */
+export function estimateClockOffset(samples: ClockSample[]): ClockEstimate | null {
+  const valid = samples.filter(sample => sample.receivedAt >= sample.sentAt);
+  if (valid.length === 0) return null;
+
+  const sorted = [...valid].sort((a, b) => (a.receivedAt - a.sentAt) - (b.receivedAt - b.sentAt));
+  const best = sorted.slice(0, Math.max(1, Math.round(sorted.length * BEST_SAMPLE_SHARE)));
+  const offset = best.reduce((sum, sample) => sum + sample.serverTime - (sample.sentAt + sample.receivedAt) / 2, 0) / best.length;
+
+  return {
+    offset: Math.round(offset),
+    roundTrip: Math.round(sorted[0].receivedAt - sorted[0].sentAt),
+    samples: valid.length
+  };
+}
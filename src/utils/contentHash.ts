@@ -0,0 +1,8 @@
+/**
+ * SHA-256 (hex) of binary content; used to name media by content so identical files are stored once
+ */
+export async function sha256Hex(data: ArrayBuffer | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
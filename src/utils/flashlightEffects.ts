@@ -0,0 +1,260 @@
+import { ColorKeyframe, FlashlightEffect, FlashlightPattern, IntensityKeyframe } from "@/types/lightshow";
+
+// Keyframed flashlight effects: evaluation (preview) and compact payload encoding
+
+export const DEFAULT_DUTY_CYCLE = 0.25;
+export const DEFAULT_PULSE_DECAY = 0.2;
+
+export const EFFECT_LABELS: Record<FlashlightEffect, string> = {
+  constant: 'Constante / piscar',
+  ramp: 'Rampa (fade)',
+  strobe: 'Strobo',
+  pulse: 'Pulso na batida',
+  colorSequence: 'Sequência de cores (tela)'
+};
+
+export const RAMP_PRESETS: Record<'fadeIn' | 'fadeOut' | 'fadeInOut', IntensityKeyframe[]> = {
+  fadeIn: [{ time: 0, intensity: 0 }, { time: 1, intensity: 100 }],
+  fadeOut: [{ time: 0, intensity: 100 }, { time: 1, intensity: 0 }],
+  fadeInOut: [{ time: 0, intensity: 0 }, { time: 0.5, intensity: 100 }, { time: 1, intensity: 0 }]
+};
+
+const DEFAULT_COLORS: ColorKeyframe[] = [
+  { time: 0, color: '#FF0000' },
+  { time: 1 / 3, color: '#00FF00' },
+  { time: 2 / 3, color: '#0000FF' }
+];
+
+const EFFECT_CODES: Record<FlashlightEffect, string> = {
+  constant: '',
+  ramp: 'r',
+  strobe: 's',
+  pulse: 'p',
+  colorSequence: 'q'
+};
+
+export interface FlashlightState {
+  intensity: number;  // 0-100%
+  color: string;
+  screen: boolean;    // true when the effect drives the screen colour instead of the LED
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const byTime = <T extends { time: number }>(keyframes: T[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+// Linear interpolation over keyframes sorted by time, holding the first/last value outside them
+const interpolateIntensity = (keyframes: IntensityKeyframe[], progress: number) => {
+  const sorted = byTime(keyframes);
+  if (sorted.length === 0) return 0;
+  if (progress <= sorted[0].time) return sorted[0].intensity;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const next = sorted[i];
+    if (progress <= next.time) {
+      const span = next.time - previous.time;
+      const t = span > 0 ? (progress - previous.time) / span : 1;
+      return previous.intensity + (next.intensity - previous.intensity) * t;
+    }
+  }
+
+  return sorted[sorted.length - 1].intensity;
+};
+
+const parseHex = (color: string) => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.padEnd(6, '0');
+  return [0, 2, 4].map(offset => parseInt(full.substr(offset, 2), 16) || 0);
+};
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+const mixColors = (from: string, to: string, t: number) => {
+  const a = parseHex(from);
+  const b = parseHex(to);
+  return toHex(a.map((channel, index) => channel + (b[index] - channel) * t));
+};
+
+const sequenceColor = (colors: ColorKeyframe[], blend: 'step' | 'fade', progress: number) => {
+  const sorted = byTime(colors);
+  if (sorted.length === 0) return '#FFFFFF';
+
+  let index = 0;
+  while (index + 1 < sorted.length && sorted[index + 1].time <= progress) index++;
+
+  const current = sorted[index];
+  const next = sorted[index + 1];
+  if (blend === 'step' || !next || progress < current.time) return current.color;
+
+  return mixColors(current.color, next.color, (progress - current.time) / (next.time - current.time));
+};
+
+/**
+ * State of the flashlight `localTime` seconds after the item starts.
+ * Same rules the app applies, so the preview can evaluate any frame directly.
+ */
+export function evaluateFlashlight(pattern: FlashlightPattern, localTime: number, duration: number): FlashlightState {
+  const progress = duration > 0 ? clamp01(localTime / duration) : 0;
+  const led = (intensity: number): FlashlightState => ({ intensity, color: pattern.color, screen: false });
+
+  switch (pattern.effect ?? 'constant') {
+    case 'ramp':
+      return led(interpolateIntensity(pattern.keyframes ?? RAMP_PRESETS.fadeIn, progress));
+
+    case 'strobe': {
+      if (pattern.blinkRate <= 0) return led(pattern.intensity);
+      const phase = (localTime * pattern.blinkRate) % 1;
+      return led(phase < (pattern.dutyCycle ?? DEFAULT_DUTY_CYCLE) ? pattern.intensity : 0);
+    }
+
+    case 'pulse': {
+      const decay = pattern.pulseDecay ?? DEFAULT_PULSE_DECAY;
+      const lastPulse = (pattern.pulses ?? []).filter(pulse => pulse <= localTime).pop();
+      if (lastPulse === undefined || decay <= 0) return led(0);
+      return led(pattern.intensity * Math.max(0, 1 - (localTime - lastPulse) / decay));
+    }
+
+    case 'colorSequence':
+      return {
+        intensity: pattern.intensity,
+        color: sequenceColor(pattern.colors ?? DEFAULT_COLORS, pattern.colorBlend ?? 'step', progress),
+        screen: true
+      };
+
+    default: {
+      // Legacy behaviour: steady light, or a 50% blink at blinkRate
+      if (pattern.blinkRate <= 0) return led(pattern.intensity);
+      return led((localTime * pattern.blinkRate) % 1 < 0.5 ? pattern.intensity : 0);
+    }
+  }
+}
+
+/**
+ * Pattern with the defaults of a newly chosen effect. Pulses start on the beats
+ * that fall inside the item.
+ */
+export function applyEffect(
+  pattern: FlashlightPattern,
+  effect: FlashlightEffect,
+  item: { startTime: number; duration: number },
+  beats: number[]
+): FlashlightPattern {
+  const base: FlashlightPattern = {
+    intensity: pattern.intensity,
+    blinkRate: pattern.blinkRate,
+    color: pattern.color,
+    effect
+  };
+
+  switch (effect) {
+    case 'ramp':
+      return { ...base, keyframes: pattern.keyframes ?? RAMP_PRESETS.fadeInOut };
+    case 'strobe':
+      return { ...base, blinkRate: pattern.blinkRate || 8, dutyCycle: pattern.dutyCycle ?? DEFAULT_DUTY_CYCLE };
+    case 'pulse':
+      return {
+        ...base,
+        pulses: pattern.pulses ?? beatsWithin(beats, item.startTime, item.duration),
+        pulseDecay: pattern.pulseDecay ?? DEFAULT_PULSE_DECAY
+      };
+    case 'colorSequence':
+      return { ...base, colors: pattern.colors ?? DEFAULT_COLORS, colorBlend: pattern.colorBlend ?? 'step' };
+    default:
+      return { ...base, effect: undefined };
+  }
+}
+
+/**
+ * Pattern of an item cut down to [offset, offset + duration) of its old span.
+ * Pulses are in seconds from the item start and keyframes are fractions of its
+ * duration, so both are moved to the new span; the values at the cut points are kept.
+ */
+export function clipFlashlightPattern(
+  pattern: FlashlightPattern,
+  offset: number,
+  duration: number,
+  previousDuration: number
+): FlashlightPattern {
+  if (previousDuration <= 0 || duration <= 0 || (offset === 0 && duration === previousDuration)) return pattern;
+
+  const startProgress = offset / previousDuration;
+  const endProgress = (offset + duration) / previousDuration;
+  const toProgress = (time: number) => (time * previousDuration - offset) / duration;
+  const clipped: FlashlightPattern = { ...pattern };
+
+  if (pattern.pulses) {
+    clipped.pulses = pattern.pulses
+      .filter(pulse => pulse >= offset && pulse < offset + duration)
+      .map(pulse => round2(pulse - offset));
+  }
+
+  if (pattern.keyframes || pattern.effect === 'ramp') {
+    const keyframes = pattern.keyframes ?? RAMP_PRESETS.fadeIn;
+    clipped.keyframes = [
+      { time: 0, intensity: interpolateIntensity(keyframes, startProgress) },
+      ...byTime(keyframes)
+        .filter(keyframe => keyframe.time > startProgress && keyframe.time < endProgress)
+        .map(keyframe => ({ ...keyframe, time: toProgress(keyframe.time) })),
+      { time: 1, intensity: interpolateIntensity(keyframes, endProgress) }
+    ];
+  }
+
+  if (pattern.colors || pattern.effect === 'colorSequence') {
+    const colors = pattern.colors ?? DEFAULT_COLORS;
+    const blend = pattern.colorBlend ?? 'step';
+    clipped.colors = [
+      { time: 0, color: sequenceColor(colors, blend, startProgress) },
+      ...byTime(colors)
+        .filter(keyframe => keyframe.time > startProgress && keyframe.time < endProgress)
+        .map(keyframe => ({ ...keyframe, time: toProgress(keyframe.time) })),
+      ...(blend === 'fade' ? [{ time: 1, color: sequenceColor(colors, blend, endProgress) }] : [])
+    ];
+  }
+
+  return clipped;
+}
+
+/**
+ * Beat times inside [startTime, startTime + duration), relative to startTime
+ */
+export const beatsWithin = (beats: number[], startTime: number, duration: number) =>
+  beats
+    .filter(beat => beat >= startTime && beat < startTime + duration)
+    .map(beat => round2(beat - startTime));
+
+/**
+ * Compact form of a pattern for the ultrasonic payload. The legacy keys (i, b, c) are
+ * always present, so apps that don't know the effects still show a constant light.
+ */
+export function compressFlashlightPattern(pattern: FlashlightPattern) {
+  const compact: Record<string, unknown> = {
+    i: pattern.intensity,
+    b: pattern.blinkRate,
+    c: pattern.color
+  };
+
+  const effect = pattern.effect ?? 'constant';
+  if (effect === 'constant') return compact;
+
+  compact.e = EFFECT_CODES[effect];
+
+  if (effect === 'ramp') {
+    // Flat [time, intensity, time, intensity, ...]
+    compact.k = byTime(pattern.keyframes ?? RAMP_PRESETS.fadeIn)
+      .flatMap(keyframe => [round2(keyframe.time), Math.round(keyframe.intensity)]);
+  } else if (effect === 'strobe') {
+    compact.u = round2(pattern.dutyCycle ?? DEFAULT_DUTY_CYCLE);
+  } else if (effect === 'pulse') {
+    compact.p = (pattern.pulses ?? []).map(round2);
+    compact.d = round2(pattern.pulseDecay ?? DEFAULT_PULSE_DECAY);
+  } else if (effect === 'colorSequence') {
+    // Flat [time, colour, time, colour, ...]
+    compact.q = byTime(pattern.colors ?? DEFAULT_COLORS).flatMap(keyframe => [round2(keyframe.time), keyframe.color]);
+    if (pattern.colorBlend === 'fade') compact.m = 'f';
+  }
+
+  return compact;
+}
@@ -0,0 +1,46 @@
+import { IsoEditDecisionList, StoredRecording } from '@/types/recording';
+import { getRecordingBasename, getRecordingFilename } from '@/utils/mediaRecording';
+
+export const ISO_EDL_FILENAME = 'edl.json';
+
+// Ordem cronológica: é a ordem dos arquivos no ZIP e dos eventos na EDL
+export const sortIsoClips = (clips: StoredRecording[]) =>
+  [...clips].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+export const getIsoArchiveFilename = (sessionId: string, startedAt: string) =>
+  `${getRecordingBasename(`isos_${sessionId}`, startedAt)}.zip`;
+
+export const getIsoClipFilename = (clip: StoredRecording, index: number) =>
+  `${String(index + 1).padStart(3, '0')}_${getRecordingFilename(
+    clip.participantName || clip.participantId || 'participante',
+    clip.startedAt,
+    clip.mimeType
+  )}`;
+
+/**
+ * Lista de decisões de edição: quando cada participante entrou e saiu do ar,
+ * em milissegundos desde o início da sessão ISO, apontando para o arquivo do clipe
+ */
+export function buildIsoEditDecisionList(
+  sessionId: string,
+  startedAt: string,
+  clips: StoredRecording[]
+): IsoEditDecisionList {
+  const origin = Date.parse(startedAt);
+
+  return {
+    format: 'momento-iso-edl',
+    formatVersion: 1,
+    sessionId,
+    startedAt,
+    events: sortIsoClips(clips).map((clip, index) => ({
+      participantId: clip.participantId || '',
+      participantName: clip.participantName || clip.participantId || '',
+      file: getIsoClipFilename(clip, index),
+      inMs: Date.parse(clip.startedAt) - origin,
+      outMs: clip.finishedAt ? Date.parse(clip.finishedAt) - origin : null,
+      startedAt: clip.startedAt,
+      finishedAt: clip.finishedAt
+    }))
+  };
+}
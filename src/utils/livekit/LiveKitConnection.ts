@@ -1,4 +1,5 @@
 import { Room, createLocalTracks, RoomEvent, Track } from 'livekit-client';
+import { roomService } from '@/services/RoomService';
 
 /**
  * Conecta ao LiveKit e retorna a room conectada
@@ -24,10 +25,16 @@ export async function joinLiveRoom(
     
     console.log('📡 LiveKit: Solicitando token de:', tokenUrl);
     
-    const response = await fetch(tokenUrl);
+    // Host prova ser dono da sala; participante apresenta o token de entrada do QR code
+    const isHost = userName.includes('host');
+    const joinToken = roomService.getJoinToken(roomName)?.token;
+    const response = isHost
+      ? await fetch(tokenUrl, { headers: await roomService.getHostHeaders(roomName) })
+      : await fetch(joinToken ? `${tokenUrl}&token=${encodeURIComponent(joinToken)}` : tokenUrl);
     
     if (!response.ok) {
-      throw new Error(`Failed to get token: ${response.status} ${response.statusText}`);
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Failed to get token: ${response.status} ${response.statusText}`);
     }
     
     const data = await response.json();
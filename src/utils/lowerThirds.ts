@@ -0,0 +1,62 @@
+import { Participant } from '@/components/live/ParticipantGrid';
+import { LowerThirdAnimation, LowerThirdPosition, LowerThirdsState, LowerThirdTemplate } from '@/types/transmission';
+import { DEFAULT_TRANSMISSION_FONT, DEFAULT_TRANSMISSION_TEXT_COLOR } from '@/utils/transmissionAppearance';
+
+// Mesmo limite do servidor (server/signaling/socket.js)
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+export const LOWER_THIRD_FONT_SIZE_RANGE = { min: 4, max: 14 };
+
+export const LOWER_THIRD_POSITION_LABELS: Record<LowerThirdPosition, string> = {
+  bottomLeft: 'Inferior esquerda',
+  bottomCenter: 'Inferior centro',
+  topLeft: 'Superior esquerda'
+};
+
+export const LOWER_THIRD_ANIMATION_LABELS: Record<LowerThirdAnimation, string> = {
+  none: 'Sem animação',
+  fade: 'Fade',
+  slide: 'Deslizar'
+};
+
+export const DEFAULT_LOWER_THIRD_TEMPLATE: LowerThirdTemplate = {
+  font: DEFAULT_TRANSMISSION_FONT,
+  textColor: DEFAULT_TRANSMISSION_TEXT_COLOR,
+  backgroundColor: '#0F172A',
+  accentColor: '#EF4444',
+  fontSize: 7,
+  position: 'bottomLeft',
+  animation: 'slide'
+};
+
+// Uma linha, sem espaços repetidos
+export const sanitizeDisplayName = (name: string) =>
+  name.replace(/\s+/g, ' ').trim().slice(0, MAX_DISPLAY_NAME_LENGTH);
+
+type NamedParticipant = Pick<Participant, 'name' | 'displayName' | 'nameOverride'>;
+
+// Nome definido pelo host tem prioridade sobre o que o participante digitou
+export const getLowerThirdName = (participant: NamedParticipant) =>
+  participant.nameOverride?.trim() || participant.displayName || '';
+
+// Sem nome digitado nem definido pelo host, a lista mostra o nome provisório
+export const getParticipantDisplayName = (participant: NamedParticipant) =>
+  getLowerThirdName(participant) || participant.name;
+
+/**
+ * Nome da tarja de cada participante; sem nome ou ocultado pelo host não tem tarja
+ */
+export const buildLowerThirdNames = (participants: Participant[]): Record<string, string> =>
+  participants.reduce<Record<string, string>>((names, participant) => {
+    const name = getLowerThirdName(participant);
+    if (!participant.lowerThirdHidden && name) {
+      names[participant.id] = name;
+    }
+    return names;
+  }, {});
+
+export const postTransmissionLowerThirds = (target: Window | null, state: LowerThirdsState) => {
+  if (!target || target.closed) return;
+
+  target.postMessage({ type: 'update-lower-thirds', ...state }, '*');
+};
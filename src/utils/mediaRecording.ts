@@ -0,0 +1,75 @@
+// Preferência: WebM (Chrome/Firefox/Edge); MP4 só onde WebM não existe (Safari)
+const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4'
+];
+
+// Intervalo entre pedaços salvos no IndexedDB: é o máximo que se perde se a aba travar
+export const RECORDING_CHUNK_MS = 2000;
+
+/**
+ * Intervalo disparado por um Worker: o setInterval da página é limitado a ~1x/s quando a aba fica
+ * em segundo plano, o que derrubaria quadros do vídeo. Devolve a função que para o intervalo
+ */
+export const startWorkerInterval = (callback: () => void, intervalMs: number): (() => void) => {
+  try {
+    const url = URL.createObjectURL(new Blob([`setInterval(() => postMessage(0), ${intervalMs});`], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = () => callback();
+    return () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+  } catch (error) {
+    console.warn('⚠️ RECORDING: Worker timer unavailable, falling back to setInterval:', error);
+    const timer = window.setInterval(callback, intervalMs);
+    return () => window.clearInterval(timer);
+  }
+};
+
+export const pickRecordingMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const getRecordingExtension = (mimeType: string) => (mimeType.startsWith('video/mp4') ? 'mp4' : 'webm');
+
+export const formatRecordingDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const formatRecordingSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Nome seguro para arquivo: rótulo + data/hora de início, sem extensão
+export const getRecordingBasename = (label: string, startedAt: string) => {
+  const safeLabel = label.replace(/[^\w\s-]/gi, '').trim().replace(/\s+/g, '_') || 'gravacao';
+  const stamp = startedAt.slice(0, 19).replace(/[:T]/g, '-');
+  return `${safeLabel}_${stamp}`;
+};
+
+export const getRecordingFilename = (label: string, startedAt: string, mimeType: string) =>
+  `${getRecordingBasename(label, startedAt)}.${getRecordingExtension(mimeType)}`;
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+};
@@ -0,0 +1,274 @@
+import { LowerThirdsState, SceneLayout, SceneSlot, TransmissionOverlays } from '@/types/transmission';
+import {
+  OVERLAY_MARGIN_PERCENT,
+  TICKER_HEIGHT_PERCENT,
+  TICKER_SPEED_FACTORS,
+  getTickerText,
+  getTimedItem
+} from '@/utils/transmissionOverlays';
+
+// Resolução da saída gravada (16:9, a mesma proporção do telão)
+export const PROGRAM_WIDTH = 1280;
+export const PROGRAM_HEIGHT = 720;
+
+const TILE_RADIUS = 8;
+
+export interface ProgramRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Tudo que aparece no telão num instante, já carregado como elementos desenháveis
+export interface ProgramFrame {
+  layout: SceneLayout;
+  videos: Record<string, HTMLVideoElement>;
+  backgroundColor: string;
+  backgroundImage: HTMLImageElement | null;
+  font: string;
+  textColor: string;
+  sceneQrImage: HTMLImageElement | null;
+  // QR Code e descrição arrastáveis do preview, convertidos para pixels da saída
+  overlay: {
+    qrImage: HTMLImageElement | null;
+    qrRect: ProgramRect;
+    text: string;
+    textRect: ProgramRect;
+    fontSize: number;
+  } | null;
+  lowerThirds?: LowerThirdsState;
+  // Ticker, texto temporizado e logo atual; `now` decide o slide, o logo e a posição do ticker
+  graphics?: {
+    state: TransmissionOverlays;
+    sponsorImage: HTMLImageElement | null;
+    now: number;
+  };
+}
+
+const slotToRect = (slot: SceneSlot, width: number, height: number): ProgramRect => ({
+  x: (slot.x / 100) * width,
+  y: (slot.y / 100) * height,
+  width: (slot.width / 100) * width,
+  height: (slot.height / 100) * height
+});
+
+const isDrawable = (image: HTMLImageElement | null): image is HTMLImageElement =>
+  Boolean(image && image.complete && image.naturalWidth > 0);
+
+// Equivalente a object-fit: cover (vídeos) ou contain (QR Code)
+const fitSource = (sourceWidth: number, sourceHeight: number, rect: ProgramRect, mode: 'cover' | 'contain'): ProgramRect => {
+  const scale = mode === 'cover'
+    ? Math.max(rect.width / sourceWidth, rect.height / sourceHeight)
+    : Math.min(rect.width / sourceWidth, rect.height / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height };
+};
+
+const drawCentered = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  rect: ProgramRect,
+  mode: 'cover' | 'contain'
+) => {
+  const target = fitSource(sourceWidth, sourceHeight, rect, mode);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  ctx.clip();
+  ctx.drawImage(source, target.x, target.y, target.width, target.height);
+  ctx.restore();
+};
+
+// Quebra o texto em linhas que cabem na largura
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Linhas centralizadas no retângulo
+const drawTextLines = (ctx: CanvasRenderingContext2D, lines: string[], rect: ProgramRect, lineHeight: number) => {
+  const startY = rect.y + rect.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((item, index) => ctx.fillText(item, rect.x + rect.width / 2, startY + index * lineHeight));
+};
+
+const drawWrappedText = (ctx: CanvasRenderingContext2D, text: string, rect: ProgramRect, fontSize: number) => {
+  drawTextLines(ctx, wrapText(ctx, text, rect.width), rect, fontSize * 1.2);
+};
+
+// Tarja com nome dentro do slot, no mesmo desenho da janela de transmissão (sem animação)
+const drawLowerThird = (ctx: CanvasRenderingContext2D, name: string, rect: ProgramRect, lowerThirds: LowerThirdsState) => {
+  const { template } = lowerThirds;
+  const fontSize = (template.fontSize / 100) * rect.height;
+  const margin = Math.min(rect.width, rect.height) * 0.04;
+  const accentWidth = fontSize * 0.3;
+  const paddingX = fontSize * 0.7;
+  const boxHeight = fontSize * 1.7;
+
+  ctx.save();
+  ctx.font = `${fontSize}px ${template.font}`;
+  const maxTextWidth = rect.width * 0.9 - margin * 2 - accentWidth - paddingX * 2;
+  let text = name;
+  while (text.length > 1 && ctx.measureText(text).width > maxTextWidth) {
+    text = text.slice(0, -1);
+  }
+  if (text !== name) text = `${text.trimEnd()}…`;
+
+  const boxWidth = accentWidth + paddingX * 2 + ctx.measureText(text).width;
+  const x = template.position === 'bottomCenter' ? rect.x + (rect.width - boxWidth) / 2 : rect.x + margin;
+  const y = template.position === 'topLeft' ? rect.y + margin : rect.y + rect.height - margin - boxHeight;
+
+  ctx.fillStyle = template.backgroundColor;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = template.accentColor;
+  ctx.fillRect(x, y, accentWidth, boxHeight);
+  ctx.fillStyle = template.textColor;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x + accentWidth + paddingX, y + boxHeight / 2);
+  ctx.restore();
+};
+
+// Gráficos do telão com as mesmas proporções da janela de transmissão (sem animações de entrada)
+const drawOverlays = (ctx: CanvasRenderingContext2D, { state, sponsorImage, now }: NonNullable<ProgramFrame['graphics']>) => {
+  const { width, height } = ctx.canvas;
+  const { ticker, slides, sponsors } = state;
+  const margin = (OVERLAY_MARGIN_PERCENT / 100) * height;
+  const tickerText = ticker.enabled ? getTickerText(ticker.items) : '';
+  const tickerHeight = tickerText ? (TICKER_HEIGHT_PERCENT / 100) * height : 0;
+
+  const slide = getTimedItem(slides.slides, state.slidesStartedAt, now, slides.loop);
+  const slideText = slide?.item.text.trim();
+  if (slideText) {
+    const fontSize = (slides.fontSize / 100) * height;
+    const lineHeight = fontSize * 1.25;
+    ctx.save();
+    ctx.font = `${fontSize}px ${slides.font}`;
+    const lines = slideText.split('\n').flatMap(paragraph => wrapText(ctx, paragraph, width * 0.8 - fontSize * 1.8));
+    const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + fontSize * 1.8;
+    const boxHeight = lines.length * lineHeight + fontSize * 0.8;
+    const y = slides.position === 'top'
+      ? margin
+      : slides.position === 'center' ? (height - boxHeight) / 2 : height - margin - tickerHeight - boxHeight;
+    ctx.fillStyle = slides.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect((width - boxWidth) / 2, y, boxWidth, boxHeight, 6);
+    ctx.fill();
+    ctx.fillStyle = slides.textColor;
+    drawTextLines(ctx, lines, { x: (width - boxWidth) / 2, y, width: boxWidth, height: boxHeight }, lineHeight);
+    ctx.restore();
+  }
+
+  const logo = sponsors.enabled ? getTimedItem(sponsors.logos, state.sponsorsStartedAt, now, true) : null;
+  if (logo && isDrawable(sponsorImage)) {
+    const logoHeight = (sponsors.size / 100) * height;
+    const logoWidth = (sponsorImage.naturalWidth / sponsorImage.naturalHeight) * logoHeight;
+    const x = sponsors.position.endsWith('Right') ? width - (OVERLAY_MARGIN_PERCENT / 100) * width - logoWidth : (OVERLAY_MARGIN_PERCENT / 100) * width;
+    const y = sponsors.position.startsWith('top') ? margin : height - margin - tickerHeight - logoHeight;
+    ctx.save();
+    ctx.globalAlpha = sponsors.opacity;
+    ctx.drawImage(sponsorImage, x, y, logoWidth, logoHeight);
+    ctx.restore();
+  }
+
+  if (tickerText) {
+    const top = height - tickerHeight;
+    const fontSize = tickerHeight * 0.6;
+    ctx.save();
+    ctx.fillStyle = ticker.backgroundColor;
+    ctx.fillRect(0, top, width, tickerHeight);
+    ctx.font = `${fontSize}px ${ticker.font}`;
+    const textWidth = ctx.measureText(tickerText).width;
+    const offset = ((now / 1000) * width * TICKER_SPEED_FACTORS[ticker.speed]) % (width + textWidth);
+    ctx.fillStyle = ticker.textColor;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(tickerText, width - offset, top + tickerHeight / 2);
+    ctx.restore();
+  }
+};
+
+/**
+ * Desenha um quadro da saída do programa: fundo, vídeos da cena (por camada) com tarjas, QR Code, textos e gráficos
+ */
+export function drawProgramFrame(ctx: CanvasRenderingContext2D, frame: ProgramFrame) {
+  const { width, height } = ctx.canvas;
+
+  ctx.fillStyle = frame.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  if (isDrawable(frame.backgroundImage)) {
+    drawCentered(ctx, frame.backgroundImage, frame.backgroundImage.naturalWidth, frame.backgroundImage.naturalHeight, { x: 0, y: 0, width, height }, 'cover');
+  }
+
+  [...frame.layout.tiles]
+    .sort((a, b) => a.layer - b.layer)
+    .forEach(tile => {
+      const rect = slotToRect(tile, width, height);
+      const video = tile.participantId ? frame.videos[tile.participantId] : undefined;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.roundRect(rect.x, rect.y, rect.width, rect.height, TILE_RADIUS);
+      ctx.clip();
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+        drawCentered(ctx, video, video.videoWidth, video.videoHeight, rect, 'cover');
+      }
+      const name = tile.participantId ? frame.lowerThirds?.names[tile.participantId] : undefined;
+      if (frame.lowerThirds?.enabled && name) {
+        drawLowerThird(ctx, name, rect, frame.lowerThirds);
+      }
+      ctx.restore();
+    });
+
+  ctx.fillStyle = frame.textColor;
+
+  const sceneQr = frame.layout.qrCode;
+  if (sceneQr) {
+    const rect = slotToRect(sceneQr, width, height);
+    const fontSize = Math.round(height * 0.035);
+    const qrRect = { ...rect, height: rect.height * 0.8 };
+    if (isDrawable(frame.sceneQrImage)) {
+      const target = fitSource(frame.sceneQrImage.naturalWidth, frame.sceneQrImage.naturalHeight, qrRect, 'contain');
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(target.x, target.y, target.width, target.height);
+      ctx.drawImage(frame.sceneQrImage, target.x, target.y, target.width, target.height);
+      ctx.fillStyle = frame.textColor;
+    }
+    ctx.font = `${fontSize}px ${frame.font}`;
+    drawWrappedText(ctx, sceneQr.description, { ...rect, y: rect.y + qrRect.height, height: rect.height - qrRect.height }, fontSize);
+  }
+
+  if (frame.overlay) {
+    const { qrImage, qrRect, text, textRect, fontSize } = frame.overlay;
+    if (isDrawable(qrImage)) {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(qrRect.x, qrRect.y, qrRect.width, qrRect.height);
+      drawCentered(ctx, qrImage, qrImage.naturalWidth, qrImage.naturalHeight, qrRect, 'contain');
+      ctx.fillStyle = frame.textColor;
+    }
+    ctx.font = `${fontSize}px ${frame.font}`;
+    drawWrappedText(ctx, text, textRect, fontSize);
+  }
+
+  if (frame.graphics) {
+    drawOverlays(ctx, frame.graphics);
+  }
+}
@@ -0,0 +1,87 @@
+import { QuizExportData } from '@/types/quiz';
+
+const CSV_HEADER = [
+  'rank',
+  'participant_id',
+  'name',
+  'total_score',
+  'question_number',
+  'question',
+  'answer',
+  'correct_answer',
+  'correct',
+  'elapsed_ms',
+  'answered_at',
+  'client_submitted_at',
+  'base_points',
+  'speed_bonus',
+  'streak_bonus',
+  'question_points',
+  'streak'
+];
+
+const escapeCSV = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toISO = (timestamp: number | null) => (timestamp ? new Date(timestamp).toISOString() : '');
+
+/**
+ * Uma linha por participante × pergunta, na ordem da classificação final
+ */
+export const buildQuizAnswersCSV = (data: QuizExportData): string => {
+  const questionsById = new Map(data.questions.map((question, index) => [question.id, { ...question, number: index + 1 }]));
+  const optionText = (questionId: string, optionId: string | null) =>
+    questionsById.get(questionId)?.options.find(option => option.id === optionId)?.text ?? '';
+
+  const rows = data.participants.flatMap(participant =>
+    participant.answers.map(answer => {
+      const question = questionsById.get(answer.questionId);
+      return [
+        participant.rank,
+        participant.participantId,
+        participant.name,
+        participant.score,
+        question?.number,
+        question?.prompt,
+        optionText(answer.questionId, answer.optionId),
+        question ? optionText(question.id, question.correctOptionId) : '',
+        answer.correct,
+        answer.elapsedMs,
+        toISO(answer.answeredAt),
+        toISO(answer.submittedAt),
+        answer.base,
+        answer.speedBonus,
+        answer.streakBonus,
+        answer.total,
+        answer.streak
+      ].map(escapeCSV).join(',');
+    })
+  );
+
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+  // BOM para o Excel abrir acentos corretamente no CSV
+  const blob = new Blob([mimeType === 'text/csv' ? '﻿' + content : content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+};
+
+export const getQuizExportFilename = (data: QuizExportData, extension: 'csv' | 'json') => {
+  const safeTitle = data.title.replace(/[^\w\s-]/gi, '').trim().replace(/\s+/g, '_') || 'quiz';
+  return `${safeTitle}_${data.exportedAt.slice(0, 10)}.${extension}`;
+};
@@ -292,7 +292,7 @@ export const addParticipantToSession = (sessionId: string, participantId: string
 /**
  * Helper function to detect browser type for better compatibility handling
  */
-const detectBrowserType = (): string => {
+export const detectBrowserType = (): string => {
   const ua = navigator.userAgent.toLowerCase();
   
   if (ua.indexOf('firefox') > -1) {
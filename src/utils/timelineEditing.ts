@@ -0,0 +1,151 @@
+import { TimelineItem } from "@/types/lightshow";
+
+// Group editing helpers for the light-show timeline (multi-select, clipboard, nudge, snapping)
+
+const MIN_ITEM_DURATION = 0.01;
+
+const itemEnd = (item: TimelineItem) => item.startTime + item.duration;
+
+const createItemId = (item: TimelineItem, index: number) => {
+  const prefix = item.type === 'image' ? 'img' : item.type === 'flashlight' ? 'flash' : 'cta';
+  return `${prefix}-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Times an edge can snap to: detected beats plus the start/end of every item
+ * that is not being moved
+ */
+export const getSnapTargets = (items: TimelineItem[], beats: number[], excludeIds: Iterable<string> = []) => {
+  const excluded = new Set(excludeIds);
+  const edges = items
+    .filter(item => !excluded.has(item.id))
+    .flatMap(item => [item.startTime, itemEnd(item)]);
+
+  return [...beats, ...edges];
+};
+
+/**
+ * Smallest correction that puts one of the given edges on a snap target,
+ * or 0 when no target is within the threshold (seconds)
+ */
+export const getSnapOffset = (edges: number[], targets: number[], threshold: number) => {
+  let best = 0;
+  let bestDistance = threshold;
+
+  for (const edge of edges) {
+    for (const target of targets) {
+      const distance = Math.abs(target - edge);
+      if (distance <= bestDistance) {
+        best = target - edge;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * True when any image of `moved` would overlap an image that is not part of the
+ * move (images can never overlap each other on the image track)
+ */
+export const hasImageOverlap = (items: TimelineItem[], moved: TimelineItem[]) => {
+  const movedIds = new Set(moved.map(item => item.id));
+  const fixedImages = items.filter(item => item.type === 'image' && !movedIds.has(item.id));
+
+  return moved
+    .filter(item => item.type === 'image')
+    .some(image => fixedImages.some(other =>
+      image.startTime < itemEnd(other) - 1e-6 && itemEnd(image) > other.startTime + 1e-6
+    ));
+};
+
+/**
+ * Shifts a group of items by `delta` seconds, keeping the whole group inside [0, duration]
+ */
+export const shiftItems = (group: TimelineItem[], delta: number, duration: number) => {
+  if (group.length === 0) return { delta: 0, items: group };
+
+  const groupStart = Math.min(...group.map(item => item.startTime));
+  const groupEnd = Math.max(...group.map(itemEnd));
+  const maxDelta = duration > 0 ? Math.max(0, duration - groupEnd) : Infinity;
+  const clamped = Math.min(maxDelta, Math.max(-groupStart, delta));
+
+  return {
+    delta: clamped,
+    items: group.map(item => ({ ...item, startTime: item.startTime + clamped }))
+  };
+};
+
+/**
+ * Copies of the items with fresh ids, moved so the earliest one starts at `startTime`.
+ * Call-to-action items are left out: a show has only one.
+ */
+export const cloneItemsAt = (group: TimelineItem[], startTime: number) => {
+  const copyable = group.filter(item => item.type !== 'callToAction');
+  if (copyable.length === 0) return [];
+
+  const groupStart = Math.min(...copyable.map(item => item.startTime));
+
+  return copyable.map((item, index) => ({
+    ...item,
+    id: createItemId(item, index),
+    startTime: Math.max(0, startTime + item.startTime - groupStart)
+  }));
+};
+
+/**
+ * Pushes pasted items later until their images fit between the existing ones.
+ * Tries the requested position first, then the end of each following image.
+ */
+export const placeWithoutImageOverlap = (items: TimelineItem[], pasted: TimelineItem[]) => {
+  if (!pasted.some(item => item.type === 'image')) return pasted;
+
+  const groupStart = Math.min(...pasted.map(item => item.startTime));
+  const candidates = [
+    groupStart,
+    ...items
+      .filter(item => item.type === 'image' && itemEnd(item) > groupStart)
+      .map(itemEnd)
+      .sort((a, b) => a - b)
+  ];
+
+  for (const candidate of candidates) {
+    const delta = candidate - groupStart;
+    const placed = pasted.map(item => ({ ...item, startTime: item.startTime + delta }));
+    if (!hasImageOverlap([...items, ...placed], placed)) return placed;
+  }
+
+  return pasted;
+};
+
+/**
+ * Removes the items and moves later images back so the image track keeps no gaps
+ */
+export const removeItemsClosingGaps = (items: TimelineItem[], ids: Iterable<string>) => {
+  const removedIds = new Set(ids);
+  const removedImages = items
+    .filter(item => removedIds.has(item.id) && item.type === 'image')
+    .sort((a, b) => b.startTime - a.startTime);
+
+  let remaining = items.filter(item => !removedIds.has(item.id));
+
+  for (const removed of removedImages) {
+    remaining = remaining.map(item =>
+      item.type === 'image' && item.startTime > removed.startTime
+        ? { ...item, startTime: item.startTime - removed.duration }
+        : item
+    );
+  }
+
+  return remaining;
+};
+
+/**
+ * Clamps a resized item so it keeps a minimum length and stays inside the track
+ */
+export const clampItemSpan = (startTime: number, endTime: number, duration: number) => {
+  const start = Math.max(0, Math.min(startTime, endTime - MIN_ITEM_DURATION));
+  const end = Math.min(duration > 0 ? duration : Infinity, Math.max(endTime, start + MIN_ITEM_DURATION));
+  return { startTime: start, duration: end - start };
+};
@@ -0,0 +1,55 @@
+import { QuizSettings } from '@/types/quiz';
+import { TransmissionAppearance } from '@/types/transmission';
+
+export const FONT_OPTIONS = [
+  { name: 'Sans-serif', value: 'sans-serif' },
+  { name: 'Serif', value: 'serif' },
+  { name: 'Monospace', value: 'monospace' },
+  { name: 'Cursive', value: 'cursive' },
+  { name: 'Fantasy', value: 'fantasy' },
+  { name: 'Arial', value: 'Arial, sans-serif' },
+  { name: 'Verdana', value: 'Verdana, sans-serif' },
+  { name: 'Tahoma', value: 'Tahoma, sans-serif' },
+  { name: 'Trebuchet MS', value: 'Trebuchet MS, sans-serif' },
+  { name: 'Georgia', value: 'Georgia, serif' },
+  { name: 'Garamond', value: 'Garamond, serif' },
+  { name: 'Courier New', value: 'Courier New, monospace' },
+  { name: 'Brush Script MT', value: 'Brush Script MT, cursive' },
+  { name: 'Comic Sans MS', value: 'Comic Sans MS, cursive' },
+  { name: 'Impact', value: 'Impact, fantasy' },
+  { name: 'Lucida Handwriting', value: 'Lucida Handwriting, cursive' },
+  { name: 'Lucida Console', value: 'Lucida Console, monospace' },
+  { name: 'Palatino', value: 'Palatino, serif' },
+  { name: 'Book Antiqua', value: 'Book Antiqua, serif' },
+  { name: 'Helvetica', value: 'Helvetica, sans-serif' },
+  { name: 'Times New Roman', value: 'Times New Roman, serif' },
+  { name: 'Arial Black', value: 'Arial Black, sans-serif' },
+  { name: 'Copperplate', value: 'Copperplate, fantasy' },
+  { name: 'Papyrus', value: 'Papyrus, fantasy' },
+  { name: 'Rockwell', value: 'Rockwell, serif' },
+  { name: 'Century Gothic', value: 'Century Gothic, sans-serif' },
+  { name: 'Calibri', value: 'Calibri, sans-serif' },
+  { name: 'Cambria', value: 'Cambria, serif' },
+  { name: 'Consolas', value: 'Consolas, monospace' },
+  { name: 'Franklin Gothic', value: 'Franklin Gothic, sans-serif' }
+];
+
+export const DEFAULT_TRANSMISSION_FONT = 'sans-serif';
+export const DEFAULT_TRANSMISSION_TEXT_COLOR = '#FFFFFF';
+
+/**
+ * Converte as configurações visuais do quiz para o formato usado pelo Live no telão
+ */
+export const getQuizTransmissionAppearance = (settings: QuizSettings): TransmissionAppearance => ({
+  selectedFont: settings.font || DEFAULT_TRANSMISSION_FONT,
+  selectedTextColor: settings.textColor || DEFAULT_TRANSMISSION_TEXT_COLOR,
+  selectedBackgroundColor: settings.backgroundColor,
+  backgroundImage: settings.appearance === 'image' ? settings.backgroundImageUrl || null : null,
+  backgroundGradient: settings.appearance === 'gradient'
+});
+
+export const postTransmissionAppearance = (target: Window | null, appearance: TransmissionAppearance) => {
+  if (!target || target.closed) return;
+
+  target.postMessage({ type: 'update-appearance', ...appearance }, '*');
+};
@@ -0,0 +1,123 @@
+import {
+  SponsorBugPosition,
+  TextSlidePosition,
+  TickerSpeed,
+  TransmissionOverlays
+} from '@/types/transmission';
+import { DEFAULT_TRANSMISSION_FONT, DEFAULT_TRANSMISSION_TEXT_COLOR } from '@/utils/transmissionAppearance';
+
+// Faixas do telão, em % da altura: o ticker ocupa a base e os outros gráficos ficam acima dele
+export const TICKER_HEIGHT_PERCENT = 7;
+export const OVERLAY_MARGIN_PERCENT = 3;
+
+export const TICKER_SEPARATOR = '  •  ';
+
+export const OVERLAY_DURATION_RANGE = { min: 1, max: 600 };
+export const SLIDE_FONT_SIZE_RANGE = { min: 3, max: 12 };
+export const SPONSOR_SIZE_RANGE = { min: 6, max: 30 };
+
+export const TICKER_SPEED_LABELS: Record<TickerSpeed, string> = {
+  slow: 'Lenta',
+  normal: 'Normal',
+  fast: 'Rápida'
+};
+
+// Velocidade em larguras do telão por segundo (igual no preview, na janela e na gravação)
+export const TICKER_SPEED_FACTORS: Record<TickerSpeed, number> = {
+  slow: 0.08,
+  normal: 0.12,
+  fast: 0.18
+};
+
+export const TEXT_SLIDE_POSITION_LABELS: Record<TextSlidePosition, string> = {
+  top: 'Topo',
+  center: 'Centro',
+  bottom: 'Base'
+};
+
+export const SPONSOR_POSITION_LABELS: Record<SponsorBugPosition, string> = {
+  topRight: 'Superior direita',
+  topLeft: 'Superior esquerda',
+  bottomRight: 'Inferior direita',
+  bottomLeft: 'Inferior esquerda'
+};
+
+export const DEFAULT_TRANSMISSION_OVERLAYS: TransmissionOverlays = {
+  ticker: {
+    enabled: false,
+    items: [],
+    speed: 'normal',
+    font: DEFAULT_TRANSMISSION_FONT,
+    textColor: DEFAULT_TRANSMISSION_TEXT_COLOR,
+    backgroundColor: '#B91C1C'
+  },
+  slides: {
+    slides: [],
+    loop: true,
+    position: 'top',
+    font: DEFAULT_TRANSMISSION_FONT,
+    textColor: DEFAULT_TRANSMISSION_TEXT_COLOR,
+    backgroundColor: '#0F172A',
+    fontSize: 5
+  },
+  sponsors: {
+    enabled: false,
+    logos: [],
+    position: 'topRight',
+    size: 12,
+    opacity: 1
+  },
+  slidesStartedAt: null,
+  sponsorsStartedAt: 0
+};
+
+export const clampNumber = (value: number, range: { min: number; max: number }) =>
+  Math.min(range.max, Math.max(range.min, Number.isFinite(value) ? value : range.min));
+
+export const getTickerText = (items: string[]) =>
+  items.map(item => item.trim()).filter(Boolean).join(TICKER_SEPARATOR);
+
+// Tempo para o texto atravessar a faixa inteira (entra pela direita e sai pela esquerda)
+export const getTickerDurationMs = (containerWidth: number, textWidth: number, speed: TickerSpeed) =>
+  containerWidth > 0 ? ((containerWidth + textWidth) / (containerWidth * TICKER_SPEED_FACTORS[speed])) * 1000 : 0;
+
+export interface TimedItem<T> {
+  item: T;
+  index: number;
+  remainingMs: number;
+}
+
+/**
+ * Item que deveria estar na tela agora numa sequência com durações próprias.
+ * Sem repetição, retorna null depois do último item
+ */
+export function getTimedItem<T extends { durationSec: number }>(
+  items: T[],
+  startedAt: number | null,
+  now: number,
+  loop: boolean
+): TimedItem<T> | null {
+  if (startedAt === null || items.length === 0) return null;
+
+  const durations = items.map(item => clampNumber(item.durationSec, OVERLAY_DURATION_RANGE) * 1000);
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  let elapsed = Math.max(0, now - startedAt);
+  if (elapsed >= total) {
+    if (!loop) return null;
+    elapsed %= total;
+  }
+
+  for (let index = 0; index < items.length; index++) {
+    if (elapsed < durations[index]) {
+      return { item: items[index], index, remainingMs: durations[index] - elapsed };
+    }
+    elapsed -= durations[index];
+  }
+  return null;
+}
+
+export const postTransmissionOverlays = (target: Window | null, overlays: TransmissionOverlays) => {
+  if (!target || target.closed) return;
+
+  target.postMessage({ type: 'update-overlays', ...overlays }, '*');
+};
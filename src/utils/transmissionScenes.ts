@@ -0,0 +1,143 @@
+import { SceneLayout, SceneSlot, SceneTransition, TransmissionScene, TransmissionSceneKind } from '@/types/transmission';
+
+export const SCENE_KIND_LABELS: Record<TransmissionSceneKind, string> = {
+  spotlight: 'Destaque',
+  twoUp: 'Entrevista',
+  pip: 'Picture-in-picture',
+  grid: 'Grade',
+  qrOnly: 'Somente QR Code'
+};
+
+export const SCENE_TRANSITION_LABELS: Record<SceneTransition, string> = {
+  cut: 'Corte seco',
+  fade: 'Fade',
+  morph: 'Movimento'
+};
+
+// Número de slots editáveis de cada tipo de cena
+export const SCENE_SLOT_COUNT: Record<TransmissionSceneKind, number> = {
+  spotlight: 1,
+  twoUp: 2,
+  pip: 2,
+  grid: 1,
+  qrOnly: 1
+};
+
+export const DEFAULT_SCENES: TransmissionScene[] = [
+  { id: 'spotlight', name: 'Destaque', kind: 'spotlight', slots: [{ x: 5, y: 5, width: 90, height: 90 }] },
+  {
+    id: 'interview',
+    name: 'Entrevista',
+    kind: 'twoUp',
+    slots: [
+      { x: 3, y: 15, width: 46, height: 70 },
+      { x: 51, y: 15, width: 46, height: 70 }
+    ]
+  },
+  {
+    id: 'pip',
+    name: 'Picture-in-picture',
+    kind: 'pip',
+    slots: [
+      { x: 0, y: 0, width: 100, height: 100 },
+      { x: 72, y: 68, width: 25, height: 28 }
+    ]
+  },
+  // Mesma área da grade fixa anterior (à direita do QR Code)
+  { id: 'grid', name: 'Grade', kind: 'grid', slots: [{ x: 30, y: 5, width: 65, height: 90 }] },
+  { id: 'qr', name: 'Aguarde (QR Code)', kind: 'qrOnly', slots: [{ x: 35, y: 20, width: 30, height: 53 }] }
+];
+
+const GRID_GAP = 1; // %
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, Number.isFinite(value) ? value : 0));
+
+/**
+ * Mantém o slot dentro do telão
+ */
+export const clampSlot = (slot: SceneSlot): SceneSlot => {
+  const x = clampPercent(slot.x);
+  const y = clampPercent(slot.y);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(100 - x, clampPercent(slot.width))),
+    height: Math.max(1, Math.min(100 - y, clampPercent(slot.height)))
+  };
+};
+
+// Divide a área em colunas e linhas (colunas = raiz quadrada arredondada para cima)
+const gridSlots = (area: SceneSlot, count: number): SceneSlot[] => {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const width = (area.width - GRID_GAP * (columns - 1)) / columns;
+  const height = (area.height - GRID_GAP * (rows - 1)) / rows;
+
+  return Array.from({ length: count }, (_, index) => ({
+    x: area.x + (index % columns) * (width + GRID_GAP),
+    y: area.y + Math.floor(index / columns) * (height + GRID_GAP),
+    width,
+    height
+  }));
+};
+
+interface BuildSceneLayoutOptions {
+  participantIds: string[];          // Selecionados com vídeo, na ordem da lista
+  assignments?: (string | null)[];   // Participante fixado em cada slot (null = automático)
+  maxGridParticipants?: number;
+  qrCode?: { image: string | null; description: string };
+}
+
+/**
+ * Posição de cada vídeo (e do QR Code) na cena. Slots sem participante fixado
+ * recebem os próximos da lista; slots sem ninguém ficam com o ícone de espera
+ */
+export function buildSceneLayout(scene: TransmissionScene, options: BuildSceneLayoutOptions): SceneLayout {
+  const { participantIds, assignments = [], maxGridParticipants = participantIds.length, qrCode } = options;
+
+  if (scene.kind === 'qrOnly') {
+    return {
+      sceneId: scene.id,
+      tiles: [],
+      qrCode: { ...scene.slots[0], image: qrCode?.image ?? null, description: qrCode?.description ?? '' }
+    };
+  }
+
+  if (scene.kind === 'grid') {
+    const shown = participantIds.slice(0, Math.max(1, maxGridParticipants));
+    return {
+      sceneId: scene.id,
+      tiles: gridSlots(scene.slots[0], Math.max(1, shown.length)).map((slot, index) => ({
+        ...slot,
+        participantId: shown[index] ?? null,
+        layer: 1
+      })),
+      qrCode: null
+    };
+  }
+
+  const pinned = assignments.map(id => (id && participantIds.includes(id) ? id : null));
+  const remaining = participantIds.filter(id => !pinned.includes(id));
+
+  return {
+    sceneId: scene.id,
+    tiles: scene.slots.map((slot, index) => ({
+      ...slot,
+      participantId: pinned[index] ?? remaining.shift() ?? null,
+      // Picture-in-picture: a janela menor fica por cima
+      layer: scene.kind === 'pip' ? index + 1 : 1
+    })),
+    qrCode: null
+  };
+}
+
+export const postTransmissionScene = (
+  target: Window | null,
+  layout: SceneLayout,
+  transition: SceneTransition,
+  durationMs: number
+) => {
+  if (!target || target.closed) return;
+
+  target.postMessage({ type: 'update-scene', ...layout, transition, durationMs }, '*');
+};
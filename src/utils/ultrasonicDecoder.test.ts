@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCRC } from '@/utils/audioProcessing';
+import { UltrasonicDemodulator } from '@/utils/ultrasonicDecoder';
+import {
+  MODEM_PROFILES,
+  MODEM_PROFILE_IDS,
+  ModemProfile,
+  ULTRASONIC_PROTOCOL,
+  writeUltrasonicFrame
+} from '@/utils/ultrasonicModem';
+
+const SAMPLE_RATE = 48000;
+
+const buildPayload = () => {
+  const data = {
+    version: '1',
+    items: Array.from({ length: 20 }, (_, index) => ({ i: `item-${index}`, t: 'f', s: index * 1.5, d: 1 }))
+  };
+  return new TextEncoder().encode(JSON.stringify({ data, checksum: calculateCRC(JSON.stringify(data)) }));
+};
+
+/**
+ * Renders a transmission the way generateUltrasonicAudio does (one phase-continuous oscillator
+ * per channel), starting leadIn seconds into the audio
+ */
+function renderTransmission(payload: Uint8Array, profile: ModemProfile, leadIn: number) {
+  const tones: Array<{ channel: number; time: number; duration: number; frequency: number; endFrequency?: number }> = [];
+  const frame = writeUltrasonicFrame(payload, profile, 0, (channel, time, duration, frequency, endFrequency) => {
+    tones.push({ channel, time: time + leadIn, duration, frequency, endFrequency });
+  });
+
+  const samples = new Float32Array(Math.ceil((leadIn + frame.payloadEnd + ULTRASONIC_PROTOCOL.postambleSeconds + 0.5) * SAMPLE_RATE));
+  const phases = new Array<number>(profile.channels).fill(0);
+
+  for (const tone of tones) {
+    const inPayload = tone.time >= leadIn + frame.payloadStart && tone.time < leadIn + frame.payloadEnd;
+    const gain = inPayload ? profile.gain / profile.channels : profile.gain;
+    const from = Math.round(tone.time * SAMPLE_RATE);
+    const to = Math.round((tone.time + tone.duration) * SAMPLE_RATE);
+
+    for (let n = from; n < to && n < samples.length; n++) {
+      const frequency = tone.endFrequency === undefined
+        ? tone.frequency
+        : tone.frequency + ((tone.endFrequency - tone.frequency) * (n - from)) / (to - from);
+      phases[tone.channel] += (2 * Math.PI * frequency) / SAMPLE_RATE;
+      samples[n] += gain * Math.sin(phases[tone.channel]);
+    }
+  }
+
+  return samples;
+}
+
+describe('ultrasonic encode → decode round trip', () => {
+  const payload = buildPayload();
+
+  describe.each(MODEM_PROFILE_IDS)('%s profile', (id) => {
+    // Leading silence that does not fall on a hop boundary exercises the symbol alignment
+    it.each([0, 0.0013, 0.0039])('decodes the payload after %ss of extra silence', (leadIn) => {
+      const demodulator = new UltrasonicDemodulator(SAMPLE_RATE);
+      demodulator.push(renderTransmission(payload, MODEM_PROFILES[id], leadIn));
+      const result = demodulator.decode();
+
+      expect(result.status).toBe('ok');
+      expect(result.profile).toBe(id);
+      expect(result.fec?.failedBlocks).toBe(0);
+      expect(result.rawPayload).toBe(new TextDecoder().decode(payload));
+    });
+  });
+});
@@ -0,0 +1,761 @@
+import { TimelineItem } from '@/types/lightshow';
+import { calculateCRC, compressTimelineItems } from '@/utils/audioProcessing';
+import { decodeFEC, fecLayout } from '@/utils/ultrasonicFec';
+import {
+  HEADER_BYTES,
+  MODEM_PROFILES,
+  MODEM_PROFILE_IDS,
+  ModemProfile,
+  ModemProfileId,
+  SYNC_TIMESTAMP_DIGITS,
+  ULTRASONIC_PROTOCOL,
+  decodeFrameHeader,
+  demodulatorFrequencies,
+  symbolWindow,
+  symbolsPerByte,
+  symbolsToBytes,
+  tonesPerChannel
+} from '@/utils/ultrasonicModem';
+
+/**
+ * Decoder for the stream written by generateUltrasonicAudio:
+ * preamble → sync timestamp → header → payload ({ data, checksum }) → postamble → periodic sync markers.
+ * The header names the modem profile of the payload; files written before profiles existed
+ * have the JSON right after the timestamp, in base FSK and without FEC.
+ * Works on decoded files and on live microphone input; both feed the same streaming demodulator.
+ */
+
+const HOPS_PER_BIT = 10;
+// Only the middle of each bit is integrated, so a hop of misalignment does not leak the neighbouring bits
+const BIT_WINDOW_START = 2;
+const BIT_WINDOW_END = 8;
+const MIN_PREAMBLE_CORRELATION = 0.5;
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+const MAX_SYNC_MARKER_BYTES = 64;
+// Symbol alignment is re-checked every so many symbols to follow clock drift between player and recorder
+const TRACKING_SYMBOLS = 32;
+const CHUNK_SECONDS = 2;
+
+export type UltrasonicDecodeStatus =
+  | 'ok'                // payload decoded and checksum matches
+  | 'checksum-mismatch'
+  | 'no-checksum'       // fallback format written without CRC
+  | 'corrupted'         // payload bytes are not valid JSON
+  | 'truncated'         // audio ends before the payload does
+  | 'no-signal';        // preamble not found
+
+export interface UltrasonicPayload {
+  version?: string;
+  metadata?: {
+    showId?: string;    // Asset manifest of the show (LightShowAssetService)
+    showName: string;
+    duration: number;
+    itemCount: number;
+    timestamp: number;
+    zones?: Array<{ k: string; n: string; s?: string[]; r?: [number, number] }>;
+  };
+  items: Record<string, unknown>[];
+}
+
+export interface UltrasonicSyncMarker {
+  time: number;         // Seconds from the start of the analysed audio
+  encodedTime: number;  // Position written by the generator
+  drift: number;        // time - encodedTime
+}
+
+export interface UltrasonicDecodeResult {
+  status: UltrasonicDecodeStatus;
+  signalQuality: number;          // Preamble correlation (0-1)
+  bitConfidence: number;          // Mean separation of the payload symbols from the runner-up (0-1)
+  preambleAt: number | null;
+  profile: ModemProfileId | null; // null for files without a frame header
+  generatedAt: number | null;     // Sync timestamp (ms epoch) sent before the payload
+  payload: UltrasonicPayload | null;
+  rawPayload: string | null;
+  checksum: { expected: number; actual: number } | null;
+  fec: { blocks: number; correctedBytes: number; failedBlocks: number } | null;
+  transmissionEnd: number | null;
+  syncMarkers: UltrasonicSyncMarker[];
+  analyzedDuration: number;
+}
+
+export interface UltrasonicRoundTripReport {
+  matches: boolean;
+  expectedItems: number;
+  decodedItems: number;
+  mismatchedItemIds: string[];
+}
+
+const bitsToHops = (bits: number[]) => bits.flatMap(bit => new Array<number>(HOPS_PER_BIT).fill(bit ? 1 : -1));
+
+// Same pattern as the generator: alternating, all 1s, all 0s, short alternating confirmation
+const buildPreambleTemplate = () => {
+  const { preambleSeconds, bitsPerSecond } = ULTRASONIC_PROTOCOL;
+  const segment = (ratio: number, bit: (index: number) => number) =>
+    Array.from({ length: preambleSeconds * bitsPerSecond * ratio }, (_, index) => bit(index));
+
+  return bitsToHops([
+    ...segment(0.3, index => index % 2),
+    ...segment(0.3, () => 1),
+    ...segment(0.3, () => 0),
+    ...segment(0.1, index => index % 2)
+  ]);
+};
+
+const PREAMBLE_TEMPLATE = buildPreambleTemplate();
+
+class GoertzelFilter {
+  private readonly coefficient: number;
+  private s1 = 0;
+  private s2 = 0;
+
+  constructor(frequency: number, sampleRate: number) {
+    this.coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  }
+
+  process(sample: number) {
+    const s0 = sample + this.coefficient * this.s1 - this.s2;
+    this.s2 = this.s1;
+    this.s1 = s0;
+  }
+
+  flush(): number {
+    const power = this.s1 * this.s1 + this.s2 * this.s2 - this.coefficient * this.s1 * this.s2;
+    this.s1 = 0;
+    this.s2 = 0;
+    return power;
+  }
+}
+
+/**
+ * Energy per hop of every frequency a modem profile uses
+ */
+class ToneBank {
+  readonly hopSeconds: number;
+  private readonly hopSize: number;
+  private readonly filters: GoertzelFilter[];
+  private readonly energy: Float32Array[] = [];
+  private sampleIndex = 0;
+  private nextBoundary: number;
+
+  constructor(private readonly profile: ModemProfile, sampleRate: number) {
+    this.hopSeconds = 1 / (profile.symbolRate * profile.hopsPerSymbol);
+    this.hopSize = sampleRate * this.hopSeconds;
+    this.nextBoundary = this.hopSize;
+    this.filters = demodulatorFrequencies(profile).map(frequency => new GoertzelFilter(frequency, sampleRate));
+  }
+
+  process(sample: number) {
+    for (const filter of this.filters) filter.process(sample);
+    this.sampleIndex++;
+
+    if (this.sampleIndex >= this.nextBoundary) {
+      this.energy.push(Float32Array.from(this.filters, filter => filter.flush()));
+      this.nextBoundary += this.hopSize;
+    }
+  }
+
+  private symbolAvailable(hop: number) {
+    return hop >= 0 && hop + this.profile.hopsPerSymbol <= this.energy.length;
+  }
+
+  /**
+   * Strongest candidate of the symbol starting at hop, channel by channel
+   */
+  private readSymbol(hop: number) {
+    return this.profile.modulation === 'chirp' ? this.readChirp(hop) : this.readTones(hop);
+  }
+
+  private readTones(hop: number) {
+    const { start, end } = symbolWindow(this.profile);
+    const scores = new Array<number>(this.profile.tones.length).fill(0);
+    for (let j = start; j < end; j++) {
+      this.energy[hop + j].forEach((value, tone) => {
+        scores[tone] += value;
+      });
+    }
+
+    const perChannel = tonesPerChannel(this.profile);
+    const bitsPerChannel = Math.log2(perChannel);
+    let value = 0;
+    let confidence = 0;
+
+    for (let channel = 0; channel * perChannel < scores.length; channel++) {
+      const channelScores = scores.slice(channel * perChannel, (channel + 1) * perChannel);
+      let best = 0;
+      channelScores.forEach((score, candidate) => {
+        if (score > channelScores[best]) best = candidate;
+      });
+      const runnerUp = Math.max(...channelScores.filter((_, candidate) => candidate !== best));
+      value |= best << (channel * bitsPerChannel);
+      confidence += (channelScores[best] - runnerUp) / (channelScores[best] + runnerUp + 1e-12);
+    }
+
+    return { value, confidence: confidence / (scores.length / perChannel) };
+  }
+
+  /**
+   * Chirps are matched hop by hop against the slice of the sweep an up- or down-chirp covers then.
+   * The two are mirror images, so a hop or two off the sweep still lands on one of them about as
+   * often as on the other; the confidence is therefore the signed up-vs-down difference over all
+   * the energy of the sweep, which only peaks when the symbol is aligned.
+   */
+  private readChirp(hop: number) {
+    const { start, end } = symbolWindow(this.profile);
+    let up = 0;
+    let down = 0;
+    let total = 0;
+
+    for (let j = start; j < end; j++) {
+      const energy = this.energy[hop + j];
+      up += energy[j];
+      down += energy[this.profile.hopsPerSymbol - 1 - j];
+      total += energy.reduce((sum, value) => sum + value, 0);
+    }
+
+    return { value: up > down ? 1 : 0, confidence: Math.abs(up - down) / (total + 1e-12) };
+  }
+
+  private meanConfidence(hop: number, count: number) {
+    let sum = 0;
+    let read = 0;
+    for (let s = 0; s < count && this.symbolAvailable(hop + s * this.profile.hopsPerSymbol); s++) {
+      sum += this.readSymbol(hop + s * this.profile.hopsPerSymbol).confidence;
+      read++;
+    }
+    return read ? sum / read : 0;
+  }
+
+  private align(hop: number, range: number, count: number) {
+    let best = hop;
+    let bestConfidence = -1;
+    for (let offset = -range; offset <= range; offset++) {
+      const confidence = this.meanConfidence(hop + offset, count);
+      if (confidence > bestConfidence) {
+        bestConfidence = confidence;
+        best = hop + offset;
+      }
+    }
+    return best;
+  }
+
+  readSymbols(startTime: number, count: number) {
+    const { hopsPerSymbol } = this.profile;
+    const symbols: number[] = [];
+    let confidence = 0;
+    let hop = this.align(Math.round(startTime / this.hopSeconds), Math.ceil(hopsPerSymbol / 2), TRACKING_SYMBOLS);
+
+    while (symbols.length < count) {
+      if (symbols.length > 0 && symbols.length % TRACKING_SYMBOLS === 0) {
+        hop = this.align(hop, 1, Math.min(TRACKING_SYMBOLS, count - symbols.length));
+      }
+      if (!this.symbolAvailable(hop)) break;
+
+      const symbol = this.readSymbol(hop);
+      symbols.push(symbol.value);
+      confidence += symbol.confidence;
+      hop += hopsPerSymbol;
+    }
+
+    return {
+      symbols,
+      confidence: symbols.length ? confidence / symbols.length : 0,
+      endTime: hop * this.hopSeconds,
+      truncated: symbols.length < count
+    };
+  }
+}
+
+const HIGHEST_FREQUENCY = Math.max(
+  ULTRASONIC_PROTOCOL.markFrequency,
+  ...MODEM_PROFILE_IDS.flatMap(id => MODEM_PROFILES[id].tones)
+);
+
+/**
+ * Streaming demodulator: keeps only mark/space energy per hop (1/10 of a bit), plus
+ * the tone energies of every modem profile, so long recordings do not need the raw
+ * samples in memory
+ */
+export class UltrasonicDemodulator {
+  private readonly hopSize: number;
+  private readonly markFilter: GoertzelFilter;
+  private readonly spaceFilter: GoertzelFilter;
+  private readonly markEnergy: number[] = [];
+  private readonly spaceEnergy: number[] = [];
+  private readonly banks: Record<ModemProfileId, ToneBank>;
+  private sampleIndex = 0;
+  private nextBoundary: number;
+
+  constructor(private readonly sampleRate: number) {
+    if (sampleRate < HIGHEST_FREQUENCY * 2) {
+      throw new Error(`Sample rate ${sampleRate}Hz is too low to carry the ultrasonic signal`);
+    }
+
+    this.hopSize = sampleRate / (ULTRASONIC_PROTOCOL.bitsPerSecond * HOPS_PER_BIT);
+    this.nextBoundary = this.hopSize;
+    this.markFilter = new GoertzelFilter(ULTRASONIC_PROTOCOL.markFrequency, sampleRate);
+    this.spaceFilter = new GoertzelFilter(ULTRASONIC_PROTOCOL.spaceFrequency, sampleRate);
+    this.banks = {
+      robust: new ToneBank(MODEM_PROFILES.robust, sampleRate),
+      standard: new ToneBank(MODEM_PROFILES.standard, sampleRate),
+      fast: new ToneBank(MODEM_PROFILES.fast, sampleRate)
+    };
+  }
+
+  get duration(): number {
+    return this.sampleIndex / this.sampleRate;
+  }
+
+  push(samples: Float32Array) {
+    for (let i = 0; i < samples.length; i++) {
+      this.markFilter.process(samples[i]);
+      this.spaceFilter.process(samples[i]);
+      this.banks.robust.process(samples[i]);
+      this.banks.standard.process(samples[i]);
+      this.banks.fast.process(samples[i]);
+      this.sampleIndex++;
+
+      if (this.sampleIndex >= this.nextBoundary) {
+        this.markEnergy.push(this.markFilter.flush());
+        this.spaceEnergy.push(this.spaceFilter.flush());
+        this.nextBoundary += this.hopSize;
+      }
+    }
+  }
+
+  decode(): UltrasonicDecodeResult {
+    const hopSeconds = 1 / (ULTRASONIC_PROTOCOL.bitsPerSecond * HOPS_PER_BIT);
+    const result: UltrasonicDecodeResult = {
+      status: 'no-signal',
+      signalQuality: 0,
+      bitConfidence: 0,
+      preambleAt: null,
+      profile: null,
+      generatedAt: null,
+      payload: null,
+      rawPayload: null,
+      checksum: null,
+      fec: null,
+      transmissionEnd: null,
+      syncMarkers: [],
+      analyzedDuration: this.duration
+    };
+
+    const preamble = this.findPreamble();
+    result.signalQuality = Math.max(0, preamble.correlation);
+    if (preamble.hop < 0 || preamble.correlation < MIN_PREAMBLE_CORRELATION) {
+      return result;
+    }
+
+    result.preambleAt = preamble.hop * hopSeconds;
+    const dataHop = preamble.hop + PREAMBLE_TEMPLATE.length;
+
+    // Sync timestamp (ASCII digits), then a short pause before the payload
+    const timestampBytes = this.readBytes(dataHop, SYNC_TIMESTAMP_DIGITS);
+    const timestamp = String.fromCharCode(...timestampBytes);
+    if (/^\d{13}$/.test(timestamp)) {
+      result.generatedAt = Number(timestamp);
+    }
+
+    const pauseBits = Math.round(ULTRASONIC_PROTOCOL.syncPauseSeconds * ULTRASONIC_PROTOCOL.bitsPerSecond);
+    const headerHop = dataHop + (SYNC_TIMESTAMP_DIGITS * 8 + pauseBits) * HOPS_PER_BIT;
+    const header = this.findHeader(headerHop, 2);
+    if (header) {
+      this.decodeFrame(result, header, hopSeconds);
+      return result;
+    }
+
+    // No header: legacy file with the JSON right after the timestamp
+    const payloadHop = this.findByte(headerHop, 0x7B, 2);
+    if (payloadHop < 0) {
+      result.status = this.hopsAvailable(dataHop, SYNC_TIMESTAMP_DIGITS * 8 + pauseBits + 8) ? 'corrupted' : 'truncated';
+      return result;
+    }
+
+    const payload = this.readJSONObject(payloadHop, MAX_PAYLOAD_BYTES);
+    result.rawPayload = payload.text;
+    result.bitConfidence = payload.confidence;
+    result.transmissionEnd = (payloadHop + payload.byteCount * 8 * HOPS_PER_BIT) * hopSeconds;
+
+    if (!payload.complete) {
+      result.status = payload.truncated ? 'truncated' : 'corrupted';
+      return result;
+    }
+
+    if (!this.parsePayload(result, payload.text)) {
+      return result;
+    }
+
+    const postambleBits = ULTRASONIC_PROTOCOL.postambleSeconds * ULTRASONIC_PROTOCOL.bitsPerSecond;
+    result.syncMarkers = this.findSyncMarkers(payloadHop + (payload.byteCount * 8 + postambleBits) * HOPS_PER_BIT, hopSeconds);
+
+    return result;
+  }
+
+  /**
+   * Profile payload: symbols from the profile's tone bank, de-interleaved and Reed-Solomon corrected
+   */
+  private decodeFrame(
+    result: UltrasonicDecodeResult,
+    header: { profile: ModemProfile; payloadLength: number; hop: number },
+    hopSeconds: number
+  ) {
+    const { profile, payloadLength } = header;
+    result.profile = profile.id;
+
+    const pauseBits = Math.round(ULTRASONIC_PROTOCOL.syncPauseSeconds * ULTRASONIC_PROTOCOL.bitsPerSecond);
+    const payloadStart = (header.hop + (HEADER_BYTES * 8 + pauseBits) * HOPS_PER_BIT) * hopSeconds;
+    const { encodedLength } = fecLayout(payloadLength, profile.parityBytes);
+
+    const read = this.banks[profile.id].readSymbols(payloadStart, encodedLength * symbolsPerByte(profile));
+    result.bitConfidence = read.confidence;
+    result.transmissionEnd = read.endTime;
+    if (read.truncated) {
+      result.status = 'truncated';
+      return;
+    }
+
+    const fec = decodeFEC(symbolsToBytes(read.symbols, profile), profile.parityBytes, payloadLength);
+    result.fec = { blocks: fec.blocks, correctedBytes: fec.correctedBytes, failedBlocks: fec.failedBlocks };
+    result.rawPayload = new TextDecoder().decode(fec.data);
+
+    if (!this.parsePayload(result, result.rawPayload)) return;
+
+    const postambleHop = Math.round((read.endTime + ULTRASONIC_PROTOCOL.postambleSeconds) / hopSeconds);
+    result.syncMarkers = this.findSyncMarkers(postambleHop, hopSeconds);
+  }
+
+  // Fills payload, checksum and status; false when the text is not JSON
+  private parsePayload(result: UltrasonicDecodeResult, text: string) {
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === 'object' && 'data' in parsed && 'checksum' in parsed) {
+        const actual = calculateCRC(JSON.stringify(parsed.data));
+        result.payload = parsed.data as UltrasonicPayload;
+        result.checksum = { expected: Number(parsed.checksum), actual };
+        result.status = actual === Number(parsed.checksum) ? 'ok' : 'checksum-mismatch';
+      } else {
+        result.payload = parsed as UltrasonicPayload;
+        result.status = 'no-checksum';
+      }
+      return true;
+    } catch {
+      result.status = 'corrupted';
+      return false;
+    }
+  }
+
+  private get hopCount() {
+    return this.markEnergy.length;
+  }
+
+  private hopsAvailable(startHop: number, bits: number) {
+    return startHop + bits * HOPS_PER_BIT <= this.hopCount;
+  }
+
+  private soft(hop: number) {
+    const mark = this.markEnergy[hop];
+    const space = this.spaceEnergy[hop];
+    return (mark - space) / (mark + space + 1e-12);
+  }
+
+  private findPreamble() {
+    let bestHop = -1;
+    let bestCorrelation = -Infinity;
+    const lastHop = this.hopCount - PREAMBLE_TEMPLATE.length;
+    if (lastHop < 0) return { hop: bestHop, correlation: 0 };
+
+    const soft = Array.from({ length: this.hopCount }, (_, hop) => this.soft(hop));
+    for (let hop = 0; hop <= lastHop; hop++) {
+      let sum = 0;
+      for (let j = 0; j < PREAMBLE_TEMPLATE.length; j++) {
+        sum += soft[hop + j] * PREAMBLE_TEMPLATE[j];
+      }
+      const correlation = sum / PREAMBLE_TEMPLATE.length;
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestHop = hop;
+      }
+    }
+
+    return { hop: bestHop, correlation: bestCorrelation };
+  }
+
+  private readBit(bitHop: number) {
+    let mark = 0;
+    let space = 0;
+    for (let j = BIT_WINDOW_START; j < BIT_WINDOW_END; j++) {
+      mark += this.markEnergy[bitHop + j];
+      space += this.spaceEnergy[bitHop + j];
+    }
+    return { bit: mark > space ? 1 : 0, confidence: Math.abs(mark - space) / (mark + space + 1e-12) };
+  }
+
+  // Bytes are sent least significant bit first
+  private readByte(startHop: number) {
+    let value = 0;
+    let confidence = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      const result = this.readBit(startHop + bit * HOPS_PER_BIT);
+      value |= result.bit << bit;
+      confidence += result.confidence;
+    }
+    return { value, confidence: confidence / 8 };
+  }
+
+  private readBytes(startHop: number, count: number) {
+    const bytes: number[] = [];
+    for (let i = 0; i < count && this.hopsAvailable(startHop + i * 8 * HOPS_PER_BIT, 8); i++) {
+      bytes.push(this.readByte(startHop + i * 8 * HOPS_PER_BIT).value);
+    }
+    return bytes;
+  }
+
+  private findHeader(expectedHop: number, slackBits: number) {
+    for (let offset = 0; offset <= slackBits * HOPS_PER_BIT; offset++) {
+      for (const hop of [expectedHop + offset, expectedHop - offset]) {
+        if (hop < 0 || !this.hopsAvailable(hop, HEADER_BYTES * 8)) continue;
+        const header = decodeFrameHeader(this.readBytes(hop, HEADER_BYTES));
+        if (header) return { ...header, hop };
+      }
+    }
+    return null;
+  }
+
+  // Tolerates a few bits of slack around the expected position
+  private findByte(expectedHop: number, value: number, slackBits: number) {
+    for (let offset = 0; offset <= slackBits * HOPS_PER_BIT; offset++) {
+      for (const hop of [expectedHop + offset, expectedHop - offset]) {
+        if (hop >= 0 && this.hopsAvailable(hop, 8) && this.readByte(hop).value === value) {
+          return hop;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Reads bytes until the braces of the JSON object balance (strings and escapes respected)
+   */
+  private readJSONObject(startHop: number, maxBytes: number) {
+    const bytes: number[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let confidence = 0;
+
+    while (bytes.length < maxBytes) {
+      const hop = startHop + bytes.length * 8 * HOPS_PER_BIT;
+      if (!this.hopsAvailable(hop, 8)) {
+        return { text: new TextDecoder().decode(new Uint8Array(bytes)), byteCount: bytes.length, complete: false, truncated: true, confidence: bytes.length ? confidence / bytes.length : 0 };
+      }
+
+      const byte = this.readByte(hop);
+      bytes.push(byte.value);
+      confidence += byte.confidence;
+
+      const char = String.fromCharCode(byte.value);
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) break;
+      }
+    }
+
+    return {
+      text: new TextDecoder().decode(new Uint8Array(bytes)),
+      byteCount: bytes.length,
+      complete: depth === 0,
+      truncated: false,
+      confidence: bytes.length ? confidence / bytes.length : 0
+    };
+  }
+
+  private findSyncMarkers(startHop: number, hopSeconds: number): UltrasonicSyncMarker[] {
+    const markers: UltrasonicSyncMarker[] = [];
+    const prefix = Array.from('{"t":', char => char.charCodeAt(0));
+    let hop = Math.max(0, startHop);
+
+    const matchesPrefix = (candidate: number) =>
+      this.hopsAvailable(candidate, prefix.length * 8) &&
+      prefix.every((value, index) => this.readByte(candidate + index * 8 * HOPS_PER_BIT).value === value);
+
+    while (this.hopsAvailable(hop, prefix.length * 8)) {
+      if (this.readByte(hop).value !== prefix[0] || !matchesPrefix(hop)) {
+        hop++;
+        continue;
+      }
+
+      // The first matching hop is early: center on the run of hops that still decode the prefix
+      let run = 1;
+      while (run < HOPS_PER_BIT && matchesPrefix(hop + run)) run++;
+      hop += Math.floor((run - 1) / 2);
+
+      const marker = this.readJSONObject(hop, MAX_SYNC_MARKER_BYTES);
+      try {
+        const parsed = marker.complete ? JSON.parse(marker.text) : null;
+        if (parsed?.c === 'sync' && typeof parsed.t === 'number') {
+          const time = hop * hopSeconds;
+          markers.push({ time, encodedTime: parsed.t, drift: time - parsed.t });
+        }
+      } catch {
+        // Corrupted marker: keep scanning after it
+      }
+      hop += Math.max(1, marker.byteCount) * 8 * HOPS_PER_BIT;
+    }
+
+    return markers;
+  }
+}
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Decodes an exported WAV (or any format the browser can decode)
+ */
+export async function decodeUltrasonicFile(
+  file: Blob,
+  onProgress?: (progress: number) => void
+): Promise<UltrasonicDecodeResult> {
+  const arrayBuffer = await file.arrayBuffer();
+  const audioContext = new window.AudioContext();
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+
+  console.log(`Decoding ultrasonic data: ${audioBuffer.duration.toFixed(2)}s, ${audioBuffer.sampleRate}Hz`);
+
+  const demodulator = new UltrasonicDemodulator(audioBuffer.sampleRate);
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, index) => audioBuffer.getChannelData(index));
+  const chunkLength = Math.round(audioBuffer.sampleRate * CHUNK_SECONDS);
+
+  for (let start = 0; start < audioBuffer.length; start += chunkLength) {
+    const end = Math.min(audioBuffer.length, start + chunkLength);
+    const mono = new Float32Array(end - start);
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        mono[i - start] += channel[i] / channels.length;
+      }
+    }
+
+    demodulator.push(mono);
+    onProgress?.(end / audioBuffer.length);
+    // Keep the UI responsive on long files
+    await yieldToBrowser();
+  }
+
+  const result = demodulator.decode();
+  console.log(`Ultrasonic decode finished: ${result.status}, ${result.syncMarkers.length} sync markers`);
+  return result;
+}
+
+/**
+ * Listens to the microphone and decodes whatever was captured when stopped.
+ * Echo cancellation and noise suppression are disabled: they filter out the 17-19kHz band.
+ */
+export class UltrasonicMicrophoneDecoder {
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private demodulator: UltrasonicDemodulator | null = null;
+
+  get isListening() {
+    return this.audioContext !== null;
+  }
+
+  get duration() {
+    return this.demodulator?.duration ?? 0;
+  }
+
+  async start() {
+    if (this.isListening) return;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+
+    try {
+      this.audioContext = new window.AudioContext();
+      const demodulator = new UltrasonicDemodulator(this.audioContext.sampleRate);
+      this.demodulator = demodulator;
+
+      const source = this.audioContext.createMediaStreamSource(this.stream);
+      this.processor = this.audioContext.createScriptProcessor(4096, 1, 1);
+      this.processor.onaudioprocess = (event) => {
+        demodulator.push(event.inputBuffer.getChannelData(0));
+      };
+      source.connect(this.processor);
+      this.processor.connect(this.audioContext.destination);
+      console.log(`Listening for ultrasonic data at ${this.audioContext.sampleRate}Hz`);
+    } catch (error) {
+      this.cleanup();
+      throw error;
+    }
+  }
+
+  decode(): UltrasonicDecodeResult | null {
+    return this.demodulator?.decode() ?? null;
+  }
+
+  stop(): UltrasonicDecodeResult | null {
+    const result = this.decode();
+    this.cleanup();
+    return result;
+  }
+
+  private cleanup() {
+    this.processor?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.audioContext?.close();
+    this.processor = null;
+    this.stream = null;
+    this.audioContext = null;
+  }
+}
+
+/**
+ * Compares the decoded items with the current timeline. Asset keys depend on the
+ * published manifest, so they are left out of the comparison; when the show has a
+ * manifest, call-to-action content lives there and only its type is compared.
+ */
+export function verifyTimelineRoundTrip(
+  payload: UltrasonicPayload,
+  timelineItems: TimelineItem[]
+): UltrasonicRoundTripReport {
+  const withManifest = Boolean(payload.metadata?.showId);
+  const normalize = (item: Record<string, unknown>) => {
+    if (item.t === 'i') {
+      const { a: _asset, ...rest } = item;
+      return JSON.stringify(rest);
+    }
+    if (item.t === 'c' && item.c && typeof item.c === 'object') {
+      const { k: _callToAction, ...content } = item.c as Record<string, unknown>;
+      return JSON.stringify({ ...item, c: withManifest ? { t: content.t } : content });
+    }
+    return JSON.stringify(item);
+  };
+
+  const expected = compressTimelineItems(timelineItems) as Record<string, unknown>[];
+  const decoded = Array.isArray(payload.items) ? payload.items : [];
+  const mismatchedItemIds = expected
+    .filter((item, index) => !decoded[index] || normalize(item) !== normalize(decoded[index]))
+    .map(item => String(item.i));
+
+  return {
+    matches: expected.length === decoded.length && mismatchedItemIds.length === 0,
+    expectedItems: expected.length,
+    decodedItems: decoded.length,
+    mismatchedItemIds
+  };
+}
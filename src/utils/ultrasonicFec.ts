@@ -0,0 +1,234 @@
+/**
+ * Forward error correction for the ultrasonic payload: Reed-Solomon over GF(256)
+ * with a block interleaver, so a burst of corrupted symbols (a cough, a drum hit)
+ * is spread over several codewords instead of overwhelming one.
+ */
+
+const FIELD_SIZE = 255;
+const PRIMITIVE_POLYNOMIAL = 0x11d;
+
+const EXP = new Uint8Array(FIELD_SIZE * 2);
+const LOG = new Uint8Array(FIELD_SIZE + 1);
+
+let value = 1;
+for (let i = 0; i < FIELD_SIZE; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  value <<= 1;
+  if (value & 0x100) value ^= PRIMITIVE_POLYNOMIAL;
+}
+for (let i = FIELD_SIZE; i < FIELD_SIZE * 2; i++) {
+  EXP[i] = EXP[i - FIELD_SIZE];
+}
+
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const gfDiv = (a: number, b: number) => (a === 0 ? 0 : EXP[(LOG[a] + FIELD_SIZE - LOG[b]) % FIELD_SIZE]);
+const gfInverse = (a: number) => EXP[FIELD_SIZE - LOG[a]];
+
+// Polynomials below are lowest degree first: p[0] + p[1]x + p[2]x² ...
+const evaluate = (poly: number[], x: number) => {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ poly[i];
+  }
+  return result;
+};
+
+const generatorCache = new Map<number, number[]>();
+
+// g(x) = (x - α⁰)(x - α¹)...(x - α^(n-1)), highest degree first for the encoder's long division
+const generatorPolynomial = (parityBytes: number) => {
+  const cached = generatorCache.get(parityBytes);
+  if (cached) return cached;
+
+  let generator = [1];
+  for (let i = 0; i < parityBytes; i++) {
+    const next = new Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, j) => {
+      next[j] ^= coefficient;
+      next[j + 1] ^= gfMul(coefficient, EXP[i]);
+    });
+    generator = next;
+  }
+
+  generatorCache.set(parityBytes, generator);
+  return generator;
+};
+
+/**
+ * Systematic encoding: the message followed by parityBytes of remainder
+ */
+export function rsEncode(message: Uint8Array, parityBytes: number): Uint8Array {
+  if (message.length + parityBytes > FIELD_SIZE) {
+    throw new Error(`Reed-Solomon block too long: ${message.length + parityBytes} bytes`);
+  }
+
+  const generator = generatorPolynomial(parityBytes);
+  const codeword = new Uint8Array(message.length + parityBytes);
+  codeword.set(message);
+
+  for (let i = 0; i < message.length; i++) {
+    const coefficient = codeword[i];
+    if (coefficient === 0) continue;
+    for (let j = 1; j < generator.length; j++) {
+      codeword[i + j] ^= gfMul(generator[j], coefficient);
+    }
+  }
+
+  codeword.set(message);
+  return codeword;
+}
+
+// Byte i of a codeword is the coefficient of x^(length - 1 - i)
+const syndromes = (codeword: Uint8Array, parityBytes: number) =>
+  Array.from({ length: parityBytes }, (_, i) => {
+    let result = 0;
+    for (let j = 0; j < codeword.length; j++) {
+      result = gfMul(result, EXP[i]) ^ codeword[j];
+    }
+    return result;
+  });
+
+/**
+ * Corrects up to parityBytes / 2 corrupted bytes in place (Berlekamp-Massey, Chien search, Forney).
+ * Returns how many bytes were corrected, or null when the block is beyond repair.
+ */
+export function rsDecode(codeword: Uint8Array, parityBytes: number): number | null {
+  const syndrome = syndromes(codeword, parityBytes);
+  if (syndrome.every(s => s === 0)) return 0;
+
+  // Error locator Λ(x)
+  let locator = [1];
+  let previous = [1];
+  let errorCount = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+
+  for (let n = 0; n < parityBytes; n++) {
+    let discrepancy = syndrome[n];
+    for (let i = 1; i <= errorCount; i++) {
+      discrepancy ^= gfMul(locator[i] ?? 0, syndrome[n - i]);
+    }
+
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const scale = gfDiv(discrepancy, previousDiscrepancy);
+    const next = locator.slice();
+    previous.forEach((coefficient, i) => {
+      while (next.length <= i + shift) next.push(0);
+      next[i + shift] ^= gfMul(scale, coefficient);
+    });
+
+    if (2 * errorCount <= n) {
+      previous = locator;
+      errorCount = n + 1 - errorCount;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+
+  while (locator.length > 1 && locator[locator.length - 1] === 0) locator.pop();
+  if (locator.length - 1 !== errorCount || 2 * errorCount > parityBytes) return null;
+
+  // Chien search: byte i is wrong when Λ(α^-(length - 1 - i)) = 0
+  const positions: number[] = [];
+  for (let i = 0; i < codeword.length; i++) {
+    const power = codeword.length - 1 - i;
+    if (evaluate(locator, gfInverse(EXP[power])) === 0) positions.push(i);
+  }
+  if (positions.length !== errorCount) return null;
+
+  // Forney: e = X·Ω(X⁻¹) / Λ'(X⁻¹) with Ω(x) = S(x)Λ(x) mod x^parityBytes
+  const evaluator = new Array<number>(parityBytes).fill(0);
+  for (let i = 0; i < parityBytes; i++) {
+    for (let j = 0; j < locator.length && i + j < parityBytes; j++) {
+      evaluator[i + j] ^= gfMul(syndrome[i], locator[j]);
+    }
+  }
+  const derivative = locator.map((coefficient, i) => (i % 2 === 1 ? coefficient : 0)).slice(1);
+
+  for (const position of positions) {
+    const x = EXP[codeword.length - 1 - position];
+    const xInverse = gfInverse(x);
+    const denominator = evaluate(derivative, xInverse);
+    if (denominator === 0) return null;
+    codeword[position] ^= gfMul(x, gfDiv(evaluate(evaluator, xInverse), denominator));
+  }
+
+  return syndromes(codeword, parityBytes).every(s => s === 0) ? positions.length : null;
+}
+
+export interface FecLayout {
+  blocks: number;
+  dataPerBlock: number;
+  codewordLength: number;
+  encodedLength: number;
+}
+
+/**
+ * Splits the payload into equally sized shortened codewords (≤ 255 bytes each)
+ */
+export function fecLayout(length: number, parityBytes: number): FecLayout {
+  const blocks = Math.max(1, Math.ceil(length / (FIELD_SIZE - parityBytes)));
+  const dataPerBlock = Math.max(1, Math.ceil(length / blocks));
+  const codewordLength = dataPerBlock + parityBytes;
+  return { blocks, dataPerBlock, codewordLength, encodedLength: blocks * codewordLength };
+}
+
+/**
+ * Encodes and interleaves: byte j of every codeword is sent before byte j + 1 of any
+ */
+export function encodeFEC(data: Uint8Array, parityBytes: number): Uint8Array {
+  const layout = fecLayout(data.length, parityBytes);
+  const encoded = new Uint8Array(layout.encodedLength);
+
+  for (let block = 0; block < layout.blocks; block++) {
+    const message = new Uint8Array(layout.dataPerBlock);
+    message.set(data.subarray(block * layout.dataPerBlock, (block + 1) * layout.dataPerBlock));
+    const codeword = rsEncode(message, parityBytes);
+    codeword.forEach((byte, j) => {
+      encoded[j * layout.blocks + block] = byte;
+    });
+  }
+
+  return encoded;
+}
+
+export interface FecDecodeResult {
+  data: Uint8Array;
+  blocks: number;
+  correctedBytes: number;
+  failedBlocks: number;
+}
+
+/**
+ * Reverses encodeFEC. Blocks beyond repair are passed through uncorrected
+ * so the caller's checksum decides whether the payload is usable.
+ */
+export function decodeFEC(encoded: Uint8Array, parityBytes: number, length: number): FecDecodeResult {
+  const layout = fecLayout(length, parityBytes);
+  const data = new Uint8Array(layout.blocks * layout.dataPerBlock);
+  let correctedBytes = 0;
+  let failedBlocks = 0;
+
+  for (let block = 0; block < layout.blocks; block++) {
+    const codeword = new Uint8Array(layout.codewordLength);
+    for (let j = 0; j < layout.codewordLength; j++) {
+      codeword[j] = encoded[j * layout.blocks + block] ?? 0;
+    }
+
+    const corrected = rsDecode(codeword, parityBytes);
+    if (corrected === null) failedBlocks++;
+    else correctedBytes += corrected;
+
+    data.set(codeword.subarray(0, layout.dataPerBlock), block * layout.dataPerBlock);
+  }
+
+  return { data: data.slice(0, length), blocks: layout.blocks, correctedBytes, failedBlocks };
+}
@@ -0,0 +1,309 @@
+import { encodeFEC, fecLayout, rsDecode, rsEncode } from '@/utils/ultrasonicFec';
+
+/**
+ * Base FSK parameters shared by the generator and the decoder (ultrasonicDecoder.ts).
+ * The preamble, sync timestamp, frame header and sync markers always use them, so any
+ * receiver can find a transmission and learn which modem profile carries the payload.
+ */
+export const ULTRASONIC_PROTOCOL = {
+  markFrequency: 18500,  // binary 1
+  spaceFrequency: 17500, // binary 0
+  bitsPerSecond: 20,
+  leadInSeconds: 2,      // silence added before the song for app preparation
+  preambleStart: 0.5,    // seconds of silence before the preamble
+  preambleSeconds: 3,
+  syncPauseSeconds: 0.1, // gap between the sync timestamp, the header and the payload
+  postambleSeconds: 0.5,
+  syncIntervalSeconds: 10
+} as const;
+
+export type ModemProfileId = 'robust' | 'standard' | 'fast';
+
+export interface ModemProfile {
+  id: ModemProfileId;
+  code: number;             // First header byte
+  label: string;
+  description: string;
+  modulation: 'mfsk' | 'chirp';
+  symbolRate: number;       // Symbols per second
+  channels: number;         // mfsk: parallel sub-bands, each sounding one of its tones per symbol
+  bitsPerSymbol: 1 | 2 | 4 | 8;
+  tones: number[];          // mfsk: the tones of every channel, lowest band first; chirp: [low, high] of the sweep
+  hopsPerSymbol: number;    // Demodulator resolution: one hop must be long enough to separate adjacent tones
+  gain: number;             // Total amplitude, shared by the channels
+  parityBytes: number;      // Reed-Solomon parity per codeword (corrects half as many bytes)
+}
+
+const toneLadder = (base: number, spacing: number, count: number) =>
+  Array.from({ length: count }, (_, index) => base + index * spacing);
+
+export const MODEM_PROFILES: Record<ModemProfileId, ModemProfile> = {
+  robust: {
+    id: 'robust',
+    code: 0xA1,
+    label: 'Robusto',
+    description: 'Chirps de 17 a 19kHz e correção forte. Para estádios e ambientes ruidosos.',
+    modulation: 'chirp',
+    symbolRate: 40,
+    channels: 1,
+    bitsPerSymbol: 1,
+    tones: [17000, 19000],
+    hopsPerSymbol: 10,
+    gain: 0.1,
+    parityBytes: 64
+  },
+  standard: {
+    id: 'standard',
+    code: 0xA2,
+    label: 'Padrão',
+    description: 'Dois tons simultâneos com correção de erros. Equilíbrio entre alcance e capacidade.',
+    modulation: 'mfsk',
+    symbolRate: 25,
+    channels: 2,
+    bitsPerSymbol: 4,
+    tones: toneLadder(17000, 250, 8),
+    hopsPerSymbol: 10,
+    gain: 0.1,
+    parityBytes: 32
+  },
+  fast: {
+    id: 'fast',
+    code: 0xA3,
+    label: 'Rápido',
+    description: 'Quatro tons simultâneos, um byte por símbolo. Cabe timelines grandes, mas pede sinal limpo.',
+    modulation: 'mfsk',
+    symbolRate: 25,
+    channels: 4,
+    bitsPerSymbol: 8,
+    tones: toneLadder(17000, 125, 16),
+    hopsPerSymbol: 5,
+    gain: 0.12,
+    parityBytes: 16
+  }
+};
+
+// Most robust first
+export const MODEM_PROFILE_IDS: ModemProfileId[] = ['robust', 'standard', 'fast'];
+export const DEFAULT_MODEM_PROFILE: ModemProfileId = 'standard';
+
+export const MAX_FRAME_PAYLOAD_BYTES = 0xFFFF;
+
+// Header (base FSK): profile code and payload length, protected by its own Reed-Solomon parity
+const HEADER_PARITY_BYTES = 4;
+export const HEADER_BYTES = 3 + HEADER_PARITY_BYTES;
+export const SYNC_TIMESTAMP_DIGITS = 13; // Date.now().toString()
+
+export const profileBitRate = (profile: ModemProfile) => profile.symbolRate * profile.bitsPerSymbol;
+
+export const symbolsPerByte = (profile: ModemProfile) => 8 / profile.bitsPerSymbol;
+
+export const tonesPerChannel = (profile: ModemProfile) => profile.tones.length / profile.channels;
+
+/**
+ * Tone each channel sounds for a symbol value; channel c carries the c-th group of bits
+ */
+export function symbolTones(symbol: number, profile: ModemProfile): number[] {
+  const perChannel = tonesPerChannel(profile);
+  const bitsPerChannel = profile.bitsPerSymbol / profile.channels;
+  return Array.from({ length: profile.channels }, (_, channel) => {
+    const value = (symbol >> (channel * bitsPerChannel)) & (perChannel - 1);
+    return profile.tones[channel * perChannel + value];
+  });
+}
+
+export const getProfileByCode = (code: number) =>
+  MODEM_PROFILE_IDS.map(id => MODEM_PROFILES[id]).find(profile => profile.code === code) ?? null;
+
+export function encodeFrameHeader(profile: ModemProfile, payloadLength: number): Uint8Array {
+  return rsEncode(Uint8Array.of(profile.code, payloadLength & 0xFF, payloadLength >> 8), HEADER_PARITY_BYTES);
+}
+
+export function decodeFrameHeader(bytes: number[]): { profile: ModemProfile; payloadLength: number } | null {
+  if (bytes.length !== HEADER_BYTES) return null;
+
+  const codeword = Uint8Array.from(bytes);
+  if (rsDecode(codeword, HEADER_PARITY_BYTES) === null) return null;
+
+  const profile = getProfileByCode(codeword[0]);
+  const payloadLength = codeword[1] | (codeword[2] << 8);
+  return profile && payloadLength > 0 ? { profile, payloadLength } : null;
+}
+
+// Bytes are sent least significant bits first, bitsPerSymbol at a time
+export function bytesToSymbols(bytes: Uint8Array, profile: ModemProfile): number[] {
+  const mask = (1 << profile.bitsPerSymbol) - 1;
+  const symbols: number[] = [];
+  bytes.forEach(byte => {
+    for (let shift = 0; shift < 8; shift += profile.bitsPerSymbol) {
+      symbols.push((byte >> shift) & mask);
+    }
+  });
+  return symbols;
+}
+
+export function symbolsToBytes(symbols: number[], profile: ModemProfile): Uint8Array {
+  const perByte = symbolsPerByte(profile);
+  const bytes = new Uint8Array(Math.floor(symbols.length / perByte));
+  bytes.forEach((_, index) => {
+    let byte = 0;
+    for (let s = 0; s < perByte; s++) {
+      byte |= symbols[index * perByte + s] << (s * profile.bitsPerSymbol);
+    }
+    bytes[index] = byte;
+  });
+  return bytes;
+}
+
+/**
+ * Frequencies the demodulator watches: the tones themselves, or for chirps the centre
+ * of the slice of the sweep covered by each hop
+ */
+export function demodulatorFrequencies(profile: ModemProfile): number[] {
+  if (profile.modulation === 'mfsk') return profile.tones;
+
+  const [low, high] = profile.tones;
+  const slice = (high - low) / profile.hopsPerSymbol;
+  return Array.from({ length: profile.hopsPerSymbol }, (_, hop) => low + (hop + 0.5) * slice);
+}
+
+/**
+ * Hops of a symbol that are integrated; the edges are skipped so small misalignments
+ * do not leak the neighbouring symbols
+ */
+export function symbolWindow(profile: ModemProfile) {
+  const margin = Math.round(profile.hopsPerSymbol * 0.2);
+  return { start: margin, end: profile.hopsPerSymbol - margin };
+}
+
+const baseBitSeconds = 1 / ULTRASONIC_PROTOCOL.bitsPerSecond;
+
+// Seconds from the start of the preamble to the first payload symbol
+export const PAYLOAD_OFFSET_SECONDS =
+  ULTRASONIC_PROTOCOL.preambleSeconds +
+  (SYNC_TIMESTAMP_DIGITS + HEADER_BYTES) * 8 * baseBitSeconds +
+  ULTRASONIC_PROTOCOL.syncPauseSeconds * 2;
+
+export const payloadSeconds = (encodedLength: number, profile: ModemProfile) =>
+  (encodedLength * symbolsPerByte(profile)) / profile.symbolRate;
+
+export interface TransmissionPlan {
+  profile: ModemProfileId;
+  payloadBytes: number;
+  encodedBytes: number;
+  seconds: number;          // From the start of the file to the end of the postamble
+  availableSeconds: number; // Song plus lead-in silence
+  fits: boolean;
+}
+
+export function planTransmission(payloadLength: number, profile: ModemProfile, songDuration: number): TransmissionPlan {
+  const { encodedLength } = fecLayout(payloadLength, profile.parityBytes);
+  const seconds =
+    ULTRASONIC_PROTOCOL.preambleStart +
+    PAYLOAD_OFFSET_SECONDS +
+    payloadSeconds(encodedLength, profile) +
+    ULTRASONIC_PROTOCOL.postambleSeconds;
+  const availableSeconds = songDuration + ULTRASONIC_PROTOCOL.leadInSeconds;
+
+  return {
+    profile: profile.id,
+    payloadBytes: payloadLength,
+    encodedBytes: encodedLength,
+    seconds,
+    availableSeconds,
+    fits: payloadLength <= MAX_FRAME_PAYLOAD_BYTES && seconds <= availableSeconds
+  };
+}
+
+/**
+ * Most robust profile whose transmission fits in the song, or null when none does
+ */
+export const suggestModemProfile = (payloadLength: number, songDuration: number) =>
+  MODEM_PROFILE_IDS.find(id => planTransmission(payloadLength, MODEM_PROFILES[id], songDuration).fits) ?? null;
+
+/**
+ * Receives one tone of one channel: constant frequency, or a linear sweep to endFrequency.
+ * Everything but multi-channel payloads uses channel 0.
+ */
+export type ToneWriter = (channel: number, time: number, duration: number, frequency: number, endFrequency?: number) => void;
+
+export interface UltrasonicFrame {
+  payloadStart: number;
+  payloadEnd: number;
+  encodedBytes: number;
+  syncMarkers: number[];
+}
+
+/**
+ * Writes a whole transmission: preamble → sync timestamp → header → payload (profile
+ * modulation, FEC encoded) → postamble → periodic sync markers until 5s before the end
+ */
+export function writeUltrasonicFrame(
+  payload: Uint8Array,
+  profile: ModemProfile,
+  audioDuration: number,
+  write: ToneWriter,
+  timestamp = Date.now()
+): UltrasonicFrame {
+  if (payload.length === 0 || payload.length > MAX_FRAME_PAYLOAD_BYTES) {
+    throw new Error(`Payload of ${payload.length} bytes cannot be framed`);
+  }
+
+  const { markFrequency: mark, spaceFrequency: space, bitsPerSecond } = ULTRASONIC_PROTOCOL;
+  const encoder = new TextEncoder();
+  let time = ULTRASONIC_PROTOCOL.preambleStart;
+
+  const writeBits = (bits: number[]) => {
+    bits.forEach(bit => {
+      write(0, time, baseBitSeconds, bit ? mark : space);
+      time += baseBitSeconds;
+    });
+  };
+  const writeBytes = (bytes: Uint8Array) => {
+    bytes.forEach(byte => writeBits(Array.from({ length: 8 }, (_, bit) => (byte >> bit) & 1)));
+  };
+  const pattern = (count: number, bit: (index: number) => number) =>
+    Array.from({ length: Math.round(count) }, (_, index) => bit(index));
+
+  // Preamble: alternating, all 1s, all 0s, short alternating confirmation
+  const preambleBits = ULTRASONIC_PROTOCOL.preambleSeconds * bitsPerSecond;
+  writeBits([
+    ...pattern(preambleBits * 0.3, index => index % 2),
+    ...pattern(preambleBits * 0.3, () => 1),
+    ...pattern(preambleBits * 0.3, () => 0),
+    ...pattern(preambleBits * 0.1, index => index % 2)
+  ]);
+
+  writeBytes(encoder.encode(String(timestamp).padStart(SYNC_TIMESTAMP_DIGITS, '0')));
+  time += ULTRASONIC_PROTOCOL.syncPauseSeconds;
+  writeBytes(encodeFrameHeader(profile, payload.length));
+  time += ULTRASONIC_PROTOCOL.syncPauseSeconds;
+
+  const encoded = encodeFEC(payload, profile.parityBytes);
+  const payloadStart = time;
+  const symbolSeconds = 1 / profile.symbolRate;
+  const [low, high] = profile.tones;
+
+  bytesToSymbols(encoded, profile).forEach(symbol => {
+    if (profile.modulation === 'chirp') {
+      // Up-sweep for 1, down-sweep for 0
+      write(0, time, symbolSeconds, symbol ? low : high, symbol ? high : low);
+    } else {
+      symbolTones(symbol, profile).forEach((tone, channel) => write(channel, time, symbolSeconds, tone));
+    }
+    time += symbolSeconds;
+  });
+  const payloadEnd = time;
+
+  writeBits(pattern(ULTRASONIC_PROTOCOL.postambleSeconds * bitsPerSecond, () => 1));
+
+  const syncMarkers: number[] = [];
+  time += ULTRASONIC_PROTOCOL.syncIntervalSeconds;
+  while (time < audioDuration - 5) {
+    writeBits(pattern(0.2 * bitsPerSecond, index => index % 2));
+    syncMarkers.push(time);
+    writeBytes(encoder.encode(JSON.stringify({ t: time, c: "sync" })));
+    time += ULTRASONIC_PROTOCOL.syncIntervalSeconds;
+  }
+
+  return { payloadStart, payloadEnd, encodedBytes: encoded.length, syncMarkers };
+}
@@ -1,4 +1,5 @@
 import { unifiedWebSocketService } from '@/services/UnifiedWebSocketService';
+import { roomService } from '@/services/RoomService';
 import { ConnectionHandler } from './ConnectionHandler';
 import { SignalingHandler } from './SignalingHandler';
 import { ParticipantManager } from './ParticipantManager';
@@ -212,7 +213,10 @@ export class UnifiedWebRTCManager {
 
       await unifiedWebSocketService.connect();
       console.log(`🚪 CALLBACK-CRÍTICO: Aguardando confirmação de entrada na sala: ${sessionId}`);
-      await unifiedWebSocketService.joinRoom(sessionId, participantId);
+      await unifiedWebSocketService.joinRoom(sessionId, participantId, {
+        joinToken: roomService.getJoinToken(sessionId)?.token,
+        name: roomService.getDisplayName()
+      });
       
       this.webrtcReady = true;
       console.log(`✅ CALLBACK-CRÍTICO: Confirmação de entrada recebida, WebRTC pronto`);
@@ -284,7 +288,8 @@ export class UnifiedWebRTCManager {
       this.setupWebSocketCallbacks();
       
       await unifiedWebSocketService.connect();
-      await unifiedWebSocketService.joinRoom(sessionId, 'host');
+      const hostAuth = await roomService.getHostAuth(sessionId);
+      await unifiedWebSocketService.joinRoom(sessionId, 'host', { role: 'host', hostAuth });
       
       this.webrtcReady = true;
       console.log(`✅ [HOST] WebRTC ready for session: ${sessionId}`);
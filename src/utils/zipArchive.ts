@@ -0,0 +1,157 @@
+// ZIP sem compressão (método "store"): os vídeos já são comprimidos, então só empacotamos.
+// Arquivos e pacotes acima de 4 GB usam os registros ZIP64 (takes multicâmera passam disso)
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  modifiedAt?: Date;
+}
+
+const CRC_SLICE_BYTES = 16 * 1024 * 1024;
+// Valores a partir daqui não cabem nos campos de 32/16 bits e vão para os registros ZIP64
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_COUNT_LIMIT = 0xffff;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, bytes: Uint8Array) => {
+  let value = crc;
+  for (let i = 0; i < bytes.length; i++) {
+    value = CRC_TABLE[(value ^ bytes[i]) & 0xff] ^ (value >>> 8);
+  }
+  return value;
+};
+
+// Lê o blob em fatias para não carregar vídeos longos inteiros na memória
+const blobCrc32 = async (blob: Blob) => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_SLICE_BYTES) {
+    const slice = await blob.slice(offset, offset + CRC_SLICE_BYTES).arrayBuffer();
+    crc = updateCrc32(crc, new Uint8Array(slice));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Campo extra ZIP64 (id 0x0001) com os valores de 64 bits, na ordem da especificação
+const zip64Extra = (values: number[]) => {
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, 0x0001, true);
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, index) => extra.setBigUint64(4 + index * 8, BigInt(value), true));
+  return new Uint8Array(extra.buffer);
+};
+
+const clamp32 = (value: number) => Math.min(value, ZIP64_LIMIT);
+
+/**
+ * Monta um .zip a partir dos blobs, sem copiar o conteúdo dos arquivos
+ */
+export async function createZipArchive(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = await blobCrc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const size = entry.data.size;
+
+    // No cabeçalho local o ZIP64 leva os dois tamanhos; no diretório central, só os campos estourados
+    const largeFile = size >= ZIP64_LIMIT;
+    const localExtra = largeFile ? zip64Extra([size, size]) : new Uint8Array(0);
+    const centralExtraValues = [
+      ...(largeFile ? [size, size] : []),
+      ...(offset >= ZIP64_LIMIT ? [offset] : [])
+    ];
+    const centralExtra = centralExtraValues.length ? zip64Extra(centralExtraValues) : new Uint8Array(0);
+    const version = centralExtraValues.length ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, largeFile ? VERSION_ZIP64 : VERSION_DEFAULT, true); // versão necessária
+    local.setUint16(6, 0x0800, true);      // nomes em UTF-8
+    local.setUint16(8, 0, true);           // store
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, clamp32(size), true);
+    local.setUint32(22, clamp32(size), true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, localExtra.length, true);
+    parts.push(local.buffer, name, localExtra, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, version, true);
+    central.setUint16(6, version, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, clamp32(size), true);
+    central.setUint32(24, clamp32(size), true);
+    central.setUint16(28, name.length, true);
+    central.setUint16(30, centralExtra.length, true);
+    central.setUint32(42, clamp32(offset), true);
+    const centralEntry = new Uint8Array(46 + name.length + centralExtra.length);
+    centralEntry.set(new Uint8Array(central.buffer), 0);
+    centralEntry.set(name, 46);
+    centralEntry.set(centralExtra, 46 + name.length);
+    centralDirectory.push(centralEntry);
+
+    offset += 30 + name.length + localExtra.length + size;
+  }
+
+  const directorySize = centralDirectory.reduce((total, item) => total + item.length, 0);
+  const tail: ArrayBuffer[] = [];
+
+  const needsZip64 = offset >= ZIP64_LIMIT || directorySize >= ZIP64_LIMIT || entries.length >= ZIP64_COUNT_LIMIT;
+  if (needsZip64) {
+    // Registro de fim ZIP64 e o localizador que aponta para ele
+    const zip64End = new DataView(new ArrayBuffer(56));
+    zip64End.setUint32(0, 0x06064b50, true);
+    zip64End.setBigUint64(4, BigInt(56 - 12), true);
+    zip64End.setUint16(12, VERSION_ZIP64, true);
+    zip64End.setUint16(14, VERSION_ZIP64, true);
+    zip64End.setBigUint64(24, BigInt(entries.length), true);
+    zip64End.setBigUint64(32, BigInt(entries.length), true);
+    zip64End.setBigUint64(40, BigInt(directorySize), true);
+    zip64End.setBigUint64(48, BigInt(offset), true);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064b50, true);
+    locator.setBigUint64(8, BigInt(offset + directorySize), true);
+    locator.setUint32(16, 1, true);
+    tail.push(zip64End.buffer, locator.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Math.min(entries.length, ZIP64_COUNT_LIMIT), true);
+  end.setUint16(10, Math.min(entries.length, ZIP64_COUNT_LIMIT), true);
+  end.setUint32(12, clamp32(directorySize), true);
+  end.setUint32(16, clamp32(offset), true);
+  tail.push(end.buffer);
+
+  return new Blob([...parts, ...centralDirectory, ...tail], { type: 'application/zip' });
+}
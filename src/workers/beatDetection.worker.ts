@@ -0,0 +1,34 @@
+import { analyzeBeats } from '@/utils/beatDetection';
+import { BeatDetectionResult } from '@/types/lightshow';
+
+export interface BeatDetectionRequest {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type BeatDetectionMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: BeatDetectionResult }
+  | { type: 'error'; message: string };
+
+// tsconfig has no WebWorker lib, so the worker scope is typed by hand
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<BeatDetectionRequest>) => void) | null;
+  postMessage: (message: BeatDetectionMessage) => void;
+};
+
+workerScope.onmessage = (event) => {
+  const { samples, sampleRate } = event.data;
+
+  try {
+    const result = analyzeBeats(samples, sampleRate, progress => {
+      workerScope.postMessage({ type: 'progress', progress });
+    });
+    workerScope.postMessage({ type: 'result', result });
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,44 @@
+-- Quizzes preparados pelos produtores antes do evento (QuizPage)
+CREATE TABLE IF NOT EXISTS public.quizzes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  prompt TEXT NOT NULL DEFAULT '',
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_option_id TEXT,
+  time_limit_seconds INTEGER NOT NULL DEFAULT 30 CHECK (time_limit_seconds > 0),
+  points INTEGER NOT NULL DEFAULT 100 CHECK (points >= 0),
+  image_url TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quizzes_owner_id_idx ON public.quizzes (owner_id);
+CREATE INDEX IF NOT EXISTS quiz_questions_quiz_id_position_idx ON public.quiz_questions (quiz_id, position);
+
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+
+-- Cada produtor só enxerga e edita os próprios quizzes
+CREATE POLICY "Owners manage their quizzes" ON public.quizzes
+  FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their quiz questions" ON public.quiz_questions
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.quizzes q WHERE q.id = quiz_id AND q.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.quizzes q WHERE q.id = quiz_id AND q.owner_id = auth.uid()
+  ));
@@ -0,0 +1,21 @@
+-- Imagens e manifestos dos shows de luzes: os celulares baixam sem login a partir do showId
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lightshow-assets', 'lightshow-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read light show assets" ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'lightshow-assets');
+
+-- Arquivos em assets/ são nomeados pelo hash do conteúdo, então só é preciso criar
+CREATE POLICY "Authenticated users upload light show assets" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'lightshow-assets');
+
+-- O manifesto é regravado quando o mesmo show é exportado de novo
+CREATE POLICY "Owners update light show manifests" ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'lightshow-assets' AND owner = auth.uid() AND name LIKE 'shows/%')
+  WITH CHECK (bucket_id = 'lightshow-assets' AND owner = auth.uid() AND name LIKE 'shows/%');
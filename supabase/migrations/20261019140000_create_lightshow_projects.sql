@@ -0,0 +1,58 @@
+-- Projetos do editor de show de luzes salvos na nuvem (o autosave fica no IndexedDB do navegador)
+CREATE TABLE IF NOT EXISTS public.lightshow_projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  show_name TEXT NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Versões nomeadas: cópia completa do projeto no momento em que foi salva
+CREATE TABLE IF NOT EXISTS public.lightshow_project_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.lightshow_projects(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lightshow_projects_owner_id_idx ON public.lightshow_projects (owner_id);
+CREATE INDEX IF NOT EXISTS lightshow_project_versions_project_id_idx ON public.lightshow_project_versions (project_id, created_at);
+
+ALTER TABLE public.lightshow_projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lightshow_project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their light show projects" ON public.lightshow_projects
+  FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their light show project versions" ON public.lightshow_project_versions
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.lightshow_projects p WHERE p.id = project_id AND p.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.lightshow_projects p WHERE p.id = project_id AND p.owner_id = auth.uid()
+  ));
+
+-- Mídias dos projetos (áudio e imagens), privadas e nomeadas por hash em <user id>/<hash>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lightshow-projects', 'lightshow-projects', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners read their light show project media" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'lightshow-projects' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Owners upload their light show project media" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'lightshow-projects' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Owners delete their light show project media" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'lightshow-projects' AND (storage.foldername(name))[1] = auth.uid()::text);
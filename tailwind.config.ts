@@ -103,6 +103,15 @@ export default {
           '100%': {
             opacity: '0'
           }
+        },
+        // Ticker do telão: parte da borda direita da faixa e sai inteiro pela esquerda
+        'ticker-scroll': {
+          '0%': {
+            transform: 'translateX(0)'
+          },
+          '100%': {
+            transform: 'translateX(calc(-100% - 100cqw))'
+          }
         }
       },
       animation: {
@@ -110,7 +119,8 @@ export default {
         'accordion-up': 'accordion-up 0.2s ease-out',
         'pulse': 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
         'fade-in': 'fade-in 0.5s ease-out',
-        'fade-out': 'fade-out 0.5s ease-out'
+        'fade-out': 'fade-out 0.5s ease-out',
+        'ticker-scroll': 'ticker-scroll 20s linear infinite'
       }
     }
   },